@@ -38,6 +38,9 @@ export interface Args {
 	themes?: string[];
 	noThemes?: boolean;
 	listModels?: string | true;
+	memoryExport?: string | true;
+	memoryImport?: string;
+	dryRun?: boolean;
 	verbose?: boolean;
 	messages: string[];
 	fileArgs: string[];
@@ -149,6 +152,17 @@ export function parseArgs(args: string[], extensionFlags?: Map<string, { type: "
 			} else {
 				result.listModels = true;
 			}
+		} else if (arg === "--memory-export") {
+			// Optional output file (not a flag or file arg)
+			if (i + 1 < args.length && !args[i + 1].startsWith("-") && !args[i + 1].startsWith("@")) {
+				result.memoryExport = args[++i];
+			} else {
+				result.memoryExport = true;
+			}
+		} else if (arg === "--memory-import" && i + 1 < args.length) {
+			result.memoryImport = args[++i];
+		} else if (arg === "--dry-run") {
+			result.dryRun = true;
 		} else if (arg === "--verbose") {
 			result.verbose = true;
 		} else if (arg.startsWith("@")) {
@@ -216,6 +230,9 @@ ${chalk.bold("Options:")}
   --no-themes                    Disable theme discovery and loading
   --export <file>                Export session file to HTML and exit
   --list-models [search]         List available models (with optional fuzzy search)
+  --memory-export [file]         Export memories to a portable bundle and exit
+  --memory-import <file>         Import a memory bundle into the memory scope and exit
+  --dry-run                      With --memory-import, show what would be imported without writing
   --verbose                      Force verbose startup (overrides quietStartup setting)
   --help, -h                     Show this help
   --version, -v                  Show version number
@@ -269,6 +286,10 @@ ${chalk.bold("Examples:")}
   ${APP_NAME} --export ~/${CONFIG_DIR_NAME}/agent/sessions/--path--/session.jsonl
   ${APP_NAME} --export session.jsonl output.html
 
+  # Move memories to another machine
+  ${APP_NAME} --memory-export memories.json
+  ${APP_NAME} --memory-import memories.json --dry-run
+
 ${chalk.bold("Environment Variables:")}
   ANTHROPIC_API_KEY                - Anthropic Claude API key
   ANTHROPIC_OAUTH_TOKEN            - Anthropic OAuth token (alternative to API key)
@@ -0,0 +1,58 @@
+/**
+ * Export and import memories from the command line (--memory-export, --memory-import)
+ */
+
+import { resolve } from "node:path";
+import {
+	applyMemoryStorageFormat,
+	createMemoryRedactor,
+	exportMemories,
+	FileMemoryBackend,
+	formatMemoryImportDiff,
+	getDefaultMemoryExportFile,
+	importMemories,
+	readMemoryBundle,
+	resolveMemoryLayers,
+	resolveMemoryScope,
+} from "../core/memory/index.js";
+import type { SettingsManager } from "../core/settings-manager.js";
+
+/**
+ * Export the memories visible from the configured layers to a bundle file
+ * @returns Path of the written file
+ */
+export async function runMemoryExport(cwd: string, settingsManager: SettingsManager, file?: string): Promise<string> {
+	const filepath = resolve(cwd, file ?? getDefaultMemoryExportFile());
+	await applyMemoryStorageFormat(
+		cwd,
+		resolveMemoryScope(cwd, settingsManager.getMemoryScope()),
+		settingsManager.getMemoryBackend(),
+	);
+	const layers = resolveMemoryLayers(cwd, settingsManager.getMemoryLayers());
+	const bundle = await exportMemories(new FileMemoryBackend(cwd), layers, filepath, cwd);
+	const count = (bundle.procedural?.length ?? 0) + (bundle.episodic?.length ?? 0) + (bundle.semantic?.length ?? 0);
+	console.log(`Exported ${count} memories from ${layers.join(", ")} to: ${filepath}`);
+	return filepath;
+}
+
+/**
+ * Import a bundle file into the configured memory scope and print the diff.
+ * With dryRun, only prints what would be imported.
+ */
+export async function runMemoryImport(
+	cwd: string,
+	settingsManager: SettingsManager,
+	file: string,
+	dryRun = false,
+): Promise<void> {
+	const bundle = readMemoryBundle(resolve(cwd, file));
+	const scope = resolveMemoryScope(cwd, settingsManager.getMemoryScope());
+	await applyMemoryStorageFormat(cwd, scope, settingsManager.getMemoryBackend());
+	const redactor = createMemoryRedactor(settingsManager.getMemoryRedactionSettings());
+	const result = await importMemories(new FileMemoryBackend(cwd), scope, bundle, {
+		dryRun,
+		redactor,
+		author: { kind: "import", name: file },
+	});
+	console.log(formatMemoryImportDiff(result));
+}
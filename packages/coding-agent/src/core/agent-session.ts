@@ -31,6 +31,7 @@ import { stripFrontmatter } from "../utils/frontmatter.js";
 import { sleep } from "../utils/sleep.js";
 import { type BashResult, executeBash as executeBashCommand, executeBashWithOperations } from "./bash-executor.js";
 import {
+	type CompactionMemoryHarvester,
 	type CompactionResult,
 	calculateContextTokens,
 	collectEntriesForBranchSummary,
@@ -50,6 +51,7 @@ import {
 	ExtensionRunner,
 	type ExtensionUIContext,
 	type InputSource,
+	type MemoryChangeSource,
 	type MessageEndEvent,
 	type MessageStartEvent,
 	type MessageUpdateEvent,
@@ -69,7 +71,50 @@ import {
 	wrapRegisteredTools,
 	wrapToolsWithExtensions,
 } from "./extensions/index.js";
-import { getSessionId as getMemorySessionId, resolveMemoryScope } from "./memory.js";
+import {
+	type ConsolidationResult,
+	confirmMemoryChange,
+	createMemoryContextMessage,
+	createMemoryEmbedder,
+	createMemoryRedactor,
+	dedupeHarvestedMemories,
+	distillRecording,
+	expandProcedureCommand,
+	FileMemoryBackend,
+	findBackendEntry,
+	findMemoryCitations,
+	formatMemoryRedactions,
+	getAttachedMemoryIds,
+	getMemoryActivationContext,
+	getPublishedMemoryKeys,
+	getRecentlyTouchedFiles,
+	type HarvestedMemory,
+	harvestMemories,
+	isMemoryActive,
+	judgeMemoryConflicts,
+	loadBackendEntries,
+	type MemoryApprovalDecision,
+	type MemoryBackend,
+	type MemoryChangeRequest,
+	type MemoryConflict,
+	type MemoryEmbedder,
+	type MemoryEntry,
+	type MemoryOrigin,
+	type MemoryRedactor,
+	type MemoryScope,
+	proposeMemoryConsolidation,
+	type RecordedStep,
+	type RecordingDistillResult,
+	ReviewedMemoryBackend,
+	recordMemoryUsage,
+	redactMemory,
+	resolveMemoryLayers,
+	resolveMemoryScope,
+	type SemanticMemoryCandidate,
+	saveCapturedEpisode,
+	selectRelevantMemories,
+	summarizeEpisode,
+} from "./memory/index.js";
 import type { BashExecutionMessage, CustomMessage } from "./messages.js";
 import type { ModelRegistry } from "./model-registry.js";
 import { expandPromptTemplate, type PromptTemplate } from "./prompt-templates.js";
@@ -79,9 +124,14 @@ import { getLatestCompactionEntry } from "./session-manager.js";
 import type { SettingsManager } from "./settings-manager.js";
 import { BUILTIN_SLASH_COMMANDS, type SlashCommandInfo, type SlashCommandLocation } from "./slash-commands.js";
 import { buildSystemPrompt } from "./system-prompt.js";
+import { createTimeContextMessage } from "./time-awareness.js";
 import type { BashOperations } from "./tools/bash.js";
-import { createAllTools } from "./tools/index.js";
-import { setMemoryToolContext } from "./tools/memory.js";
+import {
+	createAllTools,
+	createExtensionMemoryAPI,
+	type MemoryToolOptions,
+	saveHarvestedMemories,
+} from "./tools/index.js";
 
 // ============================================================================
 // Skill Block Parsing
@@ -122,7 +172,12 @@ export type AgentSessionEvent =
 			errorMessage?: string;
 	  }
 	| { type: "auto_retry_start"; attempt: number; maxAttempts: number; delayMs: number; errorMessage: string }
-	| { type: "auto_retry_end"; success: boolean; attempt: number; finalError?: string };
+	| { type: "auto_retry_end"; success: boolean; attempt: number; finalError?: string }
+	| { type: "memory_capture_start"; reason: EpisodeCaptureReason }
+	| { type: "memory_capture_end"; episodeId?: string; aborted: boolean; errorMessage?: string };
+
+/** What triggered an automatic episodic memory capture */
+export type EpisodeCaptureReason = "new" | "shutdown" | "idle";
 
 /** Listener function for agent session events */
 export type AgentSessionEventListener = (event: AgentSessionEvent) => void;
@@ -150,6 +205,14 @@ export interface AgentSessionConfig {
 	baseToolsOverride?: Record<string, AgentTool>;
 	/** Mutable ref used by Agent to access the current ExtensionRunner */
 	extensionRunnerRef?: { current?: ExtensionRunner };
+	/** Storage for memory tools, retrieval and episode capture. Default: the stores in the memory directories of cwd */
+	memoryBackend?: MemoryBackend;
+	/**
+	 * Memories of the configured layers in memoryBackend, for the system prompt to inline.
+	 * Reloaded from the backend on reload(). Default: read from the memory directories of cwd,
+	 * or none with a custom memoryBackend.
+	 */
+	memoryEntries?: MemoryEntry[];
 }
 
 export interface ExtensionBindings {
@@ -237,6 +300,17 @@ export class AgentSession {
 	// Branch summarization state
 	private _branchSummaryAbortController: AbortController | undefined = undefined;
 
+	// Memory consolidation state
+	private _memoryConsolidationAbortController: AbortController | undefined = undefined;
+	private _recordingDistillAbortController: AbortController | undefined = undefined;
+
+	// Episodic memory capture state
+	private _episodeCaptureAbortController: AbortController | undefined = undefined;
+	private _episodeIdleTimer: ReturnType<typeof setTimeout> | undefined = undefined;
+	/** Episode stored by the last capture, and the leaf it covered. Later captures of the same session replace it. */
+	private _capturedEpisode: { sessionId: string; scope: MemoryScope; id: string; leafId: string | null } | undefined =
+		undefined;
+
 	// Retry state
 	private _retryAbortController: AbortController | undefined = undefined;
 	private _retryAttempt = 0;
@@ -267,6 +341,14 @@ export class AgentSession {
 	// Model registry for API key resolution
 	private _modelRegistry: ModelRegistry;
 
+	// Embedder for semantic memory search
+	private _memoryEmbedder: MemoryEmbedder;
+
+	// Storage for memory tools, retrieval and episode capture
+	private _memoryBackend: MemoryBackend;
+	// Memories the system prompt inlines; undefined reads them from the memory directories
+	private _promptMemoryEntries?: MemoryEntry[];
+
 	// Tool registry for extension getTools/setTools
 	private _toolRegistry: Map<string, AgentTool> = new Map();
 
@@ -282,12 +364,11 @@ export class AgentSession {
 		this._customTools = config.customTools ?? [];
 		this._cwd = config.cwd;
 		this._modelRegistry = config.modelRegistry;
-
-		// Initialize memory tool context so memory tools know the working directory and scope
-		if (this.settingsManager.getMemoryEnabled()) {
-			const memoryScope = resolveMemoryScope(config.cwd, this.settingsManager.getMemoryScope());
-			setMemoryToolContext({ cwd: config.cwd, sessionId: getMemorySessionId(), scope: memoryScope });
-		}
+		this._memoryEmbedder = createMemoryEmbedder(this.settingsManager.getMemoryEmbeddingSettings(), (provider) =>
+			this._modelRegistry.getApiKeyForProvider(provider),
+		);
+		this._memoryBackend = config.memoryBackend ?? new FileMemoryBackend(config.cwd);
+		this._promptMemoryEntries = config.memoryEntries ?? (config.memoryBackend ? [] : undefined);
 		this._extensionRunnerRef = config.extensionRunnerRef;
 		this._initialActiveToolNames = config.initialActiveToolNames;
 		this._baseToolsOverride = config.baseToolsOverride;
@@ -307,6 +388,109 @@ export class AgentSession {
 		return this._modelRegistry;
 	}
 
+	/** Embedder used for semantic memory search */
+	get memoryEmbedder(): MemoryEmbedder {
+		return this._memoryEmbedder;
+	}
+
+	/** Storage used by the memory tools, retrieval and episode capture */
+	get memoryBackend(): MemoryBackend {
+		return this._memoryBackend;
+	}
+
+	/**
+	 * memoryBackend with each change reported to extensions as memory_before_write and memory_write
+	 * (source "command"), for /memory commands and imports run by the user
+	 */
+	get memoryCommandBackend(): MemoryBackend {
+		return this._getReviewedMemoryBackend("command");
+	}
+
+	/** Current session and leaf entry, recorded as the origin of memories written now */
+	private _getMemoryOrigin(): MemoryOrigin {
+		return {
+			sessionId: this.sessionManager.getSessionId(),
+			sessionFile: this.sessionManager.getSessionFile(),
+			entryId: this.sessionManager.getLeafId() ?? undefined,
+		};
+	}
+
+	/**
+	 * Let the current model confirm conflicts detected for a new memory (memory.conflicts.judge).
+	 * Without the setting, a model or an API key, the detected conflicts are kept as they are.
+	 */
+	private async _judgeMemoryConflicts(
+		candidate: SemanticMemoryCandidate,
+		conflicts: MemoryConflict[],
+		signal?: AbortSignal,
+	): Promise<MemoryConflict[]> {
+		const model = this.model;
+		if (!this.settingsManager.getMemoryConflictSettings().judge || !model) {
+			return conflicts;
+		}
+		const apiKey = await this._modelRegistry.getApiKey(model);
+		if (!apiKey) {
+			return conflicts;
+		}
+		return judgeMemoryConflicts(candidate, conflicts, { model, apiKey, signal });
+	}
+
+	/** Ask the user about a memory change from the model (memory.approval: "confirm") */
+	private _confirmMemoryChange(request: MemoryChangeRequest, signal?: AbortSignal): Promise<MemoryApprovalDecision> {
+		return confirmMemoryChange(this._extensionUIContext, request, signal);
+	}
+
+	/**
+	 * Compile memory.redaction. Done per write, so settings changes apply immediately.
+	 * @throws Error if a configured pattern is invalid
+	 */
+	private _getMemoryRedactor(): MemoryRedactor {
+		return createMemoryRedactor(this.settingsManager.getMemoryRedactionSettings());
+	}
+
+	/** Settings of the memory tools and pi.memory, with changes reported to extensions as coming from source */
+	private _getMemoryToolOptions(source: MemoryChangeSource): MemoryToolOptions {
+		return {
+			backend: this._memoryBackend,
+			scope: resolveMemoryScope(this._cwd, this.settingsManager.getMemoryScope()),
+			layers: resolveMemoryLayers(this._cwd, this.settingsManager.getMemoryLayers()),
+			embedder: this._memoryEmbedder,
+			getOrigin: () => this._getMemoryOrigin(),
+			detectConflicts: this.settingsManager.getMemoryConflictSettings().enabled,
+			judgeConflicts: (candidate, conflicts, signal) => this._judgeMemoryConflicts(candidate, conflicts, signal),
+			getApproval: () => this.settingsManager.getMemoryApproval(),
+			confirmChange: (request, signal) => this._confirmMemoryChange(request, signal),
+			getRedactor: () => this._getMemoryRedactor(),
+			beforeChange: async (change) =>
+				this._extensionRunner?.emitMemoryBeforeWrite({ type: "memory_before_write", change, source }),
+			afterChange: (change) => this._emitMemoryWrite(change, source),
+			recordUsage: async (entries) => this._queueMemoryUsage(entries),
+		};
+	}
+
+	/** The memory backend with changes reported to extensions as coming from source */
+	private _getReviewedMemoryBackend(source: MemoryChangeSource): MemoryBackend {
+		return new ReviewedMemoryBackend(this._memoryBackend, {
+			beforeChange: async (change) =>
+				this._extensionRunner?.emitMemoryBeforeWrite({ type: "memory_before_write", change, source }),
+			afterChange: (change) => this._emitMemoryWrite(change, source),
+		});
+	}
+
+	/** Emit memory_write with the stored memory */
+	private async _emitMemoryWrite(
+		change: MemoryChangeRequest & { id: string },
+		source: MemoryChangeSource,
+	): Promise<void> {
+		const runner = this._extensionRunner;
+		if (!runner?.hasHandlers("memory_write")) return;
+		const entry =
+			change.action === "delete"
+				? undefined
+				: await findBackendEntry(this._memoryBackend, [change.scope], change.id);
+		await runner.emit({ type: "memory_write", change, source, entry });
+	}
+
 	// =========================================================================
 	// Event Subscription
 	// =========================================================================
@@ -321,8 +505,24 @@ export class AgentSession {
 	// Track last assistant message for auto-compaction check
 	private _lastAssistantMessage: AssistantMessage | undefined = undefined;
 
+	// Memory uses not written yet; recorded together when the agent run ends (see _flushMemoryUsage)
+	private _pendingMemoryUses: MemoryEntry[] = [];
+
+	// Lookups of the memories replies cite and writes of the queued uses, in order; prompt() waits for them
+	private _memoryUsageWrites: Promise<void> = Promise.resolve();
+
 	/** Internal handler for agent events - shared by subscribe and reconnect */
 	private _handleAgentEvent = async (event: AgentEvent): Promise<void> => {
+		// Chained before anything is awaited, so prompt() waits for the usage of the run it started
+		if (event.type === "message_end" && event.message.role === "assistant") {
+			const message = event.message;
+			this._memoryUsageWrites = this._memoryUsageWrites
+				.then(() => this._queueMemoryCitations(message))
+				.catch(() => {});
+		} else if (event.type === "agent_end") {
+			this._memoryUsageWrites = this._memoryUsageWrites.then(() => this._flushMemoryUsage());
+		}
+
 		// When a user message starts, check if it's from either queue and remove it BEFORE emitting
 		// This ensures the UI sees the updated queue state
 		if (event.type === "message_start" && event.message.role === "user") {
@@ -401,6 +601,12 @@ export class AgentSession {
 
 			await this._checkCompaction(msg);
 		}
+
+		if (event.type === "agent_start") {
+			this._clearEpisodeIdleTimer();
+		} else if (event.type === "agent_end") {
+			this._scheduleEpisodeIdleCapture();
+		}
 	};
 
 	/** Resolve the pending retry promise */
@@ -549,6 +755,8 @@ export class AgentSession {
 	 * Call this when completely done with the session.
 	 */
 	dispose(): void {
+		this._clearEpisodeIdleTimer();
+		this._memoryUsageWrites = this._memoryUsageWrites.then(() => this._flushMemoryUsage());
 		this._disconnectFromAgent();
 		this._eventListeners = [];
 	}
@@ -687,6 +895,7 @@ export class AgentSession {
 			loaderAppendSystemPrompt.length > 0 ? loaderAppendSystemPrompt.join("\n\n") : undefined;
 		const loadedSkills = this._resourceLoader.getSkills().skills;
 		const loadedContextFiles = this._resourceLoader.getAgentsFiles().agentsFiles;
+		const timeAwareness = this.settingsManager.getTimeAwarenessSettings();
 
 		return buildSystemPrompt({
 			cwd: this._cwd,
@@ -697,9 +906,83 @@ export class AgentSession {
 			selectedTools: validToolNames,
 			memoryEnabled: this.settingsManager.getMemoryEnabled(),
 			memoryScope: resolveMemoryScope(this._cwd, this.settingsManager.getMemoryScope()),
+			memoryLayers: resolveMemoryLayers(this._cwd, this.settingsManager.getMemoryLayers()),
+			memoryEntries: this._promptMemoryEntries,
+			memoryRetrieval: this.settingsManager.getMemoryRetrievalSettings().enabled,
+			time: timeAwareness.enabled ? { timezone: timeAwareness.timezone, format: timeAwareness.format } : undefined,
+			timeContext: timeAwareness.enabled,
 		});
 	}
 
+	/** Queue a use of each memory, written with the others when the agent run ends */
+	private _queueMemoryUsage(entries: MemoryEntry[]): void {
+		this._pendingMemoryUses.push(...entries);
+	}
+
+	/**
+	 * Write the queued memory uses with one update per store (see recordMemoryUsage). Usage
+	 * statistics are best effort: a failed update is dropped rather than failing the run.
+	 */
+	private async _flushMemoryUsage(): Promise<void> {
+		const entries = this._pendingMemoryUses.splice(0);
+		if (entries.length === 0) return;
+		try {
+			await recordMemoryUsage(this._memoryBackend, entries);
+		} catch {
+			// Later uses are recorded again
+		}
+	}
+
+	/** Queue a use of each stored memory an assistant message cites as [id] */
+	private async _queueMemoryCitations(message: AssistantMessage): Promise<void> {
+		if (!this.settingsManager.getMemoryEnabled()) return;
+		const text = message.content
+			.filter((c) => c.type === "text")
+			.map((c) => c.text)
+			.join("\n");
+		const refs = findMemoryCitations(text);
+		if (refs.length === 0) return;
+		const layers = resolveMemoryLayers(this._cwd, this.settingsManager.getMemoryLayers());
+		const cited: MemoryEntry[] = [];
+		for (const ref of refs) {
+			const entry = await findBackendEntry(this._memoryBackend, layers, ref).catch(() => undefined);
+			if (entry) cited.push(entry);
+		}
+		this._queueMemoryUsage(cited);
+	}
+
+	/**
+	 * Build a hidden message attaching the memories most relevant to a prompt.
+	 * Memories already attached earlier in the current context or published unchanged in a
+	 * loaded context file are not repeated, and memories limited to other paths or branches
+	 * are left out (see isMemoryActive).
+	 */
+	private async _buildMemoryContextMessage(prompt: string): Promise<CustomMessage | undefined> {
+		if (!this.settingsManager.getMemoryEnabled()) return undefined;
+		const retrieval = this.settingsManager.getMemoryRetrievalSettings();
+		if (!retrieval.enabled) return undefined;
+
+		const layers = resolveMemoryLayers(this._cwd, this.settingsManager.getMemoryLayers());
+		const attached = getAttachedMemoryIds(this.agent.state.messages);
+		const activation = getMemoryActivationContext(this._cwd, getRecentlyTouchedFiles(this.agent.state.messages));
+		const entries = (await loadBackendEntries(this._memoryBackend, layers)).filter((e) =>
+			isMemoryActive(e, activation),
+		);
+		const contextFiles = this._resourceLoader.getAgentsFiles().agentsFiles.map((f) => f.content);
+		const published = getPublishedMemoryKeys(entries, contextFiles);
+		const selected = selectRelevantMemories(entries, prompt, retrieval, new Set([...attached, ...published]));
+		if (selected.length === 0) return undefined;
+		this._queueMemoryUsage(selected);
+		return createMemoryContextMessage(selected);
+	}
+
+	/** Build a hidden message with the current time if the context has been idle (see createTimeContextMessage) */
+	private _buildTimeContextMessage(): CustomMessage | undefined {
+		const { enabled, ...options } = this.settingsManager.getTimeAwarenessSettings();
+		if (!enabled) return undefined;
+		return createTimeContextMessage(this.agent.state.messages, options);
+	}
+
 	// =========================================================================
 	// Prompting
 	// =========================================================================
@@ -744,10 +1027,11 @@ export class AgentSession {
 			}
 		}
 
-		// Expand skill commands (/skill:name args) and prompt templates (/template args)
+		// Expand skill commands (/skill:name args), procedure commands (/proc:name args) and prompt templates (/template args)
 		let expandedText = currentText;
 		if (expandPromptTemplates) {
 			expandedText = this._expandSkillCommand(expandedText);
+			expandedText = await this._expandProcedureCommand(expandedText);
 			expandedText = expandPromptTemplate(expandedText, [...this.promptTemplates]);
 		}
 
@@ -804,6 +1088,12 @@ export class AgentSession {
 		// Build messages array (custom message if any, then user message)
 		const messages: AgentMessage[] = [];
 
+		// Tell the model the time if the user comes back after a break
+		const timeMessage = this._buildTimeContextMessage();
+		if (timeMessage) {
+			messages.push(timeMessage);
+		}
+
 		// Add user message
 		const userContent: (TextContent | ImageContent)[] = [{ type: "text", text: expandedText }];
 		if (currentImages) {
@@ -815,6 +1105,12 @@ export class AgentSession {
 			timestamp: Date.now(),
 		});
 
+		// Attach memories relevant to this prompt
+		const memoryMessage = await this._buildMemoryContextMessage(expandedText);
+		if (memoryMessage) {
+			messages.push(memoryMessage);
+		}
+
 		// Inject any pending "nextTurn" messages as context alongside the user message
 		for (const msg of this._pendingNextTurnMessages) {
 			messages.push(msg);
@@ -852,6 +1148,7 @@ export class AgentSession {
 
 		await this.agent.prompt(messages);
 		await this.waitForRetry();
+		await this._memoryUsageWrites;
 	}
 
 	/**
@@ -916,10 +1213,25 @@ export class AgentSession {
 		}
 	}
 
+	/**
+	 * Expand procedure commands (/proc:name args) to a prompt running the procedural memory's steps.
+	 * Returns the original text if not a procedure command or no procedure has that name.
+	 */
+	private async _expandProcedureCommand(text: string): Promise<string> {
+		if (!text.startsWith("/proc:") || !this.settingsManager.getMemoryEnabled()) return text;
+
+		const layers = resolveMemoryLayers(this._cwd, this.settingsManager.getMemoryLayers());
+		const entries = await loadBackendEntries(this._memoryBackend, layers);
+		const expanded = expandProcedureCommand(text, entries);
+		if (!expanded) return text; // Unknown procedure, pass through
+		this._queueMemoryUsage([expanded.entry]);
+		return expanded.text;
+	}
+
 	/**
 	 * Queue a steering message to interrupt the agent mid-run.
 	 * Delivered after current tool execution, skips remaining tools.
-	 * Expands skill commands and prompt templates. Errors on extension commands.
+	 * Expands skill commands, procedure commands and prompt templates. Errors on extension commands.
 	 * @param images Optional image attachments to include with the message
 	 * @throws Error if text is an extension command
 	 */
@@ -929,8 +1241,12 @@ export class AgentSession {
 			this._throwIfExtensionCommand(text);
 		}
 
-		// Expand skill commands and prompt templates
+		// Expand skill commands, procedure commands and prompt templates.
+		// Only procedure commands wait for the memory store, so other messages are queued right away.
 		let expandedText = this._expandSkillCommand(text);
+		if (expandedText.startsWith("/proc:")) {
+			expandedText = await this._expandProcedureCommand(expandedText);
+		}
 		expandedText = expandPromptTemplate(expandedText, [...this.promptTemplates]);
 
 		await this._queueSteer(expandedText, images);
@@ -939,7 +1255,7 @@ export class AgentSession {
 	/**
 	 * Queue a follow-up message to be processed after the agent finishes.
 	 * Delivered only when agent has no more tool calls or steering messages.
-	 * Expands skill commands and prompt templates. Errors on extension commands.
+	 * Expands skill commands, procedure commands and prompt templates. Errors on extension commands.
 	 * @param images Optional image attachments to include with the message
 	 * @throws Error if text is an extension command
 	 */
@@ -949,8 +1265,12 @@ export class AgentSession {
 			this._throwIfExtensionCommand(text);
 		}
 
-		// Expand skill commands and prompt templates
+		// Expand skill commands, procedure commands and prompt templates.
+		// Only procedure commands wait for the memory store, so other messages are queued right away.
 		let expandedText = this._expandSkillCommand(text);
+		if (expandedText.startsWith("/proc:")) {
+			expandedText = await this._expandProcedureCommand(expandedText);
+		}
 		expandedText = expandPromptTemplate(expandedText, [...this.promptTemplates]);
 
 		await this._queueFollowUp(expandedText, images);
@@ -1162,6 +1482,8 @@ export class AgentSession {
 
 		this._disconnectFromAgent();
 		await this.abort();
+		// Capture once the agent is idle, so no half-finished turn is summarized
+		await this.captureSessionEpisode("new");
 		this.agent.reset();
 		this.sessionManager.newSession({ parentSession: options?.parentSession });
 		this.agent.sessionId = this.sessionManager.getSessionId();
@@ -1490,6 +1812,7 @@ export class AgentSession {
 			let firstKeptEntryId: string;
 			let tokensBefore: number;
 			let details: unknown;
+			let harvestedMemories: HarvestedMemory[] | undefined;
 
 			if (extensionCompaction) {
 				// Extension provided compaction content
@@ -1505,11 +1828,13 @@ export class AgentSession {
 					apiKey,
 					customInstructions,
 					this._compactionAbortController.signal,
+					this._getMemoryHarvester(this.model, apiKey),
 				);
 				summary = result.summary;
 				firstKeptEntryId = result.firstKeptEntryId;
 				tokensBefore = result.tokensBefore;
 				details = result.details;
+				harvestedMemories = result.harvestedMemories;
 			}
 
 			if (this._compactionAbortController.signal.aborted) {
@@ -1520,6 +1845,11 @@ export class AgentSession {
 			const newEntries = this.sessionManager.getEntries();
 			const sessionContext = this.sessionManager.buildSessionContext();
 			this.agent.replaceMessages(sessionContext.messages);
+			const memoryIds = await this._saveHarvestedMemories(
+				harvestedMemories,
+				false,
+				this._compactionAbortController.signal,
+			);
 
 			// Get the saved compaction entry for the extension event
 			const savedCompactionEntry = newEntries.find((e) => e.type === "compaction" && e.summary === summary) as
@@ -1534,18 +1864,73 @@ export class AgentSession {
 				});
 			}
 
-			return {
+			const result: CompactionResult = {
 				summary,
 				firstKeptEntryId,
 				tokensBefore,
 				details,
 			};
+			if (memoryIds.length > 0) {
+				result.memoryIds = memoryIds;
+			}
+			return result;
 		} finally {
 			this._compactionAbortController = undefined;
 			this._reconnectToAgent();
 		}
 	}
 
+	/**
+	 * Extract memories from the messages a compaction discards (memory.harvest), with the
+	 * compaction's model, dropping repeats of stored ones. Undefined when memory, harvesting
+	 * or memory changes are off. Harvesting is best effort: a failed harvest extracts nothing
+	 * but never fails the compaction.
+	 */
+	private _getMemoryHarvester(model: Model<any>, apiKey: string): CompactionMemoryHarvester | undefined {
+		if (!this.settingsManager.getMemoryEnabled() || !this.settingsManager.getMemoryHarvestSettings().enabled) {
+			return undefined;
+		}
+		if (this.settingsManager.getMemoryApproval() === "off") {
+			return undefined;
+		}
+		return async (messages, signal) => {
+			try {
+				const layers = resolveMemoryLayers(this._cwd, this.settingsManager.getMemoryLayers());
+				const stored = await loadBackendEntries(this._memoryBackend, layers);
+				const result = await harvestMemories(messages, stored, { model, apiKey, signal });
+				return dedupeHarvestedMemories(result.memories, stored);
+			} catch {
+				return [];
+			}
+		};
+	}
+
+	/**
+	 * Store the memories a compaction harvested, once its entry is saved, as memory.approval says.
+	 * Nobody is asked during auto-compaction: memories that need confirmation are skipped.
+	 * Stops when the compaction is aborted. Like harvesting, a failed save never fails the compaction.
+	 * @returns The qualified IDs of the stored memories
+	 */
+	private async _saveHarvestedMemories(
+		memories: HarvestedMemory[] | undefined,
+		auto: boolean,
+		signal: AbortSignal,
+	): Promise<string[]> {
+		if (!memories || memories.length === 0 || signal.aborted) return [];
+		const options = this._getMemoryToolOptions("compaction");
+		if (auto) {
+			options.confirmChange = async () => ({
+				approved: false,
+				reason: "Memories harvested during auto-compaction are not confirmed.",
+			});
+		}
+		try {
+			return await saveHarvestedMemories(this._cwd, memories, options, signal);
+		} catch {
+			return [];
+		}
+	}
+
 	/**
 	 * Cancel in-progress compaction (manual or auto).
 	 */
@@ -1561,6 +1946,190 @@ export class AgentSession {
 		this._branchSummaryAbortController?.abort();
 	}
 
+	/**
+	 * Ask a model to propose merges, rewrites and deletions for the given memories.
+	 * Uses memory.consolidation.model if set, otherwise the current model. Nothing is written.
+	 * @throws Error if no model is available, the configured model is unknown, or it has no API key
+	 */
+	async consolidateMemories(entries: MemoryEntry[]): Promise<ConsolidationResult> {
+		const configured = this.settingsManager.getMemoryConsolidationSettings().model;
+		let model = this.model;
+		if (configured) {
+			const separator = configured.indexOf("/");
+			model =
+				separator > 0
+					? this._modelRegistry.find(configured.slice(0, separator), configured.slice(separator + 1))
+					: undefined;
+			if (!model) {
+				throw new Error(`Unknown memory consolidation model "${configured}". Use "provider/model-id".`);
+			}
+		}
+		if (!model) {
+			throw new Error("No model selected");
+		}
+		const apiKey = await this._modelRegistry.getApiKey(model);
+		if (!apiKey) {
+			throw new Error(`No API key for ${model.provider}`);
+		}
+
+		this._memoryConsolidationAbortController = new AbortController();
+		try {
+			return await proposeMemoryConsolidation(entries, {
+				model,
+				apiKey,
+				signal: this._memoryConsolidationAbortController.signal,
+			});
+		} finally {
+			this._memoryConsolidationAbortController = undefined;
+		}
+	}
+
+	/**
+	 * Cancel in-progress memory consolidation.
+	 */
+	abortMemoryConsolidation(): void {
+		this._memoryConsolidationAbortController?.abort();
+	}
+
+	/**
+	 * Ask the current model to distill the steps of a /memory record demonstration into a
+	 * procedure. Nothing is written.
+	 * @throws Error if no model is selected or it has no API key
+	 */
+	async distillRecordedProcedure(name: string, steps: RecordedStep[]): Promise<RecordingDistillResult> {
+		const model = this.model;
+		if (!model) {
+			throw new Error("No model selected");
+		}
+		const apiKey = await this._modelRegistry.getApiKey(model);
+		if (!apiKey) {
+			throw new Error(`No API key for ${model.provider}`);
+		}
+
+		this._recordingDistillAbortController = new AbortController();
+		try {
+			return await distillRecording(name, steps, {
+				model,
+				apiKey,
+				signal: this._recordingDistillAbortController.signal,
+			});
+		} finally {
+			this._recordingDistillAbortController = undefined;
+		}
+	}
+
+	/**
+	 * Cancel in-progress procedure distillation.
+	 */
+	abortRecordingDistill(): void {
+		this._recordingDistillAbortController?.abort();
+	}
+
+	/**
+	 * Summarize the current branch into an episodic memory linked to this session.
+	 * Called on /new, on shutdown and after memory.capture.idleMinutes without activity.
+	 * A session is stored as one episode: capturing again after more work replaces it.
+	 * Does nothing if capture is disabled, no model is available or nothing changed since the last capture.
+	 * @returns The episode's ID, if one was stored
+	 */
+	async captureSessionEpisode(reason: EpisodeCaptureReason): Promise<string | undefined> {
+		this._clearEpisodeIdleTimer();
+		if (!this.settingsManager.getMemoryEnabled() || !this.settingsManager.getMemoryCaptureSettings().enabled) {
+			return undefined;
+		}
+		if (this._episodeCaptureAbortController) {
+			return undefined;
+		}
+
+		const origin = this._getMemoryOrigin();
+		const { sessionId } = origin;
+		const leafId = this.sessionManager.getLeafId();
+		const previous = this._capturedEpisode?.sessionId === sessionId ? this._capturedEpisode : undefined;
+		if (previous && previous.leafId === leafId) {
+			return previous.id;
+		}
+		const entries = this.sessionManager.getBranch();
+		if (!entries.some((e) => e.type === "message" && e.message.role === "assistant")) {
+			return undefined;
+		}
+		const model = this.model;
+		const apiKey = model ? await this._modelRegistry.getApiKey(model) : undefined;
+		if (!model || !apiKey) {
+			return undefined;
+		}
+
+		this._emit({ type: "memory_capture_start", reason });
+		this._episodeCaptureAbortController = new AbortController();
+		try {
+			const result = await summarizeEpisode(entries, {
+				model,
+				apiKey,
+				signal: this._episodeCaptureAbortController.signal,
+			});
+			let episodeId: string | undefined;
+			let errorMessage = result.error;
+			if (result.episode) {
+				const redactor = this._getMemoryRedactor();
+				const { value: episode, redactions } = redactMemory(result.episode, redactor);
+				if (redactions.length > 0 && redactor.action === "block") {
+					errorMessage = `it contains secrets or personal data (${formatMemoryRedactions(redactions)})`;
+				} else {
+					const scope = previous?.scope ?? resolveMemoryScope(this._cwd, this.settingsManager.getMemoryScope());
+					episodeId = await saveCapturedEpisode(
+						this._getReviewedMemoryBackend("capture"),
+						scope,
+						episode,
+						origin,
+						previous?.id,
+					);
+					this._capturedEpisode = { sessionId, scope, id: episodeId, leafId };
+				}
+			}
+			this._emit({
+				type: "memory_capture_end",
+				episodeId,
+				aborted: result.aborted ?? false,
+				errorMessage,
+			});
+			return episodeId;
+		} catch (error) {
+			this._emit({
+				type: "memory_capture_end",
+				aborted: false,
+				errorMessage: error instanceof Error ? error.message : String(error),
+			});
+			return undefined;
+		} finally {
+			this._episodeCaptureAbortController = undefined;
+		}
+	}
+
+	/**
+	 * Cancel an in-progress episode capture.
+	 */
+	abortEpisodeCapture(): void {
+		this._episodeCaptureAbortController?.abort();
+	}
+
+	private _scheduleEpisodeIdleCapture(): void {
+		this._clearEpisodeIdleTimer();
+		const { enabled, idleMinutes } = this.settingsManager.getMemoryCaptureSettings();
+		if (!enabled || idleMinutes <= 0 || !this.settingsManager.getMemoryEnabled()) return;
+		this._episodeIdleTimer = setTimeout(() => {
+			this._episodeIdleTimer = undefined;
+			if (!this.isStreaming) void this.captureSessionEpisode("idle");
+		}, idleMinutes * 60_000);
+		// Don't keep the process alive just to capture
+		this._episodeIdleTimer.unref?.();
+	}
+
+	private _clearEpisodeIdleTimer(): void {
+		if (this._episodeIdleTimer) {
+			clearTimeout(this._episodeIdleTimer);
+			this._episodeIdleTimer = undefined;
+		}
+	}
+
 	/**
 	 * Check if compaction is needed and run it.
 	 * Called after agent_end and before prompt submission.
@@ -1675,6 +2244,7 @@ export class AgentSession {
 			let firstKeptEntryId: string;
 			let tokensBefore: number;
 			let details: unknown;
+			let harvestedMemories: HarvestedMemory[] | undefined;
 
 			if (extensionCompaction) {
 				// Extension provided compaction content
@@ -1690,11 +2260,13 @@ export class AgentSession {
 					apiKey,
 					undefined,
 					this._autoCompactionAbortController.signal,
+					this._getMemoryHarvester(this.model, apiKey),
 				);
 				summary = compactResult.summary;
 				firstKeptEntryId = compactResult.firstKeptEntryId;
 				tokensBefore = compactResult.tokensBefore;
 				details = compactResult.details;
+				harvestedMemories = compactResult.harvestedMemories;
 			}
 
 			if (this._autoCompactionAbortController.signal.aborted) {
@@ -1706,6 +2278,11 @@ export class AgentSession {
 			const newEntries = this.sessionManager.getEntries();
 			const sessionContext = this.sessionManager.buildSessionContext();
 			this.agent.replaceMessages(sessionContext.messages);
+			const memoryIds = await this._saveHarvestedMemories(
+				harvestedMemories,
+				true,
+				this._autoCompactionAbortController.signal,
+			);
 
 			// Get the saved compaction entry for the extension event
 			const savedCompactionEntry = newEntries.find((e) => e.type === "compaction" && e.summary === summary) as
@@ -1726,6 +2303,9 @@ export class AgentSession {
 				tokensBefore,
 				details,
 			};
+			if (memoryIds.length > 0) {
+				result.memoryIds = memoryIds;
+			}
 			this._emit({ type: "auto_compaction_end", result, aborted: false, willRetry });
 
 			if (willRetry) {
@@ -1942,6 +2522,7 @@ export class AgentSession {
 				},
 				getThinkingLevel: () => this.thinkingLevel,
 				setThinkingLevel: (level) => this.setThinkingLevel(level),
+				memory: createExtensionMemoryAPI(this._cwd, this._getMemoryToolOptions("extension")),
 			},
 			{
 				getModel: () => this.model,
@@ -1980,6 +2561,7 @@ export class AgentSession {
 			: createAllTools(this._cwd, {
 					read: { autoResizeImages },
 					bash: { commandPrefix: shellCommandPrefix },
+					memory: this._getMemoryToolOptions("tool"),
 				});
 
 		this._baseToolRegistry = new Map(Object.entries(baseTools).map(([name, tool]) => [name, tool as AgentTool]));
@@ -2068,6 +2650,12 @@ export class AgentSession {
 		this.settingsManager.reload();
 		resetApiProviders();
 		await this._resourceLoader.reload();
+		if (this._promptMemoryEntries) {
+			const layers = resolveMemoryLayers(this._cwd, this.settingsManager.getMemoryLayers());
+			this._promptMemoryEntries = this.settingsManager.getMemoryEnabled()
+				? await loadBackendEntries(this._memoryBackend, layers)
+				: [];
+		}
 		this._buildRuntime({
 			activeToolNames: this.getActiveToolNames(),
 			flagValues: previousFlagValues,
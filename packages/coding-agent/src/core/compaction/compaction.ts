@@ -8,6 +8,7 @@
 import type { AgentMessage } from "@mariozechner/pi-agent-core";
 import type { AssistantMessage, Model, Usage } from "@mariozechner/pi-ai";
 import { completeSimple } from "@mariozechner/pi-ai";
+import type { HarvestedMemory } from "../memory/index.js";
 import {
 	convertToLlm,
 	createBranchSummaryMessage,
@@ -99,6 +100,10 @@ export interface CompactionResult<T = unknown> {
 	tokensBefore: number;
 	/** Extension-specific data (e.g., ArtifactIndex, version markers for structured compaction) */
 	details?: T;
+	/** Memories extracted from the discarded messages and not stored yet (see compact's harvestMemories) */
+	harvestedMemories?: HarvestedMemory[];
+	/** Qualified IDs of the harvested memories stored once the compaction entry was saved */
+	memoryIds?: string[];
 }
 
 // ============================================================================
@@ -695,12 +700,20 @@ Summarize the prefix to provide context for the retained suffix:
 
 Be concise. Focus on what's needed to understand the kept suffix.`;
 
+/**
+ * Extract durable memories from the messages a compaction discards, without storing them:
+ * the caller stores them once the compaction entry is saved. Runs alongside summarization;
+ * it must not throw.
+ */
+export type CompactionMemoryHarvester = (messages: AgentMessage[], signal?: AbortSignal) => Promise<HarvestedMemory[]>;
+
 /**
  * Generate summaries for compaction using prepared data.
  * Returns CompactionResult - SessionManager adds uuid/parentUuid when saving.
  *
  * @param preparation - Pre-calculated preparation from prepareCompaction()
  * @param customInstructions - Optional custom focus for the summary
+ * @param harvestMemories - Optional extraction of memories from the discarded messages, returned as harvestedMemories
  */
 export async function compact(
 	preparation: CompactionPreparation,
@@ -708,6 +721,7 @@ export async function compact(
 	apiKey: string,
 	customInstructions?: string,
 	signal?: AbortSignal,
+	harvestMemories?: CompactionMemoryHarvester,
 ): Promise<CompactionResult> {
 	const {
 		firstKeptEntryId,
@@ -720,6 +734,10 @@ export async function compact(
 		settings,
 	} = preparation;
 
+	// Harvest memories from everything that is discarded while the summaries are generated
+	const discarded = [...messagesToSummarize, ...turnPrefixMessages];
+	const harvest = harvestMemories && discarded.length > 0 ? harvestMemories(discarded, signal) : Promise.resolve([]);
+
 	// Generate summaries (can be parallel if both needed) and merge into one
 	let summary: string;
 
@@ -762,12 +780,19 @@ export async function compact(
 		throw new Error("First kept entry has no UUID - session may need migration");
 	}
 
-	return {
+	const harvestedMemories = await harvest;
+	const details: CompactionDetails = { readFiles, modifiedFiles };
+
+	const result: CompactionResult = {
 		summary,
 		firstKeptEntryId,
 		tokensBefore,
-		details: { readFiles, modifiedFiles } as CompactionDetails,
+		details,
 	};
+	if (harvestedMemories.length > 0) {
+		result.harvestedMemories = harvestedMemories;
+	}
+	return result;
 }
 
 /**
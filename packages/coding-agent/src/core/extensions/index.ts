@@ -59,6 +59,7 @@ export type {
 	ExtensionFactory,
 	ExtensionFlag,
 	ExtensionHandler,
+	ExtensionMemoryAPI,
 	// Runtime
 	ExtensionRuntime,
 	ExtensionShortcut,
@@ -81,6 +82,11 @@ export type {
 	LoadExtensionsResult,
 	LsToolCallEvent,
 	LsToolResultEvent,
+	// Events - Memory
+	MemoryBeforeWriteEvent,
+	MemoryBeforeWriteEventResult,
+	MemoryChangeSource,
+	MemoryWriteEvent,
 	// Events - Message
 	MessageEndEvent,
 	// Message Rendering
@@ -125,6 +125,13 @@ export function createExtensionRuntime(): ExtensionRuntime {
 		setModel: () => Promise.reject(new Error("Extension runtime not initialized")),
 		getThinkingLevel: notInitialized,
 		setThinkingLevel: notInitialized,
+		memory: {
+			list: notInitialized,
+			search: notInitialized,
+			write: notInitialized,
+			update: notInitialized,
+			delete: notInitialized,
+		},
 		flagValues: new Map(),
 		pendingProviderRegistrations: [],
 	};
@@ -252,6 +259,14 @@ function createExtensionAPI(
 		},
 
 		events: eventBus,
+
+		memory: {
+			list: (type) => runtime.memory.list(type),
+			search: (query, options) => runtime.memory.search(query, options),
+			write: (params) => runtime.memory.write(params),
+			update: (ref, fields) => runtime.memory.update(ref, fields),
+			delete: (ref) => runtime.memory.delete(ref),
+		},
 	} as ExtensionAPI;
 
 	return api;
@@ -32,6 +32,8 @@ import type {
 	InputEvent,
 	InputEventResult,
 	InputSource,
+	MemoryBeforeWriteEvent,
+	MemoryBeforeWriteEventResult,
 	MessageRenderer,
 	RegisteredCommand,
 	RegisteredTool,
@@ -108,6 +110,7 @@ type RunnerEmitEvent = Exclude<
 	| BeforeAgentStartEvent
 	| ResourcesDiscoverEvent
 	| InputEvent
+	| MemoryBeforeWriteEvent
 >;
 
 type SessionBeforeEvent = Extract<
@@ -248,6 +251,7 @@ export class ExtensionRunner {
 		this.runtime.setModel = actions.setModel;
 		this.runtime.getThinkingLevel = actions.getThinkingLevel;
 		this.runtime.setThinkingLevel = actions.setThinkingLevel;
+		this.runtime.memory = actions.memory;
 
 		// Context actions (required)
 		this.getModel = contextActions.getModel;
@@ -627,6 +631,37 @@ export class ExtensionRunner {
 		return result;
 	}
 
+	/**
+	 * Emit memory_before_write. Handlers run in order, each seeing the fields returned by the
+	 * previous one, until one blocks the change.
+	 * @returns The combined result, or undefined if no handler changed anything
+	 */
+	async emitMemoryBeforeWrite(event: MemoryBeforeWriteEvent): Promise<MemoryBeforeWriteEventResult | undefined> {
+		const ctx = this.createContext();
+		const currentEvent: MemoryBeforeWriteEvent = { ...event, change: { ...event.change } };
+		let modified = false;
+
+		for (const ext of this.extensions) {
+			const handlers = ext.handlers.get("memory_before_write");
+			if (!handlers || handlers.length === 0) continue;
+
+			for (const handler of handlers) {
+				const handlerResult = (await handler(currentEvent, ctx)) as MemoryBeforeWriteEventResult | undefined;
+				if (!handlerResult) continue;
+
+				if (handlerResult.block) {
+					return { block: true, reason: handlerResult.reason };
+				}
+				if (handlerResult.fields !== undefined) {
+					currentEvent.change.fields = handlerResult.fields;
+					modified = true;
+				}
+			}
+		}
+
+		return modified ? { fields: currentEvent.change.fields } : undefined;
+	}
+
 	async emitUserBash(event: UserBashEvent): Promise<UserBashEventResult | undefined> {
 		const ctx = this.createContext();
 
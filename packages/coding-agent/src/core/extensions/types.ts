@@ -45,6 +45,7 @@ import type { EventBus } from "../event-bus.js";
 import type { ExecOptions, ExecResult } from "../exec.js";
 import type { ReadonlyFooterDataProvider } from "../footer-data-provider.js";
 import type { KeybindingsManager } from "../keybindings.js";
+import type { MemoryChangeRequest, MemoryEntry, MemoryType } from "../memory/index.js";
 import type { CustomMessage } from "../messages.js";
 import type { ModelRegistry } from "../model-registry.js";
 import type {
@@ -67,6 +68,8 @@ import type {
 	GrepToolInput,
 	LsToolDetails,
 	LsToolInput,
+	MemoryUpdateParams,
+	MemoryWriteParams,
 	ReadToolDetails,
 	ReadToolInput,
 	WriteToolInput,
@@ -617,6 +620,37 @@ export type InputEventResult =
 	| { action: "transform"; text: string; images?: ImageContent[] }
 	| { action: "handled" };
 
+// ============================================================================
+// Memory Events
+// ============================================================================
+
+/**
+ * Where a memory change comes from: the model's memory tools, an extension's pi.memory call, a compaction's
+ * harvest, a /memory command or import run by the user, or an episode captured at the end of a session
+ */
+export type MemoryChangeSource = "tool" | "extension" | "compaction" | "command" | "capture";
+
+/**
+ * Fired before a memory write, update or delete is stored, after the user approved it
+ * (memory.approval). Handlers can block the change or rewrite its fields.
+ */
+export interface MemoryBeforeWriteEvent {
+	type: "memory_before_write";
+	/** The change, with the fields a previous handler returned */
+	change: MemoryChangeRequest;
+	source: MemoryChangeSource;
+}
+
+/** Fired after a memory change was stored */
+export interface MemoryWriteEvent {
+	type: "memory_write";
+	/** The change as stored; id is the written, updated or deleted memory */
+	change: MemoryChangeRequest & { id: string };
+	source: MemoryChangeSource;
+	/** The memory as stored. Undefined for deletes. */
+	entry?: MemoryEntry;
+}
+
 // ============================================================================
 // Tool Events
 // ============================================================================
@@ -813,6 +847,8 @@ export type ExtensionEvent =
 	| ModelSelectEvent
 	| UserBashEvent
 	| InputEvent
+	| MemoryBeforeWriteEvent
+	| MemoryWriteEvent
 	| ToolCallEvent
 	| ToolResultEvent;
 
@@ -837,6 +873,15 @@ export interface UserBashEventResult {
 	result?: BashResult;
 }
 
+export interface MemoryBeforeWriteEventResult {
+	/** Do not store the change */
+	block?: boolean;
+	/** Why the change was blocked, reported to the model or thrown to the extension */
+	reason?: string;
+	/** Store these fields instead (writes and updates), in the shape of MemoryChangeRequest.fields */
+	fields?: Record<string, unknown>;
+}
+
 export interface ToolResultEventResult {
 	content?: (TextContent | ImageContent)[];
 	details?: unknown;
@@ -952,6 +997,11 @@ export interface ExtensionAPI {
 	on(event: "tool_result", handler: ExtensionHandler<ToolResultEvent, ToolResultEventResult>): void;
 	on(event: "user_bash", handler: ExtensionHandler<UserBashEvent, UserBashEventResult>): void;
 	on(event: "input", handler: ExtensionHandler<InputEvent, InputEventResult>): void;
+	on(
+		event: "memory_before_write",
+		handler: ExtensionHandler<MemoryBeforeWriteEvent, MemoryBeforeWriteEventResult>,
+	): void;
+	on(event: "memory_write", handler: ExtensionHandler<MemoryWriteEvent>): void;
 
 	// =========================================================================
 	// Tool Registration
@@ -1114,6 +1164,38 @@ export interface ExtensionAPI {
 
 	/** Shared event bus for extension communication. */
 	events: EventBus;
+
+	/** Memories of the session (see ExtensionMemoryAPI). Usable once the session has started. */
+	memory: ExtensionMemoryAPI;
+}
+
+/**
+ * Typed access to the memory system, on the same layers and write scope as the memory tools.
+ * Changes emit memory_before_write and memory_write with source "extension", but are not
+ * shown for approval.
+ */
+export interface ExtensionMemoryAPI {
+	/** Memories of the readable layers (memory.layers), optionally of one type */
+	list(type?: MemoryType): Promise<MemoryEntry[]>;
+	/** Keyword and semantic search, like memory_read with a query */
+	search(query: string, options?: { type?: MemoryType; limit?: number }): Promise<MemoryEntry[]>;
+	/**
+	 * Store a new memory, in params.scope or the configured scope. Writing an existing
+	 * semantic memory again returns it unchanged. Secrets are masked as in memory.redaction.
+	 * @throws Error if the memory is incomplete, contains secrets in "block" mode, or a
+	 * memory_before_write handler blocks it
+	 */
+	write(params: MemoryWriteParams): Promise<MemoryEntry>;
+	/**
+	 * Change a memory by ID, optionally qualified by layer (e.g. "global:sem_001").
+	 * @throws Error if no writable memory has the ID or the change is blocked
+	 */
+	update(ref: string, fields: Omit<MemoryUpdateParams, "id">): Promise<MemoryEntry>;
+	/**
+	 * Delete a memory by ID, optionally qualified by layer.
+	 * @throws Error if no writable memory has the ID or the deletion is blocked
+	 */
+	delete(ref: string): Promise<void>;
 }
 
 // ============================================================================
@@ -1267,6 +1349,7 @@ export interface ExtensionActions {
 	setModel: SetModelHandler;
 	getThinkingLevel: GetThinkingLevelHandler;
 	setThinkingLevel: SetThinkingLevelHandler;
+	memory: ExtensionMemoryAPI;
 }
 
 /**
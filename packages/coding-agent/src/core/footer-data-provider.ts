@@ -1,37 +1,6 @@
-import { existsSync, type FSWatcher, readFileSync, statSync, watch } from "fs";
-import { dirname, join, resolve } from "path";
-
-/**
- * Find the git HEAD path by walking up from cwd.
- * Handles both regular git repos (.git is a directory) and worktrees (.git is a file).
- */
-function findGitHeadPath(): string | null {
-	let dir = process.cwd();
-	while (true) {
-		const gitPath = join(dir, ".git");
-		if (existsSync(gitPath)) {
-			try {
-				const stat = statSync(gitPath);
-				if (stat.isFile()) {
-					const content = readFileSync(gitPath, "utf8").trim();
-					if (content.startsWith("gitdir: ")) {
-						const gitDir = content.slice(8);
-						const headPath = resolve(dir, gitDir, "HEAD");
-						if (existsSync(headPath)) return headPath;
-					}
-				} else if (stat.isDirectory()) {
-					const headPath = join(gitPath, "HEAD");
-					if (existsSync(headPath)) return headPath;
-				}
-			} catch {
-				return null;
-			}
-		}
-		const parent = dirname(dir);
-		if (parent === dir) return null;
-		dir = parent;
-	}
-}
+import { type FSWatcher, watch } from "fs";
+import { dirname } from "path";
+import { findGitHeadPath, readGitBranch } from "../utils/git.js";
 
 /**
  * Provides git branch and extension statuses - data not otherwise accessible to extensions.
@@ -50,18 +19,8 @@ export class FooterDataProvider {
 
 	/** Current git branch, null if not in repo, "detached" if detached HEAD */
 	getGitBranch(): string | null {
-		if (this.cachedBranch !== undefined) return this.cachedBranch;
-
-		try {
-			const gitHeadPath = findGitHeadPath();
-			if (!gitHeadPath) {
-				this.cachedBranch = null;
-				return null;
-			}
-			const content = readFileSync(gitHeadPath, "utf8").trim();
-			this.cachedBranch = content.startsWith("ref: refs/heads/") ? content.slice(16) : "detached";
-		} catch {
-			this.cachedBranch = null;
+		if (this.cachedBranch === undefined) {
+			this.cachedBranch = readGitBranch();
 		}
 		return this.cachedBranch;
 	}
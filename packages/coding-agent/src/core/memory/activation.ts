@@ -0,0 +1,163 @@
+/**
+ * Path- and branch-scoped memories (appliesTo).
+ *
+ * In a monorepo, a convention for one package should not be attached to prompts about
+ * another. A semantic or procedural memory with appliesTo is only active when the
+ * working directory or a file recently read, edited or written matches one of its path
+ * globs, and the current git branch matches one of its branch patterns. Paths are
+ * relative to the repository root (the working directory outside git). Memories without
+ * appliesTo are always active.
+ */
+
+import { isAbsolute, relative, sep } from "node:path";
+import type { AgentMessage } from "@mariozechner/pi-agent-core";
+import { minimatch } from "minimatch";
+import { findGitRoot, readGitBranch } from "../../utils/git.js";
+import { createFileOps, extractFileOpsFromMessage } from "../compaction/utils.js";
+import { resolveToCwd } from "../tools/path-utils.js";
+import type { MemoryAppliesTo } from "./memory.js";
+import type { MemoryEntry } from "./retrieval.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** What decides which scoped memories are active */
+export interface MemoryActivationContext {
+	/** Working directory relative to the repository root, "" at the root */
+	cwd: string;
+	/** Recently touched files, relative to the repository root */
+	files: string[];
+	/** Current git branch: null outside a repo, "detached" on a detached HEAD */
+	branch: string | null;
+}
+
+/** Files considered recently touched (see getRecentlyTouchedFiles) */
+const RECENT_FILES = 20;
+
+// ============================================================================
+// Context
+// ============================================================================
+
+/**
+ * The files most recently read, edited or written by tool calls in messages, newest
+ * first, as the paths the tools were called with.
+ */
+export function getRecentlyTouchedFiles(messages: AgentMessage[], limit = RECENT_FILES): string[] {
+	const files = new Set<string>();
+	for (let i = messages.length - 1; i >= 0 && files.size < limit; i--) {
+		const fileOps = createFileOps();
+		extractFileOpsFromMessage(messages[i], fileOps);
+		for (const file of [...fileOps.edited, ...fileOps.written, ...fileOps.read]) {
+			if (files.size >= limit) break;
+			files.add(file);
+		}
+	}
+	return [...files];
+}
+
+/** A path relative to root with forward slashes, or undefined if it lies outside root */
+function toRootPath(root: string, path: string): string | undefined {
+	const rel = relative(root, path);
+	if (rel.startsWith("..") || isAbsolute(rel)) return undefined;
+	return rel.split(sep).join("/");
+}
+
+/**
+ * Build the activation context for cwd: the working directory and files (as passed to
+ * the file tools, resolved against cwd) relative to the repository root, and the branch.
+ */
+export function getMemoryActivationContext(cwd: string, files: readonly string[] = []): MemoryActivationContext {
+	const root = findGitRoot(cwd) ?? cwd;
+	return {
+		cwd: toRootPath(root, cwd) ?? "",
+		files: files.flatMap((file) => toRootPath(root, resolveToCwd(file, cwd)) ?? []),
+		branch: readGitBranch(cwd),
+	};
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Whether a path glob covers a path: the path itself, or one of the directories it is
+ * in, so "packages/web-ui" and "packages/web-ui/**" both cover the package directory
+ * and everything below it.
+ */
+function pathMatches(path: string, glob: string, isDirectory: boolean): boolean {
+	const segments = path.split("/").filter(Boolean);
+	for (let end = segments.length; end > 0; end--) {
+		const candidate = segments.slice(0, end).join("/");
+		const directory = end < segments.length || isDirectory;
+		if (minimatch(candidate, glob, { dot: true })) return true;
+		if (directory && minimatch(`${candidate}/`, glob, { dot: true })) return true;
+	}
+	return false;
+}
+
+/** Whether a memory limited to appliesTo is active in context. Unlimited memories always are. */
+export function matchesMemoryAppliesTo(
+	appliesTo: MemoryAppliesTo | undefined,
+	context: MemoryActivationContext,
+): boolean {
+	const paths = appliesTo?.paths ?? [];
+	const branches = appliesTo?.branches ?? [];
+	if (paths.length > 0) {
+		const matched = paths.some(
+			(glob) => pathMatches(context.cwd, glob, true) || context.files.some((file) => pathMatches(file, glob, false)),
+		);
+		if (!matched) return false;
+	}
+	if (branches.length > 0) {
+		const { branch } = context;
+		if (!branch || !branches.some((pattern) => minimatch(branch, pattern))) return false;
+	}
+	return true;
+}
+
+/** Whether a memory is active in context (episodic memories always are) */
+export function isMemoryActive(entry: MemoryEntry, context: MemoryActivationContext): boolean {
+	return entry.type === "episodic" || matchesMemoryAppliesTo(entry.memory.appliesTo, context);
+}
+
+// ============================================================================
+// Editing
+// ============================================================================
+
+function normalizePatterns(patterns: readonly string[] | undefined, isPath: boolean): string[] {
+	const normalized = (patterns ?? [])
+		.map((p) => p.trim())
+		.map((p) => (isPath ? p.replace(/\\/g, "/").replace(/^(\.\/)+|^\/+/, "") : p))
+		.filter(Boolean);
+	return [...new Set(normalized)];
+}
+
+/**
+ * Build an appliesTo from path globs and branch patterns, trimming them and making
+ * paths relative ("./packages/x" becomes "packages/x").
+ * @returns undefined if neither is limited
+ */
+export function normalizeMemoryAppliesTo(
+	paths: readonly string[] | undefined,
+	branches: readonly string[] | undefined,
+): MemoryAppliesTo | undefined {
+	const appliesTo: MemoryAppliesTo = {};
+	const normalizedPaths = normalizePatterns(paths, true);
+	const normalizedBranches = normalizePatterns(branches, false);
+	if (normalizedPaths.length > 0) appliesTo.paths = normalizedPaths;
+	if (normalizedBranches.length > 0) appliesTo.branches = normalizedBranches;
+	return appliesTo.paths || appliesTo.branches ? appliesTo : undefined;
+}
+
+/**
+ * Where a merge of memories applies: wherever any of them did. Unlimited if one of them
+ * was, otherwise the union of their paths and branches.
+ */
+export function mergeMemoryAppliesTo(list: readonly (MemoryAppliesTo | undefined)[]): MemoryAppliesTo | undefined {
+	if (list.some((a) => !a)) return undefined;
+	const limited = list as MemoryAppliesTo[];
+	const paths = limited.every((a) => a.paths?.length) ? limited.flatMap((a) => a.paths ?? []) : [];
+	const branches = limited.every((a) => a.branches?.length) ? limited.flatMap((a) => a.branches ?? []) : [];
+	return normalizeMemoryAppliesTo(paths, branches);
+}
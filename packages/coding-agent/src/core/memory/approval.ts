@@ -0,0 +1,134 @@
+/**
+ * Approval of memory changes made by the model (memory.approval).
+ *
+ * In "confirm" mode every write, update and delete from the memory tools is shown to the
+ * user before it is stored. The dialog goes through the extension UI context, so it works
+ * in interactive mode and is sent to RPC clients as extension_ui_request select and editor
+ * requests.
+ */
+
+import type { ExtensionUIContext } from "../extensions/types.js";
+import type { MemoryScope, MemoryType } from "./memory.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How memory changes from the model are handled:
+ * - "auto": stored immediately
+ * - "confirm": each change waits for the user to approve, edit or reject it
+ * - "off": every change is rejected
+ */
+export type MemoryApprovalMode = "auto" | "confirm" | "off";
+
+/** A change the model asked for, before it is stored */
+export interface MemoryChangeRequest {
+	action: "write" | "update" | "delete";
+	type: MemoryType;
+	/** Layer the change is written to */
+	scope: MemoryScope;
+	/** ID of the changed memory (update and delete) */
+	id?: string;
+	/** The new memory (write), the changed fields (update) or the memory being removed (delete) */
+	fields: Record<string, unknown>;
+}
+
+export type MemoryApprovalDecision =
+	| {
+			approved: true;
+			/** Fields to store instead of the requested ones, if the user edited them */
+			fields?: Record<string, unknown>;
+	  }
+	| {
+			approved: false;
+			/** Why the change was not stored, reported to the model */
+			reason: string;
+	  };
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/** One-line question for a change, e.g. "Save semantic memory to project?" */
+export function formatMemoryChangeTitle(request: MemoryChangeRequest): string {
+	const id = request.id ? ` [${request.id}]` : "";
+	switch (request.action) {
+		case "write":
+			return `Save ${request.type} memory to ${request.scope}?`;
+		case "update":
+			return `Update ${request.type} memory${id} in ${request.scope}?`;
+		case "delete":
+			return `Delete ${request.type} memory${id} from ${request.scope}?`;
+	}
+}
+
+/** The requested fields, one per line, list items indented below their field */
+export function formatMemoryChangeFields(fields: Record<string, unknown>): string {
+	const lines: string[] = [];
+	for (const [key, value] of Object.entries(fields)) {
+		if (value === undefined) continue;
+		if (Array.isArray(value)) {
+			if (value.length === 0) continue;
+			lines.push(`${key}:`);
+			lines.push(...value.map((item) => `  - ${typeof item === "string" ? item : JSON.stringify(item)}`));
+		} else {
+			lines.push(`${key}: ${typeof value === "string" ? value : JSON.stringify(value)}`);
+		}
+	}
+	return lines.join("\n");
+}
+
+// ============================================================================
+// Confirmation
+// ============================================================================
+
+const APPROVE = "Approve";
+const EDIT = "Edit";
+const REJECT = "Reject";
+
+const REJECTED_REASON = "The user rejected this memory change. Do not retry it unless the user asks you to.";
+
+/**
+ * Ask the user to approve a change. Writes and updates can be edited first: the fields are
+ * opened as JSON in an editor, and saving the edit approves the edited fields. Closing the
+ * dialog rejects the change, and so does a missing UI (print mode), as nobody can be asked.
+ */
+export async function confirmMemoryChange(
+	ui: ExtensionUIContext | undefined,
+	request: MemoryChangeRequest,
+	signal?: AbortSignal,
+): Promise<MemoryApprovalDecision> {
+	if (!ui) {
+		return {
+			approved: false,
+			reason: "Memory changes need the user's approval, but there is no user interface to ask for it.",
+		};
+	}
+	const options = request.action === "delete" ? [APPROVE, REJECT] : [APPROVE, EDIT, REJECT];
+	const title = `${formatMemoryChangeTitle(request)}\n${formatMemoryChangeFields(request.fields)}`;
+
+	while (true) {
+		const choice = await ui.select(title, options, { signal });
+		if (choice === APPROVE) {
+			return { approved: true };
+		}
+		if (choice !== EDIT) {
+			return { approved: false, reason: REJECTED_REASON };
+		}
+
+		const edited = await ui.editor(`Edit ${request.type} memory (JSON)`, JSON.stringify(request.fields, null, 2));
+		if (edited === undefined) {
+			continue;
+		}
+		try {
+			const fields = JSON.parse(edited) as unknown;
+			if (typeof fields !== "object" || fields === null || Array.isArray(fields)) {
+				throw new Error("expected a JSON object");
+			}
+			return { approved: true, fields: fields as Record<string, unknown> };
+		} catch (error) {
+			ui.notify(`Invalid memory: ${error instanceof Error ? error.message : String(error)}`, "error");
+		}
+	}
+}
@@ -0,0 +1,329 @@
+/**
+ * Pluggable memory storage.
+ *
+ * The memory tools, per-prompt retrieval and episode capture read and write memories
+ * through a MemoryBackend instead of the memory directories directly, so storage can be
+ * swapped per instance: the stores in the memory directories of a working directory (the
+ * default), an in-memory store for tests and embedders, or a remote store.
+ */
+
+import type { MemoryChangeRequest } from "./approval.js";
+import {
+	getMemoryVectors,
+	type MemoryEmbedder,
+	type MemorySearchOptions,
+	searchLoadedMemoryEntries,
+} from "./embeddings.js";
+import {
+	type EpisodicMemory,
+	getStoreFile,
+	loadMemoryHistory,
+	type MemoryBundle,
+	type MemoryChangeContext,
+	type MemoryHistoryRecord,
+	type MemoryLayer,
+	type MemoryScope,
+	type MemoryStore,
+	type MemoryType,
+	type ProceduralMemory,
+	type SemanticMemory,
+	searchMemoryIndex,
+	updateStore,
+} from "./memory.js";
+import { findLayerEntry, loadLayerEntries, type MemoryEntry, mergeLayerEntries } from "./retrieval.js";
+
+// ============================================================================
+// Interface
+// ============================================================================
+
+export interface MemoryBackend {
+	/** Load every memory in one layer as typed entries */
+	load(layer: MemoryLayer): Promise<MemoryEntry[]>;
+	/**
+	 * Read one store of a writable scope, let mutate change it in place, and persist the result.
+	 * No other writer may interleave between the read and the write. If mutate throws, nothing
+	 * is persisted. Backends that keep a history record the changed memories with context (see
+	 * MemoryHistoryRecord).
+	 * @returns The mutation's return value
+	 */
+	update<T extends { id: string }, R>(
+		type: MemoryType,
+		scope: MemoryScope,
+		mutate: (store: MemoryStore<T>) => R,
+		context?: MemoryChangeContext,
+	): Promise<R>;
+	/**
+	 * Vectors for semantic search, keyed by memory key. Implement to cache vectors next to the
+	 * memories. Default: memories are embedded on every search.
+	 */
+	getVectors?(entries: MemoryEntry[], embedder: MemoryEmbedder, signal?: AbortSignal): Promise<Map<string, number[]>>;
+	/**
+	 * Keys (see getStoreMemoryKey) of the memories in a layer that contain every word, from a
+	 * full-text index. Default (or undefined for a layer): keyword searches scan the layer's memories.
+	 */
+	matchKeywords?(layer: MemoryLayer, words: string[]): Promise<Set<string> | undefined>;
+	/**
+	 * Every recorded change in a scope, oldest first, for /memory history, undo and restore.
+	 * Default: the backend keeps no history.
+	 */
+	loadHistory?(scope: MemoryScope): Promise<MemoryHistoryRecord[]>;
+}
+
+// ============================================================================
+// Backends
+// ============================================================================
+
+/**
+ * Memories in the global, project and team memory directories of cwd, in whichever format
+ * each directory uses (see MemoryStorageFormat), with each directory's history
+ */
+export class FileMemoryBackend implements MemoryBackend {
+	constructor(private readonly cwd: string) {}
+
+	async load(layer: MemoryLayer): Promise<MemoryEntry[]> {
+		return loadLayerEntries(this.cwd, layer);
+	}
+
+	async update<T extends { id: string }, R>(
+		type: MemoryType,
+		scope: MemoryScope,
+		mutate: (store: MemoryStore<T>) => R,
+		context?: MemoryChangeContext,
+	): Promise<R> {
+		return updateStore(this.cwd, getStoreFile(type), scope, mutate, context);
+	}
+
+	getVectors(entries: MemoryEntry[], embedder: MemoryEmbedder, signal?: AbortSignal): Promise<Map<string, number[]>> {
+		return getMemoryVectors(this.cwd, entries, embedder, signal);
+	}
+
+	async matchKeywords(layer: MemoryLayer, words: string[]): Promise<Set<string> | undefined> {
+		return searchMemoryIndex(this.cwd, layer, words);
+	}
+
+	async loadHistory(scope: MemoryScope): Promise<MemoryHistoryRecord[]> {
+		return loadMemoryHistory(this.cwd, scope);
+	}
+}
+
+/** Memories held in memory and lost when the backend is discarded. Keeps no history. */
+export class InMemoryMemoryBackend implements MemoryBackend {
+	private stores = new Map<string, MemoryStore<{ id: string }>>();
+
+	/** @param initial Memories each layer starts with */
+	constructor(initial: Partial<Record<MemoryLayer, MemoryBundle>> = {}) {
+		for (const [layer, bundle] of Object.entries(initial) as [MemoryLayer, MemoryBundle][]) {
+			for (const type of ["procedural", "episodic", "semantic"] as const) {
+				const memories = bundle[type];
+				if (memories) {
+					this.stores.set(this.getKey(layer, type), { memories: structuredClone(memories) });
+				}
+			}
+		}
+	}
+
+	private getKey(layer: MemoryLayer, type: MemoryType): string {
+		return `${layer}:${type}`;
+	}
+
+	private getStore<T>(layer: MemoryLayer, type: MemoryType): MemoryStore<T> {
+		return structuredClone(this.stores.get(this.getKey(layer, type)) ?? { memories: [] }) as MemoryStore<T>;
+	}
+
+	async load(layer: MemoryLayer): Promise<MemoryEntry[]> {
+		return [
+			...this.getStore<SemanticMemory>(layer, "semantic").memories.map(
+				(memory): MemoryEntry => ({ type: "semantic", memory, layer }),
+			),
+			...this.getStore<ProceduralMemory>(layer, "procedural").memories.map(
+				(memory): MemoryEntry => ({ type: "procedural", memory, layer }),
+			),
+			...this.getStore<EpisodicMemory>(layer, "episodic").memories.map(
+				(memory): MemoryEntry => ({ type: "episodic", memory, layer }),
+			),
+		];
+	}
+
+	async update<T extends { id: string }, R>(
+		type: MemoryType,
+		scope: MemoryScope,
+		mutate: (store: MemoryStore<T>) => R,
+	): Promise<R> {
+		const store = this.getStore<T>(scope, type);
+		const result = mutate(store);
+		this.stores.set(this.getKey(scope, type), store);
+		return result;
+	}
+}
+
+/** Hooks a ReviewedMemoryBackend runs around each changed memory */
+export interface MemoryChangeReview {
+	/** Called before a change is stored. A block rejects the whole update; fields are merged into the memory. */
+	beforeChange(
+		request: MemoryChangeRequest,
+	): Promise<{ block?: boolean; reason?: string; fields?: Record<string, unknown> } | undefined>;
+	/** Called after a change was stored */
+	afterChange(change: MemoryChangeRequest & { id: string }): Promise<void>;
+}
+
+/**
+ * A backend whose updates are reviewed memory by memory. Each update first runs on a copy
+ * of the store, read under the store's lock, to find the memories it writes, changes and
+ * deletes, and passes them to beforeChange. It then runs on the store itself, fails without
+ * writing if the store changed so that it would make other changes than the reviewed ones,
+ * and passes what changed to afterChange. Lets writes that do not go through the memory
+ * tools (imports, /memory commands, episode capture) be blocked or rewritten the same way.
+ */
+export class ReviewedMemoryBackend implements MemoryBackend {
+	constructor(
+		private readonly backend: MemoryBackend,
+		private readonly review: MemoryChangeReview,
+	) {
+		if (backend.getVectors) this.getVectors = backend.getVectors.bind(backend);
+		if (backend.matchKeywords) this.matchKeywords = backend.matchKeywords.bind(backend);
+		if (backend.loadHistory) this.loadHistory = backend.loadHistory.bind(backend);
+	}
+
+	getVectors?: MemoryBackend["getVectors"];
+	matchKeywords?: MemoryBackend["matchKeywords"];
+	loadHistory?: MemoryBackend["loadHistory"];
+
+	load(layer: MemoryLayer): Promise<MemoryEntry[]> {
+		return this.backend.load(layer);
+	}
+
+	async update<T extends { id: string }, R>(
+		type: MemoryType,
+		scope: MemoryScope,
+		mutate: (store: MemoryStore<T>) => R,
+		context?: MemoryChangeContext,
+	): Promise<R> {
+		// Leaves the store as it is, so nothing is written
+		const planned = await this.backend.update<T, Array<MemoryChangeRequest & { id: string }>>(
+			type,
+			scope,
+			(store) => {
+				const draft = structuredClone(store);
+				mutate(draft);
+				return diffMemories(type, scope, store.memories, draft.memories);
+			},
+		);
+
+		const rewrites = new Map<string, Record<string, unknown>>();
+		for (const change of planned) {
+			const result = await this.review.beforeChange(change);
+			if (result?.block) {
+				throw new Error(result.reason ?? `Memory ${change.action} was blocked by an extension`);
+			}
+			if (result?.fields && change.action !== "delete") rewrites.set(change.id, result.fields);
+		}
+
+		const changes: Array<MemoryChangeRequest & { id: string }> = [];
+		const result = await this.backend.update<T, R>(
+			type,
+			scope,
+			(store) => {
+				const before = structuredClone(store.memories);
+				const result = mutate(store);
+				if (getChangeKeys(diffMemories(type, scope, before, store.memories)) !== getChangeKeys(planned)) {
+					throw new Error("Memories changed while the change was reviewed. Try again.");
+				}
+				for (const memory of store.memories) {
+					const fields = rewrites.get(memory.id);
+					if (fields) Object.assign(memory, fields, { id: memory.id });
+				}
+				changes.push(...diffMemories(type, scope, before, store.memories));
+				return result;
+			},
+			context,
+		);
+		for (const change of changes) {
+			await this.review.afterChange(change);
+		}
+		return result;
+	}
+}
+
+/** What a list of changes does to which memories, ignoring fields such as timestamps */
+function getChangeKeys(changes: readonly MemoryChangeRequest[]): string {
+	return changes.map((c) => `${c.action}:${c.id}`).join(",");
+}
+
+/** The memory's fields without its ID and origin, as passed to beforeChange */
+function getChangeFields(memory: { id: string }): Record<string, unknown> {
+	const { id: _id, origin: _origin, ...fields } = memory as { id: string; origin?: unknown };
+	return fields;
+}
+
+/** The memories written, changed and deleted between two versions of a store */
+function diffMemories(
+	type: MemoryType,
+	scope: MemoryScope,
+	before: readonly { id: string }[],
+	after: readonly { id: string }[],
+): Array<MemoryChangeRequest & { id: string }> {
+	const previous = new Map(before.map((m) => [m.id, m as Record<string, unknown> & { id: string }]));
+	const changes: Array<MemoryChangeRequest & { id: string }> = [];
+	for (const memory of after as ReadonlyArray<Record<string, unknown> & { id: string }>) {
+		const old = previous.get(memory.id);
+		previous.delete(memory.id);
+		if (!old) {
+			changes.push({ action: "write", type, scope, id: memory.id, fields: getChangeFields(memory) });
+			continue;
+		}
+		const fields: Record<string, unknown> = {};
+		for (const key of new Set([...Object.keys(old), ...Object.keys(memory)])) {
+			if (JSON.stringify(old[key]) !== JSON.stringify(memory[key])) fields[key] = memory[key];
+		}
+		if (Object.keys(fields).length > 0) changes.push({ action: "update", type, scope, id: memory.id, fields });
+	}
+	for (const memory of previous.values()) {
+		changes.push({ action: "delete", type, scope, id: memory.id, fields: getChangeFields(memory) });
+	}
+	return changes;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+async function loadLayers(
+	backend: MemoryBackend,
+	layers: readonly MemoryLayer[],
+): Promise<(layer: MemoryLayer) => MemoryEntry[]> {
+	const loaded = new Map<MemoryLayer, MemoryEntry[]>();
+	for (const layer of layers) {
+		loaded.set(layer, await backend.load(layer));
+	}
+	return (layer) => loaded.get(layer) ?? [];
+}
+
+/** Load every memory from the given layers of a backend (see mergeLayerEntries) */
+export async function loadBackendEntries(
+	backend: MemoryBackend,
+	layers: readonly MemoryLayer[],
+): Promise<MemoryEntry[]> {
+	return mergeLayerEntries(layers, await loadLayers(backend, layers));
+}
+
+/** Find a memory by reference in the given layers of a backend (see findLayerEntry) */
+export async function findBackendEntry(
+	backend: MemoryBackend,
+	layers: readonly MemoryLayer[],
+	ref: string,
+): Promise<MemoryEntry | undefined> {
+	return findLayerEntry(layers, ref, await loadLayers(backend, layers));
+}
+
+/** Search the given layers of a backend (see searchMemoryEntries) */
+export async function searchBackendEntries(
+	backend: MemoryBackend,
+	layers: readonly MemoryLayer[],
+	query: string,
+	options: MemorySearchOptions = {},
+): Promise<MemoryEntry[]> {
+	return searchLoadedMemoryEntries(await loadBackendEntries(backend, layers), query, options, {
+		getVectors: backend.getVectors?.bind(backend),
+		matchKeywords: backend.matchKeywords?.bind(backend),
+	});
+}
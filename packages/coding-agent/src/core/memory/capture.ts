@@ -0,0 +1,177 @@
+/**
+ * Automatic episodic memory capture.
+ *
+ * Summarizes a session branch with generateBranchSummary, using instructions that ask
+ * for an episode (what happened, what went wrong, what to do next time) instead of a
+ * branch summary, and stores the result as an episodic memory linked to the session.
+ */
+
+import type { Model } from "@mariozechner/pi-ai";
+import { generateBranchSummary } from "../compaction/branch-summarization.js";
+import type { SessionEntry } from "../session-manager.js";
+import type { MemoryBackend } from "./backend.js";
+import { type EpisodicMemory, generateId, type MemoryOrigin, type MemoryScope } from "./memory.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** An episode extracted from a session, before it is stored */
+export interface CapturedEpisode {
+	summary: string;
+	details: string[];
+	mistakes: string[];
+	lessons: string[];
+	tags: string[];
+}
+
+export interface CaptureEpisodeOptions {
+	/** Model that summarizes the session */
+	model: Model<any>;
+	/** API key for the model */
+	apiKey: string;
+	signal: AbortSignal;
+}
+
+export interface EpisodeCaptureResult {
+	episode?: CapturedEpisode;
+	/** The session had nothing worth remembering */
+	skipped?: boolean;
+	aborted?: boolean;
+	error?: string;
+}
+
+// ============================================================================
+// Prompt
+// ============================================================================
+
+const EPISODE_INSTRUCTIONS = `Write an episodic memory of this session for a coding assistant that will work in the same project later.
+
+Use this EXACT format:
+
+<episode>
+<summary>One sentence: what was done and whether it succeeded</summary>
+<tags>2-5 lowercase topic tags, comma-separated</tags>
+<details>
+- Concrete facts worth recalling: files, commands, decisions
+</details>
+<mistakes>
+- Things that went wrong or wasted time (omit items if none)
+</mistakes>
+<lessons>
+- What to do differently next time (omit items if none)
+</lessons>
+</episode>
+
+Keep each item to one line. If the session was trivial (a greeting, a single question with no work done), output <skip/> instead.`;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function getSection(text: string, name: string): string | undefined {
+	return text.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`))?.[1].trim();
+}
+
+function getItems(text: string, name: string): string[] {
+	return (getSection(text, name) ?? "")
+		.split("\n")
+		.map((line) => line.trim().replace(/^[-*]\s*/, ""))
+		.filter(Boolean);
+}
+
+/**
+ * Parse the model's episode output.
+ * @returns The episode, or undefined if the model skipped the session or the output has no summary
+ */
+export function parseEpisodeResponse(text: string): CapturedEpisode | undefined {
+	const episode = getSection(text, "episode");
+	if (episode === undefined) return undefined;
+	const summary = getSection(episode, "summary");
+	if (!summary) return undefined;
+	return {
+		summary,
+		details: getItems(episode, "details"),
+		mistakes: getItems(episode, "mistakes"),
+		lessons: getItems(episode, "lessons"),
+		tags: (getSection(episode, "tags") ?? "")
+			.split(",")
+			.map((t) => t.trim().toLowerCase())
+			.filter(Boolean),
+	};
+}
+
+// ============================================================================
+// Capture
+// ============================================================================
+
+/**
+ * Summarize session entries into an episode. Files modified during the session are
+ * added to the details. Nothing is written.
+ */
+export async function summarizeEpisode(
+	entries: SessionEntry[],
+	options: CaptureEpisodeOptions,
+): Promise<EpisodeCaptureResult> {
+	const result = await generateBranchSummary(entries, {
+		model: options.model,
+		apiKey: options.apiKey,
+		signal: options.signal,
+		customInstructions: EPISODE_INSTRUCTIONS,
+		replaceInstructions: true,
+	});
+	if (result.aborted || result.error) {
+		return { aborted: result.aborted, error: result.error };
+	}
+
+	const episode = parseEpisodeResponse(result.summary ?? "");
+	if (!episode) {
+		return { skipped: true };
+	}
+	if (result.modifiedFiles && result.modifiedFiles.length > 0) {
+		episode.details.push(`Modified: ${result.modifiedFiles.join(", ")}`);
+	}
+	return { episode };
+}
+
+/**
+ * Store a captured episode, attributed to the given session entry. If replaceId names an existing episode (an earlier capture of
+ * the same session), it is replaced in place; otherwise a new episode is added.
+ * @returns The episode's ID
+ */
+export function saveCapturedEpisode(
+	backend: MemoryBackend,
+	scope: MemoryScope,
+	episode: CapturedEpisode,
+	origin: MemoryOrigin,
+	replaceId?: string,
+): Promise<string> {
+	return backend.update<EpisodicMemory, string>(
+		"episodic",
+		scope,
+		(store) => {
+			const existing = replaceId ? store.memories.find((m) => m.id === replaceId) : undefined;
+			const memory: EpisodicMemory = {
+				...existing,
+				id: existing?.id ?? generateId("ep", store),
+				summary: episode.summary,
+				details: episode.details,
+				reflection:
+					episode.mistakes.length > 0 || episode.lessons.length > 0
+						? { mistakes: episode.mistakes, lessons: episode.lessons }
+						: undefined,
+				tags: episode.tags,
+				date: new Date().toISOString().split("T")[0],
+				sourceSession: origin.sessionId,
+				origin,
+			};
+			if (existing) {
+				store.memories = store.memories.map((m) => (m.id === existing.id ? memory : m));
+			} else {
+				store.memories.push(memory);
+			}
+			return memory.id;
+		},
+		{ author: { kind: "capture", sessionId: origin.sessionId } },
+	);
+}
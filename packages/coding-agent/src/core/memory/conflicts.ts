@@ -0,0 +1,206 @@
+/**
+ * Contradiction detection for new semantic memories.
+ *
+ * Before memory_write stores a fact, it is compared with the stored facts of the same
+ * category and overlapping tags. Lexically similar ones are reported as likely
+ * contradictions (one negates the other) or supersessions (a newer version of the same
+ * rule), optionally confirmed by a model, so the agent or the user can choose whether to
+ * update the old memory, keep both or replace it.
+ */
+
+import type { Model } from "@mariozechner/pi-ai";
+import { completeSimple } from "@mariozechner/pi-ai";
+import type { SemanticMemory } from "./memory.js";
+import { tokenize } from "./retrieval.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MemoryConflictRelation = "contradiction" | "supersession";
+
+/** A stored memory the new one may conflict with */
+export interface MemoryConflict {
+	id: string;
+	text: string;
+	relation: MemoryConflictRelation;
+	/** Word overlap with the new memory, from 0 to 1 */
+	similarity: number;
+	/** Why the model considers them conflicting, when judged by a model */
+	reason?: string;
+}
+
+/**
+ * How memory_write resolves a conflict:
+ * - "update": rewrite the conflicting memory with the new text, keeping its ID
+ * - "keep_both": store the new memory next to the conflicting ones
+ * - "replace": delete the conflicting memories and store the new one
+ */
+export type MemoryConflictResolution = "update" | "keep_both" | "replace";
+
+export const MEMORY_CONFLICT_RESOLUTIONS: readonly MemoryConflictResolution[] = ["update", "keep_both", "replace"];
+
+/** The fields of a new semantic memory that conflicts are detected from */
+export type SemanticMemoryCandidate = Pick<SemanticMemory, "category" | "text" | "tags">;
+
+export interface FindMemoryConflictsOptions {
+	/** Minimum word overlap for a memory to be reported. Default: 0.35 */
+	minSimilarity?: number;
+	/** Maximum conflicts reported, most similar first. Default: 5 */
+	limit?: number;
+}
+
+export interface JudgeMemoryConflictsOptions {
+	/** Model that judges the conflicts */
+	model: Model<any>;
+	/** API key for the model */
+	apiKey: string;
+	signal?: AbortSignal;
+}
+
+// ============================================================================
+// Lexical detection
+// ============================================================================
+
+/** Words that flip a rule's meaning: "use tabs" vs "never use tabs" */
+const NEGATIONS = new Set(["not", "no", "never", "don", "dont", "doesn", "avoid", "stop", "without"]);
+
+function getTerms(text: string): { words: Set<string>; negated: boolean } {
+	const terms = tokenize(text);
+	return {
+		words: new Set(terms.filter((t) => !NEGATIONS.has(t))),
+		negated: terms.some((t) => NEGATIONS.has(t)),
+	};
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+	if (a.size === 0 || b.size === 0) return 0;
+	let shared = 0;
+	for (const word of a) {
+		if (b.has(word)) shared++;
+	}
+	return shared / (a.size + b.size - shared);
+}
+
+function sharesTags(a: string[], b: string[]): boolean {
+	if (a.length === 0 || b.length === 0) return true;
+	const tags = new Set(a.map((t) => t.toLowerCase()));
+	return b.some((t) => tags.has(t.toLowerCase()));
+}
+
+/**
+ * Find stored memories a new semantic memory likely contradicts or supersedes: same
+ * category, overlapping tags (or no tags on either side) and similar wording. Exact
+ * duplicates are not conflicts. A memory is a contradiction when exactly one of the two
+ * is negated, otherwise a supersession.
+ */
+export function findMemoryConflicts(
+	candidate: SemanticMemoryCandidate,
+	memories: SemanticMemory[],
+	options: FindMemoryConflictsOptions = {},
+): MemoryConflict[] {
+	const minSimilarity = options.minSimilarity ?? 0.35;
+	const terms = getTerms(candidate.text);
+	const text = candidate.text.toLowerCase();
+
+	const conflicts: MemoryConflict[] = [];
+	for (const memory of memories) {
+		if (memory.category !== candidate.category || memory.text.toLowerCase() === text) continue;
+		if (!sharesTags(candidate.tags, memory.tags)) continue;
+		const other = getTerms(memory.text);
+		const similarity = jaccard(terms.words, other.words);
+		if (similarity < minSimilarity) continue;
+		conflicts.push({
+			id: memory.id,
+			text: memory.text,
+			relation: terms.negated !== other.negated ? "contradiction" : "supersession",
+			similarity,
+		});
+	}
+	return conflicts.sort((a, b) => b.similarity - a.similarity).slice(0, options.limit ?? 5);
+}
+
+// ============================================================================
+// Model judgment
+// ============================================================================
+
+const JUDGE_SYSTEM_PROMPT = `You maintain the long-term memory of a coding assistant. You decide whether a new memory conflicts with stored ones.`;
+
+const JUDGE_PROMPT = `For each stored memory above, decide how the new memory relates to it:
+- "contradiction": both cannot be true or followed at the same time
+- "supersession": the new memory is a changed or more specific version of the same rule or fact
+- "compatible": they can both stand, even if they share a topic
+
+Output one line per stored memory, in this format:
+<conflict id="sem_001" relation="contradiction">One sentence explaining why</conflict>`;
+
+const CONFLICT_PATTERN = /<conflict\s+id="([^"]*)"\s+relation="([^"]*)"\s*>([\s\S]*?)<\/conflict>/g;
+
+/**
+ * Parse the model's judgment: conflicts it calls compatible are dropped, the others take
+ * its relation and reason. Conflicts the model did not mention are kept as found.
+ */
+export function parseConflictJudgment(text: string, conflicts: MemoryConflict[]): MemoryConflict[] {
+	const judged = new Map<string, { relation: string; reason: string }>();
+	for (const [, id, relation, reason] of text.matchAll(CONFLICT_PATTERN)) {
+		judged.set(id, { relation, reason: reason.trim() });
+	}
+	return conflicts.flatMap((conflict): MemoryConflict[] => {
+		const judgment = judged.get(conflict.id);
+		if (!judgment) return [conflict];
+		if (judgment.relation === "contradiction" || judgment.relation === "supersession") {
+			return [{ ...conflict, relation: judgment.relation, reason: judgment.reason || undefined }];
+		}
+		return [];
+	});
+}
+
+/**
+ * Ask a model which of the lexically similar memories really conflict with the new one.
+ * If the model fails, the conflicts are returned unchanged.
+ */
+export async function judgeMemoryConflicts(
+	candidate: SemanticMemoryCandidate,
+	conflicts: MemoryConflict[],
+	options: JudgeMemoryConflictsOptions,
+): Promise<MemoryConflict[]> {
+	if (conflicts.length === 0) return conflicts;
+	const stored = conflicts.map((c) => `<memory id="${c.id}">${c.text}</memory>`).join("\n");
+	const promptText = `<new_memory category="${candidate.category}">${candidate.text}</new_memory>\n\n<stored_memories>\n${stored}\n</stored_memories>\n\n${JUDGE_PROMPT}`;
+
+	const response = await completeSimple(
+		options.model,
+		{
+			systemPrompt: JUDGE_SYSTEM_PROMPT,
+			messages: [{ role: "user", content: [{ type: "text", text: promptText }], timestamp: Date.now() }],
+		},
+		{ apiKey: options.apiKey, signal: options.signal, maxTokens: 1024 },
+	);
+	if (response.stopReason === "aborted" || response.stopReason === "error") {
+		return conflicts;
+	}
+	const text = response.content
+		.filter((c): c is { type: "text"; text: string } => c.type === "text")
+		.map((c) => c.text)
+		.join("\n");
+	return parseConflictJudgment(text, conflicts);
+}
+
+/** Conflicts as a tool result for the model, with the ways to resolve them */
+export function formatMemoryConflicts(conflicts: MemoryConflict[]): string {
+	const lines = conflicts.map((c) => {
+		const reason = c.reason ? ` - ${c.reason}` : "";
+		return `- [${c.id}] (${c.relation}, ${Math.round(c.similarity * 100)}% similar): "${c.text}"${reason}`;
+	});
+	const first = conflicts[0]?.id;
+	return [
+		"Not saved: this memory may conflict with existing memories:",
+		...lines,
+		"",
+		"If it is unclear which is right, ask the user. Then call memory_write again with on_conflict set to:",
+		`- "update" to rewrite [${first}] with the new text`,
+		'- "replace" to delete the conflicting memories and save the new one',
+		'- "keep_both" to save the new memory alongside them',
+		"Pass conflict_ids to limit the resolution to some of the memories.",
+	].join("\n");
+}
@@ -0,0 +1,233 @@
+/**
+ * LLM-driven memory consolidation.
+ *
+ * Sends memories of one type to a model, which clusters near-duplicates and
+ * contradictions and proposes merged, rewritten or deleted memories. Proposals are
+ * not applied until the caller accepts them (see applyConsolidationProposal), so the
+ * user can review each one as a diff first.
+ */
+
+import type { Model } from "@mariozechner/pi-ai";
+import { completeSimple } from "@mariozechner/pi-ai";
+import { generateDiffString } from "../tools/edit-diff.js";
+import type { MemoryBackend } from "./backend.js";
+import {
+	deleteMemoryEntries,
+	formatMemoryForEditing,
+	mergeMemories,
+	parseMemoryEdit,
+	saveMemoryEntry,
+} from "./editing.js";
+import type { MemoryAuthor, MemoryType } from "./memory.js";
+import { getMemoryKey, type MemoryEntry } from "./retrieval.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ConsolidationAction = "merge" | "rewrite" | "delete";
+
+/** A change proposed by the model */
+export interface ConsolidationProposal {
+	action: ConsolidationAction;
+	/**
+	 * Memories the change replaces or removes. For merge and rewrite, the first one
+	 * is updated in place (keeping its ID) and any others are deleted.
+	 */
+	sources: MemoryEntry[];
+	/** The resulting memory, for merge and rewrite */
+	result?: MemoryEntry["memory"];
+	/** Why the model proposes the change */
+	reason: string;
+}
+
+export interface ConsolidationResult {
+	proposals: ConsolidationProposal[];
+	/** Number of proposals dropped because they were malformed or referenced unknown memories */
+	invalid: number;
+	aborted?: boolean;
+	error?: string;
+}
+
+export interface ConsolidateMemoriesOptions {
+	/** Model that proposes the changes */
+	model: Model<any>;
+	/** API key for the model */
+	apiKey: string;
+	signal?: AbortSignal;
+	/** Maximum memories sent per request. Default: 50 */
+	batchSize?: number;
+}
+
+// ============================================================================
+// Prompt
+// ============================================================================
+
+const CONSOLIDATION_SYSTEM_PROMPT = `You maintain the long-term memory of a coding assistant. You review stored memories and propose changes that make them accurate and non-redundant. You never invent information that is not in the memories.`;
+
+const CONSOLIDATION_PROMPT = `Review the memories above and find:
+1. Near-duplicates: memories that say the same thing, possibly in different words. Propose a "merge" that combines them into one.
+2. Contradictions: memories that disagree. If one clearly supersedes the other (e.g. it is newer), propose a "rewrite" of the outdated one or a "delete". If it is unclear which is right, propose a "rewrite" that states both positions.
+
+Leave unrelated memories alone, even if they share tags or topics. Only propose a change when you are confident it is an improvement.
+
+Output each change in this format, using the keys shown above:
+
+<change action="merge" keys="key1, key2">
+<reason>One sentence explaining the change</reason>
+<memory>
+(the resulting memory, in the same field format as the input)
+</memory>
+</change>
+
+"rewrite" takes exactly one key and a <memory>. "delete" takes one or more keys and no <memory>.
+If nothing needs to change, output <none/>.`;
+
+function formatMemoriesForConsolidation(type: MemoryType, entries: MemoryEntry[]): string {
+	const memories = entries.map((e) => `<memory key="${getMemoryKey(e)}">\n${formatMemoryForEditing(e)}\n</memory>`);
+	return `<memories type="${type}">\n${memories.join("\n")}\n</memories>`;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const CHANGE_PATTERN = /<change\s+action="([^"]*)"\s+keys="([^"]*)"\s*>([\s\S]*?)<\/change>/g;
+
+/**
+ * Parse the model's response into proposals for the given memories.
+ * Malformed changes, unknown keys and keys already used by an earlier change are dropped.
+ */
+export function parseConsolidationResponse(
+	text: string,
+	entries: MemoryEntry[],
+): { proposals: ConsolidationProposal[]; invalid: number } {
+	const byKey = new Map(entries.map((e) => [getMemoryKey(e), e]));
+	const used = new Set<string>();
+	const proposals: ConsolidationProposal[] = [];
+	let invalid = 0;
+
+	for (const match of text.matchAll(CHANGE_PATTERN)) {
+		const [, action, keyList, body] = match;
+		const keys = [
+			...new Set(
+				keyList
+					.split(",")
+					.map((k) => k.trim())
+					.filter(Boolean),
+			),
+		];
+		const sources = keys.map((k) => byKey.get(k));
+		const reason = body.match(/<reason>([\s\S]*?)<\/reason>/)?.[1].trim() ?? "";
+		const memoryText = body.match(/<memory>([\s\S]*?)<\/memory>/)?.[1].trim();
+
+		const valid =
+			sources.length > 0 &&
+			sources.every((s): s is MemoryEntry => s !== undefined) &&
+			keys.every((k) => !used.has(k)) &&
+			((action === "merge" && sources.length >= 2 && memoryText !== undefined) ||
+				(action === "rewrite" && sources.length === 1 && memoryText !== undefined) ||
+				action === "delete");
+		if (!valid) {
+			invalid++;
+			continue;
+		}
+
+		const matched = sources as MemoryEntry[];
+		let result: MemoryEntry["memory"] | undefined;
+		if (memoryText !== undefined && action !== "delete") {
+			const base = action === "merge" ? mergeMemories(matched) : matched[0].memory;
+			try {
+				result = parseMemoryEdit({ ...matched[0], memory: base } as MemoryEntry, memoryText);
+			} catch {
+				invalid++;
+				continue;
+			}
+		}
+
+		for (const key of keys) used.add(key);
+		proposals.push({ action: action as ConsolidationAction, sources: matched, result, reason });
+	}
+	return { proposals, invalid };
+}
+
+// ============================================================================
+// Consolidation
+// ============================================================================
+
+/**
+ * Ask a model to propose consolidation changes. Memories are sent per type, in batches,
+ * so changes only ever combine memories of the same type. Nothing is written.
+ */
+export async function proposeMemoryConsolidation(
+	entries: MemoryEntry[],
+	options: ConsolidateMemoriesOptions,
+): Promise<ConsolidationResult> {
+	const batchSize = options.batchSize ?? 50;
+	const result: ConsolidationResult = { proposals: [], invalid: 0 };
+
+	for (const type of ["semantic", "procedural", "episodic"] as const) {
+		const ofType = entries.filter((e) => e.type === type);
+		for (let start = 0; start < ofType.length; start += batchSize) {
+			const batch = ofType.slice(start, start + batchSize);
+			if (batch.length < 2) continue;
+
+			const promptText = `${formatMemoriesForConsolidation(type, batch)}\n\n${CONSOLIDATION_PROMPT}`;
+			const response = await completeSimple(
+				options.model,
+				{
+					systemPrompt: CONSOLIDATION_SYSTEM_PROMPT,
+					messages: [{ role: "user", content: [{ type: "text", text: promptText }], timestamp: Date.now() }],
+				},
+				{ apiKey: options.apiKey, signal: options.signal, maxTokens: 4096 },
+			);
+
+			if (response.stopReason === "aborted") {
+				return { ...result, aborted: true };
+			}
+			if (response.stopReason === "error") {
+				return { ...result, error: response.errorMessage || "Consolidation failed" };
+			}
+
+			const text = response.content
+				.filter((c): c is { type: "text"; text: string } => c.type === "text")
+				.map((c) => c.text)
+				.join("\n");
+			const parsed = parseConsolidationResponse(text, batch);
+			result.proposals.push(...parsed.proposals);
+			result.invalid += parsed.invalid;
+		}
+	}
+	return result;
+}
+
+/**
+ * Render a proposal as a unified diff of the affected memories in their editable text form.
+ */
+export function formatConsolidationDiff(proposal: ConsolidationProposal): string {
+	const before = proposal.sources.map((e) => `# ${getMemoryKey(e)}\n${formatMemoryForEditing(e)}`).join("\n\n");
+	const target = proposal.sources[0];
+	const after = proposal.result
+		? `# ${getMemoryKey(target)}\n${formatMemoryForEditing({ ...target, memory: proposal.result } as MemoryEntry)}`
+		: "";
+	return generateDiffString(before, after).diff;
+}
+
+/** Write an accepted proposal to the memories' layers. author is recorded in the memory history. */
+export async function applyConsolidationProposal(
+	backend: MemoryBackend,
+	proposal: ConsolidationProposal,
+	author?: MemoryAuthor,
+): Promise<void> {
+	const [first, ...rest] = proposal.sources;
+	if (proposal.action === "delete") {
+		await deleteMemoryEntries(backend, proposal.sources, author);
+		return;
+	}
+	if (proposal.result) {
+		await saveMemoryEntry(backend, first, proposal.result, author);
+	}
+	if (rest.length > 0) {
+		await deleteMemoryEntries(backend, rest, author);
+	}
+}
@@ -0,0 +1,287 @@
+/**
+ * Sync between memories and context files (AGENTS.md, CLAUDE.md, .cursorrules and the like).
+ *
+ * Import reads the rules in context files as semantic memories: every list item and
+ * paragraph becomes a fact, categorized by its heading and wording, and goes through
+ * importMemories like a bundle. Publish renders memories into a managed block of
+ * AGENTS.md, between markers, so the knowledge can be reviewed and shared through git;
+ * text outside the block is never touched. Each published memory is marked with its key
+ * and content hash. While the context file in the prompt holds a memory unchanged, the
+ * memory itself is not attached again, and import skips the block.
+ */
+
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { basename, join } from "node:path";
+import { formatMemoryAppliesTo, type MemoryBundle, nowISO, type SemanticMemory } from "./memory.js";
+import { getMemoryKey, type MemoryEntry } from "./retrieval.js";
+import { getMemoryContentHash } from "./transfer.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A fact read from a context file */
+export interface ContextFileFact {
+	category: SemanticMemory["category"];
+	text: string;
+	tags: string[];
+}
+
+/** Context files read by /memory import-context, relative to the project directory */
+export const CONTEXT_FILE_NAMES: readonly string[] = [
+	"AGENTS.md",
+	"CLAUDE.md",
+	".cursorrules",
+	".windsurfrules",
+	".clinerules",
+	".github/copilot-instructions.md",
+];
+
+/** Directory of Cursor's per-topic rule files (*.mdc) */
+const CURSOR_RULES_DIR = join(".cursor", "rules");
+
+/** Context files publish writes to, in order of preference; the first is created if none exists */
+const PUBLISH_FILE_NAMES = ["AGENTS.md", "CLAUDE.md"];
+
+export const MEMORY_BLOCK_START = "<!-- memories:start -->";
+export const MEMORY_BLOCK_END = "<!-- memories:end -->";
+
+/** Marker after each published memory: its key and the start of its content hash */
+const PUBLISHED_MARKER = /<!-- memory ([\w:-]+) ([0-9a-f]+) -->/g;
+const HASH_LENGTH = 12;
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/** The context files present in cwd, as absolute paths */
+export function findContextFiles(cwd: string): string[] {
+	const files = CONTEXT_FILE_NAMES.map((name) => join(cwd, name)).filter((file) => existsSync(file));
+	const rulesDir = join(cwd, CURSOR_RULES_DIR);
+	if (existsSync(rulesDir)) {
+		for (const name of readdirSync(rulesDir).sort()) {
+			if (name.endsWith(".mdc")) files.push(join(rulesDir, name));
+		}
+	}
+	return files;
+}
+
+/** Headings and wording that suggest a category, checked in order */
+const CATEGORY_HINTS: ReadonlyArray<[SemanticMemory["category"], RegExp]> = [
+	["architecture", /\b(architecture|structure|layout|overview|design|modules?|director(y|ies)|folders?)\b/i],
+	["preference", /\bprefer(s|red|ences?)?\b/i],
+	[
+		"convention",
+		/\b(conventions?|guidelines?|rules?|standards?|style|lint(ing)?|format(ting)?|naming|tests?|testing|commits?|always|never|must|should|don't|do not|avoid)\b/i,
+	],
+];
+
+function categorize(heading: string, text: string): SemanticMemory["category"] {
+	for (const source of [heading, text]) {
+		const hint = CATEGORY_HINTS.find(([, pattern]) => pattern.test(source));
+		if (hint) return hint[0];
+	}
+	return "fact";
+}
+
+function headingTag(heading: string): string | undefined {
+	const tag = heading
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "");
+	return tag || undefined;
+}
+
+/** Remove the managed memory block, so published memories are not imported back */
+function stripMemoryBlock(content: string): string {
+	const start = content.indexOf(MEMORY_BLOCK_START);
+	const end = content.indexOf(MEMORY_BLOCK_END);
+	if (start === -1 || end < start) return content;
+	return content.slice(0, start) + content.slice(end + MEMORY_BLOCK_END.length);
+}
+
+/**
+ * Read the rules in a context file: each list item and paragraph becomes a fact, tagged
+ * with its heading. Code blocks, tables, HTML comments, frontmatter, the managed memory
+ * block and lines that only introduce a list ("Before committing:") are skipped.
+ */
+export function parseContextFile(content: string): ContextFileFact[] {
+	const facts: ContextFileFact[] = [];
+	const seen = new Set<string>();
+	let heading = "";
+	let current: string[] = [];
+	let inCode = false;
+
+	const flush = () => {
+		const text = current.join(" ").replace(/\s+/g, " ").trim();
+		current = [];
+		if (!text || text.endsWith(":") || seen.has(text.toLowerCase())) return;
+		seen.add(text.toLowerCase());
+		const tag = headingTag(heading);
+		facts.push({ category: categorize(heading, text), text, tags: tag ? [tag] : [] });
+	};
+
+	const body = stripMemoryBlock(content)
+		.replace(/^---\n[\s\S]*?\n---\n/, "")
+		.replace(/<!--[\s\S]*?-->/g, "");
+	for (const rawLine of body.split("\n")) {
+		const line = rawLine.trim();
+		if (line.startsWith("```") || line.startsWith("~~~")) {
+			flush();
+			inCode = !inCode;
+			continue;
+		}
+		if (inCode) continue;
+		if (!line || line.startsWith("|")) {
+			flush();
+			continue;
+		}
+		const headingMatch = line.match(/^#{1,6}\s+(.*)$/);
+		if (headingMatch) {
+			flush();
+			heading = headingMatch[1].trim();
+			continue;
+		}
+		const item = line.match(/^(?:[-*+]|\d+[.)])\s+(.*)$/);
+		if (item) {
+			flush();
+			current.push(item[1]);
+			continue;
+		}
+		current.push(line);
+	}
+	flush();
+	return facts;
+}
+
+/**
+ * Build a bundle of the facts in context files, for importMemories. Facts found in
+ * several files are included once.
+ * @param files Absolute paths of the context files to read
+ * @param sessionId Recorded as the memories' source session
+ */
+export function createContextFileBundle(files: readonly string[], sessionId = ""): MemoryBundle {
+	const semantic: SemanticMemory[] = [];
+	const seen = new Set<string>();
+	const created = nowISO();
+	for (const file of files) {
+		for (const fact of parseContextFile(readFileSync(file, "utf-8"))) {
+			const key = fact.text.toLowerCase();
+			if (seen.has(key)) continue;
+			seen.add(key);
+			const id = `sem_${String(semantic.length + 1).padStart(3, "0")}`;
+			const tags = [...new Set([...fact.tags, headingTag(basename(file))].filter((t): t is string => !!t))];
+			semantic.push({ id, ...fact, tags, created, sourceSession: sessionId });
+		}
+	}
+	return { semantic };
+}
+
+// ============================================================================
+// Publish
+// ============================================================================
+
+const CATEGORY_TITLES: Record<SemanticMemory["category"], string> = {
+	convention: "Conventions",
+	preference: "Preferences",
+	architecture: "Architecture",
+	fact: "Facts",
+};
+
+function getPublishedHash(entry: MemoryEntry): string {
+	return getMemoryContentHash(entry.type, entry.memory).slice(0, HASH_LENGTH);
+}
+
+function marker(entry: MemoryEntry): string {
+	return `<!-- memory ${getMemoryKey(entry)} ${getPublishedHash(entry)} -->`;
+}
+
+function appliesToSuffix(entry: MemoryEntry): string {
+	const scope = entry.type === "episodic" ? undefined : formatMemoryAppliesTo(entry.memory.appliesTo);
+	return scope ? ` (applies to ${scope})` : "";
+}
+
+/**
+ * Render semantic and procedural memories as the managed block, facts grouped by
+ * category and procedures with their steps. Episodic memories are left out.
+ */
+export function formatMemoryBlock(entries: readonly MemoryEntry[]): string {
+	const lines = [
+		MEMORY_BLOCK_START,
+		"<!-- Generated by /memory publish. Edit the memories with /memory instead; this block is rewritten on publish. -->",
+		"## Memories",
+	];
+	for (const [category, title] of Object.entries(CATEGORY_TITLES)) {
+		const facts = entries.filter((e) => e.type === "semantic" && e.memory.category === category);
+		if (facts.length === 0) continue;
+		lines.push("", `### ${title}`, "");
+		for (const entry of facts) {
+			if (entry.type !== "semantic") continue;
+			lines.push(`- ${entry.memory.text}${appliesToSuffix(entry)} ${marker(entry)}`);
+		}
+	}
+	const procedures = entries.filter((e) => e.type === "procedural");
+	if (procedures.length > 0) {
+		lines.push("", "### Procedures");
+		for (const entry of procedures) {
+			if (entry.type !== "procedural") continue;
+			lines.push(
+				"",
+				`**${entry.memory.name}**: ${entry.memory.trigger}${appliesToSuffix(entry)} ${marker(entry)}`,
+				"",
+			);
+			lines.push(...entry.memory.steps.map((step, i) => `${i + 1}. ${step}`));
+		}
+	}
+	lines.push(MEMORY_BLOCK_END);
+	return lines.join("\n");
+}
+
+/** Replace the managed block in content, or append it if there is none */
+export function replaceMemoryBlock(content: string, block: string): string {
+	const start = content.indexOf(MEMORY_BLOCK_START);
+	const end = content.indexOf(MEMORY_BLOCK_END);
+	if (start !== -1 && end > start) {
+		return content.slice(0, start) + block + content.slice(end + MEMORY_BLOCK_END.length);
+	}
+	const trimmed = content.trimEnd();
+	return trimmed ? `${trimmed}\n\n${block}\n` : `${block}\n`;
+}
+
+/** The context file publish writes to in cwd: an existing AGENTS.md or CLAUDE.md, else a new AGENTS.md */
+export function getPublishTarget(cwd: string): string {
+	const existing = PUBLISH_FILE_NAMES.map((name) => join(cwd, name)).find((file) => existsSync(file));
+	return existing ?? join(cwd, PUBLISH_FILE_NAMES[0]);
+}
+
+/**
+ * Write memories into the managed block of a context file, creating the file if needed.
+ * @returns The new content of the file
+ */
+export function publishMemories(filePath: string, entries: readonly MemoryEntry[]): string {
+	const content = existsSync(filePath) ? readFileSync(filePath, "utf-8") : "";
+	const updated = replaceMemoryBlock(content, formatMemoryBlock(entries));
+	writeFileSync(filePath, updated, "utf-8");
+	return updated;
+}
+
+/**
+ * Keys of the memories that context files hold as published and that have not changed
+ * since. These are in the prompt already through the context file.
+ * @param contents Contents of the context files
+ */
+export function getPublishedMemoryKeys(entries: readonly MemoryEntry[], contents: readonly string[]): Set<string> {
+	const published = new Map<string, string>();
+	for (const content of contents) {
+		for (const [, key, hash] of content.matchAll(PUBLISHED_MARKER)) {
+			published.set(key, hash);
+		}
+	}
+	const keys = new Set<string>();
+	if (published.size === 0) return keys;
+	for (const entry of entries) {
+		const key = getMemoryKey(entry);
+		if (published.get(key) === getPublishedHash(entry)) keys.add(key);
+	}
+	return keys;
+}
@@ -0,0 +1,370 @@
+/**
+ * Direct memory editing for the memory browser: field-level edits as plain text,
+ * deletion, merging and pinning. Writes go to the memory's own layer; team memories
+ * are read-only and rejected.
+ */
+
+import { mergeMemoryAppliesTo, normalizeMemoryAppliesTo } from "./activation.js";
+import type { MemoryBackend } from "./backend.js";
+import {
+	type EpisodicMemory,
+	type MemoryAppliesTo,
+	type MemoryAuthor,
+	type MemoryScope,
+	nowISO,
+	type ProceduralMemory,
+	SEMANTIC_CATEGORIES,
+	type SemanticMemory,
+} from "./memory.js";
+import { getMemoryKey, type MemoryEntry } from "./retrieval.js";
+
+// ============================================================================
+// Text form
+// ============================================================================
+
+/** Fields edited as "- item" lines below their key */
+const LIST_FIELDS = new Set(["steps", "details", "mistakes", "lessons"]);
+
+const EDITABLE_FIELDS: Record<MemoryEntry["type"], string[]> = {
+	semantic: ["category", "text", "tags", "paths", "branches"],
+	procedural: ["name", "trigger", "tags", "paths", "branches", "steps"],
+	episodic: ["date", "summary", "tags", "details", "mistakes", "lessons"],
+};
+
+/**
+ * Render a memory's editable fields as text: one "key: value" line per field,
+ * with list fields as "- item" lines below their key. Tags are comma-separated, as
+ * are the paths and branches a memory is limited to (only shown when set, but
+ * semantic and procedural memories accept them).
+ */
+export function formatMemoryForEditing(entry: MemoryEntry): string {
+	const lines: string[] = [];
+	const scalar = (key: string, value: string) => lines.push(`${key}: ${value}`);
+	const list = (key: string, items: string[]) => {
+		lines.push(`${key}:`);
+		for (const item of items) lines.push(`- ${item}`);
+	};
+	const appliesTo = (value: MemoryAppliesTo | undefined) => {
+		if (value?.paths?.length) scalar("paths", value.paths.join(", "));
+		if (value?.branches?.length) scalar("branches", value.branches.join(", "));
+	};
+
+	switch (entry.type) {
+		case "semantic":
+			scalar("category", entry.memory.category);
+			scalar("text", entry.memory.text);
+			scalar("tags", entry.memory.tags.join(", "));
+			appliesTo(entry.memory.appliesTo);
+			break;
+		case "procedural":
+			scalar("name", entry.memory.name);
+			scalar("trigger", entry.memory.trigger);
+			scalar("tags", entry.memory.tags.join(", "));
+			appliesTo(entry.memory.appliesTo);
+			list("steps", entry.memory.steps);
+			break;
+		case "episodic":
+			scalar("date", entry.memory.date);
+			scalar("summary", entry.memory.summary);
+			scalar("tags", entry.memory.tags.join(", "));
+			list("details", entry.memory.details);
+			list("mistakes", entry.memory.reflection?.mistakes ?? []);
+			list("lessons", entry.memory.reflection?.lessons ?? []);
+			break;
+	}
+	return lines.join("\n");
+}
+
+function parseFields(type: MemoryEntry["type"], text: string): Map<string, string | string[]> {
+	const allowed = EDITABLE_FIELDS[type];
+	const fields = new Map<string, string | string[]>();
+	let currentList: string[] | undefined;
+
+	for (const rawLine of text.split("\n")) {
+		const line = rawLine.trim();
+		if (!line) continue;
+		if (line.startsWith("- ") || line === "-") {
+			if (!currentList) {
+				throw new Error(`List item outside of a list field: "${line}"`);
+			}
+			const item = line.slice(1).trim();
+			if (item) currentList.push(item);
+			continue;
+		}
+		const separator = line.indexOf(":");
+		const key = separator === -1 ? line : line.slice(0, separator).trim();
+		if (!allowed.includes(key)) {
+			throw new Error(`Unknown field "${key}". ${type} memories have: ${allowed.join(", ")}`);
+		}
+		const value = separator === -1 ? "" : line.slice(separator + 1).trim();
+		if (LIST_FIELDS.has(key)) {
+			currentList = value ? [value] : [];
+			fields.set(key, currentList);
+		} else {
+			currentList = undefined;
+			fields.set(key, value);
+		}
+	}
+	return fields;
+}
+
+/**
+ * Apply text produced by formatMemoryForEditing (and edited by the user) to a memory.
+ * Fields missing from the text keep their current value.
+ * @returns A new memory object; the entry is not modified
+ * @throws Error if the text has unknown fields or leaves a required field empty
+ */
+export function parseMemoryEdit(entry: MemoryEntry, text: string): MemoryEntry["memory"] {
+	const fields = parseFields(entry.type, text);
+	const str = (key: string, current: string): string => {
+		const value = fields.get(key);
+		return typeof value === "string" ? value : current;
+	};
+	const list = (key: string, current: string[]): string[] => {
+		const value = fields.get(key);
+		return Array.isArray(value) ? value : current;
+	};
+	const commaList = (key: string, current: string[]): string[] => {
+		const value = fields.get(key);
+		if (typeof value !== "string") return current;
+		return value
+			.split(",")
+			.map((t) => t.trim())
+			.filter(Boolean);
+	};
+	const tags = (current: string[]): string[] => commaList("tags", current);
+	const appliesTo = (current: MemoryAppliesTo | undefined): MemoryAppliesTo | undefined =>
+		normalizeMemoryAppliesTo(
+			commaList("paths", current?.paths ?? []),
+			commaList("branches", current?.branches ?? []),
+		);
+	const required = (key: string, value: string | string[]) => {
+		if (value.length === 0) throw new Error(`"${key}" must not be empty`);
+	};
+
+	switch (entry.type) {
+		case "semantic": {
+			const category = str("category", entry.memory.category) as SemanticMemory["category"];
+			if (!SEMANTIC_CATEGORIES.includes(category)) {
+				throw new Error(`Invalid category "${category}". Use one of: ${SEMANTIC_CATEGORIES.join(", ")}`);
+			}
+			const memory: SemanticMemory = {
+				...entry.memory,
+				category,
+				text: str("text", entry.memory.text),
+				tags: tags(entry.memory.tags),
+				appliesTo: appliesTo(entry.memory.appliesTo),
+			};
+			required("text", memory.text);
+			return memory;
+		}
+		case "procedural": {
+			const memory: ProceduralMemory = {
+				...entry.memory,
+				name: str("name", entry.memory.name),
+				trigger: str("trigger", entry.memory.trigger),
+				tags: tags(entry.memory.tags),
+				appliesTo: appliesTo(entry.memory.appliesTo),
+				steps: list("steps", entry.memory.steps),
+				updated: nowISO(),
+			};
+			required("name", memory.name);
+			required("trigger", memory.trigger);
+			required("steps", memory.steps);
+			return memory;
+		}
+		case "episodic": {
+			const mistakes = list("mistakes", entry.memory.reflection?.mistakes ?? []);
+			const lessons = list("lessons", entry.memory.reflection?.lessons ?? []);
+			const memory: EpisodicMemory = {
+				...entry.memory,
+				date: str("date", entry.memory.date),
+				summary: str("summary", entry.memory.summary),
+				tags: tags(entry.memory.tags),
+				details: list("details", entry.memory.details),
+				reflection: mistakes.length > 0 || lessons.length > 0 ? { mistakes, lessons } : undefined,
+			};
+			required("summary", memory.summary);
+			return memory;
+		}
+	}
+}
+
+// ============================================================================
+// Merging
+// ============================================================================
+
+function unique(items: string[]): string[] {
+	return [...new Set(items)];
+}
+
+function earliest(dates: string[]): string {
+	return [...dates].sort()[0];
+}
+
+/**
+ * Combine memories of one type into one. The result keeps the first memory's ID and
+ * title fields, concatenates text and list fields without duplicates, unions tags and
+ * sums usage. Pinned if any input was pinned; applies wherever any input applied.
+ * @throws Error if fewer than two memories are given or their types differ
+ */
+export function mergeMemories(entries: MemoryEntry[]): MemoryEntry["memory"] {
+	if (entries.length < 2) {
+		throw new Error("Select at least two memories to merge");
+	}
+	const type = entries[0].type;
+	if (entries.some((e) => e.type !== type)) {
+		throw new Error("Only memories of the same type can be merged");
+	}
+
+	const memories = entries.map((e) => e.memory);
+	const usage = memories.reduce((sum, m) => sum + (m.useCount ?? 0), 0);
+	const lastUsed = memories.map((m) => m.lastUsedAt).filter((t): t is string => t !== undefined);
+	const common = {
+		tags: unique(memories.flatMap((m) => m.tags)),
+		useCount: usage > 0 ? usage : undefined,
+		lastUsedAt: lastUsed.length > 0 ? [...lastUsed].sort().at(-1) : undefined,
+		pinned: memories.some((m) => m.pinned) ? true : undefined,
+	};
+
+	switch (type) {
+		case "semantic": {
+			const all = memories as SemanticMemory[];
+			return {
+				...all[0],
+				...common,
+				text: unique(all.map((m) => m.text)).join(" "),
+				created: earliest(all.map((m) => m.created)),
+				appliesTo: mergeMemoryAppliesTo(all.map((m) => m.appliesTo)),
+			};
+		}
+		case "procedural": {
+			const all = memories as ProceduralMemory[];
+			return {
+				...all[0],
+				...common,
+				steps: unique(all.flatMap((m) => m.steps)),
+				created: earliest(all.map((m) => m.created)),
+				appliesTo: mergeMemoryAppliesTo(all.map((m) => m.appliesTo)),
+				updated: nowISO(),
+			};
+		}
+		case "episodic": {
+			const all = memories as EpisodicMemory[];
+			const mistakes = unique(all.flatMap((m) => m.reflection?.mistakes ?? []));
+			const lessons = unique(all.flatMap((m) => m.reflection?.lessons ?? []));
+			return {
+				...all[0],
+				...common,
+				summary: unique(all.map((m) => m.summary)).join("; "),
+				details: unique(all.flatMap((m) => m.details)),
+				reflection: mistakes.length > 0 || lessons.length > 0 ? { mistakes, lessons } : undefined,
+				date: earliest(all.map((m) => m.date)),
+			};
+		}
+	}
+}
+
+// ============================================================================
+// Writes
+// ============================================================================
+
+/**
+ * Layer a memory can be written back to.
+ * @throws Error for team memories (read-only) and entries without a layer
+ */
+function getWritableScope(entry: MemoryEntry): MemoryScope {
+	if (entry.layer === "team") {
+		throw new Error(`[${getMemoryKey(entry)}] is in the read-only team layer`);
+	}
+	if (!entry.layer) {
+		throw new Error(`[${entry.memory.id}] has no layer`);
+	}
+	return entry.layer;
+}
+
+/** Apply a mutation to the stores holding the given entries, once per store */
+async function updateEntryStores(
+	backend: MemoryBackend,
+	entries: MemoryEntry[],
+	mutate: (ids: Set<string>, store: { memories: { id: string }[] }) => void,
+	author: MemoryAuthor | undefined,
+): Promise<void> {
+	const groups = new Map<string, { scope: MemoryScope; type: MemoryEntry["type"]; ids: Set<string> }>();
+	for (const entry of entries) {
+		const scope = getWritableScope(entry);
+		const key = `${scope}:${entry.type}`;
+		const group = groups.get(key) ?? { scope, type: entry.type, ids: new Set<string>() };
+		group.ids.add(entry.memory.id);
+		groups.set(key, group);
+	}
+	for (const { scope, type, ids } of groups.values()) {
+		await backend.update<{ id: string }, void>(type, scope, (store) => mutate(ids, store), author && { author });
+	}
+}
+
+/** Replace a stored memory with an edited version (same ID). author is recorded in the memory history. */
+export async function saveMemoryEntry(
+	backend: MemoryBackend,
+	entry: MemoryEntry,
+	memory: MemoryEntry["memory"],
+	author?: MemoryAuthor,
+): Promise<void> {
+	await updateEntryStores(
+		backend,
+		[entry],
+		(ids, store) => {
+			store.memories = store.memories.map((m) => (ids.has(m.id) ? memory : m));
+		},
+		author,
+	);
+}
+
+/** Delete memories from their layers */
+export async function deleteMemoryEntries(
+	backend: MemoryBackend,
+	entries: MemoryEntry[],
+	author?: MemoryAuthor,
+): Promise<void> {
+	await updateEntryStores(
+		backend,
+		entries,
+		(ids, store) => {
+			store.memories = store.memories.filter((m) => !ids.has(m.id));
+		},
+		author,
+	);
+}
+
+/** Pin or unpin memories */
+export async function setMemoriesPinned(
+	backend: MemoryBackend,
+	entries: MemoryEntry[],
+	pinned: boolean,
+	author?: MemoryAuthor,
+): Promise<void> {
+	await updateEntryStores(
+		backend,
+		entries,
+		(ids, store) => {
+			store.memories = store.memories.map((m) => (ids.has(m.id) ? { ...m, pinned: pinned ? true : undefined } : m));
+		},
+		author,
+	);
+}
+
+/**
+ * Merge memories (see mergeMemories) into the first one and delete the rest.
+ * @returns The merged entry
+ */
+export async function mergeMemoryEntries(
+	backend: MemoryBackend,
+	entries: MemoryEntry[],
+	author?: MemoryAuthor,
+): Promise<MemoryEntry> {
+	for (const entry of entries) getWritableScope(entry);
+	const merged = { ...entries[0], memory: mergeMemories(entries) } as MemoryEntry;
+	await saveMemoryEntry(backend, entries[0], merged.memory, author);
+	await deleteMemoryEntries(backend, entries.slice(1), author);
+	return merged;
+}
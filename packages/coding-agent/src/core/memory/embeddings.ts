@@ -0,0 +1,378 @@
+/**
+ * Embedding-backed semantic search over memories.
+ *
+ * A MemoryEmbedder turns text into vectors. The default HashedNgramEmbedder runs fully
+ * offline; OpenAIEmbedder calls an OpenAI-compatible /embeddings endpoint. Vectors are
+ * cached in vectors.json next to the memory stores and refreshed lazily when a memory's
+ * text changes or the embedder changes.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import {
+	getMemoryDir,
+	getProjectMemoryDir,
+	type MemoryLayer,
+	type MemoryType,
+	searchMemoryIndex,
+	writeFileAtomic,
+} from "./memory.js";
+import {
+	getMemoryKey,
+	getMemorySearchText,
+	getStoreMemoryKey,
+	loadMemoryEntries,
+	type MemoryEntry,
+	tokenize,
+} from "./retrieval.js";
+
+// ============================================================================
+// Embedders
+// ============================================================================
+
+export interface MemoryEmbedder {
+	/** Identifies the embedding space. Cached vectors from a different id are discarded. */
+	readonly id: string;
+	/** Minimum cosine similarity for a vector match to count as relevant */
+	readonly minSimilarity: number;
+	/** Embed a batch of texts, returning one vector per text in the same order */
+	embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+/** 32-bit FNV-1a hash */
+function fnv1a(text: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+	const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+	return norm === 0 ? vector : vector.map((v) => v / norm);
+}
+
+/**
+ * Offline embedder using the hashing trick over stemmed words and character trigrams.
+ * Matches morphological variants and partial words ("config" / "configuration") without
+ * any model or network access.
+ */
+export class HashedNgramEmbedder implements MemoryEmbedder {
+	readonly id: string;
+	readonly minSimilarity = 0.2;
+
+	constructor(private readonly dimensions: number = 512) {
+		this.id = `hashed-ngram-${dimensions}`;
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		return texts.map((text) => this.embedOne(text));
+	}
+
+	private embedOne(text: string): number[] {
+		const vector = new Array<number>(this.dimensions).fill(0);
+		const add = (feature: string, weight: number) => {
+			const hash = fnv1a(feature);
+			// Use the top bit as a sign so colliding features tend to cancel instead of accumulate
+			const sign = hash & 0x80000000 ? -1 : 1;
+			vector[hash % this.dimensions] += sign * weight;
+		};
+
+		for (const word of tokenize(text)) {
+			add(`w:${word}`, 1);
+			const padded = `^${word}$`;
+			for (let i = 0; i + 3 <= padded.length; i++) {
+				add(`c:${padded.slice(i, i + 3)}`, 0.5);
+			}
+		}
+		return normalize(vector);
+	}
+}
+
+export interface OpenAIEmbedderOptions {
+	/** Resolve the API key at request time */
+	getApiKey: () => Promise<string | undefined>;
+	/** Embedding model. Default: text-embedding-3-small */
+	model?: string;
+	/** API base URL. Default: https://api.openai.com/v1 */
+	baseUrl?: string;
+}
+
+/**
+ * Embedder backed by an OpenAI-compatible /embeddings endpoint.
+ */
+export class OpenAIEmbedder implements MemoryEmbedder {
+	readonly id: string;
+	readonly minSimilarity = 0.3;
+	private readonly model: string;
+	private readonly baseUrl: string;
+
+	constructor(private readonly options: OpenAIEmbedderOptions) {
+		this.model = options.model ?? "text-embedding-3-small";
+		this.baseUrl = (options.baseUrl ?? "https://api.openai.com/v1").replace(/\/+$/, "");
+		this.id = `openai:${this.baseUrl}:${this.model}`;
+	}
+
+	async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+		if (texts.length === 0) return [];
+		const apiKey = await this.options.getApiKey();
+		if (!apiKey) {
+			throw new Error("No API key found for the memory embeddings provider");
+		}
+		const response = await fetch(`${this.baseUrl}/embeddings`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json", Authorization: `Bearer ${apiKey}` },
+			body: JSON.stringify({ model: this.model, input: texts }),
+			signal,
+		});
+		if (!response.ok) {
+			throw new Error(`Embedding request failed (${response.status}): ${await response.text()}`);
+		}
+		const json = (await response.json()) as { data: Array<{ index: number; embedding: number[] }> };
+		return json.data.sort((a, b) => a.index - b.index).map((d) => normalize(d.embedding));
+	}
+}
+
+export interface MemoryEmbeddingConfig {
+	provider: "local" | "openai";
+	model?: string;
+	baseUrl?: string;
+}
+
+/**
+ * Create the embedder selected in settings.
+ * @param getApiKey Resolves API keys for provider-backed embedders (e.g. via ModelRegistry)
+ */
+export function createMemoryEmbedder(
+	config: MemoryEmbeddingConfig,
+	getApiKey: (provider: string) => Promise<string | undefined>,
+): MemoryEmbedder {
+	if (config.provider === "openai") {
+		return new OpenAIEmbedder({ getApiKey: () => getApiKey("openai"), model: config.model, baseUrl: config.baseUrl });
+	}
+	return new HashedNgramEmbedder();
+}
+
+// ============================================================================
+// Vector index
+// ============================================================================
+
+const VECTOR_INDEX_FILE = "vectors.json";
+
+interface VectorIndexFile {
+	embedder: string;
+	vectors: Record<string, { hash: string; vector: number[] }>;
+}
+
+function hashText(text: string): string {
+	return createHash("sha256").update(text).digest("hex").slice(0, 16);
+}
+
+/**
+ * Each layer caches its vectors next to its stores. The team layer is committed and
+ * read-only, so its cache lives in the project memory directory instead.
+ */
+function getVectorIndexPath(cwd: string, layer: MemoryLayer): string {
+	if (layer === "team") {
+		return join(getProjectMemoryDir(cwd), `team-${VECTOR_INDEX_FILE}`);
+	}
+	return join(getMemoryDir(cwd, layer), VECTOR_INDEX_FILE);
+}
+
+function loadVectorIndex(filepath: string, embedderId: string): VectorIndexFile {
+	if (existsSync(filepath)) {
+		try {
+			const index = JSON.parse(readFileSync(filepath, "utf-8")) as VectorIndexFile;
+			if (index.embedder === embedderId && index.vectors) {
+				return index;
+			}
+		} catch {
+			// Rebuild a corrupt index from scratch; it only caches derived data
+		}
+	}
+	return { embedder: embedderId, vectors: {} };
+}
+
+function saveVectorIndex(filepath: string, index: VectorIndexFile): void {
+	const dir = dirname(filepath);
+	if (!existsSync(dir)) {
+		mkdirSync(dir, { recursive: true });
+	}
+	writeFileAtomic(filepath, JSON.stringify(index));
+}
+
+/**
+ * Return vectors for the given memories keyed by memory key (see getMemoryKey),
+ * embedding any that are missing or stale. Each layer's cache holds exactly the
+ * memories of that layer passed in; vectors for other memories are pruned.
+ * Entries without a layer are cached with the project layer.
+ */
+export async function getMemoryVectors(
+	cwd: string,
+	entries: MemoryEntry[],
+	embedder: MemoryEmbedder,
+	signal?: AbortSignal,
+): Promise<Map<string, number[]>> {
+	const byLayer = new Map<MemoryLayer, MemoryEntry[]>();
+	for (const entry of entries) {
+		const layer = entry.layer ?? "project";
+		byLayer.set(layer, [...(byLayer.get(layer) ?? []), entry]);
+	}
+
+	const result = new Map<string, number[]>();
+	for (const [layer, layerEntries] of byLayer) {
+		const filepath = getVectorIndexPath(cwd, layer);
+		const index = loadVectorIndex(filepath, embedder.id);
+		const texts = new Map(layerEntries.map((e) => [e.memory.id, getMemorySearchText(e)]));
+
+		const stale = [...texts].filter(([id, text]) => index.vectors[id]?.hash !== hashText(text));
+		const removed = Object.keys(index.vectors).filter((id) => !texts.has(id));
+
+		if (stale.length > 0) {
+			const vectors = await embedder.embed(
+				stale.map(([, text]) => text),
+				signal,
+			);
+			stale.forEach(([id, text], i) => {
+				index.vectors[id] = { hash: hashText(text), vector: vectors[i] };
+			});
+		}
+		for (const id of removed) {
+			delete index.vectors[id];
+		}
+		if (stale.length > 0 || removed.length > 0) {
+			saveVectorIndex(filepath, index);
+		}
+
+		for (const entry of layerEntries) {
+			result.set(getMemoryKey(entry), index.vectors[entry.memory.id].vector);
+		}
+	}
+	return result;
+}
+
+/**
+ * Embed the given memories without caching, keyed by memory key.
+ * Used when the memory storage has no vector cache of its own.
+ */
+export async function embedMemoryEntries(
+	entries: MemoryEntry[],
+	embedder: MemoryEmbedder,
+	signal?: AbortSignal,
+): Promise<Map<string, number[]>> {
+	const vectors = await embedder.embed(entries.map(getMemorySearchText), signal);
+	return new Map(entries.map((e, i) => [getMemoryKey(e), vectors[i]]));
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+	if (a.length !== b.length) return 0;
+	let dot = 0;
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i] * b[i];
+	}
+	return dot;
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+export interface MemorySearchOptions {
+	/** Restrict to one memory type. Default: all */
+	type?: MemoryType | "all";
+	/** Embedder for semantic matches. Without one, only keyword matches are returned. */
+	embedder?: MemoryEmbedder;
+	/** Maximum number of results. Default: 20 */
+	limit?: number;
+	signal?: AbortSignal;
+}
+
+/** Returns vectors for memories, keyed by memory key (see getMemoryVectors) */
+export type MemoryVectorSource = (
+	entries: MemoryEntry[],
+	embedder: MemoryEmbedder,
+	signal?: AbortSignal,
+) => Promise<Map<string, number[]>>;
+
+/** Where a search over loaded memories gets derived data from */
+export interface MemorySearchSources {
+	/** Vectors for semantic matches. Default: embed every memory on each search */
+	getVectors?: MemoryVectorSource;
+	/**
+	 * Keys (see getStoreMemoryKey) of the memories in a layer that contain every query word, from
+	 * a full-text index. Layers it returns undefined for (or all, if unset) are matched by scanning
+	 * their memories.
+	 */
+	matchKeywords?: (layer: MemoryLayer, words: string[]) => Promise<Set<string> | undefined>;
+}
+
+/**
+ * Search memories by keywords and, when an embedder is given, by vector similarity.
+ * Keyword matches (every query word present) come first, followed by the closest
+ * semantic matches. If embedding fails, keyword matches are still returned.
+ */
+export async function searchMemoryEntries(
+	cwd: string,
+	layers: readonly MemoryLayer[],
+	query: string,
+	options: MemorySearchOptions = {},
+): Promise<MemoryEntry[]> {
+	return searchLoadedMemoryEntries(loadMemoryEntries(cwd, layers), query, options, {
+		getVectors: (entries, embedder, signal) => getMemoryVectors(cwd, entries, embedder, signal),
+		matchKeywords: async (layer, words) => searchMemoryIndex(cwd, layer, words),
+	});
+}
+
+/** Search already loaded memories (see searchMemoryEntries) */
+export async function searchLoadedMemoryEntries(
+	allEntries: MemoryEntry[],
+	query: string,
+	options: MemorySearchOptions = {},
+	sources: MemorySearchSources = {},
+): Promise<MemoryEntry[]> {
+	const type = options.type ?? "all";
+	const limit = options.limit ?? 20;
+	const getVectors = sources.getVectors ?? embedMemoryEntries;
+	const entries = allEntries.filter((e) => type === "all" || e.type === type);
+
+	const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+	const indexed = new Map<MemoryLayer, Set<string> | undefined>();
+	if (sources.matchKeywords) {
+		for (const layer of new Set(entries.flatMap((e) => (e.layer ? [e.layer] : [])))) {
+			indexed.set(layer, await sources.matchKeywords(layer, words));
+		}
+	}
+	const keywordMatches = entries.filter((e) => {
+		const keys = e.layer ? indexed.get(e.layer) : undefined;
+		if (keys) return keys.has(getStoreMemoryKey(e.type, e.memory.id));
+		const text = getMemorySearchText(e).toLowerCase();
+		return words.every((w) => text.includes(w));
+	});
+
+	const results = new Map(keywordMatches.map((e) => [getMemoryKey(e), e]));
+	if (options.embedder && results.size < limit) {
+		try {
+			const embedder = options.embedder;
+			const vectors = await getVectors(allEntries, embedder, options.signal);
+			const [queryVector] = await embedder.embed([query], options.signal);
+			const scored = entries
+				.filter((e) => !results.has(getMemoryKey(e)))
+				.map((e) => {
+					const vector = vectors.get(getMemoryKey(e));
+					return { entry: e, similarity: vector ? cosineSimilarity(queryVector, vector) : 0 };
+				})
+				.filter((s) => s.similarity >= embedder.minSimilarity)
+				.sort((a, b) => b.similarity - a.similarity);
+			for (const { entry } of scored) {
+				results.set(getMemoryKey(entry), entry);
+			}
+		} catch {
+			// Semantic search is best-effort; fall back to keyword matches
+		}
+	}
+
+	return [...results.values()].slice(0, limit);
+}
@@ -0,0 +1,197 @@
+/**
+ * Memory harvesting during compaction (memory.harvest).
+ *
+ * Before compaction discards old messages, the summarization model is asked for the
+ * preferences, rules, facts and workflows in them that are worth keeping beyond the
+ * session. Candidates that repeat a stored memory are dropped; the rest are written by
+ * saveHarvestedMemories, through the same redaction, conflict detection and approval as
+ * memory_write.
+ */
+
+import type { AgentMessage } from "@mariozechner/pi-agent-core";
+import type { Model } from "@mariozechner/pi-ai";
+import { completeSimple } from "@mariozechner/pi-ai";
+import { serializeConversation } from "../compaction/utils.js";
+import { convertToLlm } from "../messages.js";
+import { findMemoryConflicts } from "./conflicts.js";
+import { SEMANTIC_CATEGORIES, type SemanticMemory } from "./memory.js";
+import { getProcedureName } from "./procedures.js";
+import type { MemoryEntry } from "./retrieval.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A memory proposed by the model, before it is deduplicated and stored */
+export type HarvestedMemory =
+	| { type: "semantic"; category: SemanticMemory["category"]; text: string; tags: string[] }
+	| { type: "procedural"; name: string; trigger: string; steps: string[]; tags: string[] };
+
+export interface HarvestMemoriesOptions {
+	/** Model that reads the messages, usually the summarization model */
+	model: Model<any>;
+	/** API key for the model */
+	apiKey: string;
+	signal?: AbortSignal;
+}
+
+export interface MemoryHarvestResult {
+	memories: HarvestedMemory[];
+	aborted?: boolean;
+	error?: string;
+}
+
+// ============================================================================
+// Prompt
+// ============================================================================
+
+const HARVEST_SYSTEM_PROMPT = `You maintain the long-term memory of a coding assistant. You read a conversation that is about to be removed from the assistant's context and keep only what will still matter in future sessions. You never invent information that is not in the conversation.`;
+
+const HARVEST_PROMPT = `The conversation above is about to be discarded. Extract durable knowledge from it that the assistant should remember in future sessions:
+- Preferences, rules and corrections the user stated, even in passing ("use pnpm", "don't touch the generated files")
+- Lessons from mistakes the assistant made and the user corrected
+- Facts about the project or its architecture that are not obvious from the code
+- Multi-step workflows the user walked the assistant through
+
+Skip anything only relevant to the current task, anything already in <stored_memories>, and anything the assistant already saved with memory_write.
+
+Output each memory in this format:
+<fact category="preference|architecture|convention|fact" tags="2-5 lowercase tags">One sentence</fact>
+<procedure name="Short name" trigger="When to use it" tags="2-5 lowercase tags">
+- Step one
+- Step two
+</procedure>
+
+If there is nothing worth remembering, output <none/>.`;
+
+/** What is stored already, so the model does not propose it again */
+function formatStoredMemories(entries: MemoryEntry[]): string {
+	const lines = entries.flatMap((e) => {
+		if (e.type === "semantic") return [`- ${e.memory.text}`];
+		if (e.type === "procedural") return [`- Procedure "${e.memory.name}": ${e.memory.trigger}`];
+		return [];
+	});
+	return `<stored_memories>\n${lines.length > 0 ? lines.join("\n") : "(none)"}\n</stored_memories>`;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const FACT_PATTERN = /<fact\s+category="([^"]*)"(?:\s+tags="([^"]*)")?\s*>([\s\S]*?)<\/fact>/g;
+const PROCEDURE_PATTERN =
+	/<procedure\s+name="([^"]*)"\s+trigger="([^"]*)"(?:\s+tags="([^"]*)")?\s*>([\s\S]*?)<\/procedure>/g;
+
+function parseTags(tags: string | undefined): string[] {
+	return (tags ?? "")
+		.split(",")
+		.map((t) => t.trim().toLowerCase())
+		.filter(Boolean);
+}
+
+/**
+ * Parse the model's output. Facts with an unknown category or no text and procedures
+ * without a name, trigger or steps are dropped.
+ */
+export function parseHarvestResponse(text: string): HarvestedMemory[] {
+	const memories: HarvestedMemory[] = [];
+	for (const [, category, tags, body] of text.matchAll(FACT_PATTERN)) {
+		const fact = body.trim();
+		const known = SEMANTIC_CATEGORIES.find((c) => c === category.trim());
+		if (!fact || !known) continue;
+		memories.push({ type: "semantic", category: known, text: fact, tags: parseTags(tags) });
+	}
+	for (const [, name, trigger, tags, body] of text.matchAll(PROCEDURE_PATTERN)) {
+		const steps = body
+			.split("\n")
+			.map((line) => line.trim().replace(/^(?:[-*]|\d+[.)])\s*/, ""))
+			.filter(Boolean);
+		if (!name.trim() || !trigger.trim() || steps.length === 0) continue;
+		memories.push({ type: "procedural", name: name.trim(), trigger: trigger.trim(), steps, tags: parseTags(tags) });
+	}
+	return memories;
+}
+
+// ============================================================================
+// Harvesting
+// ============================================================================
+
+/**
+ * Ask a model for memories worth keeping from messages, given the memories stored
+ * already. Nothing is written.
+ */
+export async function harvestMemories(
+	messages: AgentMessage[],
+	stored: MemoryEntry[],
+	options: HarvestMemoriesOptions,
+): Promise<MemoryHarvestResult> {
+	const conversationText = serializeConversation(convertToLlm(messages));
+	if (!conversationText.trim()) {
+		return { memories: [] };
+	}
+	const promptText = `<conversation>\n${conversationText}\n</conversation>\n\n${formatStoredMemories(stored)}\n\n${HARVEST_PROMPT}`;
+
+	const response = await completeSimple(
+		options.model,
+		{
+			systemPrompt: HARVEST_SYSTEM_PROMPT,
+			messages: [{ role: "user", content: [{ type: "text", text: promptText }], timestamp: Date.now() }],
+		},
+		{ apiKey: options.apiKey, signal: options.signal, maxTokens: 2048 },
+	);
+	if (response.stopReason === "aborted") {
+		return { memories: [], aborted: true };
+	}
+	if (response.stopReason === "error") {
+		return { memories: [], error: response.errorMessage || "Memory harvest failed" };
+	}
+
+	const text = response.content
+		.filter((c): c is { type: "text"; text: string } => c.type === "text")
+		.map((c) => c.text)
+		.join("\n");
+	return { memories: parseHarvestResponse(text) };
+}
+
+/** Similarity above which a fact restating a stored one counts as a duplicate */
+const DUPLICATE_SIMILARITY = 0.8;
+
+/**
+ * Drop harvested memories that repeat a stored memory or an earlier candidate: facts
+ * with the same or nearly the same wording in their category, and procedures with the
+ * same name. Facts that only contradict a stored one are kept for the write's conflict
+ * detection (see saveHarvestedMemories).
+ */
+export function dedupeHarvestedMemories(memories: HarvestedMemory[], stored: MemoryEntry[]): HarvestedMemory[] {
+	const facts = stored.flatMap((e) => (e.type === "semantic" ? [e.memory] : []));
+	const procedures = new Set(stored.flatMap((e) => (e.type === "procedural" ? [getProcedureName(e.memory)] : [])));
+	const kept: HarvestedMemory[] = [];
+
+	for (const memory of memories) {
+		if (memory.type === "procedural") {
+			const name = getProcedureName({ id: "", name: memory.name });
+			if (procedures.has(name)) continue;
+			procedures.add(name);
+			kept.push(memory);
+			continue;
+		}
+		const text = memory.text.toLowerCase();
+		const duplicate =
+			facts.some((f) => f.category === memory.category && f.text.toLowerCase() === text) ||
+			findMemoryConflicts(memory, facts, { minSimilarity: DUPLICATE_SIMILARITY }).some(
+				(c) => c.relation === "supersession",
+			);
+		if (duplicate) continue;
+		// Later candidates are compared with the kept ones as well
+		facts.push({
+			id: "",
+			category: memory.category,
+			text: memory.text,
+			tags: memory.tags,
+			created: "",
+			sourceSession: "",
+		});
+		kept.push(memory);
+	}
+	return kept;
+}
@@ -0,0 +1,209 @@
+/**
+ * Memory history: versions, undo and restore.
+ *
+ * Every store update appends the memories it created, changed or deleted to the
+ * history.jsonl of the memory directory (see updateStore), with the author and session
+ * of the change. The functions here read that log through a backend (see
+ * MemoryBackend.loadHistory) to list the versions of a memory, revert the latest change
+ * and bring back an earlier version. Reverts are store updates themselves, so they are
+ * recorded in the history too. Backends without a history have no versions to undo.
+ */
+
+import type { MemoryBackend } from "./backend.js";
+import type { MemoryAuthor, MemoryHistoryRecord, MemoryScope } from "./memory.js";
+import { parseMemoryRef } from "./retrieval.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A memory as it was after one recorded change */
+export interface MemoryVersion {
+	/**
+	 * 1 for the first recorded change, counting up. 0 is the memory as it was before
+	 * its first recorded change, for memories older than the history.
+	 */
+	version: number;
+	/** The change that produced this version. Undefined for version 0. */
+	record?: MemoryHistoryRecord;
+	/** The memory in this version. Undefined if the change deleted it. */
+	memory?: { id: string };
+}
+
+/** The recorded versions of one memory */
+export interface MemoryVersions {
+	scope: MemoryScope;
+	id: string;
+	versions: MemoryVersion[];
+}
+
+/** A change reverted by undoLastMemoryChange */
+export interface MemoryUndoResult {
+	scope: MemoryScope;
+	/** The records of the reverted change */
+	records: MemoryHistoryRecord[];
+}
+
+// ============================================================================
+// Versions
+// ============================================================================
+
+/** The versions of a memory in one scope, oldest first. Empty if it has no recorded changes. */
+export async function getMemoryVersions(
+	backend: MemoryBackend,
+	scope: MemoryScope,
+	id: string,
+): Promise<MemoryVersion[]> {
+	const records = ((await backend.loadHistory?.(scope)) ?? []).filter((r) => r.memoryId === id);
+	const versions: MemoryVersion[] = [];
+	if (records.length > 0 && records[0].before !== undefined) {
+		versions.push({ version: 0, memory: records[0].before as { id: string } });
+	}
+	records.forEach((record, i) => {
+		versions.push({ version: i + 1, record, memory: record.after as { id: string } | undefined });
+	});
+	return versions;
+}
+
+/**
+ * Find the versions of a memory ("sem_001" or "project:sem_001") in the first of the
+ * given scopes that has a history for it
+ */
+export async function findMemoryVersions(
+	backend: MemoryBackend,
+	scopes: readonly MemoryScope[],
+	ref: string,
+): Promise<MemoryVersions | undefined> {
+	const { layer, id } = parseMemoryRef(ref);
+	for (const scope of scopes) {
+		if (layer && layer !== scope) continue;
+		const versions = await getMemoryVersions(backend, scope, id);
+		if (versions.length > 0) {
+			return { scope, id, versions };
+		}
+	}
+	return undefined;
+}
+
+// ============================================================================
+// Undo and restore
+// ============================================================================
+
+/**
+ * Revert the most recent change in the given scopes that is not itself an undo and has
+ * not been undone yet. Archiving and the return of archived memories on use are bookkeeping,
+ * not changes to undo, and are skipped.
+ * Memories the change created are deleted, and changed or deleted ones are put back as
+ * they were before it. Repeated calls walk further back.
+ * @returns The reverted change, or undefined if there is nothing left to undo
+ */
+export async function undoLastMemoryChange(
+	backend: MemoryBackend,
+	scopes: readonly MemoryScope[],
+	author: MemoryAuthor,
+): Promise<MemoryUndoResult | undefined> {
+	let latest: { scope: MemoryScope; record: MemoryHistoryRecord; records: MemoryHistoryRecord[] } | undefined;
+	for (const scope of scopes) {
+		const records = (await backend.loadHistory?.(scope)) ?? [];
+		const undone = new Set(records.flatMap((r) => (r.undoes ? [r.undoes] : [])));
+		for (let i = records.length - 1; i >= 0; i--) {
+			const record = records[i];
+			if (
+				record.undoes ||
+				undone.has(record.change) ||
+				record.author?.kind === "archive" ||
+				record.author?.kind === "usage"
+			)
+				continue;
+			if (!latest || record.timestamp > latest.record.timestamp) {
+				latest = { scope, record, records };
+			}
+			break;
+		}
+	}
+	if (!latest) return undefined;
+
+	const { scope, record } = latest;
+	const records = latest.records.filter((r) => r.change === record.change);
+	await backend.update<{ id: string }, void>(
+		record.type,
+		scope,
+		(store) => {
+			for (const r of [...records].reverse()) {
+				replaceMemory(store, r.memoryId, r.before as { id: string } | undefined);
+			}
+		},
+		{ author, undoes: record.change },
+	);
+	return { scope, records };
+}
+
+/**
+ * Put a memory back as it was in an earlier version (see getMemoryVersions). A deleted
+ * memory is recreated with its ID.
+ * @returns The restored memory
+ * @throws Error if the memory has no such version, or the version is a deletion
+ */
+export async function restoreMemoryVersion(
+	backend: MemoryBackend,
+	scope: MemoryScope,
+	id: string,
+	version: number,
+	author: MemoryAuthor,
+): Promise<{ id: string }> {
+	const versions = await getMemoryVersions(backend, scope, id);
+	const target = versions.find((v) => v.version === version);
+	if (!target) {
+		throw new Error(`[${scope}:${id}] has no version ${version}`);
+	}
+	if (!target.memory) {
+		throw new Error(`Version ${version} of [${scope}:${id}] is a deletion`);
+	}
+	const memory = target.memory;
+	// Every version but 0 has a record, and all records of a memory are of its type
+	const type = versions[versions.length - 1].record?.type ?? "semantic";
+	await backend.update<{ id: string }, void>(type, scope, (store) => replaceMemory(store, id, memory), { author });
+	return memory;
+}
+
+/** Replace the memory with an ID, add it if missing, or remove it if memory is undefined */
+function replaceMemory(store: { memories: { id: string }[] }, id: string, memory: { id: string } | undefined): void {
+	const index = store.memories.findIndex((m) => m.id === id);
+	if (!memory) {
+		if (index !== -1) store.memories.splice(index, 1);
+	} else if (index === -1) {
+		store.memories.push(memory);
+	} else {
+		store.memories[index] = memory;
+	}
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/** Who made a change, e.g. "tool memory_update in session 1a2b" */
+export function formatMemoryAuthor(author: MemoryAuthor | undefined): string {
+	if (!author) return "unknown";
+	const name = author.name ? ` ${author.name}` : "";
+	const session = author.sessionId ? ` in session ${author.sessionId}` : "";
+	return `${author.kind}${name}${session}`;
+}
+
+function summarizeMemory(memory: Record<string, unknown>): string {
+	const text = memory.text ?? memory.name ?? memory.summary;
+	return typeof text === "string" ? text : JSON.stringify(memory);
+}
+
+/** The versions of a memory as one line each, newest last, with the change and its author */
+export function formatMemoryHistory({ scope, id, versions }: MemoryVersions): string {
+	const lines = [`History of [${scope}:${id}]:`];
+	for (const { version, record, memory } of versions) {
+		const header = record
+			? `v${version} ${record.timestamp} ${record.action}${record.undoes ? " (undo)" : ""} by ${formatMemoryAuthor(record.author)}`
+			: `v${version} before the recorded history`;
+		const content = memory ? summarizeMemory(memory as Record<string, unknown>) : "(deleted)";
+		lines.push(`  ${header}`, `    ${content}`);
+	}
+	return lines.join("\n");
+}
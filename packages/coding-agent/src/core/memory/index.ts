@@ -0,0 +1,26 @@
+/**
+ * Persistent memory system: stores, storage backends, retrieval, path- and branch-scoped activation, prompt
+ * formatting, editing, consolidation, automatic episode capture, harvesting during compaction, change history, usage
+ * tracking and archival, procedure commands and skills, procedures recorded from demonstrations, export/import, and
+ * sync with context files.
+ */
+
+export * from "./activation.js";
+export * from "./approval.js";
+export * from "./backend.js";
+export * from "./capture.js";
+export * from "./conflicts.js";
+export * from "./consolidation.js";
+export * from "./context-files.js";
+export * from "./editing.js";
+export * from "./embeddings.js";
+export * from "./harvest.js";
+export * from "./history.js";
+export * from "./memory.js";
+export * from "./procedures.js";
+export * from "./prompt.js";
+export * from "./recording.js";
+export * from "./redaction.js";
+export * from "./retrieval.js";
+export * from "./transfer.js";
+export * from "./usage.js";
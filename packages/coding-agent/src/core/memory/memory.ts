@@ -0,0 +1,1198 @@
+/**
+ * Persistent memory system — procedural, episodic, and semantic memories
+ * stored per-project in .pi/memory/ or globally in ~/.pi/agent/memory/ as JSON files,
+ * or in a SQLite database per directory (memory.backend: "sqlite").
+ * Scope is configured via settings (memory.scope: "project" | "global")
+ * or overridden per-project via a .zpi config file.
+ */
+
+import { randomBytes } from "node:crypto";
+import {
+	appendFileSync,
+	closeSync,
+	existsSync,
+	fsyncSync,
+	mkdirSync,
+	openSync,
+	readdirSync,
+	readFileSync,
+	renameSync,
+	rmSync,
+	statSync,
+	writeSync,
+} from "node:fs";
+import { homedir } from "node:os";
+import { basename, join } from "node:path";
+import type { DatabaseSync } from "node:sqlite";
+import lockfile from "proper-lockfile";
+import { CONFIG_DIR_NAME } from "../../config.js";
+import {
+	countMemoryDatabaseStore,
+	MEMORY_DATABASE_FILE,
+	readMemoryDatabaseStore,
+	searchMemoryDatabase,
+	withMemoryDatabase,
+	withMemoryDatabaseTransaction,
+	writeMemoryDatabaseStore,
+} from "./sqlite.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Where a memory was written: the session and the entry that triggered the write */
+export interface MemoryOrigin {
+	/** Session ID, as in the session header */
+	sessionId: string;
+	/** Session file. Missing for in-memory sessions (--no-session). */
+	sessionFile?: string;
+	/** Leaf entry when the memory was written, usually the assistant message that called memory_write */
+	entryId?: string;
+}
+
+/**
+ * Where a memory applies, for monorepos and long-lived branches. A memory with paths
+ * applies when the working directory or a recently touched file matches one of them; a
+ * memory with branches applies when the current git branch matches one of them.
+ */
+export interface MemoryAppliesTo {
+	/** Globs relative to the repository root, e.g. "packages/web-ui/**" */
+	paths?: string[];
+	/** Branch patterns, e.g. "release/*" */
+	branches?: string[];
+}
+
+export interface ProceduralMemory {
+	id: string;
+	name: string;
+	trigger: string;
+	steps: string[];
+	tags: string[];
+	created: string;
+	updated: string;
+	sourceSession: string;
+	/** Session entry the memory was last written from. Missing for memories written before origins were recorded. */
+	origin?: MemoryOrigin;
+	/** Times the memory was attached to a prompt, found with memory_read or cited by the model */
+	useCount?: number;
+	lastUsedAt?: string;
+	/** Always attached to prompts, regardless of relevance */
+	pinned?: boolean;
+	/** When the memory was archived for going unused (see archiveStaleMemories). Never attached to prompts. */
+	archived?: string;
+	/** Paths and branches the memory is limited to. Missing when it applies everywhere. */
+	appliesTo?: MemoryAppliesTo;
+}
+
+export interface EpisodicMemory {
+	id: string;
+	summary: string;
+	details: string[];
+	reflection?: {
+		mistakes: string[];
+		lessons: string[];
+	};
+	tags: string[];
+	date: string;
+	sourceSession: string;
+	/** Session entry the memory was last written from. Missing for memories written before origins were recorded. */
+	origin?: MemoryOrigin;
+	/** Times the memory was attached to a prompt, found with memory_read or cited by the model */
+	useCount?: number;
+	lastUsedAt?: string;
+	/** Always attached to prompts, regardless of relevance */
+	pinned?: boolean;
+	/** When the memory was archived for going unused (see archiveStaleMemories). Never attached to prompts. */
+	archived?: string;
+}
+
+export interface SemanticMemory {
+	id: string;
+	category: "preference" | "architecture" | "convention" | "fact";
+	text: string;
+	tags: string[];
+	created: string;
+	sourceSession: string;
+	/** Session entry the memory was last written from. Missing for memories written before origins were recorded. */
+	origin?: MemoryOrigin;
+	/** Times the memory was attached to a prompt, found with memory_read or cited by the model */
+	useCount?: number;
+	lastUsedAt?: string;
+	/** Always attached to prompts, regardless of relevance */
+	pinned?: boolean;
+	/** When the memory was archived for going unused (see archiveStaleMemories). Never attached to prompts. */
+	archived?: string;
+	/** Paths and branches the memory is limited to. Missing when it applies everywhere. */
+	appliesTo?: MemoryAppliesTo;
+}
+
+export interface MemoryStore<T> {
+	/** Schema version. Missing in stores written before versioning (v1). */
+	version?: number;
+	memories: T[];
+}
+
+export type MemoryType = "procedural" | "episodic" | "semantic";
+
+export const SEMANTIC_CATEGORIES: readonly SemanticMemory["category"][] = [
+	"preference",
+	"architecture",
+	"convention",
+	"fact",
+];
+export type MemoryScope = "project" | "global";
+/** How a memory directory keeps its stores: one JSON file per type, or one SQLite database */
+export type MemoryStorageFormat = "json" | "sqlite";
+/** A source memories are read from. "team" is read-only; the scopes are also write targets. */
+export type MemoryLayer = MemoryScope | "team";
+
+/** Who changed a memory, as recorded in the memory history */
+export interface MemoryAuthor {
+	/**
+	 * - "tool": the model, through a memory tool
+	 * - "extension": an extension, through pi.memory
+	 * - "command": the user, through a /memory command
+	 * - "import": a bundle import
+	 * - "capture": automatic episode capture
+	 * - "compaction": memories harvested from the messages a compaction discards
+	 * - "archive": archiving of unused memories
+	 * - "usage": archived memories brought back by being used (uses alone are not history)
+	 */
+	kind: "tool" | "extension" | "command" | "import" | "capture" | "compaction" | "archive" | "usage";
+	/** Tool or command, or the imported file, e.g. "memory_update" or "/memory edit" */
+	name?: string;
+	/** Session the change was made in */
+	sessionId?: string;
+}
+
+/** Recorded with the changes a store update makes (see updateStore) */
+export interface MemoryChangeContext {
+	author: MemoryAuthor;
+	/** Change the update reverts (/memory undo) */
+	undoes?: string;
+}
+
+/** One change to one memory, a line in the history.jsonl of a memory directory */
+export interface MemoryHistoryRecord {
+	/** ID of the store update that made the change, shared by all records of that update */
+	change: string;
+	timestamp: string;
+	type: MemoryType;
+	memoryId: string;
+	action: "create" | "update" | "delete";
+	/** The memory before the change. Undefined when created. */
+	before?: unknown;
+	/** The memory after the change. Undefined when deleted. */
+	after?: unknown;
+	/** Undefined for changes made without a change context */
+	author?: MemoryAuthor;
+	/** Change this one reverts */
+	undoes?: string;
+}
+
+/** Memories of every type in one file, as used by team memory files */
+export interface MemoryBundle {
+	version?: number;
+	procedural?: ProceduralMemory[];
+	episodic?: EpisodicMemory[];
+	semantic?: SemanticMemory[];
+}
+
+// ---------------------------------------------------------------------------
+// .zpi config file
+// ---------------------------------------------------------------------------
+
+export interface ZpiConfig {
+	memory?: {
+		scope?: MemoryScope;
+		layers?: MemoryLayer[];
+	};
+}
+
+/**
+ * Read .zpi config file from the project root.
+ * Returns undefined if file doesn't exist or is invalid.
+ */
+export function readZpiConfig(cwd: string): ZpiConfig | undefined {
+	const configPath = join(cwd, ".zpi");
+	if (!existsSync(configPath)) {
+		return undefined;
+	}
+	try {
+		const raw = readFileSync(configPath, "utf-8");
+		return JSON.parse(raw) as ZpiConfig;
+	} catch {
+		return undefined;
+	}
+}
+
+// ---------------------------------------------------------------------------
+// Schema versioning
+// ---------------------------------------------------------------------------
+
+export const CURRENT_MEMORY_STORE_VERSION = 2;
+
+const ID_PREFIXES: Record<MemoryType, string> = {
+	procedural: "proc",
+	episodic: "ep",
+	semantic: "sem",
+};
+
+/**
+ * Migrate v1 → v2: add the version envelope and fill fields that early stores could omit
+ * (ids, tags, sourceSession and per-type required fields). Mutates in place.
+ */
+function migrateV1ToV2(store: MemoryStore<Record<string, unknown>>, type: MemoryType | undefined): void {
+	const memories = store.memories.filter((m) => typeof m === "object" && m !== null);
+	for (const memory of memories) {
+		if (!Array.isArray(memory.tags)) memory.tags = [];
+		if (typeof memory.sourceSession !== "string") memory.sourceSession = "unknown";
+		if (type === "procedural") {
+			if (!Array.isArray(memory.steps)) memory.steps = [];
+			if (typeof memory.updated !== "string") memory.updated = memory.created;
+		} else if (type === "episodic") {
+			if (!Array.isArray(memory.details)) memory.details = [];
+		} else if (type === "semantic") {
+			if (typeof memory.category !== "string") memory.category = "fact";
+		}
+	}
+	if (type) {
+		for (const memory of memories) {
+			if (typeof memory.id !== "string") {
+				memory.id = generateId(ID_PREFIXES[type], {
+					memories: memories.filter((m) => typeof m.id === "string") as { id: string }[],
+				});
+			}
+		}
+	}
+	store.memories = memories;
+	store.version = 2;
+}
+
+/**
+ * Run all necessary migrations to bring a store to the current version.
+ * Mutates the store in place. Returns true if any migration was applied.
+ * Stores from a newer version are left untouched.
+ * @param type Memory type of the store, if known; enables per-type field defaults
+ */
+export function migrateMemoryStore(store: MemoryStore<unknown>, type?: MemoryType): boolean {
+	const version = store.version ?? 1;
+	if (version >= CURRENT_MEMORY_STORE_VERSION) return false;
+
+	const raw = store as MemoryStore<Record<string, unknown>>;
+	if (version < 2) migrateV1ToV2(raw, type);
+
+	return true;
+}
+
+/**
+ * Migrate every memory array in a bundle to the current version.
+ * Mutates the bundle in place. Returns true if any migration was applied.
+ */
+export function migrateMemoryBundle(bundle: MemoryBundle): boolean {
+	if ((bundle.version ?? 1) >= CURRENT_MEMORY_STORE_VERSION) return false;
+	for (const type of ["procedural", "episodic", "semantic"] as const) {
+		const items = bundle[type];
+		if (!Array.isArray(items)) continue;
+		const store: MemoryStore<unknown> = { version: bundle.version, memories: items };
+		migrateMemoryStore(store, type);
+		(bundle as Record<MemoryType, unknown[]>)[type] = store.memories;
+	}
+	bundle.version = CURRENT_MEMORY_STORE_VERSION;
+	return true;
+}
+
+function getStoreType(filepath: string): MemoryType | undefined {
+	const filename = basename(filepath);
+	return (Object.keys(STORE_FILES) as MemoryType[]).find((type) => STORE_FILES[type] === filename);
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+/** Get the global memory directory (~/.pi/agent/memory/) */
+export function getGlobalMemoryDir(): string {
+	return join(homedir(), CONFIG_DIR_NAME, "agent", "memory");
+}
+
+/** Get the project memory directory (<cwd>/.pi/memory/) */
+export function getProjectMemoryDir(cwd: string): string {
+	return join(cwd, CONFIG_DIR_NAME, "memory");
+}
+
+/**
+ * Resolve the effective memory scope for a project.
+ * Priority: .zpi config > settings > default ("project")
+ */
+export function resolveMemoryScope(cwd: string, settingsScope: MemoryScope): MemoryScope {
+	const zpiConfig = readZpiConfig(cwd);
+	if (zpiConfig?.memory?.scope) {
+		return zpiConfig.memory.scope;
+	}
+	return settingsScope;
+}
+
+/**
+ * Get the memory directory based on scope.
+ */
+export function getMemoryDir(cwd: string, scope: MemoryScope = "global"): string {
+	if (scope === "global") {
+		return getGlobalMemoryDir();
+	}
+	return getProjectMemoryDir(cwd);
+}
+
+function ensureMemoryDir(cwd: string, scope: MemoryScope = "global"): string {
+	const dir = getMemoryDir(cwd, scope);
+	if (!existsSync(dir)) {
+		mkdirSync(dir, { recursive: true });
+	}
+	return dir;
+}
+
+/** A store file that could not be parsed */
+export interface MemoryStoreError {
+	/** Path of the store file that was corrupt */
+	filepath: string;
+	/** Where the corrupt file was moved to. Unset for read-only files, which are skipped instead. */
+	quarantinePath?: string;
+	error: Error;
+}
+
+const storeErrors: MemoryStoreError[] = [];
+
+/** Return and clear the corrupt stores quarantined since the last call */
+export function drainMemoryStoreErrors(): MemoryStoreError[] {
+	return storeErrors.splice(0);
+}
+
+/**
+ * Move a corrupt store aside so it is neither read as empty nor overwritten by the next save.
+ * The original bytes stay in <file>.corrupt-<timestamp> for manual recovery.
+ */
+function quarantineStore(filepath: string, error: Error): void {
+	const quarantinePath = `${filepath}.corrupt-${new Date().toISOString().replace(/[:.]/g, "-")}`;
+	try {
+		renameSync(filepath, quarantinePath);
+	} catch (renameError) {
+		// Another process may have quarantined it first
+		if (!existsSync(filepath)) return;
+		throw new Error(`Memory store ${filepath} is corrupt and could not be moved aside: ${renameError}`);
+	}
+	storeErrors.push({ filepath, quarantinePath, error });
+}
+
+interface StoreFile<T> {
+	store: MemoryStore<T>;
+	/** True if the file was on an older schema and the store needs to be written back */
+	migrated: boolean;
+}
+
+/**
+ * Read and migrate a store file. Before a store is migrated, its original content is
+ * copied to <file>.v<version>.bak (once per version) so a migration can be rolled back.
+ */
+function readStoreFile<T>(filepath: string): StoreFile<T> {
+	if (!existsSync(filepath)) {
+		return { store: { version: CURRENT_MEMORY_STORE_VERSION, memories: [] }, migrated: false };
+	}
+	let raw: string;
+	let store: MemoryStore<T>;
+	try {
+		raw = readFileSync(filepath, "utf-8");
+		store = JSON.parse(raw) as MemoryStore<T>;
+		if (!store || !Array.isArray(store.memories)) {
+			throw new Error("missing memories array");
+		}
+	} catch (error) {
+		quarantineStore(filepath, error instanceof Error ? error : new Error(String(error)));
+		return { store: { version: CURRENT_MEMORY_STORE_VERSION, memories: [] }, migrated: false };
+	}
+
+	const version = store.version ?? 1;
+	if (!migrateMemoryStore(store, getStoreType(filepath))) {
+		return { store, migrated: false };
+	}
+	const backupPath = `${filepath}.v${version}.bak`;
+	if (!existsSync(backupPath)) {
+		writeFileAtomic(backupPath, raw);
+	}
+	return { store: { version: store.version, memories: store.memories }, migrated: true };
+}
+
+function writeStoreFile(filepath: string, store: MemoryStore<unknown>): void {
+	const { version, ...rest } = store;
+	writeFileAtomic(filepath, JSON.stringify({ version: version ?? CURRENT_MEMORY_STORE_VERSION, ...rest }, null, 2));
+}
+
+/**
+ * Write a file atomically: write and fsync a temp file in the same directory, then rename it
+ * over the target. Readers see either the old or the new content, never a partial write.
+ */
+export function writeFileAtomic(filepath: string, content: string): void {
+	const tempPath = `${filepath}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+	try {
+		const fd = openSync(tempPath, "w");
+		try {
+			writeSync(fd, content);
+			fsyncSync(fd);
+		} finally {
+			closeSync(fd);
+		}
+		renameSync(tempPath, filepath);
+	} catch (error) {
+		rmSync(tempPath, { force: true });
+		throw error;
+	}
+}
+
+const LOCK_RETRIES = 10;
+const LOCK_MIN_WAIT_MS = 20;
+const LOCK_MAX_WAIT_MS = 500;
+const LOCK_STALE_MS = 10000;
+
+/**
+ * Run fn while holding the cross-process lock for a store file. Contention is retried with
+ * exponential backoff without blocking the event loop.
+ */
+async function withStoreLock<R>(filepath: string, fn: () => R | Promise<R>): Promise<R> {
+	const release = await lockfile.lock(filepath, {
+		realpath: false,
+		stale: LOCK_STALE_MS,
+		retries: { retries: LOCK_RETRIES, factor: 2, minTimeout: LOCK_MIN_WAIT_MS, maxTimeout: LOCK_MAX_WAIT_MS },
+	});
+	try {
+		return await fn();
+	} finally {
+		await release();
+	}
+}
+
+/**
+ * Run fn if the cross-process lock for a store file is free, without waiting for it.
+ * @returns fn's result, or undefined if another writer holds the lock
+ */
+function tryWithStoreLock<R>(filepath: string, fn: () => R): R | undefined {
+	let release: () => void;
+	try {
+		release = lockfile.lockSync(filepath, { realpath: false, stale: LOCK_STALE_MS });
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ELOCKED") {
+			return undefined;
+		}
+		throw error;
+	}
+	try {
+		return fn();
+	} finally {
+		release();
+	}
+}
+
+/** A store opened for reading or writing. db is set when the directory is SQLite-backed. */
+interface StoreHandle {
+	filepath: string;
+	type: MemoryType | undefined;
+	db?: DatabaseSync;
+}
+
+/** The database of a SQLite-backed directory, if the store is one of the memory type stores */
+function getStoreDatabase(dir: string, type: MemoryType | undefined): string | undefined {
+	const database = join(dir, MEMORY_DATABASE_FILE);
+	return type && existsSync(database) ? database : undefined;
+}
+
+function readStore<T>(handle: StoreHandle): StoreFile<T> {
+	if (!handle.db || !handle.type) {
+		return readStoreFile<T>(handle.filepath);
+	}
+	const store = readMemoryDatabaseStore<T>(handle.db, handle.type);
+	store.version ??= CURRENT_MEMORY_STORE_VERSION;
+	return { store, migrated: migrateMemoryStore(store, handle.type) };
+}
+
+function writeStore(handle: StoreHandle, store: MemoryStore<unknown>): void {
+	if (handle.db && handle.type) {
+		writeMemoryDatabaseStore(handle.db, handle.type, {
+			...store,
+			version: store.version ?? CURRENT_MEMORY_STORE_VERSION,
+		});
+	} else {
+		writeStoreFile(handle.filepath, store);
+	}
+}
+
+/** Read a store without locking it */
+function readStoreIn<T>(dir: string, filename: string): StoreFile<T> {
+	const filepath = join(dir, filename);
+	const type = getStoreType(filepath);
+	const database = getStoreDatabase(dir, type);
+	if (!database) {
+		return readStoreFile<T>(filepath);
+	}
+	return withMemoryDatabase(database, (db) => readStore<T>({ filepath, type, db }));
+}
+
+/**
+ * Run fn with exclusive write access to a store. Writers always take the store file's lock,
+ * whatever the format, so a directory cannot change format under a writer; in a SQLite-backed
+ * directory fn additionally runs inside a database transaction.
+ */
+function withStore<R>(dir: string, filename: string, fn: (handle: StoreHandle) => R): Promise<R> {
+	return withStoreLock(join(dir, filename), () => openStore(dir, filename, fn));
+}
+
+/** Open a store whose lock is held, inside a transaction if it is SQLite-backed */
+function openStore<R>(dir: string, filename: string, fn: (handle: StoreHandle) => R): R {
+	const filepath = join(dir, filename);
+	const type = getStoreType(filepath);
+	const database = getStoreDatabase(dir, type);
+	if (!database) {
+		return fn({ filepath, type });
+	}
+	return withMemoryDatabaseTransaction(database, (db) => fn({ filepath, type, db }));
+}
+
+/** Memories as they were when a store was loaded, keyed by ID, for merging on save */
+const storeBaselines = new WeakMap<MemoryStore<unknown>, Map<string, string>>();
+
+function memoryId(memory: unknown): string {
+	return (memory as { id: string }).id;
+}
+
+function snapshotMemories(store: MemoryStore<unknown>): Map<string, string> {
+	return new Map(store.memories.map((m) => [memoryId(m), JSON.stringify(m)]));
+}
+
+function matchesSnapshot(store: MemoryStore<unknown>, snapshot: Map<string, string>): boolean {
+	return (
+		store.memories.length === snapshot.size &&
+		store.memories.every((m) => snapshot.get(memoryId(m)) === JSON.stringify(m))
+	);
+}
+
+/**
+ * Three-way merge of a store saved from a stale snapshot with the store on disk.
+ * Changes made by either side since the snapshot are kept; when both changed the same
+ * memory, ours wins. New memories from both sides are kept, and ours are renumbered if
+ * the other writer already used the same ID.
+ */
+function mergeStore<T>(base: Map<string, string>, ours: MemoryStore<T>, theirs: MemoryStore<T>): MemoryStore<T> {
+	const oursById = new Map(ours.memories.map((m) => [memoryId(m), m]));
+	const theirsById = new Map(theirs.memories.map((m) => [memoryId(m), m]));
+	const merged: T[] = [];
+
+	for (const theirsMemory of theirs.memories) {
+		const id = memoryId(theirsMemory);
+		const baseJson = base.get(id);
+		const oursMemory = oursById.get(id);
+		if (baseJson === undefined) {
+			merged.push(theirsMemory);
+		} else if (oursMemory === undefined) {
+			// Deleted by us; keep it only if the other writer changed it since
+			if (JSON.stringify(theirsMemory) !== baseJson) merged.push(theirsMemory);
+		} else {
+			merged.push(JSON.stringify(oursMemory) !== baseJson ? oursMemory : theirsMemory);
+		}
+	}
+
+	const collisions: T[] = [];
+	for (const oursMemory of ours.memories) {
+		const id = memoryId(oursMemory);
+		const baseJson = base.get(id);
+		const theirsMemory = theirsById.get(id);
+		if (theirsMemory !== undefined) {
+			if (baseJson === undefined && JSON.stringify(theirsMemory) !== JSON.stringify(oursMemory)) {
+				collisions.push(oursMemory);
+			}
+		} else if (baseJson === undefined || JSON.stringify(oursMemory) !== baseJson) {
+			// New from us, or deleted by the other writer after we changed it
+			merged.push(oursMemory);
+		}
+	}
+
+	for (const memory of collisions) {
+		const prefix = memoryId(memory).replace(/_\d+$/, "");
+		(memory as { id: string }).id = generateId(prefix, { memories: merged as { id: string }[] });
+		merged.push(memory);
+	}
+
+	return { ...ours, memories: merged };
+}
+
+/**
+ * Load a store, migrating it to the current schema version.
+ * A migrated store is written back so the upgrade happens once. Loading never waits for the
+ * store lock: if another writer holds it, the write-back is left to a later load or update.
+ */
+export function loadStore<T>(cwd: string, filename: string, scope: MemoryScope = "global"): MemoryStore<T> {
+	const dir = getMemoryDir(cwd, scope);
+	let { store, migrated } = readStoreIn<T>(dir, filename);
+	if (migrated) {
+		store =
+			tryWithStoreLock(join(dir, filename), () =>
+				openStore(dir, filename, (handle) => {
+					const current = readStore<T>(handle);
+					if (current.migrated) {
+						writeStore(handle, current.store);
+					}
+					return current.store;
+				}),
+			) ?? store;
+	}
+	storeBaselines.set(store, snapshotMemories(store));
+	return store;
+}
+
+/**
+ * Save a store atomically under the store lock.
+ * If the store came from loadStore and the file changed on disk since, the two are merged
+ * (see mergeStore) and the passed store is updated to the merged result.
+ * Prefer updateStore for load-mutate-save sequences.
+ */
+export async function saveStore<T>(
+	cwd: string,
+	filename: string,
+	store: MemoryStore<T>,
+	scope: MemoryScope = "global",
+): Promise<void> {
+	const dir = ensureMemoryDir(cwd, scope);
+	await withStore(dir, filename, (handle) => {
+		const base = storeBaselines.get(store);
+		if (base) {
+			const current = readStore<T>(handle).store;
+			if (!matchesSnapshot(current, base)) {
+				store.memories = mergeStore(base, store, current).memories;
+			}
+		}
+		writeStore(handle, store);
+		storeBaselines.set(store, snapshotMemories(store));
+	});
+}
+
+/**
+ * Load a store, apply a mutation and save the result while holding the store lock,
+ * so no other writer can interleave between the read and the write.
+ * The store is only rewritten if the mutation changed it. Each created, changed and
+ * deleted memory is appended to the directory's history, attributed to context.
+ * @returns The mutation's return value
+ */
+export async function updateStore<T, R>(
+	cwd: string,
+	filename: string,
+	scope: MemoryScope,
+	mutate: (store: MemoryStore<T>) => R,
+	context?: MemoryChangeContext,
+): Promise<R> {
+	const dir = ensureMemoryDir(cwd, scope);
+	return withStore(dir, filename, (handle) => applyStoreUpdate(dir, handle, mutate, context));
+}
+
+function applyStoreUpdate<T, R>(
+	dir: string,
+	handle: StoreHandle,
+	mutate: (store: MemoryStore<T>) => R,
+	context: MemoryChangeContext | undefined,
+): R {
+	const { store, migrated } = readStore<T>(handle);
+	// A database only writes the rows that changed, so it needs no comparison here
+	const before = handle.db ? undefined : JSON.stringify(store);
+	const baseline = snapshotMemories(store);
+	const result = mutate(store);
+	if (migrated || JSON.stringify(store) !== before) {
+		writeStore(handle, store);
+	}
+	if (handle.type) {
+		appendMemoryHistory(dir, getMemoryChanges(handle.type, baseline, store.memories, context));
+	}
+	return result;
+}
+
+// ---------------------------------------------------------------------------
+// History
+// ---------------------------------------------------------------------------
+
+/** Append-only log of memory changes, one JSON record per line, in each memory directory */
+export const MEMORY_HISTORY_FILE = "history.jsonl";
+
+function createChangeId(): string {
+	return `chg_${Date.now().toString(36)}_${randomBytes(3).toString("hex")}`;
+}
+
+/** Fields bumped whenever a memory is used. Changes to only these are not history. */
+const USAGE_FIELDS = ["useCount", "lastUsedAt"];
+
+function withoutUsage(memory: unknown): string {
+	const fields = { ...(memory as Record<string, unknown>) };
+	for (const field of USAGE_FIELDS) delete fields[field];
+	return JSON.stringify(fields);
+}
+
+/** The memories a store update created, changed or deleted, as history records */
+function getMemoryChanges(
+	type: MemoryType,
+	baseline: Map<string, string>,
+	memories: unknown[],
+	context: MemoryChangeContext | undefined,
+): MemoryHistoryRecord[] {
+	const change = createChangeId();
+	const timestamp = nowISO();
+	const record = (
+		memoryId: string,
+		action: MemoryHistoryRecord["action"],
+		before: string | undefined,
+		after: unknown,
+	): MemoryHistoryRecord => ({
+		change,
+		timestamp,
+		type,
+		memoryId,
+		action,
+		before: before === undefined ? undefined : JSON.parse(before),
+		after,
+		author: context?.author,
+		undoes: context?.undoes,
+	});
+
+	const records: MemoryHistoryRecord[] = [];
+	const remaining = new Set(baseline.keys());
+	for (const memory of memories) {
+		const id = memoryId(memory);
+		const before = baseline.get(id);
+		remaining.delete(id);
+		if (before === undefined) {
+			records.push(record(id, "create", undefined, memory));
+		} else if (before !== JSON.stringify(memory) && withoutUsage(JSON.parse(before)) !== withoutUsage(memory)) {
+			records.push(record(id, "update", before, memory));
+		}
+	}
+	for (const id of remaining) {
+		records.push(record(id, "delete", baseline.get(id), undefined));
+	}
+	return records;
+}
+
+function appendMemoryHistory(dir: string, records: MemoryHistoryRecord[]): void {
+	if (records.length === 0) return;
+	appendFileSync(join(dir, MEMORY_HISTORY_FILE), records.map((r) => `${JSON.stringify(r)}\n`).join(""));
+}
+
+/** Every recorded change in a scope, oldest first. Unreadable lines are skipped. */
+export function loadMemoryHistory(cwd: string, scope: MemoryScope): MemoryHistoryRecord[] {
+	const filepath = join(getMemoryDir(cwd, scope), MEMORY_HISTORY_FILE);
+	if (!existsSync(filepath)) return [];
+	const records: MemoryHistoryRecord[] = [];
+	for (const line of readFileSync(filepath, "utf-8").split("\n")) {
+		if (!line.trim()) continue;
+		try {
+			records.push(JSON.parse(line) as MemoryHistoryRecord);
+		} catch {
+			// A line cut short by a crash; the records around it are still valid
+		}
+	}
+	return records;
+}
+
+// ---------------------------------------------------------------------------
+// Storage format
+// ---------------------------------------------------------------------------
+
+/** The format a memory directory currently uses */
+export function getMemoryStorageFormat(cwd: string, scope: MemoryScope): MemoryStorageFormat {
+	return existsSync(join(getMemoryDir(cwd, scope), MEMORY_DATABASE_FILE)) ? "sqlite" : "json";
+}
+
+/**
+ * Move a memory directory's stores to another format, once. Every store lock is held while
+ * moving, so concurrent writers wait and then write to the new format. The old stores are
+ * kept: JSON files as <file>.pre-sqlite.bak, a database as memory.db.pre-json.bak.
+ * @returns Number of memories moved, or undefined if the directory already uses the format
+ */
+export async function migrateMemoryStorage(
+	cwd: string,
+	scope: MemoryScope,
+	format: MemoryStorageFormat,
+): Promise<number | undefined> {
+	if (getMemoryStorageFormat(cwd, scope) === format) {
+		return undefined;
+	}
+	const dir = ensureMemoryDir(cwd, scope);
+	const database = join(dir, MEMORY_DATABASE_FILE);
+	const types = Object.keys(STORE_FILES) as MemoryType[];
+	const withAllLocks = types.reduce<(fn: () => Promise<number | undefined>) => Promise<number | undefined>>(
+		(outer, type) => (fn) => outer(() => withStoreLock(join(dir, STORE_FILES[type]), fn)),
+		(fn) => fn(),
+	);
+
+	return withAllLocks(async () => {
+		// Another process may have migrated the directory while we waited for the locks
+		if (getMemoryStorageFormat(cwd, scope) === format) {
+			return undefined;
+		}
+		let count = 0;
+		if (format === "sqlite") {
+			// Build the database under a temporary name so it only appears once complete
+			const tempPath = `${database}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+			try {
+				withMemoryDatabaseTransaction(tempPath, (db) => {
+					for (const type of types) {
+						const { store } = readStoreFile(join(dir, STORE_FILES[type]));
+						writeMemoryDatabaseStore(db, type, store);
+						count += store.memories.length;
+					}
+				});
+				renameSync(tempPath, database);
+			} catch (error) {
+				rmSync(tempPath, { force: true });
+				throw error;
+			}
+			for (const type of types) {
+				const filepath = join(dir, STORE_FILES[type]);
+				if (existsSync(filepath)) {
+					renameSync(filepath, `${filepath}.pre-sqlite.bak`);
+				}
+			}
+		} else {
+			withMemoryDatabase(database, (db) => {
+				for (const type of types) {
+					const { store } = readStore({ filepath: join(dir, STORE_FILES[type]), type, db });
+					writeStoreFile(join(dir, STORE_FILES[type]), store);
+					count += store.memories.length;
+				}
+			});
+			renameSync(database, `${database}.pre-json.bak`);
+		}
+		return count;
+	});
+}
+
+/**
+ * Apply the configured storage format: migrate the global memory directory, and the project
+ * memory directory if it exists or is the write scope.
+ * @returns Number of memories moved per migrated scope
+ */
+export async function applyMemoryStorageFormat(
+	cwd: string,
+	scope: MemoryScope,
+	format: MemoryStorageFormat,
+): Promise<Partial<Record<MemoryScope, number>>> {
+	const migrated: Partial<Record<MemoryScope, number>> = {};
+	const scopes: MemoryScope[] = ["global"];
+	if (scope === "project" || existsSync(getProjectMemoryDir(cwd))) {
+		scopes.push("project");
+	}
+	for (const s of scopes) {
+		const count = await migrateMemoryStorage(cwd, s, format);
+		if (count !== undefined) migrated[s] = count;
+	}
+	return migrated;
+}
+
+/**
+ * Keys (see getStoreMemoryKey) of the memories in a layer whose search text contains every
+ * word, answered from the full-text index of a SQLite-backed directory.
+ * @returns The matching keys, or undefined if the layer has no index (JSON stores, team files)
+ */
+export function searchMemoryIndex(cwd: string, layer: MemoryLayer, words: string[]): Set<string> | undefined {
+	if (layer === "team") return undefined;
+	const database = join(getMemoryDir(cwd, layer), MEMORY_DATABASE_FILE);
+	return existsSync(database) ? searchMemoryDatabase(database, words) : undefined;
+}
+
+export function generateId(prefix: string, store: MemoryStore<{ id: string }>): string {
+	let max = 0;
+	for (const m of store.memories) {
+		const num = parseInt(m.id.replace(`${prefix}_`, ""), 10);
+		if (!Number.isNaN(num) && num > max) max = num;
+	}
+	return `${prefix}_${String(max + 1).padStart(3, "0")}`;
+}
+
+export function nowISO(): string {
+	return new Date().toISOString();
+}
+
+const STORE_FILES: Record<MemoryType, string> = {
+	procedural: "procedural.json",
+	episodic: "episodic.json",
+	semantic: "semantic.json",
+};
+
+export function getStoreFile(type: MemoryType): string {
+	return STORE_FILES[type];
+}
+
+/** ID prefix for a memory type, as passed to generateId */
+export function getIdPrefix(type: MemoryType): string {
+	return ID_PREFIXES[type];
+}
+
+// ---------------------------------------------------------------------------
+// Layers
+// ---------------------------------------------------------------------------
+
+/**
+ * Read layers in precedence order, highest first. When layers hold equivalent memories
+ * (a procedure with the same name, a fact with the same text), the higher layer wins.
+ */
+export const MEMORY_LAYER_PRECEDENCE: readonly MemoryLayer[] = ["project", "team", "global"];
+
+/** Get the team memory directory (<cwd>/.pi/memory/team/), meant to be committed */
+export function getTeamMemoryDir(cwd: string): string {
+	return join(getProjectMemoryDir(cwd), "team");
+}
+
+/**
+ * Resolve the layers to read for a project, in precedence order.
+ * Priority: .zpi config > settings
+ */
+export function resolveMemoryLayers(cwd: string, settingsLayers: readonly MemoryLayer[]): MemoryLayer[] {
+	const layers = readZpiConfig(cwd)?.memory?.layers ?? settingsLayers;
+	return MEMORY_LAYER_PRECEDENCE.filter((layer) => layers.includes(layer));
+}
+
+/** Team files already reported as invalid, keyed by path and mtime, so each is reported once */
+const reportedTeamErrors = new Set<string>();
+
+function readTeamBundle(filepath: string): MemoryBundle | undefined {
+	try {
+		const bundle = JSON.parse(readFileSync(filepath, "utf-8")) as MemoryBundle;
+		if (!bundle || typeof bundle !== "object" || Array.isArray(bundle)) {
+			throw new Error("expected an object with procedural, episodic and/or semantic arrays");
+		}
+		return bundle;
+	} catch (error) {
+		let mtime = 0;
+		try {
+			mtime = statSync(filepath).mtimeMs;
+		} catch {
+			// Removed or made unreadable since the read; report it under mtime 0
+		}
+		const key = `${filepath}:${mtime}`;
+		if (!reportedTeamErrors.has(key)) {
+			reportedTeamErrors.add(key);
+			storeErrors.push({ filepath, error: error instanceof Error ? error : new Error(String(error)) });
+		}
+		return undefined;
+	}
+}
+
+/**
+ * Load the read-only team layer for one memory type: the matching array from every
+ * .pi/memory/team/*.json bundle, in file name order. Bundles are migrated in memory only;
+ * invalid files are skipped and reported through drainMemoryStoreErrors.
+ */
+function loadTeamStore<T>(cwd: string, type: MemoryType): MemoryStore<T> {
+	const dir = getTeamMemoryDir(cwd);
+	if (!existsSync(dir)) {
+		return { version: CURRENT_MEMORY_STORE_VERSION, memories: [] };
+	}
+	const memories: T[] = [];
+	for (const file of readdirSync(dir)
+		.filter((f) => f.endsWith(".json"))
+		.sort()) {
+		const bundle = readTeamBundle(join(dir, file));
+		if (!bundle) continue;
+		migrateMemoryBundle(bundle);
+		const items = bundle[type];
+		if (Array.isArray(items)) {
+			memories.push(...(items as T[]));
+		}
+	}
+	return { version: CURRENT_MEMORY_STORE_VERSION, memories };
+}
+
+/** Load the store of one memory type from a layer */
+export function loadLayerStore<T>(cwd: string, type: MemoryType, layer: MemoryLayer): MemoryStore<T> {
+	if (layer === "team") {
+		return loadTeamStore<T>(cwd, type);
+	}
+	return loadStore<T>(cwd, getStoreFile(type), layer);
+}
+
+// ---------------------------------------------------------------------------
+// Search
+// ---------------------------------------------------------------------------
+
+export function searchMemories<T extends { tags: string[] }>(
+	memories: T[],
+	query: string,
+	getText: (m: T) => string,
+): T[] {
+	const lower = query.toLowerCase();
+	const queryWords = lower.split(/\s+/).filter(Boolean);
+	return memories.filter((m) => {
+		const text = getText(m).toLowerCase();
+		const tagText = m.tags.join(" ").toLowerCase();
+		const combined = `${text} ${tagText}`;
+		return queryWords.every((w) => combined.includes(w));
+	});
+}
+
+// ---------------------------------------------------------------------------
+// Compaction
+// ---------------------------------------------------------------------------
+
+/**
+ * Merge episodic memories that share tags.
+ * @deprecated Tag overlap merges unrelated episodes. Use proposeMemoryConsolidation (/memory consolidate).
+ */
+export function compactEpisodicMemories(memories: EpisodicMemory[]): EpisodicMemory[] {
+	if (memories.length <= 1) return memories;
+
+	const tagGroups = new Map<string, EpisodicMemory[]>();
+	for (const m of memories) {
+		let placed = false;
+		for (const [key, group] of tagGroups) {
+			const groupTags = new Set(key.split(","));
+			if (m.tags.some((t) => groupTags.has(t))) {
+				group.push(m);
+				const mergedTags = new Set([...groupTags, ...m.tags]);
+				tagGroups.delete(key);
+				tagGroups.set([...mergedTags].join(","), group);
+				placed = true;
+				break;
+			}
+		}
+		if (!placed) {
+			tagGroups.set(m.tags.join(",") || m.id, [m]);
+		}
+	}
+
+	const compacted: EpisodicMemory[] = [];
+	for (const [, group] of tagGroups) {
+		if (group.length <= 1) {
+			compacted.push(...group);
+			continue;
+		}
+		const allDetails = group.flatMap((m) => m.details);
+		const allTags = [...new Set(group.flatMap((m) => m.tags))];
+		const allMistakes = group.flatMap((m) => m.reflection?.mistakes ?? []);
+		const allLessons = group.flatMap((m) => m.reflection?.lessons ?? []);
+		const summaries = group.map((m) => m.summary);
+
+		compacted.push({
+			id: group[0].id,
+			summary: `Consolidated: ${summaries.join("; ")}`,
+			details: [...new Set(allDetails)],
+			reflection:
+				allMistakes.length > 0 || allLessons.length > 0
+					? { mistakes: [...new Set(allMistakes)], lessons: [...new Set(allLessons)] }
+					: undefined,
+			tags: allTags,
+			date: group[group.length - 1].date,
+			sourceSession: group[group.length - 1].sourceSession,
+		});
+	}
+	return compacted;
+}
+
+// ---------------------------------------------------------------------------
+// Display formatters
+// ---------------------------------------------------------------------------
+
+/** Describe where a memory applies, e.g. "packages/web-ui/** on branch release/*". Undefined if everywhere. */
+export function formatMemoryAppliesTo(appliesTo: MemoryAppliesTo | undefined): string | undefined {
+	const paths = appliesTo?.paths ?? [];
+	const branches = appliesTo?.branches ?? [];
+	const parts: string[] = [];
+	if (paths.length > 0) parts.push(paths.join(", "));
+	if (branches.length > 0) parts.push(`${branches.length === 1 ? "branch" : "branches"} ${branches.join(", ")}`);
+	return parts.length > 0 ? parts.join(" on ") : undefined;
+}
+
+/** "Applies to" display line, or nothing if the memory applies everywhere */
+function appliesToLine(appliesTo: MemoryAppliesTo | undefined): string {
+	const scope = formatMemoryAppliesTo(appliesTo);
+	return scope ? `\n  Applies to: ${scope}` : "";
+}
+
+export function formatProceduralForDisplay(m: ProceduralMemory): string {
+	const steps = m.steps.map((s, i) => `  ${i + 1}. ${s}`).join("\n");
+	return `[${m.id}] ${m.name}\n  Trigger: ${m.trigger}\n  Tags: ${m.tags.join(", ")}${appliesToLine(m.appliesTo)}\n  Steps:\n${steps}\n  Updated: ${m.updated}`;
+}
+
+export function formatEpisodicForDisplay(m: EpisodicMemory): string {
+	let text = `[${m.id}] ${m.summary}\n  Date: ${m.date}\n  Tags: ${m.tags.join(", ")}`;
+	if (m.details.length > 0) {
+		text += `\n  Details:\n${m.details.map((d) => `    - ${d}`).join("\n")}`;
+	}
+	if (m.reflection) {
+		if (m.reflection.mistakes.length > 0) {
+			text += `\n  Mistakes:\n${m.reflection.mistakes.map((x) => `    - ${x}`).join("\n")}`;
+		}
+		if (m.reflection.lessons.length > 0) {
+			text += `\n  Lessons:\n${m.reflection.lessons.map((x) => `    - ${x}`).join("\n")}`;
+		}
+	}
+	return text;
+}
+
+export function formatSemanticForDisplay(m: SemanticMemory): string {
+	return `[${m.id}] (${m.category}) ${m.text}\n  Tags: ${m.tags.join(", ")}${appliesToLine(m.appliesTo)}\n  Created: ${m.created}`;
+}
+
+// ---------------------------------------------------------------------------
+// Prompt formatters
+// ---------------------------------------------------------------------------
+
+/** Attribute naming the origin layer, when known */
+function layerAttr(layer: MemoryLayer | undefined): string {
+	return layer ? ` layer="${layer}"` : "";
+}
+
+/** Attribute naming where the memory applies, when limited */
+function appliesToAttr(appliesTo: MemoryAppliesTo | undefined): string {
+	const scope = formatMemoryAppliesTo(appliesTo);
+	return scope ? ` applies_to="${escapeXml(scope)}"` : "";
+}
+
+export function formatSemanticForPrompt(m: SemanticMemory, layer?: MemoryLayer): string {
+	return `<memory id="${m.id}"${layerAttr(layer)} category="${m.category}"${appliesToAttr(m.appliesTo)}>${escapeXml(m.text)}</memory>`;
+}
+
+export function formatProceduralForPrompt(m: ProceduralMemory, layer?: MemoryLayer): string {
+	const steps = m.steps.map((s, i) => `${i + 1}. ${s}`).join("; ");
+	return `<procedure id="${m.id}"${layerAttr(layer)} name="${escapeXml(m.name)}" trigger="${escapeXml(m.trigger)}"${appliesToAttr(m.appliesTo)}>${escapeXml(steps)}</procedure>`;
+}
+
+export function formatEpisodicForPrompt(m: EpisodicMemory, layer?: MemoryLayer): string {
+	let text = m.details.join("; ");
+	if (m.reflection?.lessons.length) {
+		text += ` | Lessons: ${m.reflection.lessons.join("; ")}`;
+	}
+	return `<episode id="${m.id}"${layerAttr(layer)} date="${m.date}" summary="${escapeXml(m.summary)}">${escapeXml(text)}</episode>`;
+}
+
+function escapeXml(str: string): string {
+	return str
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&apos;");
+}
+
+// ---------------------------------------------------------------------------
+// Memory counts (for status display)
+// ---------------------------------------------------------------------------
+
+export interface MemoryCounts {
+	semantic: number;
+	procedural: number;
+	episodic: number;
+	total: number;
+}
+
+/** Count the memories in a layer. SQLite-backed directories count without loading the stores. */
+export function getMemoryCounts(cwd: string, layer: MemoryLayer = "global"): MemoryCounts {
+	const count = (type: MemoryType): number => {
+		const database = layer === "team" ? undefined : getStoreDatabase(getMemoryDir(cwd, layer), type);
+		return database ? countMemoryDatabaseStore(database, type) : loadLayerStore(cwd, type, layer).memories.length;
+	};
+	const semantic = count("semantic");
+	const procedural = count("procedural");
+	const episodic = count("episodic");
+	return { semantic, procedural, episodic, total: semantic + procedural + episodic };
+}
@@ -0,0 +1,141 @@
+/**
+ * Procedural memories as commands and skills.
+ *
+ * Every procedural memory can be run as /proc:<name>, which expands into a prompt that
+ * follows its steps, with the same argument placeholders as prompt templates ($1, $@,
+ * $ARGUMENTS, ${@:N}). A procedure that has proven itself can be promoted to a SKILL.md,
+ * which loadSkills picks up like any other skill.
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { stringify } from "yaml";
+import { parseCommandArgs, substituteArgs } from "../prompt-templates.js";
+import type { ProceduralMemory } from "./memory.js";
+import { getMemoryKey, type MemoryEntry } from "./retrieval.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ProceduralEntry = Extract<MemoryEntry, { type: "procedural" }>;
+
+/** A procedural memory runnable as /proc:<name> */
+export interface ProcedureCommand {
+	/** Command name without the slash, e.g. "proc:deploy-to-staging" */
+	name: string;
+	description: string;
+	entry: ProceduralEntry;
+}
+
+/** Prefix of procedure command names */
+export const PROCEDURE_COMMAND_PREFIX = "proc:";
+
+/** Max skill name length per the Agent Skills spec (see skills.ts) */
+const MAX_NAME_LENGTH = 64;
+
+/** Matches the argument placeholders substituteArgs replaces */
+const ARGUMENT_PATTERN = /\$(\d+|@|ARGUMENTS|\{@:)/;
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+/**
+ * Command and skill name of a procedure: its name lowercased, with everything but
+ * letters and digits collapsed into single hyphens. Falls back to the ID.
+ */
+export function getProcedureName(memory: Pick<ProceduralMemory, "id" | "name">): string {
+	const slug = memory.name
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.slice(0, MAX_NAME_LENGTH)
+		.replace(/^-+|-+$/g, "");
+	return slug || memory.id.replace(/_/g, "-");
+}
+
+/**
+ * The procedure commands for the procedural memories among entries. Entries come in
+ * layer precedence order, so of two procedures with the same command name the one from
+ * the higher layer wins.
+ */
+export function getProcedureCommands(entries: MemoryEntry[]): ProcedureCommand[] {
+	const commands = new Map<string, ProcedureCommand>();
+	for (const entry of entries) {
+		if (entry.type !== "procedural") continue;
+		const name = `${PROCEDURE_COMMAND_PREFIX}${getProcedureName(entry.memory)}`;
+		if (commands.has(name)) continue;
+		const description = entry.memory.trigger.trim() || entry.memory.name;
+		commands.set(name, { name, description: `${description} (${entry.layer} memory)`, entry });
+	}
+	return [...commands.values()];
+}
+
+/**
+ * Format a procedure as a prompt that runs its steps. Placeholders in the steps are
+ * replaced with the arguments; if the steps have none, the arguments follow the procedure.
+ */
+export function formatProcedurePrompt(entry: ProceduralEntry, args: string): string {
+	const { memory } = entry;
+	const steps = memory.steps.map((step, i) => `${i + 1}. ${step}`).join("\n");
+	const usesArgs = ARGUMENT_PATTERN.test(steps);
+	const lines = [`<procedure name="${memory.name}" id="${getMemoryKey(entry)}">`];
+	if (memory.trigger.trim()) {
+		lines.push(`When to use: ${memory.trigger.trim()}`, "");
+	}
+	lines.push(usesArgs ? substituteArgs(steps, parseCommandArgs(args)) : steps, "</procedure>");
+	lines.push("", "Follow the steps of this procedure in order.");
+	if (args && !usesArgs) {
+		lines.push("", args);
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Expand a procedure command (/proc:name args) into the prompt for its procedure.
+ * @returns The prompt and the procedure it runs, or undefined if text is not a procedure command
+ */
+export function expandProcedureCommand(
+	text: string,
+	entries: MemoryEntry[],
+): { text: string; entry: ProceduralEntry } | undefined {
+	if (!text.startsWith(`/${PROCEDURE_COMMAND_PREFIX}`)) return undefined;
+
+	const spaceIndex = text.indexOf(" ");
+	const name = spaceIndex === -1 ? text.slice(1) : text.slice(1, spaceIndex);
+	const args = spaceIndex === -1 ? "" : text.slice(spaceIndex + 1).trim();
+
+	const command = getProcedureCommands(entries).find((c) => c.name === name);
+	if (!command) return undefined;
+	return { text: formatProcedurePrompt(command.entry, args), entry: command.entry };
+}
+
+// ============================================================================
+// Skills
+// ============================================================================
+
+/** Format a procedure as the content of a SKILL.md */
+export function formatProcedureSkill(entry: ProceduralEntry): string {
+	const { memory } = entry;
+	const name = getProcedureName(memory);
+	const description = (memory.trigger.trim() || `Run the "${memory.name}" procedure.`).slice(0, 1024);
+	const frontmatter = stringify({ name, description }).trimEnd();
+	const steps = memory.steps.map((step, i) => `${i + 1}. ${step}`).join("\n");
+	return `---\n${frontmatter}\n---\n\n# ${memory.name}\n\n${steps}\n\nPromoted from procedural memory [${getMemoryKey(entry)}].\n`;
+}
+
+/**
+ * Write a procedure as skillsDir/<name>/SKILL.md
+ * @returns The path of the written SKILL.md
+ * @throws Error if a skill with that name already exists in skillsDir
+ */
+export function promoteProcedureToSkill(entry: ProceduralEntry, skillsDir: string): string {
+	const dir = join(skillsDir, getProcedureName(entry.memory));
+	const filePath = join(dir, "SKILL.md");
+	if (existsSync(filePath)) {
+		throw new Error(`A skill already exists at ${filePath}`);
+	}
+	mkdirSync(dir, { recursive: true });
+	writeFileSync(filePath, formatProcedureSkill(entry), "utf-8");
+	return filePath;
+}
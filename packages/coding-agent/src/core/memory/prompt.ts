@@ -0,0 +1,168 @@
+/**
+ * The <memory_system> section of the system prompt: memory capture rules plus either the
+ * stored memories inline or a summary pointing at per-turn retrieval.
+ */
+
+import { getMemoryActivationContext, isMemoryActive, type MemoryActivationContext } from "./activation.js";
+import { getPublishedMemoryKeys } from "./context-files.js";
+import type { MemoryCounts, MemoryLayer, MemoryScope } from "./memory.js";
+import { formatMemoryEntryForPrompt, getMemoryKey, loadMemoryEntries, type MemoryEntry } from "./retrieval.js";
+import { selectHotMemories } from "./usage.js";
+
+/** Episodic memories inlined when retrieval is off */
+const INLINE_EPISODES = 10;
+
+export interface MemoryPromptOptions {
+	/**
+	 * When true, stored memories are not inlined. Only the rules are emitted; relevant
+	 * memories are attached per turn instead. The section does not depend on what is
+	 * stored, so memory writes do not change the system prompt and its cache.
+	 */
+	retrieval?: boolean;
+	/** Layers to read memories from. Default: only the scope */
+	layers?: readonly MemoryLayer[];
+	/**
+	 * The memories of the layers, already loaded from the session's MemoryBackend.
+	 * Default: read from the memory directories of cwd.
+	 */
+	entries?: readonly MemoryEntry[];
+	/**
+	 * Decides which path- and branch-scoped memories are inlined (see isMemoryActive).
+	 * Default: the working directory and branch of cwd, with no touched files.
+	 */
+	activation?: MemoryActivationContext;
+	/**
+	 * Contents of the context files in the prompt. Memories published there unchanged are
+	 * not inlined again (see getPublishedMemoryKeys).
+	 */
+	contextFiles?: readonly string[];
+}
+
+export function buildMemoryPromptSection(
+	cwd: string,
+	scope: MemoryScope = "global",
+	options: MemoryPromptOptions = {},
+): string {
+	const layers = options.layers ?? [scope];
+	const entries = options.retrieval ? [] : (options.entries ?? loadMemoryEntries(cwd, layers));
+	const activation = options.retrieval ? undefined : (options.activation ?? getMemoryActivationContext(cwd));
+	const published = getPublishedMemoryKeys(entries, options.contextFiles ?? []);
+	const active = entries.filter(
+		(e) => !e.memory.archived && !published.has(getMemoryKey(e)) && (!activation || isMemoryActive(e, activation)),
+	);
+	const semantic = active.filter((e) => e.type === "semantic");
+	const procedural = active.filter((e) => e.type === "procedural");
+	const episodic = selectHotMemories(
+		active.filter((e) => e.type === "episodic"),
+		INLINE_EPISODES,
+	);
+	const layerCounts = options.retrieval
+		? undefined
+		: layers.map((layer) => countEntries(entries.filter((e) => e.layer === layer)));
+
+	if (layerCounts?.every((c) => c.total === 0)) {
+		return `\n\n<memory_system>
+You have a persistent memory system that stores knowledge across sessions.
+Currently no memories are stored. Use the memory_write tool to save:
+1. Procedural memories when the user guides you through a multi-step workflow.
+2. Semantic memories when the user states a preference, rule, correction, or fact.
+3. Episodic memories when a significant task completes.
+</memory_system>`;
+	}
+
+	const parts: string[] = [];
+
+	parts.push(`\n\n<memory_system>
+You have a persistent memory system that stores knowledge across sessions.
+You MUST use these memories to improve your responses. Do not ask the user
+to repeat things they have already taught you.
+
+AUTOMATIC MEMORY CAPTURE RULES:
+1. When the user guides you through a multi-step workflow (correcting steps,
+   adding steps, reordering), save it as a PROCEDURAL memory using the
+   memory_write tool. Extract the general workflow, not the specific instance.
+2. When the user states a preference or rule ("always do X", "never do Y",
+   "I prefer X"), save it as a SEMANTIC memory immediately.
+3. When the user corrects you or you make a mistake, save the lesson as a
+   SEMANTIC memory with category "convention".
+4. When a significant task completes, save a summary as an EPISODIC memory.
+5. If you detect a conflict with an existing memory, ask the user: "You
+   previously told me [old]. You are now saying [new]. Should I update this?"
+   Only update after confirmation. memory_write also reports likely conflicts
+   with stored facts; resolve them with its on_conflict parameter.
+6. When a stored memory shapes your response, cite its id in brackets,
+   e.g. [sem_004], so memories that matter are kept.
+7. When a convention or workflow only holds for one part of the repository
+   (e.g. one package of a monorepo) or for certain branches, limit it with
+   applies_to_paths or applies_to_branches so it is not applied elsewhere.`);
+
+	if (layers.length > 1) {
+		parts.push(formatLayersSection(layers, layerCounts, scope));
+	}
+
+	if (options.retrieval) {
+		parts.push(`
+RELEVANT MEMORIES:
+Stored memories are not listed here. The ones most relevant to the current request
+are attached to user messages inside <relevant_memories>. Use memory_read with a query to look up anything else,
+including archived memories that have not been used for a long time.`);
+		parts.push("\n</memory_system>");
+		return parts.join("\n");
+	}
+
+	if (semantic.length > 0) {
+		parts.push("\n<semantic_memories>");
+		for (const entry of semantic) {
+			parts.push(`  ${formatMemoryEntryForPrompt(entry)}`);
+		}
+		parts.push("</semantic_memories>");
+	}
+
+	if (procedural.length > 0) {
+		parts.push("\n<procedural_memories>");
+		for (const entry of procedural) {
+			parts.push(`  ${formatMemoryEntryForPrompt(entry)}`);
+		}
+		parts.push("</procedural_memories>");
+	}
+
+	if (episodic.length > 0) {
+		parts.push("\n<recent_episodic_memories>");
+		for (const entry of episodic) {
+			parts.push(`  ${formatMemoryEntryForPrompt(entry)}`);
+		}
+		parts.push("</recent_episodic_memories>");
+	}
+
+	parts.push("\n</memory_system>");
+
+	return parts.join("\n");
+}
+
+function countEntries(entries: MemoryEntry[]): MemoryCounts {
+	const semantic = entries.filter((e) => e.type === "semantic").length;
+	const procedural = entries.filter((e) => e.type === "procedural").length;
+	const episodic = entries.filter((e) => e.type === "episodic").length;
+	return { semantic, procedural, episodic, total: semantic + procedural + episodic };
+}
+
+/** Describe where memories come from and where new ones are written, with layer sizes if given */
+function formatLayersSection(
+	layers: readonly MemoryLayer[],
+	layerCounts: MemoryCounts[] | undefined,
+	scope: MemoryScope,
+): string {
+	const counts = layers.map((layer, i) => (layerCounts ? `${layer} (${layerCounts[i].total})` : layer));
+	const lines = [
+		"",
+		"MEMORY LAYERS:",
+		`Memories come from these layers, highest precedence first: ${counts.join(", ")}.`,
+		"Each memory carries a layer attribute. When memories conflict, follow the higher layer.",
+		`memory_write saves to the ${scope} layer unless you pass scope: use "global" for personal`,
+		`preferences that apply to every project and "project" for conventions of this repository.`,
+	];
+	if (layers.includes("team")) {
+		lines.push("Team memories are shared with the team and read-only.");
+	}
+	return lines.join("\n");
+}
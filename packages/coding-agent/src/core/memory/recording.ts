@@ -0,0 +1,215 @@
+/**
+ * Teach mode: procedural memories recorded from a demonstration.
+ *
+ * /memory record <name> marks where a demonstration starts and /memory stop collects
+ * what happened since from the session: the user's ! commands (the user_bash event), the
+ * agent's tool calls and the user's messages, which during a demonstration are mostly
+ * corrections. A model distills the recording into a procedure with general steps, where
+ * the values specific to this run become argument placeholders ($1, $2, ...) as in
+ * /proc:<name> commands. The user edits the procedure before it is saved.
+ */
+
+import type { Model } from "@mariozechner/pi-ai";
+import { completeSimple } from "@mariozechner/pi-ai";
+import type { SessionEntry } from "../session-manager.js";
+import type { MemoryBackend } from "./backend.js";
+import { parseHarvestResponse } from "./harvest.js";
+import {
+	generateId,
+	type MemoryAuthor,
+	type MemoryOrigin,
+	type MemoryScope,
+	nowISO,
+	type ProceduralMemory,
+} from "./memory.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** One thing that happened during a recording */
+export type RecordedStep =
+	| { kind: "bash"; command: string; exitCode?: number }
+	| { kind: "tool"; name: string; args: string }
+	| { kind: "correction"; text: string };
+
+/** A procedure distilled from a recording, before it is edited and stored */
+export type RecordedProcedure = Pick<ProceduralMemory, "name" | "trigger" | "steps" | "tags">;
+
+export interface DistillRecordingOptions {
+	/** Model that distills the recording */
+	model: Model<any>;
+	/** API key for the model */
+	apiKey: string;
+	signal?: AbortSignal;
+}
+
+export interface RecordingDistillResult {
+	procedure?: RecordedProcedure;
+	aborted?: boolean;
+	error?: string;
+}
+
+/** Longest tool call arguments shown to the model, in characters */
+const MAX_ARGS_LENGTH = 300;
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+function truncate(text: string, max: number): string {
+	return text.length > max ? `${text.slice(0, max)}...` : text;
+}
+
+/**
+ * The steps recorded in session entries from a point in time on: the user's ! commands,
+ * the assistant's tool calls and the user's messages, in order.
+ * @param since ISO timestamp the recording started at
+ */
+export function getRecordedSteps(entries: readonly SessionEntry[], since: string): RecordedStep[] {
+	const steps: RecordedStep[] = [];
+	for (const entry of entries) {
+		if (entry.type !== "message" || entry.timestamp < since) continue;
+		const { message } = entry;
+		if (message.role === "bashExecution") {
+			steps.push({ kind: "bash", command: message.command, exitCode: message.exitCode });
+		} else if (message.role === "assistant") {
+			for (const block of message.content) {
+				if (block.type !== "toolCall") continue;
+				steps.push({
+					kind: "tool",
+					name: block.name,
+					args: truncate(JSON.stringify(block.arguments), MAX_ARGS_LENGTH),
+				});
+			}
+		} else if (message.role === "user") {
+			const text =
+				typeof message.content === "string"
+					? message.content
+					: message.content
+							.filter((c): c is { type: "text"; text: string } => c.type === "text")
+							.map((c) => c.text)
+							.join("\n");
+			if (text.trim()) steps.push({ kind: "correction", text: text.trim() });
+		}
+	}
+	return steps;
+}
+
+function formatStep(step: RecordedStep): string {
+	switch (step.kind) {
+		case "bash": {
+			const failed = step.exitCode !== undefined && step.exitCode !== 0 ? ` (exit ${step.exitCode})` : "";
+			return `User ran: ${step.command}${failed}`;
+		}
+		case "tool":
+			return `Assistant called ${step.name} ${step.args}`;
+		case "correction":
+			return `User said: ${step.text}`;
+	}
+}
+
+/** A recording as numbered lines, for the model and for display */
+export function formatRecording(steps: readonly RecordedStep[]): string {
+	return steps.map((step, i) => `${i + 1}. ${formatStep(step)}`).join("\n");
+}
+
+// ============================================================================
+// Distillation
+// ============================================================================
+
+const DISTILL_SYSTEM_PROMPT = `You turn a demonstration of a task into a reusable procedure for a coding assistant. You keep what the demonstration shows and never invent steps that are not in it.`;
+
+function buildDistillPrompt(name: string, steps: readonly RecordedStep[]): string {
+	return `<recording>
+${formatRecording(steps)}
+</recording>
+
+The user demonstrated the procedure "${name}" above, through commands they ran, tool calls by the assistant and their instructions and corrections. Write it down so the assistant can repeat it:
+- Generalize: one step per action, in the order that worked. Leave out dead ends, failed attempts and exploration, but keep what the user's corrections taught.
+- Parameterize: replace values specific to this run (file names, versions, branch names, hosts) with $1, $2, ... in order of first use, and say in the trigger what each one is.
+- Write the trigger as when to use the procedure.
+
+Output exactly one procedure in this format:
+<procedure name="${name}" trigger="When to use it" tags="2-5 lowercase tags">
+- Step one
+- Step two
+</procedure>`;
+}
+
+/**
+ * Ask a model to distill recorded steps into a procedure named name. Nothing is written.
+ */
+export async function distillRecording(
+	name: string,
+	steps: readonly RecordedStep[],
+	options: DistillRecordingOptions,
+): Promise<RecordingDistillResult> {
+	if (steps.length === 0) {
+		return { error: "Nothing was recorded" };
+	}
+
+	const response = await completeSimple(
+		options.model,
+		{
+			systemPrompt: DISTILL_SYSTEM_PROMPT,
+			messages: [
+				{ role: "user", content: [{ type: "text", text: buildDistillPrompt(name, steps) }], timestamp: Date.now() },
+			],
+		},
+		{ apiKey: options.apiKey, signal: options.signal, maxTokens: 2048 },
+	);
+	if (response.stopReason === "aborted") {
+		return { aborted: true };
+	}
+	if (response.stopReason === "error") {
+		return { error: response.errorMessage || "Procedure distillation failed" };
+	}
+
+	const text = response.content
+		.filter((c): c is { type: "text"; text: string } => c.type === "text")
+		.map((c) => c.text)
+		.join("\n");
+	const procedure = parseHarvestResponse(text).find((m) => m.type === "procedural");
+	if (!procedure || procedure.type !== "procedural") {
+		return { error: "The model did not return a procedure" };
+	}
+	return { procedure: { name, trigger: procedure.trigger, steps: procedure.steps, tags: procedure.tags } };
+}
+
+/**
+ * Store a recorded procedure, replacing the procedure of the same name in scope if there
+ * is one (keeping its ID and usage).
+ * @returns The procedure's ID, and whether it was created or replaced an existing one
+ */
+export function saveRecordedProcedure(
+	backend: MemoryBackend,
+	scope: MemoryScope,
+	procedure: RecordedProcedure & Pick<ProceduralMemory, "appliesTo">,
+	origin: MemoryOrigin,
+	author: MemoryAuthor,
+): Promise<{ id: string; action: "created" | "updated" }> {
+	return backend.update<ProceduralMemory, { id: string; action: "created" | "updated" }>(
+		"procedural",
+		scope,
+		(store) => {
+			const existing = store.memories.find((m) => m.name === procedure.name);
+			if (existing) {
+				Object.assign(existing, procedure, { updated: nowISO(), origin });
+				if (!procedure.appliesTo) delete existing.appliesTo;
+				return { id: existing.id, action: "updated" };
+			}
+			const id = generateId("proc", store);
+			store.memories.push({
+				id,
+				...procedure,
+				created: nowISO(),
+				updated: nowISO(),
+				sourceSession: origin.sessionId,
+				origin,
+			});
+			return { id, action: "created" };
+		},
+		{ author },
+	);
+}
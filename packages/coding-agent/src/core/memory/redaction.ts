@@ -0,0 +1,173 @@
+/**
+ * Secret and personal data scrubbing for memories (memory.redaction).
+ *
+ * Memories are stored as plain text and, in the global scope, end up in the system prompt
+ * of every project. Before a memory is written or imported, its text is scanned with
+ * built-in detectors for common token formats, private keys, email addresses and
+ * credential assignments, plus the patterns configured in settings. Matches are either
+ * masked as [REDACTED:<detector>] or the memory is not stored at all.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What happens to a memory with a match:
+ * - "mask": matches are replaced with [REDACTED:<detector>] and the memory is stored
+ * - "block": the memory is not stored
+ */
+export type MemoryRedactionAction = "mask" | "block";
+
+export interface MemoryDetector {
+	/** Name shown in redaction reports and masks, e.g. "aws-access-key" */
+	name: string;
+	/** Global regular expression matching the text to redact */
+	pattern: RegExp;
+}
+
+export interface MemoryRedactorOptions {
+	/** Scan memories before they are stored. Default: true */
+	enabled?: boolean;
+	/** Default: "mask" */
+	action?: MemoryRedactionAction;
+	/** Extra detectors, as detector name to regular expression source */
+	patterns?: Record<string, string>;
+}
+
+/** Compiled redaction settings */
+export interface MemoryRedactor {
+	action: MemoryRedactionAction;
+	/** Empty when redaction is disabled */
+	detectors: MemoryDetector[];
+}
+
+/** Matches of one detector in one field */
+export interface MemoryRedaction {
+	detector: string;
+	/** Path of the field, e.g. "text", "steps[2]" or "reflection.lessons[0]" */
+	field: string;
+	count: number;
+}
+
+export interface MemoryRedactionResult<T> {
+	/** The value with matches masked (unchanged if nothing matched) */
+	value: T;
+	redactions: MemoryRedaction[];
+}
+
+// ============================================================================
+// Detectors
+// ============================================================================
+
+/**
+ * Built-in detectors, applied in order. Private keys and credential assignments come
+ * first, so a known token assigned to a variable is reported once, with only its value
+ * masked.
+ */
+export const BUILTIN_MEMORY_DETECTORS: readonly MemoryDetector[] = [
+	{
+		name: "private-key",
+		pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+	},
+	{
+		name: "env-assignment",
+		pattern: /(?<=\b[A-Z_][A-Z0-9_]*(?:KEY|SECRET|TOKEN|PASSWORD|PASSWD|CREDENTIALS?)\s*[=:]\s*["']?)[^\s"'[]+/g,
+	},
+	{ name: "aws-access-key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+	{ name: "github-token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+	{ name: "api-key", pattern: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g },
+	{ name: "slack-token", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+	{ name: "google-api-key", pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+	{ name: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+	{ name: "bearer-token", pattern: /(?<=\bBearer\s+)[A-Za-z0-9._~+/-]{20,}=*/g },
+	{ name: "email", pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g },
+];
+
+/**
+ * Compile redaction settings.
+ * @throws Error if a configured pattern is not a valid regular expression
+ */
+export function createMemoryRedactor(settings: MemoryRedactorOptions = {}): MemoryRedactor {
+	const action = settings.action ?? "mask";
+	if (settings.enabled === false) {
+		return { action, detectors: [] };
+	}
+	const custom = Object.entries(settings.patterns ?? {}).map(([name, source]): MemoryDetector => {
+		try {
+			return { name, pattern: new RegExp(source, "g") };
+		} catch (error) {
+			throw new Error(
+				`Invalid memory.redaction pattern "${name}": ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	});
+	return { action, detectors: [...BUILTIN_MEMORY_DETECTORS, ...custom] };
+}
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+/** Fields that hold provenance rather than remembered content */
+const SKIPPED_KEYS = new Set(["id", "origin", "sourceSession"]);
+
+function redactText(text: string, field: string, detectors: MemoryDetector[], redactions: MemoryRedaction[]): string {
+	let result = text;
+	for (const detector of detectors) {
+		let count = 0;
+		result = result.replace(detector.pattern, (match) => {
+			if (match.length === 0) return match;
+			count++;
+			return `[REDACTED:${detector.name}]`;
+		});
+		if (count > 0) {
+			redactions.push({ detector: detector.name, field, count });
+		}
+	}
+	return result;
+}
+
+function redactValue(
+	value: unknown,
+	field: string,
+	detectors: MemoryDetector[],
+	redactions: MemoryRedaction[],
+): unknown {
+	if (typeof value === "string") {
+		return redactText(value, field, detectors, redactions);
+	}
+	if (Array.isArray(value)) {
+		return value.map((item, i) => redactValue(item, `${field}[${i}]`, detectors, redactions));
+	}
+	if (typeof value === "object" && value !== null) {
+		const result: Record<string, unknown> = {};
+		for (const [key, nested] of Object.entries(value)) {
+			result[key] = SKIPPED_KEYS.has(key)
+				? nested
+				: redactValue(nested, field ? `${field}.${key}` : key, detectors, redactions);
+		}
+		return result;
+	}
+	return value;
+}
+
+/**
+ * Mask every detector match in the strings of a memory or a set of memory fields,
+ * including strings in arrays and nested objects. IDs and origins are left as they are.
+ */
+export function redactMemory<T>(value: T, redactor: MemoryRedactor): MemoryRedactionResult<T> {
+	if (redactor.detectors.length === 0) {
+		return { value, redactions: [] };
+	}
+	const redactions: MemoryRedaction[] = [];
+	const redacted = redactValue(value, "", redactor.detectors, redactions) as T;
+	return { value: redactions.length > 0 ? redacted : value, redactions };
+}
+
+/** Redactions as a short list, e.g. "aws-access-key in text, email (2) in details[0]" */
+export function formatMemoryRedactions(redactions: MemoryRedaction[]): string {
+	return redactions
+		.map((r) => `${r.detector}${r.count > 1 ? ` (${r.count})` : ""} in ${r.field || "memory"}`)
+		.join(", ");
+}
@@ -0,0 +1,500 @@
+/**
+ * Relevance-ranked memory retrieval.
+ *
+ * Scores stored memories against the current user prompt (BM25 over text, tags and
+ * trigger, boosted by recency and usage) and selects the top matches that fit a
+ * token budget. The selection is attached to each user prompt as a hidden custom
+ * message, so the system prompt stays stable while everything else remains
+ * reachable through memory_read.
+ */
+
+import type { AgentMessage } from "@mariozechner/pi-agent-core";
+import type { CustomMessage } from "../messages.js";
+import {
+	type EpisodicMemory,
+	formatEpisodicForDisplay,
+	formatEpisodicForPrompt,
+	formatProceduralForDisplay,
+	formatProceduralForPrompt,
+	formatSemanticForDisplay,
+	formatSemanticForPrompt,
+	loadLayerStore,
+	MEMORY_LAYER_PRECEDENCE,
+	type MemoryLayer,
+	type MemoryType,
+	type ProceduralMemory,
+	type SemanticMemory,
+} from "./memory.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A stored memory tagged with its type and, when loaded from a layer, its origin layer */
+export type MemoryEntry = (
+	| { type: "semantic"; memory: SemanticMemory }
+	| { type: "procedural"; memory: ProceduralMemory }
+	| { type: "episodic"; memory: EpisodicMemory }
+) & { layer?: MemoryLayer };
+
+/** A memory with its relevance score for a query */
+export type RankedMemory = MemoryEntry & { score: number };
+
+export interface MemoryRetrievalOptions {
+	/** Maximum number of memories to select */
+	maxMemories: number;
+	/** Approximate token budget for the formatted selection */
+	tokenBudget: number;
+}
+
+/** Custom message type used to attach relevant memories to a prompt */
+export const MEMORY_CONTEXT_CUSTOM_TYPE = "memory_context";
+
+/** Details stored on memory context messages */
+export interface MemoryContextDetails {
+	/** Memory keys (see getMemoryKey) */
+	ids: string[];
+}
+
+// ============================================================================
+// References
+// ============================================================================
+
+/**
+ * Unique key of a memory across layers: "<layer>:<id>", or just the ID if the layer is unknown.
+ * IDs are only unique within a layer, so the key is also what users pass to refer to a
+ * memory in a specific layer.
+ */
+export function getMemoryKey(entry: MemoryEntry): string {
+	return entry.layer ? `${entry.layer}:${entry.memory.id}` : entry.memory.id;
+}
+
+/**
+ * Key of a memory within one layer: "<type>:<id>". IDs are only unique within a store, so
+ * full-text index matches are keyed by type as well (see searchMemoryIndex).
+ */
+export function getStoreMemoryKey(type: MemoryType, id: string): string {
+	return `${type}:${id}`;
+}
+
+/** Split a memory reference ("sem_001" or "project:sem_001") into layer and ID */
+export function parseMemoryRef(ref: string): { layer?: MemoryLayer; id: string } {
+	const separator = ref.indexOf(":");
+	if (separator !== -1) {
+		const layer = ref.slice(0, separator) as MemoryLayer;
+		if (MEMORY_LAYER_PRECEDENCE.includes(layer)) {
+			return { layer, id: ref.slice(separator + 1) };
+		}
+	}
+	return { id: ref };
+}
+
+// ============================================================================
+// Tokenization
+// ============================================================================
+
+const STOPWORDS = new Set([
+	"a",
+	"an",
+	"and",
+	"are",
+	"as",
+	"at",
+	"be",
+	"by",
+	"can",
+	"do",
+	"for",
+	"from",
+	"how",
+	"i",
+	"in",
+	"is",
+	"it",
+	"me",
+	"my",
+	"of",
+	"on",
+	"or",
+	"please",
+	"so",
+	"that",
+	"the",
+	"this",
+	"to",
+	"we",
+	"what",
+	"with",
+	"you",
+]);
+
+/** Strip common English suffixes so "deploying" and "deploys" match "deploy" */
+function stem(word: string): string {
+	if (word.length > 5 && word.endsWith("ing")) return word.slice(0, -3);
+	if (word.length > 4 && word.endsWith("ed")) return word.slice(0, -2);
+	if (word.length > 4 && word.endsWith("es")) return word.slice(0, -2);
+	if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+	return word;
+}
+
+/**
+ * Split text into lowercase, stemmed terms with stopwords removed.
+ */
+export function tokenize(text: string): string[] {
+	return text
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter((w) => w.length > 1 && !STOPWORDS.has(w))
+		.map(stem);
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/** Field weights: tags and triggers are short, curated descriptors and count more than free text */
+const FIELD_WEIGHTS = { text: 1, tags: 2, trigger: 1.5 };
+
+/** Max multiplier added for a brand-new memory; decays with RECENCY_HALF_LIFE_DAYS */
+const RECENCY_WEIGHT = 0.3;
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+/** Multiplier per log-unit of use count */
+const USAGE_WEIGHT = 0.1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface MemoryFields {
+	text: string;
+	tags: string;
+	trigger: string;
+}
+
+function getFields(entry: MemoryEntry): MemoryFields {
+	switch (entry.type) {
+		case "semantic":
+			return {
+				text: `${entry.memory.category} ${entry.memory.text}`,
+				tags: entry.memory.tags.join(" "),
+				trigger: "",
+			};
+		case "procedural":
+			return {
+				text: `${entry.memory.name} ${entry.memory.steps.join(" ")}`,
+				tags: entry.memory.tags.join(" "),
+				trigger: entry.memory.trigger,
+			};
+		case "episodic":
+			return {
+				text: [
+					entry.memory.summary,
+					...entry.memory.details,
+					...(entry.memory.reflection?.mistakes ?? []),
+					...(entry.memory.reflection?.lessons ?? []),
+				].join(" "),
+				tags: entry.memory.tags.join(" "),
+				trigger: "",
+			};
+	}
+}
+
+/** All searchable text of a memory (text, tags and trigger) as one string */
+export function getMemorySearchText(entry: MemoryEntry): string {
+	const fields = getFields(entry);
+	return [fields.text, fields.tags, fields.trigger].filter(Boolean).join(" ");
+}
+
+/** Most recent of creation/update and last use, in ms (0 if unknown) */
+export function getMemoryLastActivity(entry: MemoryEntry): number {
+	const written =
+		entry.type === "semantic"
+			? entry.memory.created
+			: entry.type === "procedural"
+				? entry.memory.updated
+				: entry.memory.date;
+	const times = [written, entry.memory.lastUsedAt]
+		.filter((t): t is string => t !== undefined)
+		.map((t) => new Date(t).getTime())
+		.filter((t) => !Number.isNaN(t));
+	return times.length > 0 ? Math.max(...times) : 0;
+}
+
+interface IndexedMemory {
+	entry: MemoryEntry;
+	termFrequencies: Map<string, number>;
+	length: number;
+}
+
+function indexMemory(entry: MemoryEntry): IndexedMemory {
+	const fields = getFields(entry);
+	const termFrequencies = new Map<string, number>();
+	let length = 0;
+	for (const field of Object.keys(FIELD_WEIGHTS) as (keyof MemoryFields)[]) {
+		const weight = FIELD_WEIGHTS[field];
+		for (const term of tokenize(fields[field])) {
+			termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + weight);
+			length += weight;
+		}
+	}
+	return { entry, termFrequencies, length };
+}
+
+/**
+ * Rank memories by relevance to a query.
+ * Returns only memories that share at least one term with the query, best first.
+ */
+export function rankMemories(entries: MemoryEntry[], query: string, now: number = Date.now()): RankedMemory[] {
+	const queryTerms = [...new Set(tokenize(query))];
+	if (queryTerms.length === 0 || entries.length === 0) return [];
+
+	const indexed = entries.map(indexMemory);
+	const avgLength = indexed.reduce((sum, d) => sum + d.length, 0) / indexed.length || 1;
+
+	const documentFrequency = new Map<string, number>();
+	for (const term of queryTerms) {
+		documentFrequency.set(term, indexed.filter((d) => d.termFrequencies.has(term)).length);
+	}
+
+	const ranked: RankedMemory[] = [];
+	for (const doc of indexed) {
+		let bm25 = 0;
+		for (const term of queryTerms) {
+			const tf = doc.termFrequencies.get(term);
+			if (!tf) continue;
+			const df = documentFrequency.get(term) ?? 0;
+			const idf = Math.log(1 + (indexed.length - df + 0.5) / (df + 0.5));
+			bm25 += (idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / avgLength));
+		}
+		if (bm25 <= 0) continue;
+
+		const ageDays = Math.max(0, (now - getMemoryLastActivity(doc.entry)) / DAY_MS);
+		const recencyBoost = 1 + RECENCY_WEIGHT * 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS);
+		const usageBoost = 1 + USAGE_WEIGHT * Math.log1p(doc.entry.memory.useCount ?? 0);
+
+		ranked.push({ ...doc.entry, score: bm25 * recencyBoost * usageBoost });
+	}
+
+	return ranked.sort((a, b) => b.score - a.score);
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+/** Rough token estimate (chars / 4), same heuristic as compaction */
+function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+/** Format a memory as a single prompt line */
+export function formatMemoryEntryForPrompt(entry: MemoryEntry): string {
+	switch (entry.type) {
+		case "semantic":
+			return formatSemanticForPrompt(entry.memory, entry.layer);
+		case "procedural":
+			return formatProceduralForPrompt(entry.memory, entry.layer);
+		case "episodic":
+			return formatEpisodicForPrompt(entry.memory, entry.layer);
+	}
+}
+
+/** Format a memory for display to the user or in tool results */
+export function formatMemoryEntryForDisplay(entry: MemoryEntry): string {
+	const text =
+		entry.type === "semantic"
+			? formatSemanticForDisplay(entry.memory)
+			: entry.type === "procedural"
+				? formatProceduralForDisplay(entry.memory)
+				: formatEpisodicForDisplay(entry.memory);
+	const layer = entry.layer ? `\n  Layer: ${entry.layer}` : "";
+	const archived = entry.memory.archived ? `\n  Archived: ${entry.memory.archived.split("T")[0]}` : "";
+	const origin = entry.memory.origin;
+	const from = origin
+		? `\n  Origin: session ${origin.sessionId}${origin.entryId ? `, entry ${origin.entryId}` : ""}`
+		: "";
+	return `${text}${layer}${archived}${from}`;
+}
+
+/**
+ * Take ranked memories in order until maxMemories is reached or the token budget is spent.
+ * Memories too large for the remaining budget are skipped so smaller ones can still fit.
+ */
+export function selectMemories(ranked: RankedMemory[], options: MemoryRetrievalOptions): RankedMemory[] {
+	const selected: RankedMemory[] = [];
+	let tokens = 0;
+	for (const entry of ranked) {
+		if (selected.length >= options.maxMemories) break;
+		const cost = estimateTokens(formatMemoryEntryForPrompt(entry));
+		if (tokens + cost > options.tokenBudget) continue;
+		selected.push(entry);
+		tokens += cost;
+	}
+	return selected;
+}
+
+/** Load every memory in one layer as typed entries */
+export function loadLayerEntries(cwd: string, layer: MemoryLayer): MemoryEntry[] {
+	return [
+		...loadLayerStore<SemanticMemory>(cwd, "semantic", layer).memories.map(
+			(memory): MemoryEntry => ({ type: "semantic", memory, layer }),
+		),
+		...loadLayerStore<ProceduralMemory>(cwd, "procedural", layer).memories.map(
+			(memory): MemoryEntry => ({ type: "procedural", memory, layer }),
+		),
+		...loadLayerStore<EpisodicMemory>(cwd, "episodic", layer).memories.map(
+			(memory): MemoryEntry => ({ type: "episodic", memory, layer }),
+		),
+	];
+}
+
+/** Key under which equivalent memories in different layers shadow each other, if any */
+function getShadowKey(entry: MemoryEntry): string | undefined {
+	switch (entry.type) {
+		case "semantic":
+			return `semantic:${entry.memory.category}:${entry.memory.text.toLowerCase()}`;
+		case "procedural":
+			return `procedural:${entry.memory.name}`;
+		case "episodic":
+			return undefined;
+	}
+}
+
+/**
+ * Combine memories from the given layers in precedence order (see MEMORY_LAYER_PRECEDENCE).
+ * A procedure with the same name or a fact with the same category and text in a higher
+ * layer shadows the one below it.
+ * @param load Returns the memories of one layer
+ */
+export function mergeLayerEntries(
+	layers: readonly MemoryLayer[],
+	load: (layer: MemoryLayer) => MemoryEntry[],
+): MemoryEntry[] {
+	const entries: MemoryEntry[] = [];
+	const seen = new Set<string>();
+	for (const layer of MEMORY_LAYER_PRECEDENCE.filter((l) => layers.includes(l))) {
+		for (const entry of load(layer)) {
+			const shadowKey = getShadowKey(entry);
+			if (shadowKey !== undefined) {
+				if (seen.has(shadowKey)) continue;
+				seen.add(shadowKey);
+			}
+			entries.push(entry);
+		}
+	}
+	return entries;
+}
+
+/** Load every memory from the given layers, in precedence order, with shadowed memories removed */
+export function loadMemoryEntries(cwd: string, layers: readonly MemoryLayer[]): MemoryEntry[] {
+	return mergeLayerEntries(layers, (layer) => loadLayerEntries(cwd, layer));
+}
+
+/**
+ * Find a memory by reference. A qualified reference ("team:sem_001") looks only in that
+ * layer; a bare ID is looked up in precedence order. Shadowed memories can still be found.
+ * @param load Returns the memories of one layer
+ */
+export function findLayerEntry(
+	layers: readonly MemoryLayer[],
+	ref: string,
+	load: (layer: MemoryLayer) => MemoryEntry[],
+): MemoryEntry | undefined {
+	const { layer, id } = parseMemoryRef(ref);
+	const searchLayers = MEMORY_LAYER_PRECEDENCE.filter((l) => layers.includes(l) && (!layer || l === layer));
+	for (const searchLayer of searchLayers) {
+		const found = load(searchLayer).find((e) => e.memory.id === id);
+		if (found) return found;
+	}
+	return undefined;
+}
+
+/** Find a memory by reference in the memory directories of cwd (see findLayerEntry) */
+export function findMemoryEntry(cwd: string, layers: readonly MemoryLayer[], ref: string): MemoryEntry | undefined {
+	return findLayerEntry(layers, ref, (layer) => loadLayerEntries(cwd, layer));
+}
+
+/**
+ * Select the memories most relevant to a query. Pinned memories come first,
+ * whether or not they match, and count against the same limits. Archived memories
+ * are never selected.
+ * @param exclude Memory keys to skip (e.g. memories already attached earlier in the context)
+ */
+export function selectRelevantMemories(
+	entries: MemoryEntry[],
+	query: string,
+	options: MemoryRetrievalOptions,
+	exclude: ReadonlySet<string> = new Set(),
+): RankedMemory[] {
+	const candidates = entries.filter((e) => !e.memory.archived && !exclude.has(getMemoryKey(e)));
+	const pinned = candidates.filter((e) => e.memory.pinned).map((e): RankedMemory => ({ ...e, score: Infinity }));
+	const ranked = rankMemories(
+		candidates.filter((e) => !e.memory.pinned),
+		query,
+	);
+	return selectMemories([...pinned, ...ranked], options);
+}
+
+/** Retrieve the memories most relevant to a query from the memory directories of cwd (see selectRelevantMemories) */
+export function retrieveMemories(
+	cwd: string,
+	layers: readonly MemoryLayer[],
+	query: string,
+	options: MemoryRetrievalOptions,
+	exclude: ReadonlySet<string> = new Set(),
+): RankedMemory[] {
+	return selectRelevantMemories(loadMemoryEntries(cwd, layers), query, options, exclude);
+}
+
+// ============================================================================
+// Context messages
+// ============================================================================
+
+const SECTION_TAGS: Record<MemoryType, string> = {
+	semantic: "semantic_memories",
+	procedural: "procedural_memories",
+	episodic: "episodic_memories",
+};
+
+/** Render selected memories as a <relevant_memories> block, grouped by type */
+export function formatRelevantMemories(entries: MemoryEntry[]): string {
+	const lines = ["<relevant_memories>"];
+	for (const type of ["semantic", "procedural", "episodic"] as const) {
+		const ofType = entries.filter((e) => e.type === type);
+		if (ofType.length === 0) continue;
+		lines.push(`<${SECTION_TAGS[type]}>`);
+		for (const entry of ofType) {
+			lines.push(`  ${formatMemoryEntryForPrompt(entry)}`);
+		}
+		lines.push(`</${SECTION_TAGS[type]}>`);
+	}
+	lines.push("</relevant_memories>");
+	return lines.join("\n");
+}
+
+/** Create the hidden custom message that attaches memories to a prompt */
+export function createMemoryContextMessage(entries: MemoryEntry[]): CustomMessage<MemoryContextDetails> {
+	return {
+		role: "custom",
+		customType: MEMORY_CONTEXT_CUSTOM_TYPE,
+		content: formatRelevantMemories(entries),
+		display: false,
+		details: { ids: entries.map(getMemoryKey) },
+		timestamp: Date.now(),
+	};
+}
+
+/** Collect keys of memories already attached to the given context */
+export function getAttachedMemoryIds(messages: AgentMessage[]): Set<string> {
+	const ids = new Set<string>();
+	for (const message of messages) {
+		if (message.role !== "custom" || message.customType !== MEMORY_CONTEXT_CUSTOM_TYPE) continue;
+		const details = message.details as MemoryContextDetails | undefined;
+		for (const id of details?.ids ?? []) {
+			ids.add(id);
+		}
+	}
+	return ids;
+}
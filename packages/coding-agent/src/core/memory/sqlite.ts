@@ -0,0 +1,204 @@
+/**
+ * SQLite storage for a memory directory (memory.backend: "sqlite").
+ *
+ * All three stores of a directory live in one memory.db: one row per memory, so a write
+ * touches only the memories it changed, and an FTS5 index over each memory's search text
+ * answers keyword searches without loading the stores. Uses the built-in node:sqlite
+ * module (Node.js 22.5 or later), loaded only when a SQLite-backed directory is accessed.
+ */
+
+import { createRequire } from "node:module";
+import type { DatabaseSync } from "node:sqlite";
+import type { MemoryStore, MemoryType } from "./memory.js";
+import { getMemorySearchText, getStoreMemoryKey, type MemoryEntry } from "./retrieval.js";
+
+const require = createRequire(import.meta.url);
+
+/** Name of the database file in a SQLite-backed memory directory */
+export const MEMORY_DATABASE_FILE = "memory.db";
+
+const BUSY_TIMEOUT_MS = 5000;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+CREATE TABLE IF NOT EXISTS memories (
+	type TEXT NOT NULL,
+	id TEXT NOT NULL,
+	position INTEGER NOT NULL,
+	data TEXT NOT NULL,
+	search_text TEXT NOT NULL,
+	PRIMARY KEY (type, id)
+);
+CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts USING fts5(
+	search_text, content='memories', content_rowid='rowid', tokenize='trigram'
+);
+CREATE TRIGGER IF NOT EXISTS memories_ai AFTER INSERT ON memories BEGIN
+	INSERT INTO memories_fts(rowid, search_text) VALUES (new.rowid, new.search_text);
+END;
+CREATE TRIGGER IF NOT EXISTS memories_ad AFTER DELETE ON memories BEGIN
+	INSERT INTO memories_fts(memories_fts, rowid, search_text) VALUES ('delete', old.rowid, old.search_text);
+END;
+CREATE TRIGGER IF NOT EXISTS memories_au AFTER UPDATE OF search_text ON memories BEGIN
+	INSERT INTO memories_fts(memories_fts, rowid, search_text) VALUES ('delete', old.rowid, old.search_text);
+	INSERT INTO memories_fts(rowid, search_text) VALUES (new.rowid, new.search_text);
+END;
+`;
+
+function loadSqlite(): typeof import("node:sqlite") {
+	try {
+		return require("node:sqlite") as typeof import("node:sqlite");
+	} catch {
+		throw new Error(`memory.backend "sqlite" requires Node.js 22.5 or later (running ${process.version})`);
+	}
+}
+
+let sqliteAvailable: boolean | undefined;
+
+/** Whether this Node.js provides node:sqlite, which memory.backend "sqlite" needs */
+export function isMemorySqliteAvailable(): boolean {
+	if (sqliteAvailable === undefined) {
+		try {
+			loadSqlite();
+			sqliteAvailable = true;
+		} catch {
+			sqliteAvailable = false;
+		}
+	}
+	return sqliteAvailable;
+}
+
+/**
+ * Open a memory database, creating it with the schema if it does not exist.
+ * Callers close it when done; connections are not shared between operations.
+ */
+export function openMemoryDatabase(filepath: string): DatabaseSync {
+	const db = new (loadSqlite().DatabaseSync)(filepath);
+	try {
+		db.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+		db.exec("PRAGMA journal_mode = WAL");
+		db.exec(SCHEMA);
+	} catch (error) {
+		db.close();
+		throw error;
+	}
+	return db;
+}
+
+/** Open a memory database for the duration of fn */
+export function withMemoryDatabase<R>(filepath: string, fn: (db: DatabaseSync) => R): R {
+	const db = openMemoryDatabase(filepath);
+	try {
+		return fn(db);
+	} finally {
+		db.close();
+	}
+}
+
+/**
+ * Run fn inside a write transaction on a memory database. Other writers, in this or
+ * another process, wait until it commits. Rolled back if fn throws.
+ */
+export function withMemoryDatabaseTransaction<R>(filepath: string, fn: (db: DatabaseSync) => R): R {
+	return withMemoryDatabase(filepath, (db) => {
+		db.exec("BEGIN IMMEDIATE");
+		try {
+			const result = fn(db);
+			db.exec("COMMIT");
+			return result;
+		} catch (error) {
+			db.exec("ROLLBACK");
+			throw error;
+		}
+	});
+}
+
+/** Read one type's store. Version is unset until the store is first written. */
+export function readMemoryDatabaseStore<T>(db: DatabaseSync, type: MemoryType): MemoryStore<T> {
+	const version = db.prepare("SELECT value FROM meta WHERE key = ?").get(`version:${type}`)?.value;
+	const rows = db.prepare("SELECT data FROM memories WHERE type = ? ORDER BY position").all(type);
+	return {
+		version: version === undefined ? undefined : Number(version),
+		memories: rows.map((row) => JSON.parse(row.data as string) as T),
+	};
+}
+
+/**
+ * Replace one type's store. Only memories that were added, changed or moved are written,
+ * and only rows whose search text changed are reindexed.
+ */
+export function writeMemoryDatabaseStore(db: DatabaseSync, type: MemoryType, store: MemoryStore<unknown>): void {
+	const existing = new Map(
+		db
+			.prepare("SELECT id, position, data FROM memories WHERE type = ?")
+			.all(type)
+			.map((row) => [row.id as string, { position: row.position as number, data: row.data as string }]),
+	);
+	const upsert = db.prepare(
+		`INSERT INTO memories (type, id, position, data, search_text) VALUES (?, ?, ?, ?, ?)
+		ON CONFLICT (type, id) DO UPDATE SET position = excluded.position, data = excluded.data, search_text = excluded.search_text`,
+	);
+	const move = db.prepare("UPDATE memories SET position = ? WHERE type = ? AND id = ?");
+	const remove = db.prepare("DELETE FROM memories WHERE type = ? AND id = ?");
+
+	const ids = new Set<string>();
+	store.memories.forEach((memory, position) => {
+		const id = (memory as { id: string }).id;
+		const data = JSON.stringify(memory);
+		const row = existing.get(id);
+		ids.add(id);
+		if (row?.data !== data) {
+			const searchText = getMemorySearchText({ type, memory } as MemoryEntry);
+			upsert.run(type, id, position, data, searchText);
+		} else if (row.position !== position) {
+			move.run(position, type, id);
+		}
+	});
+	for (const id of existing.keys()) {
+		if (!ids.has(id)) remove.run(type, id);
+	}
+	if (store.version !== undefined) {
+		db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)").run(
+			`version:${type}`,
+			String(store.version),
+		);
+	}
+}
+
+/** Number of memories of one type in a database */
+export function countMemoryDatabaseStore(filepath: string, type: MemoryType): number {
+	return withMemoryDatabase(
+		filepath,
+		(db) => db.prepare("SELECT COUNT(*) AS count FROM memories WHERE type = ?").get(type)?.count as number,
+	);
+}
+
+/**
+ * Keys (see getStoreMemoryKey) of the memories whose search text contains every word,
+ * case-insensitively. Words of three or more characters are answered from the trigram index;
+ * shorter words are matched with LIKE on the candidates.
+ */
+export function searchMemoryDatabase(filepath: string, words: string[]): Set<string> {
+	const indexed = words.filter((w) => w.length >= 3);
+	const short = words.filter((w) => w.length < 3);
+	const conditions: string[] = [];
+	const params: string[] = [];
+	if (indexed.length > 0) {
+		conditions.push("rowid IN (SELECT rowid FROM memories_fts WHERE memories_fts MATCH ?)");
+		params.push(indexed.map((w) => `"${w.replace(/"/g, '""')}"`).join(" AND "));
+	}
+	for (const word of short) {
+		conditions.push("search_text LIKE ? ESCAPE '\\'");
+		params.push(`%${word.replace(/[\\%_]/g, (c) => `\\${c}`)}%`);
+	}
+	const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+	return withMemoryDatabase(
+		filepath,
+		(db) =>
+			new Set(
+				db
+					.prepare(`SELECT type, id FROM memories ${where}`)
+					.all(...params)
+					.map((row) => getStoreMemoryKey(row.type as MemoryType, row.id as string)),
+			),
+	);
+}
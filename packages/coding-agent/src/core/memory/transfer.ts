@@ -0,0 +1,344 @@
+/**
+ * Memory export and import.
+ *
+ * Export writes every memory type from the given layers into one portable bundle,
+ * stamped with where and when it was exported. Import merges a bundle into a scope:
+ * memories whose content already exists are skipped (compared by content hash, not ID),
+ * and imported IDs that collide with existing ones are renumbered with generateId.
+ * Imported memories are scrubbed of secrets and personal data like new ones (see redaction.ts).
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { APP_NAME, VERSION } from "../../config.js";
+import { loadBackendEntries, type MemoryBackend } from "./backend.js";
+import {
+	CURRENT_MEMORY_STORE_VERSION,
+	type EpisodicMemory,
+	generateId,
+	getIdPrefix,
+	type MemoryAuthor,
+	type MemoryBundle,
+	type MemoryLayer,
+	type MemoryScope,
+	type MemoryStore,
+	type MemoryType,
+	migrateMemoryBundle,
+	nowISO,
+	type ProceduralMemory,
+	type SemanticMemory,
+	writeFileAtomic,
+} from "./memory.js";
+import {
+	createMemoryRedactor,
+	formatMemoryRedactions,
+	type MemoryRedaction,
+	type MemoryRedactor,
+	redactMemory,
+} from "./redaction.js";
+import type { MemoryEntry } from "./retrieval.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Where and when a bundle was exported */
+export interface MemoryExportProvenance {
+	exportedAt: string;
+	/** Tool and version that wrote the bundle, e.g. "pi 0.50.0" */
+	exportedBy: string;
+	/** Working directory of the exporting session */
+	cwd: string;
+	/** Layers the memories were read from, highest precedence first */
+	layers: MemoryLayer[];
+}
+
+/** A memory bundle as written by exportMemories */
+export interface MemoryExportBundle extends MemoryBundle {
+	provenance?: MemoryExportProvenance;
+}
+
+/** A memory that an import adds (or would add, in a dry run) */
+export type ImportedMemory = MemoryEntry & {
+	/** ID in the bundle. Differs from memory.id when the ID was remapped. */
+	originalId: string;
+	/** What was masked in the memory before it was imported */
+	redactions?: MemoryRedaction[];
+};
+
+/** A bundle memory skipped because the target scope already has the same content */
+export interface SkippedMemory {
+	type: MemoryType;
+	originalId: string;
+	/** ID of the existing memory with the same content */
+	existingId: string;
+}
+
+/** A bundle memory not imported because it contains secrets or personal data ("block" redaction) */
+export interface BlockedMemory {
+	type: MemoryType;
+	originalId: string;
+	redactions: MemoryRedaction[];
+}
+
+export interface MemoryImportResult {
+	scope: MemoryScope;
+	dryRun: boolean;
+	added: ImportedMemory[];
+	duplicates: SkippedMemory[];
+	blocked: BlockedMemory[];
+}
+
+export interface MemoryImportOptions {
+	/** Compute the result without writing anything */
+	dryRun?: boolean;
+	/** Masks or blocks secrets and personal data in imported memories. Default: built-in detectors, masking */
+	redactor?: MemoryRedactor;
+	/** Recorded in the memory history for the added memories. Default: { kind: "import" } */
+	author?: MemoryAuthor;
+}
+
+const MEMORY_TYPES: readonly MemoryType[] = ["procedural", "episodic", "semantic"];
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Collect the memories visible from the given layers into a bundle.
+ * Memories shadowed by a higher-precedence layer are left out.
+ */
+export async function createMemoryBundle(
+	backend: MemoryBackend,
+	layers: readonly MemoryLayer[],
+	cwd: string,
+): Promise<MemoryExportBundle> {
+	const bundle: MemoryExportBundle = {
+		version: CURRENT_MEMORY_STORE_VERSION,
+		provenance: {
+			exportedAt: nowISO(),
+			exportedBy: `${APP_NAME} ${VERSION}`,
+			cwd,
+			layers: [...layers],
+		},
+		procedural: [],
+		episodic: [],
+		semantic: [],
+	};
+	for (const entry of await loadBackendEntries(backend, layers)) {
+		(bundle[entry.type] as Array<typeof entry.memory>).push(entry.memory);
+	}
+	return bundle;
+}
+
+/** Default export file name, e.g. memories-2026-05-01.json */
+export function getDefaultMemoryExportFile(): string {
+	return `memories-${nowISO().slice(0, 10)}.json`;
+}
+
+/**
+ * Write the memories visible from the given layers to a bundle file. cwd is recorded in
+ * the bundle's provenance.
+ * @returns The written bundle
+ */
+export async function exportMemories(
+	backend: MemoryBackend,
+	layers: readonly MemoryLayer[],
+	filepath: string,
+	cwd: string,
+): Promise<MemoryExportBundle> {
+	const bundle = await createMemoryBundle(backend, layers, cwd);
+	const dir = dirname(filepath);
+	if (!existsSync(dir)) {
+		mkdirSync(dir, { recursive: true });
+	}
+	writeFileAtomic(filepath, JSON.stringify(bundle, null, 2));
+	return bundle;
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Read and validate a bundle file, migrating it to the current schema.
+ * Also accepts team memory files, which use the same format.
+ * @throws Error if the file is missing, not JSON, or not a memory bundle
+ */
+export function readMemoryBundle(filepath: string): MemoryExportBundle {
+	if (!existsSync(filepath)) {
+		throw new Error(`File not found: ${filepath}`);
+	}
+	let bundle: unknown;
+	try {
+		bundle = JSON.parse(readFileSync(filepath, "utf-8"));
+	} catch (error) {
+		throw new Error(`Invalid memory bundle ${filepath}: ${error instanceof Error ? error.message : String(error)}`);
+	}
+	if (typeof bundle !== "object" || bundle === null || Array.isArray(bundle)) {
+		throw new Error(`Invalid memory bundle ${filepath}: expected an object`);
+	}
+	const candidate = bundle as Record<string, unknown>;
+	if (!MEMORY_TYPES.some((type) => Array.isArray(candidate[type]))) {
+		throw new Error(`Invalid memory bundle ${filepath}: no procedural, episodic or semantic memories`);
+	}
+	for (const type of MEMORY_TYPES) {
+		if (candidate[type] !== undefined && !Array.isArray(candidate[type])) {
+			throw new Error(`Invalid memory bundle ${filepath}: "${type}" must be an array`);
+		}
+	}
+	const result = candidate as MemoryExportBundle;
+	migrateMemoryBundle(result);
+	return result;
+}
+
+function normalizeText(text: string | undefined): string {
+	return (text ?? "").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Hash of a memory's content. IDs, tags, timestamps, session and usage fields are
+ * ignored, so the same memory exported from two machines hashes the same.
+ */
+export function getMemoryContentHash(type: MemoryType, memory: MemoryEntry["memory"]): string {
+	let parts: string[];
+	if (type === "semantic") {
+		const m = memory as SemanticMemory;
+		parts = [m.category, m.text];
+	} else if (type === "procedural") {
+		const m = memory as ProceduralMemory;
+		parts = [m.name, m.trigger, ...(m.steps ?? [])];
+	} else {
+		const m = memory as EpisodicMemory;
+		parts = [
+			m.date,
+			m.summary,
+			...(m.details ?? []),
+			...(m.reflection?.mistakes ?? []),
+			...(m.reflection?.lessons ?? []),
+		];
+	}
+	const content = [type, ...parts.map(normalizeText)].join("\n");
+	return createHash("sha256").update(content).digest("hex");
+}
+
+/** Add a bundle's memories of one type to a store, returning what was added and skipped */
+function mergeIntoStore(
+	type: MemoryType,
+	store: MemoryStore<{ id: string }>,
+	incoming: Array<MemoryEntry["memory"]>,
+): { added: ImportedMemory[]; duplicates: SkippedMemory[] } {
+	const added: ImportedMemory[] = [];
+	const duplicates: SkippedMemory[] = [];
+	const hashes = new Map<string, string>();
+	for (const memory of store.memories) {
+		hashes.set(getMemoryContentHash(type, memory as MemoryEntry["memory"]), memory.id);
+	}
+
+	for (const memory of incoming) {
+		const hash = getMemoryContentHash(type, memory);
+		const existingId = hashes.get(hash);
+		if (existingId) {
+			duplicates.push({ type, originalId: memory.id, existingId });
+			continue;
+		}
+		const taken = store.memories.some((m) => m.id === memory.id);
+		const id = taken ? generateId(getIdPrefix(type), store) : memory.id;
+		const imported = { ...memory, id };
+		store.memories.push(imported);
+		hashes.set(hash, id);
+		added.push({ type, memory: imported, originalId: memory.id } as ImportedMemory);
+	}
+	return { added, duplicates };
+}
+
+/** The memories of one type in a scope, as a store to merge into without writing it */
+async function loadScopeStore(
+	backend: MemoryBackend,
+	scope: MemoryScope,
+	type: MemoryType,
+): Promise<MemoryStore<{ id: string }>> {
+	const entries = await backend.load(scope);
+	return { memories: entries.filter((e) => e.type === type).map((e) => e.memory) };
+}
+
+/**
+ * Merge a bundle into the stores of a scope. Each store is updated under its lock,
+ * so concurrent sessions do not lose writes. With dryRun, nothing is written and the
+ * result describes what an import would do.
+ */
+export async function importMemories(
+	backend: MemoryBackend,
+	scope: MemoryScope,
+	bundle: MemoryBundle,
+	options: MemoryImportOptions = {},
+): Promise<MemoryImportResult> {
+	const dryRun = options.dryRun ?? false;
+	const redactor = options.redactor ?? createMemoryRedactor();
+	const context = { author: options.author ?? { kind: "import" as const } };
+	const result: MemoryImportResult = { scope, dryRun, added: [], duplicates: [], blocked: [] };
+
+	for (const type of MEMORY_TYPES) {
+		const incoming: Array<MemoryEntry["memory"]> = [];
+		const redacted = new Map<string, MemoryRedaction[]>();
+		for (const memory of (bundle[type] ?? []) as Array<MemoryEntry["memory"]>) {
+			const { value, redactions } = redactMemory(memory, redactor);
+			if (redactions.length > 0 && redactor.action === "block") {
+				result.blocked.push({ type, originalId: memory.id, redactions });
+				continue;
+			}
+			if (redactions.length > 0) {
+				redacted.set(memory.id, redactions);
+			}
+			incoming.push(value);
+		}
+		if (incoming.length === 0) continue;
+
+		const merged = dryRun
+			? mergeIntoStore(type, await loadScopeStore(backend, scope, type), incoming)
+			: await backend.update<{ id: string }, ReturnType<typeof mergeIntoStore>>(
+					type,
+					scope,
+					(store) => mergeIntoStore(type, store, incoming),
+					context,
+				);
+		for (const added of merged.added) {
+			added.redactions = redacted.get(added.originalId);
+		}
+		result.added.push(...merged.added);
+		result.duplicates.push(...merged.duplicates);
+	}
+	return result;
+}
+
+function summarize(entry: MemoryEntry): string {
+	if (entry.type === "procedural") return `${entry.memory.name} -- ${entry.memory.trigger}`;
+	if (entry.type === "semantic") return `(${entry.memory.category}) ${entry.memory.text}`;
+	return `${entry.memory.date} -- ${entry.memory.summary}`;
+}
+
+/**
+ * Format an import result as a diff: "+" lines for memories that are (or would be)
+ * added, with "old -> new" for remapped IDs, "=" lines for skipped duplicates and "!"
+ * lines for memories blocked by redaction.
+ */
+export function formatMemoryImportDiff(result: MemoryImportResult): string {
+	const verb = result.dryRun ? "Would import" : "Imported";
+	const blocked = result.blocked.length > 0 ? `, ${result.blocked.length} blocked` : "";
+	const lines = [
+		`${verb} ${result.added.length} memories into ${result.scope} scope (${result.duplicates.length} duplicates skipped${blocked})`,
+	];
+	for (const entry of result.added) {
+		const id = entry.originalId === entry.memory.id ? entry.memory.id : `${entry.originalId} -> ${entry.memory.id}`;
+		const redacted = entry.redactions ? ` (redacted: ${formatMemoryRedactions(entry.redactions)})` : "";
+		lines.push(`+ [${id}] ${summarize(entry)}${redacted}`);
+	}
+	for (const skipped of result.duplicates) {
+		lines.push(`= [${skipped.originalId}] duplicate of [${skipped.existingId}]`);
+	}
+	for (const memory of result.blocked) {
+		lines.push(`! [${memory.originalId}] blocked, contains ${formatMemoryRedactions(memory.redactions)}`);
+	}
+	return lines.join("\n");
+}
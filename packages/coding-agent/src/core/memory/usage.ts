@@ -0,0 +1,271 @@
+/**
+ * Memory usage tracking and archival (memory.archive).
+ *
+ * A memory counts as used when retrieval attaches it to a prompt, memory_read returns it
+ * or the model cites it as [id]; being inlined into the system prompt is not a use. Each
+ * use bumps its useCount and lastUsedAt, which boost retrieval ranking and decide which
+ * episodes the inline system prompt keeps. Memories left unused for longer than the
+ * configured TTL are archived: an archived date is set in place, so they stay in their
+ * store and are still found by searches, but are never attached to prompts. Using an
+ * archived memory brings it back. There is no separate archive store, so a memory's key
+ * stays valid for citations, history and undo whether or not it is archived.
+ */
+
+import type { MemoryBackend } from "./backend.js";
+import { getIdPrefix, MEMORY_LAYER_PRECEDENCE, type MemoryScope, type MemoryType } from "./memory.js";
+import { getMemoryKey, getMemoryLastActivity, type MemoryEntry } from "./retrieval.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How recently a memory was active (written or used):
+ * - "hot": within the last 7 days
+ * - "warm": within the last 30 days
+ * - "cold": longer ago
+ * - "archived": archived for going unused, whenever it was last active
+ */
+export type MemoryTemperature = "hot" | "warm" | "cold" | "archived";
+
+export interface MemoryUsageStats {
+	/** Number of memories per type and temperature */
+	counts: Record<MemoryType, Record<MemoryTemperature, number>>;
+	/** Memories never used since usage has been tracked */
+	neverUsed: number;
+	total: number;
+	/** Most used memories, most first */
+	mostUsed: MemoryEntry[];
+	/** Unarchived memories inactive the longest, oldest first */
+	coldest: MemoryEntry[];
+}
+
+/** Fields of a stored memory that usage tracking reads and writes */
+interface UsageFields {
+	id: string;
+	useCount?: number;
+	lastUsedAt?: string;
+	pinned?: boolean;
+	archived?: string;
+}
+
+const MEMORY_TYPES: readonly MemoryType[] = ["semantic", "procedural", "episodic"];
+const TEMPERATURES: readonly MemoryTemperature[] = ["hot", "warm", "cold", "archived"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOT_DAYS = 7;
+const WARM_DAYS = 30;
+/** Days after which an unused memory's heat halves (see selectHotMemories) */
+const HEAT_HALF_LIFE_DAYS = 30;
+
+/** Group writable entries by the store they live in, counting how often each memory is listed */
+function groupByStore(entries: MemoryEntry[]): { scope: MemoryScope; type: MemoryType; ids: Map<string, number> }[] {
+	const groups = new Map<string, { scope: MemoryScope; type: MemoryType; ids: Map<string, number> }>();
+	for (const entry of entries) {
+		const scope = entry.layer;
+		if (scope !== "project" && scope !== "global") continue;
+		const key = `${scope}:${entry.type}`;
+		const group = groups.get(key) ?? { scope, type: entry.type, ids: new Map<string, number>() };
+		group.ids.set(entry.memory.id, (group.ids.get(entry.memory.id) ?? 0) + 1);
+		groups.set(key, group);
+	}
+	return [...groups.values()];
+}
+
+// ============================================================================
+// Usage
+// ============================================================================
+
+/**
+ * Record the uses of memories with one update per store: bump useCount (once for each time a
+ * memory is listed) and lastUsedAt, and bring archived memories back. Callers that see many
+ * uses, such as a session, queue them and record them together. Only a return from the
+ * archive is written to the history, by the "usage" author. Team memories are read-only and
+ * not tracked.
+ */
+export async function recordMemoryUsage(
+	backend: MemoryBackend,
+	entries: MemoryEntry[],
+	now = Date.now(),
+): Promise<void> {
+	const timestamp = new Date(now).toISOString();
+	for (const { scope, type, ids } of groupByStore(entries)) {
+		await backend.update<UsageFields, void>(
+			type,
+			scope,
+			(store) => {
+				for (const memory of store.memories) {
+					const uses = ids.get(memory.id);
+					if (!uses) continue;
+					memory.useCount = (memory.useCount ?? 0) + uses;
+					memory.lastUsedAt = timestamp;
+					delete memory.archived;
+				}
+			},
+			{ author: { kind: "usage" } },
+		);
+	}
+}
+
+const CITATION_PATTERN = new RegExp(
+	`\\[((?:(?:${MEMORY_LAYER_PRECEDENCE.join("|")}):)?(?:${MEMORY_TYPES.map(getIdPrefix).join("|")})_\\d+)\\]`,
+	"g",
+);
+
+/** Memory references cited in text as [sem_001] or [project:sem_001], each once */
+export function findMemoryCitations(text: string): string[] {
+	return [...new Set(Array.from(text.matchAll(CITATION_PATTERN), (match) => match[1]))];
+}
+
+// ============================================================================
+// Temperature
+// ============================================================================
+
+export function getMemoryTemperature(entry: MemoryEntry, now = Date.now()): MemoryTemperature {
+	if (entry.memory.archived) return "archived";
+	const ageDays = (now - getMemoryLastActivity(entry)) / DAY_MS;
+	return ageDays <= HOT_DAYS ? "hot" : ageDays <= WARM_DAYS ? "warm" : "cold";
+}
+
+/** Recency of a memory's last activity, weighted by how often it was used */
+function getMemoryHeat(entry: MemoryEntry, now: number): number {
+	const ageDays = Math.max(0, (now - getMemoryLastActivity(entry)) / DAY_MS);
+	return (1 + Math.log1p(entry.memory.useCount ?? 0)) * 0.5 ** (ageDays / HEAT_HALF_LIFE_DAYS);
+}
+
+/** The limit most active unarchived memories, in their original order */
+export function selectHotMemories(entries: MemoryEntry[], limit: number, now = Date.now()): MemoryEntry[] {
+	const active = entries.filter((e) => !e.memory.archived);
+	const hottest = new Set(
+		[...active].sort((a, b) => getMemoryHeat(b, now) - getMemoryHeat(a, now)).slice(0, Math.max(0, limit)),
+	);
+	return active.filter((e) => hottest.has(e));
+}
+
+// ============================================================================
+// Archival
+// ============================================================================
+
+/**
+ * Archive the memories of the given scopes that were neither written nor used in the
+ * last ttlDays. Pinned memories and memories without dates are never archived.
+ * @returns The memories archived now
+ */
+export async function archiveStaleMemories(
+	backend: MemoryBackend,
+	scopes: readonly MemoryScope[],
+	ttlDays: number,
+	now = Date.now(),
+): Promise<MemoryEntry[]> {
+	const cutoff = now - ttlDays * DAY_MS;
+	const timestamp = new Date(now).toISOString();
+	const archived: MemoryEntry[] = [];
+	for (const scope of scopes) {
+		// Only stores holding stale memories are updated, so no empty memory directory is created
+		const stale = (await backend.load(scope)).filter((entry) => {
+			const lastActive = getMemoryLastActivity(entry);
+			return !entry.memory.pinned && !entry.memory.archived && lastActive > 0 && lastActive <= cutoff;
+		});
+		for (const { type, ids } of groupByStore(stale)) {
+			await backend.update<UsageFields, void>(
+				type,
+				scope,
+				(store) => {
+					for (const memory of store.memories) {
+						if (ids.has(memory.id) && !memory.archived) memory.archived = timestamp;
+					}
+				},
+				{ author: { kind: "archive" } },
+			);
+		}
+		archived.push(...stale);
+	}
+	return archived;
+}
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+/** Count memories by temperature and pick the most used and the coldest ones */
+export function getMemoryUsageStats(entries: MemoryEntry[], now = Date.now(), listed = 5): MemoryUsageStats {
+	const counts = Object.fromEntries(
+		MEMORY_TYPES.map((type) => [type, Object.fromEntries(TEMPERATURES.map((t) => [t, 0]))]),
+	) as MemoryUsageStats["counts"];
+	for (const entry of entries) {
+		counts[entry.type][getMemoryTemperature(entry, now)]++;
+	}
+	const used = entries.filter((e) => (e.memory.useCount ?? 0) > 0);
+	return {
+		counts,
+		neverUsed: entries.length - used.length,
+		total: entries.length,
+		mostUsed: [...used].sort((a, b) => (b.memory.useCount ?? 0) - (a.memory.useCount ?? 0)).slice(0, listed),
+		coldest: entries
+			.filter((e) => !e.memory.archived)
+			.sort((a, b) => getMemoryLastActivity(a) - getMemoryLastActivity(b))
+			.slice(0, listed),
+	};
+}
+
+function describeMemory(entry: MemoryEntry): string {
+	if (entry.type === "semantic") return entry.memory.text;
+	if (entry.type === "procedural") return entry.memory.name;
+	return entry.memory.summary;
+}
+
+function formatDay(ms: number): string {
+	return ms > 0 ? new Date(ms).toISOString().split("T")[0] : "unknown";
+}
+
+/**
+ * Format usage statistics as a table of temperatures per type, followed by the most
+ * used and the coldest memories
+ * @param ttlDays Days after which unused memories are archived, or undefined if archiving is off
+ */
+export function formatMemoryUsageStats(stats: MemoryUsageStats, ttlDays: number | undefined): string {
+	const row = (label: string, values: number[]) =>
+		`  ${label.padEnd(12)}${values.map((v, i) => String(v).padStart(TEMPERATURES[i].length + 2)).join("")}`;
+	const lines = [`  ${"".padEnd(12)}${TEMPERATURES.map((t) => `  ${t}`).join("")}`];
+	for (const type of MEMORY_TYPES) {
+		const label = type[0].toUpperCase() + type.slice(1);
+		lines.push(
+			row(
+				label,
+				TEMPERATURES.map((t) => stats.counts[type][t]),
+			),
+		);
+	}
+	lines.push(
+		row(
+			"Total",
+			TEMPERATURES.map((t) => MEMORY_TYPES.reduce((sum, type) => sum + stats.counts[type][t], 0)),
+		),
+	);
+	lines.push(
+		"",
+		`Hot: active in the last ${HOT_DAYS} days. Warm: in the last ${WARM_DAYS} days. Cold: longer ago.`,
+		ttlDays === undefined
+			? "Archiving is off (memory.archive.enabled)."
+			: `Memories unused for ${ttlDays} days are archived: still searchable, but no longer attached to prompts.`,
+		`Never used: ${stats.neverUsed} of ${stats.total}`,
+	);
+	if (stats.mostUsed.length > 0) {
+		lines.push("", "Most used:");
+		for (const entry of stats.mostUsed) {
+			const uses = entry.memory.useCount ?? 0;
+			lines.push(
+				`  [${getMemoryKey(entry)}] ${uses} ${uses === 1 ? "use" : "uses"}, last ${entry.memory.lastUsedAt?.split("T")[0] ?? "unknown"} -- ${describeMemory(entry)}`,
+			);
+		}
+	}
+	if (stats.coldest.length > 0) {
+		lines.push("", "Coldest:");
+		for (const entry of stats.coldest) {
+			lines.push(
+				`  [${getMemoryKey(entry)}] last active ${formatDay(getMemoryLastActivity(entry))} -- ${describeMemory(entry)}`,
+			);
+		}
+	}
+	return lines.join("\n");
+}
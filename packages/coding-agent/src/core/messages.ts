@@ -7,7 +7,6 @@
 
 import type { AgentMessage } from "@mariozechner/pi-agent-core";
 import type { ImageContent, Message, TextContent } from "@mariozechner/pi-ai";
-import { formatTimestamp } from "./memory.js";
 
 export const COMPACTION_SUMMARY_PREFIX = `The conversation history before this point was compacted into the following summary:
 
@@ -183,7 +182,6 @@ export function convertToLlm(messages: AgentMessage[]): Message[] {
 						timestamp: m.timestamp,
 					};
 				case "user":
-					return injectTimestamp(m);
 				case "assistant":
 				case "toolResult":
 					return m;
@@ -195,29 +193,3 @@ export function convertToLlm(messages: AgentMessage[]): Message[] {
 		})
 		.filter((m) => m !== undefined);
 }
-
-/**
- * Inject a human-readable timestamp prefix into a user message so the LLM
- * can see when each message was sent and detect time gaps between messages.
- */
-function injectTimestamp(m: Message & { role: "user" }): Message {
-	if (!m.timestamp) return m;
-	const ts = formatTimestamp(m.timestamp);
-	const prefix = `[${ts}] `;
-
-	if (typeof m.content === "string") {
-		if (m.content.startsWith("[")) return m; // Already has a timestamp prefix
-		return { ...m, content: prefix + m.content };
-	}
-
-	if (Array.isArray(m.content) && m.content.length > 0) {
-		const first = m.content[0];
-		if (first.type === "text" && !first.text.startsWith("[")) {
-			const newContent = [...m.content];
-			newContent[0] = { ...first, text: prefix + first.text };
-			return { ...m, content: newContent };
-		}
-	}
-
-	return m;
-}
@@ -6,6 +6,17 @@ import { AgentSession } from "./agent-session.js";
 import { AuthStorage } from "./auth-storage.js";
 import { DEFAULT_THINKING_LEVEL } from "./defaults.js";
 import type { ExtensionRunner, LoadExtensionsResult, ToolDefinition } from "./extensions/index.js";
+import {
+	applyMemoryStorageFormat,
+	archiveStaleMemories,
+	FileMemoryBackend,
+	loadBackendEntries,
+	type MemoryBackend,
+	type MemoryEntry,
+	type MemoryScope,
+	resolveMemoryLayers,
+	resolveMemoryScope,
+} from "./memory/index.js";
 import { convertToLlm } from "./messages.js";
 import { ModelRegistry } from "./model-registry.js";
 import { findInitialModel } from "./model-resolver.js";
@@ -24,6 +35,7 @@ import {
 	createFindTool,
 	createGrepTool,
 	createLsTool,
+	createMemoryTools,
 	createReadOnlyTools,
 	createReadTool,
 	createWriteTool,
@@ -69,6 +81,9 @@ export interface CreateAgentSessionOptions {
 
 	/** Settings manager. Default: SettingsManager.create(cwd, agentDir) */
 	settingsManager?: SettingsManager;
+
+	/** Storage for memory tools, retrieval and episode capture. Default: the stores in the memory directories of cwd */
+	memoryBackend?: MemoryBackend;
 }
 
 /** Result from createAgentSession */
@@ -119,6 +134,7 @@ export {
 	createGrepTool,
 	createFindTool,
 	createLsTool,
+	createMemoryTools,
 };
 
 // Helper Functions
@@ -182,6 +198,29 @@ export async function createAgentSession(options: CreateAgentSessionOptions = {}
 		time("resourceLoader.reload");
 	}
 
+	// Move the memory directories to the configured storage before anything reads them
+	// (a custom backend owns its storage), then archive memories that went unused before
+	// the system prompt inlines them
+	const memoryBackend = options.memoryBackend ?? new FileMemoryBackend(cwd);
+	let memoryEntries: MemoryEntry[] | undefined;
+	if (settingsManager.getMemoryEnabled()) {
+		const memoryScope = resolveMemoryScope(cwd, settingsManager.getMemoryScope());
+		const memoryLayers = resolveMemoryLayers(cwd, settingsManager.getMemoryLayers());
+		if (!options.memoryBackend) {
+			await applyMemoryStorageFormat(cwd, memoryScope, settingsManager.getMemoryBackend());
+		}
+		const archive = settingsManager.getMemoryArchiveSettings();
+		if (archive.enabled) {
+			const scopes = memoryLayers.filter((layer): layer is MemoryScope => layer !== "team");
+			await archiveStaleMemories(memoryBackend, scopes, archive.ttlDays);
+			time("archiveStaleMemories");
+		}
+		// The system prompt is built synchronously, so a custom backend's memories are loaded here
+		if (options.memoryBackend) {
+			memoryEntries = await loadBackendEntries(memoryBackend, memoryLayers);
+		}
+	}
+
 	// Check if session has existing data to restore
 	const existingSession = sessionManager.buildSessionContext();
 	const hasExistingSession = existingSession.messages.length > 0;
@@ -358,6 +397,8 @@ export async function createAgentSession(options: CreateAgentSessionOptions = {}
 		modelRegistry,
 		initialActiveToolNames,
 		extensionRunnerRef,
+		memoryBackend,
+		memoryEntries,
 	});
 	const extensionsResult = resourceLoader.getExtensions();
 
@@ -3,6 +3,7 @@ import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
 import { dirname, join } from "path";
 import lockfile from "proper-lockfile";
 import { CONFIG_DIR_NAME, getAgentDir } from "../config.js";
+import { isMemorySqliteAvailable } from "./memory/sqlite.js";
 
 export interface CompactionSettings {
 	enabled?: boolean; // default: true
@@ -21,6 +22,13 @@ export interface RetrySettings {
 	maxDelayMs?: number; // default: 60000 (max server-requested delay before failing)
 }
 
+export interface TimeAwarenessSettings {
+	enabled?: boolean; // default: true - tell the model the time when the user comes back after a break
+	timezone?: string; // default: the system timezone - IANA name, e.g. "Europe/Berlin"
+	format?: "iso" | "readable"; // default: "iso" - "2026-10-18T14:02:11+02:00" or "Sun, Oct 18, 2026, 14:02 GMT+2"
+	gapMinutes?: number; // default: 10 - idle minutes before a prompt gets a time context message
+}
+
 export interface TerminalSettings {
 	showImages?: boolean; // default: true (only relevant if terminal supports images)
 	clearOnShrink?: boolean; // default: false (clear empty rows when content shrinks)
@@ -42,6 +50,63 @@ export interface MarkdownSettings {
 	codeBlockIndent?: string; // default: "  "
 }
 
+export interface MemoryRetrievalSettings {
+	enabled?: boolean; // default: true - attach only relevant memories per prompt instead of inlining all
+	maxMemories?: number; // default: 10
+	tokenBudget?: number; // default: 1500
+}
+
+export interface MemoryEmbeddingSettings {
+	provider?: "local" | "openai"; // default: "local" - offline hashed n-gram vectors
+	model?: string; // embedding model for provider-backed embedders
+	baseUrl?: string; // API base URL for OpenAI-compatible endpoints
+}
+
+export interface MemoryConsolidationSettings {
+	model?: string; // "provider/model-id" used by /memory consolidate; default: the current model
+}
+
+export interface MemoryConflictSettings {
+	enabled?: boolean; // default: true - check new semantic memories for contradictions with stored ones
+	judge?: boolean; // default: false - ask the current model to confirm detected conflicts
+}
+
+export interface MemoryCaptureSettings {
+	enabled?: boolean; // default: false - store an episodic memory of the session on shutdown and /new
+	idleMinutes?: number; // default: 0 (off) - also capture after this many idle minutes
+}
+
+export interface MemoryHarvestSettings {
+	enabled?: boolean; // default: false - extract memories from the messages a compaction discards
+}
+
+export interface MemoryRedactionSettings {
+	enabled?: boolean; // default: true - scan memories for secrets and personal data before they are written or imported
+	action?: "mask" | "block"; // default: "mask" - replace matches with [REDACTED:<detector>], or refuse to store the memory
+	patterns?: Record<string, string>; // extra detectors: name -> regular expression source
+}
+
+export interface MemoryArchiveSettings {
+	enabled?: boolean; // default: true - archive memories that go unused, so they are no longer attached to prompts
+	ttlDays?: number; // default: 90 - days without being written or used before a memory is archived
+}
+
+export interface MemorySettings {
+	enabled?: boolean; // default: true - persistent memory system (procedural, episodic, semantic)
+	scope?: "project" | "global"; // default: "project" - where new memories are written
+	layers?: ("global" | "project" | "team")[]; // default: ["global", "project", "team"] - layers memories are read from
+	backend?: "json" | "sqlite"; // default: "json" - storage for the global and project memory directories
+	approval?: "auto" | "confirm" | "off"; // default: "auto" - whether the model's memory changes need the user's approval
+	retrieval?: MemoryRetrievalSettings;
+	embeddings?: MemoryEmbeddingSettings;
+	consolidation?: MemoryConsolidationSettings;
+	conflicts?: MemoryConflictSettings;
+	capture?: MemoryCaptureSettings;
+	harvest?: MemoryHarvestSettings;
+	redaction?: MemoryRedactionSettings;
+	archive?: MemoryArchiveSettings;
+}
+
 export type TransportSetting = Transport;
 
 /**
@@ -71,6 +136,7 @@ export interface Settings {
 	compaction?: CompactionSettings;
 	branchSummary?: BranchSummarySettings;
 	retry?: RetrySettings;
+	timeAwareness?: TimeAwarenessSettings;
 	hideThinkingBlock?: boolean;
 	shellPath?: string; // Custom shell path (e.g., for Cygwin users on Windows)
 	quietStartup?: boolean;
@@ -91,10 +157,7 @@ export interface Settings {
 	autocompleteMaxVisible?: number; // Max visible items in autocomplete dropdown (default: 5)
 	showHardwareCursor?: boolean; // Show terminal cursor while still positioning it for IME
 	markdown?: MarkdownSettings;
-	memory?: {
-		enabled?: boolean; // default: true - persistent memory system (procedural, episodic, semantic)
-		scope?: "project" | "global"; // default: "project" - where memories are stored
-	};
+	memory?: MemorySettings;
 }
 
 /** Deep merge settings: project/overrides take precedence, nested objects merge recursively */
@@ -217,6 +280,7 @@ export class SettingsManager {
 		this.projectSettingsLoadError = projectLoadError;
 		this.errors = [...initialErrors];
 		this.settings = deepMergeSettings(this.globalSettings, this.projectSettings);
+		this.checkMemoryBackend();
 	}
 
 	/** Create a SettingsManager that loads from files */
@@ -349,6 +413,7 @@ export class SettingsManager {
 		}
 
 		this.settings = deepMergeSettings(this.globalSettings, this.projectSettings);
+		this.checkMemoryBackend();
 	}
 
 	/** Apply additional overrides on top of current settings */
@@ -378,6 +443,18 @@ export class SettingsManager {
 		}
 	}
 
+	/** Report memory.backend "sqlite" without node:sqlite; getMemoryBackend falls back to JSON then */
+	private checkMemoryBackend(): void {
+		if (this.settings.memory?.backend !== "sqlite" || isMemorySqliteAvailable()) return;
+		const scope = this.projectSettings.memory?.backend === "sqlite" ? "project" : "global";
+		this.recordError(
+			scope,
+			new Error(
+				`memory.backend "sqlite" requires Node.js 22.5 or later (running ${process.version}); using JSON memory stores instead`,
+			),
+		);
+	}
+
 	private recordError(scope: SettingsScope, error: unknown): void {
 		const normalizedError = error instanceof Error ? error : new Error(String(error));
 		this.errors.push({ scope, error: normalizedError });
@@ -631,6 +708,20 @@ export class SettingsManager {
 		};
 	}
 
+	getTimeAwarenessSettings(): {
+		enabled: boolean;
+		timezone: string | undefined;
+		format: "iso" | "readable";
+		gapMinutes: number;
+	} {
+		return {
+			enabled: this.settings.timeAwareness?.enabled ?? true,
+			timezone: this.settings.timeAwareness?.timezone,
+			format: this.settings.timeAwareness?.format ?? "iso",
+			gapMinutes: this.settings.timeAwareness?.gapMinutes ?? 10,
+		};
+	}
+
 	getHideThinkingBlock(): boolean {
 		return this.settings.hideThinkingBlock ?? false;
 	}
@@ -915,4 +1006,75 @@ export class SettingsManager {
 		this.markModified("memory", "scope");
 		this.save();
 	}
+
+	getMemoryLayers(): ("global" | "project" | "team")[] {
+		return this.settings.memory?.layers ?? ["global", "project", "team"];
+	}
+
+	/** Storage format for the memory directories. "json" when "sqlite" is set but node:sqlite is missing. */
+	getMemoryBackend(): "json" | "sqlite" {
+		const backend = this.settings.memory?.backend ?? "json";
+		return backend === "sqlite" && !isMemorySqliteAvailable() ? "json" : backend;
+	}
+
+	getMemoryApproval(): "auto" | "confirm" | "off" {
+		return this.settings.memory?.approval ?? "auto";
+	}
+
+	getMemoryRetrievalSettings(): { enabled: boolean; maxMemories: number; tokenBudget: number } {
+		return {
+			enabled: this.settings.memory?.retrieval?.enabled ?? true,
+			maxMemories: this.settings.memory?.retrieval?.maxMemories ?? 10,
+			tokenBudget: this.settings.memory?.retrieval?.tokenBudget ?? 1500,
+		};
+	}
+
+	getMemoryEmbeddingSettings(): { provider: "local" | "openai"; model?: string; baseUrl?: string } {
+		return {
+			provider: this.settings.memory?.embeddings?.provider ?? "local",
+			model: this.settings.memory?.embeddings?.model,
+			baseUrl: this.settings.memory?.embeddings?.baseUrl,
+		};
+	}
+
+	getMemoryConsolidationSettings(): { model?: string } {
+		return {
+			model: this.settings.memory?.consolidation?.model,
+		};
+	}
+
+	getMemoryConflictSettings(): { enabled: boolean; judge: boolean } {
+		return {
+			enabled: this.settings.memory?.conflicts?.enabled ?? true,
+			judge: this.settings.memory?.conflicts?.judge ?? false,
+		};
+	}
+
+	getMemoryCaptureSettings(): { enabled: boolean; idleMinutes: number } {
+		return {
+			enabled: this.settings.memory?.capture?.enabled ?? false,
+			idleMinutes: this.settings.memory?.capture?.idleMinutes ?? 0,
+		};
+	}
+
+	getMemoryHarvestSettings(): { enabled: boolean } {
+		return {
+			enabled: this.settings.memory?.harvest?.enabled ?? false,
+		};
+	}
+
+	getMemoryRedactionSettings(): { enabled: boolean; action: "mask" | "block"; patterns: Record<string, string> } {
+		return {
+			enabled: this.settings.memory?.redaction?.enabled ?? true,
+			action: this.settings.memory?.redaction?.action ?? "mask",
+			patterns: this.settings.memory?.redaction?.patterns ?? {},
+		};
+	}
+
+	getMemoryArchiveSettings(): { enabled: boolean; ttlDays: number } {
+		return {
+			enabled: this.settings.memory?.archive?.enabled ?? true,
+			ttlDays: this.settings.memory?.archive?.ttlDays ?? 90,
+		};
+	}
 }
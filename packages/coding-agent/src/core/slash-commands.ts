@@ -34,6 +34,10 @@ export const BUILTIN_SLASH_COMMANDS: ReadonlyArray<BuiltinSlashCommand> = [
 	{ name: "compact", description: "Manually compact the session context" },
 	{ name: "resume", description: "Resume a different session" },
 	{ name: "reload", description: "Reload extensions, skills, prompts, and themes" },
-	{ name: "memory", description: "View, search, delete, or compact project memories" },
+	{
+		name: "memory",
+		description:
+			"Browse, edit, search, undo, consolidate, promote, export, or import memories, record procedures, sync with AGENTS.md, or show stats",
+	},
 	{ name: "quit", description: "Quit pi" },
 ];
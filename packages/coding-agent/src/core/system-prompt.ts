@@ -3,8 +3,9 @@
  */
 
 import { getDocsPath, getExamplesPath, getReadmePath } from "../config.js";
-import { type MemoryScope, buildMemoryPromptSection } from "./memory.js";
+import { buildMemoryPromptSection, type MemoryEntry, type MemoryLayer, type MemoryScope } from "./memory/index.js";
 import { formatSkillsForPrompt, type Skill } from "./skills.js";
+import { formatTime, type TimeFormatOptions } from "./time-awareness.js";
 
 /** Tool descriptions for system prompt */
 const toolDescriptions: Record<string, string> = {
@@ -36,8 +37,18 @@ export interface BuildSystemPromptOptions {
 	skills?: Skill[];
 	/** Whether the memory system is enabled. Default: true */
 	memoryEnabled?: boolean;
-	/** Memory scope: "project" or "global". Default: "project" */
+	/** Memory scope new memories are written to: "project" or "global". Default: "project" */
 	memoryScope?: MemoryScope;
+	/** Memory layers to read, in any order. Default: only memoryScope */
+	memoryLayers?: MemoryLayer[];
+	/** Memories of memoryLayers loaded from the session's memory backend. Default: read from disk */
+	memoryEntries?: readonly MemoryEntry[];
+	/** Attach relevant memories per prompt instead of inlining all of them. Default: false */
+	memoryRetrieval?: boolean;
+	/** Timezone and format of the current date and time. Default: system timezone, long English format */
+	time?: TimeFormatOptions;
+	/** Explain the <time_context> messages sent after idle gaps. Default: false */
+	timeContext?: boolean;
 }
 
 /** Build the system prompt with tools, guidelines, and context */
@@ -51,20 +62,30 @@ export function buildSystemPrompt(options: BuildSystemPromptOptions = {}): strin
 		skills: providedSkills,
 		memoryEnabled = true,
 		memoryScope = "project",
+		memoryLayers,
+		memoryEntries,
+		memoryRetrieval = false,
+		time,
+		timeContext = false,
 	} = options;
 	const resolvedCwd = cwd ?? process.cwd();
 
 	const now = new Date();
-	const dateTime = now.toLocaleString("en-US", {
-		weekday: "long",
-		year: "numeric",
-		month: "long",
-		day: "numeric",
-		hour: "2-digit",
-		minute: "2-digit",
-		second: "2-digit",
-		timeZoneName: "short",
-	});
+	const dateTime = time
+		? formatTime(now.getTime(), time)
+		: now.toLocaleString("en-US", {
+				weekday: "long",
+				year: "numeric",
+				month: "long",
+				day: "numeric",
+				hour: "2-digit",
+				minute: "2-digit",
+				second: "2-digit",
+				timeZoneName: "short",
+			});
+	const timeContextSection = timeContext
+		? "\n\nWhen the user comes back after a break, a <time_context> message before their message gives the current time and how long the conversation was idle. Acknowledge the gap naturally if it is relevant; do not force it."
+		: "";
 
 	const appendSection = appendSystemPrompt ? `\n\n${appendSystemPrompt}` : "";
 
@@ -95,10 +116,16 @@ export function buildSystemPrompt(options: BuildSystemPromptOptions = {}): strin
 
 		// Append memory system context
 		if (memoryEnabled) {
-			prompt += buildMemoryPromptSection(resolvedCwd, memoryScope);
+			prompt += buildMemoryPromptSection(resolvedCwd, memoryScope, {
+				retrieval: memoryRetrieval,
+				layers: memoryLayers,
+				entries: memoryEntries,
+				contextFiles: contextFiles.map((f) => f.content),
+			});
 		}
 
 		// Add date/time and working directory last
+		prompt += timeContextSection;
 		prompt += `\nCurrent date and time: ${dateTime}`;
 		prompt += `\nCurrent working directory: ${resolvedCwd}`;
 
@@ -198,10 +225,16 @@ Pi documentation (read only when the user asks about pi itself, its SDK, extensi
 
 	// Append memory system context
 	if (memoryEnabled) {
-		prompt += buildMemoryPromptSection(resolvedCwd, memoryScope);
+		prompt += buildMemoryPromptSection(resolvedCwd, memoryScope, {
+			retrieval: memoryRetrieval,
+			layers: memoryLayers,
+			entries: memoryEntries,
+			contextFiles: contextFiles.map((f) => f.content),
+		});
 	}
 
 	// Add date/time and working directory last
+	prompt += timeContextSection;
 	prompt += `\nCurrent date and time: ${dateTime}`;
 	prompt += `\nCurrent working directory: ${resolvedCwd}`;
 
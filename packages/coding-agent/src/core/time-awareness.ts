@@ -0,0 +1,129 @@
+/**
+ * Time awareness (timeAwareness setting).
+ *
+ * The system prompt states the current time when the session starts. When the user comes
+ * back after a break, a hidden <time_context> message is sent before their prompt with
+ * the current time and how long the conversation was idle. User messages are sent as
+ * typed, so earlier turns stay byte-identical and keep hitting the prompt cache.
+ */
+
+import type { AgentMessage } from "@mariozechner/pi-agent-core";
+import type { CustomMessage } from "./messages.js";
+
+export const TIME_CONTEXT_CUSTOM_TYPE = "time_context";
+
+export interface TimeFormatOptions {
+	/** IANA timezone, e.g. "Europe/Berlin". Default: the system timezone */
+	timezone?: string;
+	/** "iso" (2026-10-18T14:02:11+02:00) or "readable" (Sat, Oct 18, 2026, 14:02 GMT+2). Default: "iso" */
+	format?: "iso" | "readable";
+}
+
+export interface TimeContextOptions extends TimeFormatOptions {
+	/** Idle minutes after which a prompt gets a time context message */
+	gapMinutes: number;
+}
+
+export interface TimeContextDetails {
+	/** Milliseconds since the previous message */
+	gapMs: number;
+	/** Timezone the time is given in */
+	timezone: string;
+}
+
+/** The given timezone if the runtime knows it, otherwise the system timezone */
+export function resolveTimezone(timezone?: string): string {
+	if (timezone) {
+		try {
+			return new Intl.DateTimeFormat("en-US", { timeZone: timezone }).resolvedOptions().timeZone;
+		} catch {
+			// Unknown timezone, fall back to the system one
+		}
+	}
+	return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+function formatIso(date: Date, timeZone: string): string {
+	const parts = new Intl.DateTimeFormat("en-US", {
+		timeZone,
+		year: "numeric",
+		month: "2-digit",
+		day: "2-digit",
+		hour: "2-digit",
+		minute: "2-digit",
+		second: "2-digit",
+		hourCycle: "h23",
+		timeZoneName: "longOffset",
+	}).formatToParts(date);
+	const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? "";
+	// "GMT+02:00", or "GMT" for a zero offset
+	const offset = get("timeZoneName").replace("GMT", "") || "+00:00";
+	return `${get("year")}-${get("month")}-${get("day")}T${get("hour")}:${get("minute")}:${get("second")}${offset}`;
+}
+
+/** Format a timestamp in the configured timezone and format */
+export function formatTime(timestamp: number, options: TimeFormatOptions = {}): string {
+	const date = new Date(timestamp);
+	const timeZone = resolveTimezone(options.timezone);
+	if (options.format === "readable") {
+		return date.toLocaleString("en-US", {
+			timeZone,
+			weekday: "short",
+			year: "numeric",
+			month: "short",
+			day: "numeric",
+			hour: "2-digit",
+			minute: "2-digit",
+			hourCycle: "h23",
+			timeZoneName: "short",
+		});
+	}
+	return formatIso(date, timeZone);
+}
+
+/** Format a duration in its two largest units, e.g. "2 days 3 hours" or "45 minutes" */
+export function formatDuration(ms: number): string {
+	const totalMinutes = Math.max(0, Math.floor(ms / 60_000));
+	const units: Array<[number, string]> = [
+		[Math.floor(totalMinutes / 1440), "day"],
+		[Math.floor(totalMinutes / 60) % 24, "hour"],
+		[totalMinutes % 60, "minute"],
+	];
+	const first = units.findIndex(([value]) => value > 0);
+	if (first === -1) return "less than a minute";
+	return units
+		.slice(first, first + 2)
+		.filter(([value]) => value > 0)
+		.map(([value, unit]) => `${value} ${unit}${value === 1 ? "" : "s"}`)
+		.join(" ");
+}
+
+/**
+ * Build a hidden message telling the model the current time when the last message in the
+ * context is at least gapMinutes old. Nothing is returned for an empty context: the
+ * system prompt already states the time when the session starts.
+ */
+export function createTimeContextMessage(
+	messages: AgentMessage[],
+	options: TimeContextOptions,
+	now = Date.now(),
+): CustomMessage<TimeContextDetails> | undefined {
+	const last = messages[messages.length - 1];
+	if (!last?.timestamp) return undefined;
+	const gapMs = now - last.timestamp;
+	if (gapMs < options.gapMinutes * 60_000) return undefined;
+
+	const timezone = resolveTimezone(options.timezone);
+	const content = `<time_context>
+Current time: ${formatTime(now, { timezone, format: options.format })} (${timezone})
+The previous message was ${formatDuration(gapMs)} ago.
+</time_context>`;
+	return {
+		role: "custom",
+		customType: TIME_CONTEXT_CUSTOM_TYPE,
+		content,
+		display: false,
+		details: { gapMs, timezone },
+		timestamp: now,
+	};
+}
@@ -41,13 +41,21 @@ export {
 	lsTool,
 } from "./ls.js";
 export {
-	type MemoryToolContext,
+	createExtensionMemoryAPI,
+	createMemoryDeleteTool,
+	createMemoryReadTool,
+	createMemoryTools,
+	createMemoryUpdateTool,
+	createMemoryWriteTool,
+	type MemoryToolOptions,
+	type MemoryUpdateParams,
+	type MemoryWriteParams,
 	memoryDeleteTool,
 	memoryReadTool,
 	memoryTools,
 	memoryUpdateTool,
 	memoryWriteTool,
-	setMemoryToolContext,
+	saveHarvestedMemories,
 } from "./memory.js";
 export {
 	createReadTool,
@@ -81,7 +89,17 @@ import { createEditTool, editTool } from "./edit.js";
 import { createFindTool, findTool } from "./find.js";
 import { createGrepTool, grepTool } from "./grep.js";
 import { createLsTool, lsTool } from "./ls.js";
-import { memoryDeleteTool, memoryReadTool, memoryUpdateTool, memoryWriteTool } from "./memory.js";
+import {
+	createMemoryDeleteTool,
+	createMemoryReadTool,
+	createMemoryUpdateTool,
+	createMemoryWriteTool,
+	type MemoryToolOptions,
+	memoryDeleteTool,
+	memoryReadTool,
+	memoryUpdateTool,
+	memoryWriteTool,
+} from "./memory.js";
 import { createReadTool, type ReadToolOptions, readTool } from "./read.js";
 import { createWriteTool, writeTool } from "./write.js";
 
@@ -116,6 +134,8 @@ export interface ToolsOptions {
 	read?: ReadToolOptions;
 	/** Options for the bash tool */
 	bash?: BashToolOptions;
+	/** Options shared by the memory tools */
+	memory?: MemoryToolOptions;
 }
 
 /**
@@ -149,9 +169,9 @@ export function createAllTools(cwd: string, options?: ToolsOptions): Record<Tool
 		grep: createGrepTool(cwd),
 		find: createFindTool(cwd),
 		ls: createLsTool(cwd),
-		memory_write: memoryWriteTool,
-		memory_read: memoryReadTool,
-		memory_update: memoryUpdateTool,
-		memory_delete: memoryDeleteTool,
+		memory_write: createMemoryWriteTool(cwd, options?.memory),
+		memory_read: createMemoryReadTool(cwd, options?.memory),
+		memory_update: createMemoryUpdateTool(cwd, options?.memory),
+		memory_delete: createMemoryDeleteTool(cwd, options?.memory),
 	};
 }
@@ -2,34 +2,220 @@
  * Built-in memory tools: memory_write, memory_read, memory_update, memory_delete
  */
 
-import type { AgentTool } from "@mariozechner/pi-agent-core";
-import { StringEnum } from "@mariozechner/pi-ai";
-import { type Static, Type } from "@sinclair/typebox";
+import type { AgentTool, AgentToolResult } from "@mariozechner/pi-agent-core";
+import { StringEnum, validateToolArguments } from "@mariozechner/pi-ai";
+import { type Static, type TSchema, Type } from "@sinclair/typebox";
+import type { ExtensionMemoryAPI, MemoryBeforeWriteEventResult } from "../extensions/types.js";
 import {
+	confirmMemoryChange,
+	createMemoryRedactor,
 	type EpisodicMemory,
-	formatEpisodicForDisplay,
-	formatProceduralForDisplay,
-	formatSemanticForDisplay,
+	FileMemoryBackend,
+	findBackendEntry,
+	findMemoryConflicts,
+	formatMemoryConflicts,
+	formatMemoryEntryForDisplay,
+	formatMemoryRedactions,
 	generateId,
-	loadStore,
+	type HarvestedMemory,
+	HashedNgramEmbedder,
+	loadBackendEntries,
+	MEMORY_CONFLICT_RESOLUTIONS,
+	type MemoryApprovalDecision,
+	type MemoryApprovalMode,
+	type MemoryAuthor,
+	type MemoryBackend,
+	type MemoryChangeContext,
+	type MemoryChangeRequest,
+	type MemoryConflict,
+	type MemoryEmbedder,
+	type MemoryEntry,
+	type MemoryLayer,
+	type MemoryOrigin,
+	type MemoryRedaction,
+	type MemoryRedactor,
 	type MemoryScope,
+	type MemoryType,
+	normalizeMemoryAppliesTo,
 	nowISO,
 	type ProceduralMemory,
+	recordMemoryUsage,
+	redactMemory,
 	type SemanticMemory,
-	saveStore,
-	searchMemories,
-} from "../memory.js";
-
-export interface MemoryToolContext {
-	cwd: string;
-	sessionId: string;
-	scope: MemoryScope;
+	type SemanticMemoryCandidate,
+	searchBackendEntries,
+} from "../memory/index.js";
+
+export interface MemoryToolOptions {
+	/** Storage for memories. Default: the stores in the memory directories of cwd */
+	backend?: MemoryBackend;
+	/** Default write target. Default: "global" */
+	scope?: MemoryScope;
+	/** Layers to read from. Default: only the scope */
+	layers?: MemoryLayer[];
+	/** Embedder for semantic memory search. Default: offline hashed n-gram embedder */
+	embedder?: MemoryEmbedder;
+	/** Session and entry new and updated memories are attributed to. Called at write time. Default: this process */
+	getOrigin?: () => MemoryOrigin;
+	/** How writes, updates and deletes are approved (see MemoryApprovalMode). Called at write time. Default: "auto" */
+	getApproval?: () => MemoryApprovalMode;
+	/** Check new semantic memories for contradictions with stored ones before saving them. Default: true */
+	detectConflicts?: boolean;
+	/** Confirms or discards the lexically detected conflicts, e.g. with judgeMemoryConflicts. Default: all are kept */
+	judgeConflicts?: (
+		candidate: SemanticMemoryCandidate,
+		conflicts: MemoryConflict[],
+		signal?: AbortSignal,
+	) => Promise<MemoryConflict[]>;
+	/** Asks the user about a change in "confirm" mode (see confirmMemoryChange). Default: changes are rejected, as nobody can be asked */
+	confirmChange?: (request: MemoryChangeRequest, signal?: AbortSignal) => Promise<MemoryApprovalDecision>;
+	/** Masks or blocks secrets and personal data in writes and updates (memory.redaction). Called at write time. Default: built-in detectors, masking */
+	getRedactor?: () => MemoryRedactor;
+	/** Called with each approved change before it is stored, and can block it or replace its fields (memory_before_write). Default: none */
+	beforeChange?: (request: MemoryChangeRequest) => Promise<MemoryBeforeWriteEventResult | undefined>;
+	/** Called after a change was stored (memory_write). Default: none */
+	afterChange?: (change: MemoryChangeRequest & { id: string }) => Promise<void>;
+	/** Records the uses of the memories memory_read returns, e.g. by queueing them. Default: recordMemoryUsage right away */
+	recordUsage?: (entries: MemoryEntry[]) => Promise<void>;
+}
+
+const defaultEmbedder = new HashedNgramEmbedder();
+
+const standaloneSessionId = `session_${Date.now()}`;
+
+const defaultRedactor = createMemoryRedactor();
+
+function resolveMemoryToolOptions(cwd: string, options?: MemoryToolOptions): Required<MemoryToolOptions> {
+	const scope = options?.scope ?? "global";
+	const backend = options?.backend ?? new FileMemoryBackend(cwd);
+	return {
+		backend,
+		scope,
+		layers: options?.layers ?? [scope],
+		embedder: options?.embedder ?? defaultEmbedder,
+		getOrigin: options?.getOrigin ?? (() => ({ sessionId: standaloneSessionId })),
+		detectConflicts: options?.detectConflicts ?? true,
+		judgeConflicts: options?.judgeConflicts ?? (async (_candidate, conflicts) => conflicts),
+		getApproval: options?.getApproval ?? (() => "auto"),
+		confirmChange: options?.confirmChange ?? ((request, signal) => confirmMemoryChange(undefined, request, signal)),
+		getRedactor: options?.getRedactor ?? (() => defaultRedactor),
+		beforeChange: options?.beforeChange ?? (async () => undefined),
+		afterChange: options?.afterChange ?? (async () => {}),
+		recordUsage: options?.recordUsage ?? ((entries) => recordMemoryUsage(backend, entries)),
+	};
+}
+
+/**
+ * Decide whether a change may be stored, asking the user in "confirm" mode. Approved changes
+ * are then passed to beforeChange, which can still block them or replace their fields.
+ */
+async function approveMemoryChange(
+	options: Required<MemoryToolOptions>,
+	request: MemoryChangeRequest,
+	signal?: AbortSignal,
+): Promise<MemoryApprovalDecision> {
+	let decision: MemoryApprovalDecision;
+	switch (options.getApproval()) {
+		case "auto":
+			decision = { approved: true };
+			break;
+		case "off":
+			return {
+				approved: false,
+				reason: 'Memory changes are turned off (memory.approval is "off"). Do not retry.',
+			};
+		case "confirm":
+			decision = await options.confirmChange(request, signal);
+			break;
+	}
+	if (!decision.approved) {
+		return decision;
+	}
+	const result = await options.beforeChange({ ...request, fields: decision.fields ?? request.fields });
+	if (result?.block) {
+		return { approved: false, reason: result.reason ?? "An extension blocked this memory change." };
+	}
+	return result?.fields ? { approved: true, fields: result.fields } : decision;
+}
+
+/**
+ * Mask secrets and personal data in a change. In "block" mode, a change with a match is
+ * refused and the reason explains what was found.
+ */
+function redactChange<T>(
+	options: Required<MemoryToolOptions>,
+	params: T,
+): { params: T; redactions: MemoryRedaction[] } | { blocked: string; redactions: MemoryRedaction[] } {
+	const redactor = options.getRedactor();
+	const { value, redactions } = redactMemory(params, redactor);
+	if (redactions.length > 0 && redactor.action === "block") {
+		return {
+			blocked:
+				`Not saved: this memory contains secrets or personal data (${formatMemoryRedactions(redactions)}). ` +
+				"Save it without them, or describe them without their values.",
+			redactions,
+		};
+	}
+	return { params: value, redactions };
+}
+
+function blockedResult(blocked: { blocked: string; redactions: MemoryRedaction[] }): AgentToolResult<unknown> {
+	return {
+		content: [{ type: "text", text: blocked.blocked }],
+		details: { blocked: true, redactions: blocked.redactions },
+	};
+}
+
+/** Tool result text for a stored change, noting what was masked */
+function withRedactions(text: string, redactions: MemoryRedaction[]): string {
+	return redactions.length > 0 ? `${text}\nRedacted before saving: ${formatMemoryRedactions(redactions)}.` : text;
+}
+
+function rejectedResult(reason: string): AgentToolResult<{ rejected: true }> {
+	return { content: [{ type: "text", text: reason }], details: { rejected: true } };
+}
+
+/**
+ * Check the fields of an edited change against a tool's schema.
+ * @throws Error describing the invalid fields
+ */
+function parseEditedParams<T extends TSchema>(name: string, parameters: T, fields: Record<string, unknown>): Static<T> {
+	return validateToolArguments(
+		{ name, description: "", parameters },
+		{ type: "toolCall", id: "edit", name, arguments: fields },
+	);
+}
+
+function editErrorResult(error: unknown): AgentToolResult<{ rejected: true }> {
+	const message = error instanceof Error ? error.message : String(error);
+	return rejectedResult(`The edited memory change is invalid and was not saved: ${message}`);
 }
 
-let memoryContext: MemoryToolContext = { cwd: process.cwd(), sessionId: `session_${Date.now()}`, scope: "global" };
+/**
+ * The last sentence of a writing tool's description. It does not name the approval mode, which
+ * can change while the tools are in use: rejected changes say why in their result instead.
+ */
+const APPROVAL_NOTE =
+	"Depending on the user's memory.approval setting, a change is stored directly, shown to the user " +
+	"for approval, or rejected; do not ask for permission first.";
 
-export function setMemoryToolContext(ctx: MemoryToolContext): void {
-	memoryContext = ctx;
+/**
+ * Find a memory that may be changed. Team memories are read-only.
+ * Returns the entry and its writable scope, or an error message for the model.
+ */
+async function findWritableMemory(
+	options: Required<MemoryToolOptions>,
+	ref: string,
+): Promise<{ entry: MemoryEntry; scope: MemoryScope } | { error: string }> {
+	const entry = await findBackendEntry(options.backend, options.layers, ref);
+	if (!entry) {
+		return { error: `No memory found with ID "${ref}".` };
+	}
+	const layer = entry.layer ?? options.scope;
+	if (layer === "team") {
+		return { error: `Memory [${ref}] belongs to the read-only team layer and cannot be changed.` };
+	}
+	return { entry, scope: layer };
 }
 
 // ---------------------------------------------------------------------------
@@ -52,229 +238,506 @@ const memoryWriteSchema = Type.Object({
 	),
 	text: Type.Optional(Type.String({ description: "Text content for semantic memory" })),
 	tags: Type.Optional(Type.Array(Type.String(), { description: "Tags for searchability" })),
+	applies_to_paths: Type.Optional(
+		Type.Array(Type.String(), {
+			description:
+				"Limit a semantic or procedural memory to path globs relative to the repository root, " +
+				"for conventions of one part of a monorepo (e.g., 'packages/web-ui/**'). Default: everywhere",
+		}),
+	),
+	applies_to_branches: Type.Optional(
+		Type.Array(Type.String(), {
+			description: "Limit a semantic or procedural memory to git branch patterns (e.g., 'release/*')",
+		}),
+	),
 	reflection_mistakes: Type.Optional(
 		Type.Array(Type.String(), { description: "Mistakes made (for episodic reflection)" }),
 	),
 	reflection_lessons: Type.Optional(
 		Type.Array(Type.String(), { description: "Lessons learned (for episodic reflection)" }),
 	),
+	scope: Type.Optional(
+		StringEnum(["project", "global"] as const, {
+			description:
+				"Where to save: 'global' for personal preferences that apply to every project, " +
+				"'project' for conventions of this repository. Default: the configured scope",
+		}),
+	),
+	on_conflict: Type.Optional(
+		StringEnum(["update", "keep_both", "replace"] as const, {
+			description:
+				"How to resolve conflicts reported by an earlier memory_write of a semantic memory: " +
+				"'update' rewrites the first conflicting memory with this text, 'replace' deletes the " +
+				"conflicting memories and saves this one, 'keep_both' saves this one alongside them",
+		}),
+	),
+	conflict_ids: Type.Optional(
+		Type.Array(Type.String(), {
+			description: "Conflicting memory IDs on_conflict applies to. Default: all conflicting memories",
+		}),
+	),
 });
 
-type MemoryWriteInput = Static<typeof memoryWriteSchema>;
+export type MemoryWriteParams = Static<typeof memoryWriteSchema>;
 
 const memoryReadSchema = Type.Object({
 	type: Type.Optional(StringEnum(["procedural", "episodic", "semantic", "all"] as const)),
-	id: Type.Optional(Type.String({ description: "Specific memory ID to retrieve" })),
+	id: Type.Optional(
+		Type.String({
+			description: "Specific memory ID to retrieve, optionally qualified by layer (e.g., 'team:sem_001')",
+		}),
+	),
 	query: Type.Optional(Type.String({ description: "Search query to find relevant memories" })),
 });
 
 type MemoryReadInput = Static<typeof memoryReadSchema>;
 
 const memoryUpdateSchema = Type.Object({
-	id: Type.String({ description: "Memory ID to update" }),
+	id: Type.String({ description: "Memory ID to update, optionally qualified by layer (e.g., 'global:sem_001')" }),
 	text: Type.Optional(Type.String({ description: "New text (for semantic memories)" })),
 	steps: Type.Optional(Type.Array(Type.String(), { description: "New steps (for procedural memories)" })),
 	trigger: Type.Optional(Type.String({ description: "New trigger (for procedural memories)" })),
 	tags: Type.Optional(Type.Array(Type.String(), { description: "Replace tags" })),
+	applies_to_paths: Type.Optional(
+		Type.Array(Type.String(), { description: "Replace the path globs the memory is limited to ([] removes them)" }),
+	),
+	applies_to_branches: Type.Optional(
+		Type.Array(Type.String(), {
+			description: "Replace the branch patterns the memory is limited to ([] removes them)",
+		}),
+	),
 });
 
-type MemoryUpdateInput = Static<typeof memoryUpdateSchema>;
+export type MemoryUpdateParams = Static<typeof memoryUpdateSchema>;
 
 const memoryDeleteSchema = Type.Object({
-	id: Type.String({ description: "Memory ID to delete (e.g., 'proc_001', 'sem_003')" }),
+	id: Type.String({ description: "Memory ID to delete (e.g., 'proc_001', 'sem_003', 'global:sem_003')" }),
 });
 
 type MemoryDeleteInput = Static<typeof memoryDeleteSchema>;
 
 // ---------------------------------------------------------------------------
-// memory_write
+// Storage
 // ---------------------------------------------------------------------------
 
-export const memoryWriteTool: AgentTool<typeof memoryWriteSchema> = {
-	name: "memory_write",
-	label: "Write Memory",
-	description:
-		"Save a memory to the persistent memory system. Use this automatically when: " +
-		"(1) the user teaches you a multi-step workflow — save as 'procedural', " +
-		"(2) the user states a preference, rule, or fact — save as 'semantic', " +
-		"(3) a significant task completes — save as 'episodic'. " +
-		"Do NOT ask the user for permission to save unless there is a conflict with an existing memory.",
-	parameters: memoryWriteSchema,
-	execute: async (_toolCallId: string, params: MemoryWriteInput) => {
-		const { cwd, sessionId, scope } = memoryContext;
-		const tags = params.tags ?? [];
-
-		if (params.type === "procedural") {
-			if (!params.name || !params.trigger || !params.steps?.length) {
-				return {
-					content: [{ type: "text", text: "Error: procedural memory requires name, trigger, and steps." }],
-					details: {},
-				};
-			}
-			const store = loadStore<ProceduralMemory>(cwd, "procedural.json", scope);
-			const existing = store.memories.find((m) => m.name === params.name);
+const REQUIRED_FIELDS: Record<MemoryType, string> = {
+	procedural: "procedural memory requires name, trigger, and steps.",
+	episodic: "episodic memory requires a summary.",
+	semantic: "semantic memory requires text and category.",
+};
+
+/** Why a new memory cannot be stored, or undefined if it has the fields its type requires */
+function getMemoryWriteError(params: MemoryWriteParams): string | undefined {
+	switch (params.type) {
+		case "procedural":
+			return params.name && params.trigger && params.steps?.length ? undefined : REQUIRED_FIELDS.procedural;
+		case "episodic":
+			return params.summary ? undefined : REQUIRED_FIELDS.episodic;
+		case "semantic":
+			return params.text && params.category ? undefined : REQUIRED_FIELDS.semantic;
+		default:
+			return `Unknown memory type: ${params.type}`;
+	}
+}
+
+interface MemoryWriteResult {
+	/** "updated" when a procedure of the same name or a conflicting fact was rewritten */
+	action: "created" | "duplicate" | "updated";
+	id: string;
+	/** Conflicting memories deleted by on_conflict "replace" */
+	replaced?: string[];
+}
+
+/**
+ * Store a new memory, resolving semantic conflicts as params.on_conflict says.
+ * @throws Error if the memory lacks the fields its type requires
+ */
+async function storeMemoryWrite(
+	backend: MemoryBackend,
+	params: MemoryWriteParams,
+	scope: MemoryScope,
+	origin: MemoryOrigin,
+	context: MemoryChangeContext,
+): Promise<MemoryWriteResult> {
+	const tags = params.tags ?? [];
+	const appliesTo = normalizeMemoryAppliesTo(params.applies_to_paths, params.applies_to_branches);
+	const limited = params.applies_to_paths !== undefined || params.applies_to_branches !== undefined;
+
+	if (params.type === "procedural") {
+		const { name, trigger, steps } = params;
+		if (!name || !trigger || !steps?.length) throw new Error(REQUIRED_FIELDS.procedural);
+		return backend.update<ProceduralMemory, MemoryWriteResult>(
+			"procedural",
+			scope,
+			(store) => {
+				const existing = store.memories.find((m) => m.name === name);
+				if (existing) {
+					existing.steps = steps;
+					existing.trigger = trigger;
+					existing.tags = [...new Set([...existing.tags, ...tags])];
+					existing.updated = nowISO();
+					existing.origin = origin;
+					if (limited) existing.appliesTo = appliesTo;
+					return { action: "updated", id: existing.id };
+				}
+				const id = generateId("proc", store);
+				store.memories.push({
+					id,
+					name,
+					trigger,
+					steps,
+					tags,
+					created: nowISO(),
+					updated: nowISO(),
+					sourceSession: origin.sessionId,
+					origin,
+					appliesTo,
+				});
+				return { action: "created", id };
+			},
+			context,
+		);
+	}
+
+	if (params.type === "episodic") {
+		const { summary } = params;
+		if (!summary) throw new Error(REQUIRED_FIELDS.episodic);
+		const reflection =
+			params.reflection_mistakes?.length || params.reflection_lessons?.length
+				? { mistakes: params.reflection_mistakes ?? [], lessons: params.reflection_lessons ?? [] }
+				: undefined;
+		return backend.update<EpisodicMemory, MemoryWriteResult>(
+			"episodic",
+			scope,
+			(store) => {
+				const id = generateId("ep", store);
+				store.memories.push({
+					id,
+					summary,
+					details: params.details ?? [],
+					reflection,
+					tags,
+					date: new Date().toISOString().split("T")[0],
+					sourceSession: origin.sessionId,
+					origin,
+				});
+				return { action: "created", id };
+			},
+			context,
+		);
+	}
+
+	const { text, category } = params;
+	if (!text || !category) throw new Error(REQUIRED_FIELDS.semantic);
+	return backend.update<SemanticMemory, MemoryWriteResult>(
+		"semantic",
+		scope,
+		(store) => {
+			const existing = store.memories.find(
+				(m) => m.category === category && m.text.toLowerCase() === text.toLowerCase(),
+			);
 			if (existing) {
-				existing.steps = params.steps;
-				existing.trigger = params.trigger;
-				existing.tags = [...new Set([...existing.tags, ...tags])];
-				existing.updated = nowISO();
-				saveStore(cwd, "procedural.json", store, scope);
-				return {
-					content: [{ type: "text", text: `Updated procedural memory [${existing.id}] "${params.name}".` }],
-					details: { action: "updated", id: existing.id },
-				};
+				return { action: "duplicate", id: existing.id };
 			}
-			const id = generateId("proc", store);
+			const conflictIds =
+				params.conflict_ids ?? findMemoryConflicts({ category, text, tags }, store.memories).map((c) => c.id);
+			if (params.on_conflict === "update") {
+				const target = conflictIds
+					.map((id) => store.memories.find((m) => m.id === id))
+					.find((m) => m !== undefined);
+				if (target) {
+					target.text = text;
+					target.tags = [...new Set([...target.tags, ...tags])];
+					target.origin = origin;
+					if (limited) target.appliesTo = appliesTo;
+					return { action: "updated", id: target.id };
+				}
+			}
+			let replaced: string[] | undefined;
+			if (params.on_conflict === "replace") {
+				replaced = store.memories.filter((m) => conflictIds.includes(m.id)).map((m) => m.id);
+				store.memories = store.memories.filter((m) => !conflictIds.includes(m.id));
+			}
+			const id = generateId("sem", store);
 			store.memories.push({
 				id,
-				name: params.name,
-				trigger: params.trigger,
-				steps: params.steps,
+				category,
+				text,
 				tags,
 				created: nowISO(),
-				updated: nowISO(),
-				sourceSession: sessionId,
+				sourceSession: origin.sessionId,
+				origin,
+				appliesTo,
 			});
-			saveStore(cwd, "procedural.json", store, scope);
-			return {
-				content: [{ type: "text", text: `Saved procedural memory [${id}] "${params.name}".` }],
-				details: { action: "created", id },
-			};
-		}
+			return { action: "created", id, replaced };
+		},
+		context,
+	);
+}
 
-		if (params.type === "episodic") {
-			if (!params.summary) {
-				return {
-					content: [{ type: "text", text: "Error: episodic memory requires a summary." }],
-					details: {},
-				};
+/** Apply changed fields to a stored memory. Returns false if it no longer exists. */
+function storeMemoryUpdate(
+	backend: MemoryBackend,
+	type: MemoryType,
+	scope: MemoryScope,
+	id: string,
+	params: Omit<MemoryUpdateParams, "id">,
+	origin: MemoryOrigin,
+	context: MemoryChangeContext,
+): Promise<boolean> {
+	return backend.update<ProceduralMemory | SemanticMemory | EpisodicMemory, boolean>(
+		type,
+		scope,
+		(store) => {
+			const memory = store.memories.find((m) => m.id === id);
+			if (!memory) return false;
+			if (params.tags) memory.tags = params.tags;
+			memory.origin = origin;
+			if (
+				type !== "episodic" &&
+				(params.applies_to_paths !== undefined || params.applies_to_branches !== undefined)
+			) {
+				const scoped = memory as ProceduralMemory | SemanticMemory;
+				scoped.appliesTo = normalizeMemoryAppliesTo(
+					params.applies_to_paths ?? scoped.appliesTo?.paths,
+					params.applies_to_branches ?? scoped.appliesTo?.branches,
+				);
 			}
-			const store = loadStore<EpisodicMemory>(cwd, "episodic.json", scope);
-			const id = generateId("ep", store);
-			const reflection =
-				params.reflection_mistakes?.length || params.reflection_lessons?.length
-					? { mistakes: params.reflection_mistakes ?? [], lessons: params.reflection_lessons ?? [] }
-					: undefined;
-			store.memories.push({
-				id,
-				summary: params.summary,
-				details: params.details ?? [],
-				reflection,
-				tags,
-				date: new Date().toISOString().split("T")[0],
-				sourceSession: sessionId,
-			});
-			saveStore(cwd, "episodic.json", store, scope);
-			return {
-				content: [{ type: "text", text: `Saved episodic memory [${id}] "${params.summary}".` }],
-				details: { action: "created", id },
-			};
-		}
+			if (type === "procedural") {
+				const proc = memory as ProceduralMemory;
+				if (params.steps) proc.steps = params.steps;
+				if (params.trigger) proc.trigger = params.trigger;
+				proc.updated = nowISO();
+			} else if (type === "semantic") {
+				if (params.text) (memory as SemanticMemory).text = params.text;
+			}
+			return true;
+		},
+		context,
+	);
+}
 
-		if (params.type === "semantic") {
-			if (!params.text || !params.category) {
-				return {
-					content: [{ type: "text", text: "Error: semantic memory requires text and category." }],
-					details: {},
-				};
+/** Remove a stored memory. Returns false if it no longer exists. */
+function storeMemoryDelete(
+	backend: MemoryBackend,
+	type: MemoryType,
+	scope: MemoryScope,
+	id: string,
+	context: MemoryChangeContext,
+): Promise<boolean> {
+	return backend.update<{ id: string }, boolean>(
+		type,
+		scope,
+		(store) => {
+			const idx = store.memories.findIndex((m) => m.id === id);
+			if (idx === -1) return false;
+			store.memories.splice(idx, 1);
+			return true;
+		},
+		context,
+	);
+}
+
+/** Attribute a change to a tool or pi.memory in the memory history */
+function getChangeContext(kind: MemoryAuthor["kind"], name: string, origin: MemoryOrigin): MemoryChangeContext {
+	return { author: { kind, name, sessionId: origin.sessionId } };
+}
+
+/** The fields of a write as shown for approval and passed to memory_before_write */
+function getWriteFields(params: MemoryWriteParams): Record<string, unknown> {
+	const { type: _type, scope: _scope, ...fields } = params;
+	return fields;
+}
+
+function formatWriteResult(params: MemoryWriteParams, result: MemoryWriteResult): string {
+	if (params.type === "procedural") {
+		return `${result.action === "updated" ? "Updated" : "Saved"} procedural memory [${result.id}] "${params.name}".`;
+	}
+	if (params.type === "episodic") {
+		return `Saved episodic memory [${result.id}] "${params.summary}".`;
+	}
+	if (result.action === "duplicate") {
+		return `This semantic memory already exists [${result.id}].`;
+	}
+	if (result.action === "updated") {
+		return `Updated semantic memory [${result.id}] to "${params.text}".`;
+	}
+	const replacing = result.replaced?.length ? `, replacing ${result.replaced.map((id) => `[${id}]`).join(", ")}` : "";
+	return `Saved semantic memory [${result.id}] (${params.category}): "${params.text}"${replacing}.`;
+}
+
+// ---------------------------------------------------------------------------
+// memory_write
+// ---------------------------------------------------------------------------
+
+export function createMemoryWriteTool(cwd: string, options?: MemoryToolOptions): AgentTool<typeof memoryWriteSchema> {
+	const resolved = resolveMemoryToolOptions(cwd, options);
+	const { backend, scope: defaultScope, getOrigin } = resolved;
+
+	/** Stored semantic memories of the target scope the new one may contradict or supersede */
+	const findConflicts = async (
+		candidate: SemanticMemoryCandidate,
+		scope: MemoryScope,
+		signal?: AbortSignal,
+	): Promise<MemoryConflict[]> => {
+		const stored = (await backend.load(scope)).flatMap((e) => (e.type === "semantic" ? [e.memory] : []));
+		const conflicts = findMemoryConflicts(candidate, stored);
+		return conflicts.length > 0 ? resolved.judgeConflicts(candidate, conflicts, signal) : conflicts;
+	};
+
+	return {
+		name: "memory_write",
+		label: "Write Memory",
+		description:
+			"Save a memory to the persistent memory system. Use this automatically when: " +
+			"(1) the user teaches you a multi-step workflow — save as 'procedural', " +
+			"(2) the user states a preference, rule, or fact — save as 'semantic', " +
+			"(3) a significant task completes — save as 'episodic'. " +
+			"Do NOT ask the user for permission to save unless there is a conflict with an existing memory. " +
+			APPROVAL_NOTE,
+		parameters: memoryWriteSchema,
+		execute: async (_toolCallId: string, requested: MemoryWriteParams, signal?: AbortSignal) => {
+			const invalid = getMemoryWriteError(requested);
+			if (invalid) {
+				return { content: [{ type: "text", text: `Error: ${invalid}` }], details: {} };
 			}
-			const store = loadStore<SemanticMemory>(cwd, "semantic.json", scope);
-			const existing = store.memories.find(
-				(m) => m.category === params.category && m.text.toLowerCase() === params.text!.toLowerCase(),
+			const { type } = requested;
+			const scope = requested.scope ?? defaultScope;
+			const redacted = redactChange(resolved, requested);
+			if ("blocked" in redacted) {
+				return blockedResult(redacted);
+			}
+			const proposed = redacted.params;
+			const redactions = [...redacted.redactions];
+
+			if (proposed.type === "semantic" && proposed.text && proposed.category) {
+				if (!proposed.on_conflict && resolved.detectConflicts) {
+					const candidate = { category: proposed.category, text: proposed.text, tags: proposed.tags ?? [] };
+					const conflicts = await findConflicts(candidate, scope, signal);
+					if (conflicts.length > 0) {
+						return {
+							content: [{ type: "text", text: formatMemoryConflicts(conflicts) }],
+							details: { action: "conflict", conflicts, resolutions: MEMORY_CONFLICT_RESOLUTIONS },
+						};
+					}
+				}
+			}
+
+			const decision = await approveMemoryChange(
+				resolved,
+				{ action: "write", type, scope, fields: getWriteFields(proposed) },
+				signal,
 			);
-			if (existing) {
-				return {
-					content: [{ type: "text", text: `This semantic memory already exists [${existing.id}].` }],
-					details: { action: "duplicate", id: existing.id },
-				};
+			if (!decision.approved) {
+				return rejectedResult(decision.reason);
+			}
+			let params = proposed;
+			if (decision.fields) {
+				try {
+					params = parseEditedParams("memory_write", memoryWriteSchema, {
+						...decision.fields,
+						type,
+						scope: requested.scope,
+					});
+					const error = getMemoryWriteError(params);
+					if (error) throw new Error(error);
+				} catch (error) {
+					return editErrorResult(error);
+				}
+				const edited = redactChange(resolved, params);
+				if ("blocked" in edited) {
+					return blockedResult(edited);
+				}
+				params = edited.params;
+				redactions.push(...edited.redactions);
+			}
+
+			const origin = getOrigin();
+			const context = getChangeContext("tool", "memory_write", origin);
+			const result = await storeMemoryWrite(backend, params, scope, origin, context);
+			if (result.action !== "duplicate") {
+				await resolved.afterChange({ action: "write", type, scope, id: result.id, fields: getWriteFields(params) });
 			}
-			const id = generateId("sem", store);
-			store.memories.push({
-				id,
-				category: params.category,
-				text: params.text,
-				tags,
-				created: nowISO(),
-				sourceSession: sessionId,
-			});
-			saveStore(cwd, "semantic.json", store, scope);
 			return {
-				content: [{ type: "text", text: `Saved semantic memory [${id}] (${params.category}): "${params.text}".` }],
-				details: { action: "created", id },
+				content: [{ type: "text", text: withRedactions(formatWriteResult(params, result), redactions) }],
+				details: redactions.length > 0 ? { ...result, redactions } : result,
 			};
-		}
-
-		return {
-			content: [{ type: "text", text: `Unknown memory type: ${params.type}` }],
-			details: {},
-		};
-	},
-};
+		},
+	};
+}
 
 // ---------------------------------------------------------------------------
 // memory_read
 // ---------------------------------------------------------------------------
 
-export const memoryReadTool: AgentTool<typeof memoryReadSchema> = {
-	name: "memory_read",
-	label: "Read Memory",
-	description:
-		"Read memories from the persistent memory system. Use this when you need to recall " +
-		"past workflows, user preferences, or what happened in previous sessions. " +
-		"You can read all memories of a type, a specific memory by ID, or search by query.",
-	parameters: memoryReadSchema,
-	execute: async (_toolCallId: string, params: MemoryReadInput) => {
-		const { cwd, scope } = memoryContext;
-
-		if (params.id) {
-			const allStores: Array<{ file: string; format: (m: any) => string }> = [
-				{ file: "procedural.json", format: formatProceduralForDisplay },
-				{ file: "episodic.json", format: formatEpisodicForDisplay },
-				{ file: "semantic.json", format: formatSemanticForDisplay },
-			];
-			for (const { file, format } of allStores) {
-				const store = loadStore<{ id: string }>(cwd, file, scope);
-				const found = store.memories.find((m) => m.id === params.id);
+export function createMemoryReadTool(cwd: string, options?: MemoryToolOptions): AgentTool<typeof memoryReadSchema> {
+	const { backend, layers, embedder, recordUsage } = resolveMemoryToolOptions(cwd, options);
+	return {
+		name: "memory_read",
+		label: "Read Memory",
+		description:
+			"Read memories from the persistent memory system. Use this when you need to recall " +
+			"past workflows, user preferences, or what happened in previous sessions. " +
+			"You can read all memories of a type, a specific memory by ID, or search by query. " +
+			"Searches also find archived memories, which are no longer attached to prompts.",
+		parameters: memoryReadSchema,
+		execute: async (_toolCallId: string, params: MemoryReadInput, signal?: AbortSignal) => {
+			if (params.id) {
+				const found = await findBackendEntry(backend, layers, params.id);
 				if (found) {
+					await recordUsage([found]);
 					return {
-						content: [{ type: "text", text: format(found) }],
+						content: [{ type: "text", text: formatMemoryEntryForDisplay(found) }],
 						details: { found: true },
 					};
 				}
+				return {
+					content: [{ type: "text", text: `No memory found with ID "${params.id}".` }],
+					details: { found: false },
+				};
 			}
-			return {
-				content: [{ type: "text", text: `No memory found with ID "${params.id}".` }],
-				details: { found: false },
-			};
-		}
 
-		if (params.query) {
-			const results: string[] = [];
-			const type = params.type ?? "all";
+			if (params.query) {
+				const matches = await searchBackendEntries(backend, layers, params.query, {
+					type: params.type ?? "all",
+					embedder,
+					signal,
+				});
 
-			if (type === "all" || type === "procedural") {
-				const store = loadStore<ProceduralMemory>(cwd, "procedural.json", scope);
-				const matches = searchMemories(
-					store.memories,
-					params.query,
-					(m) => `${m.name} ${m.trigger} ${m.steps.join(" ")}`,
-				);
-				results.push(...matches.map(formatProceduralForDisplay));
-			}
-			if (type === "all" || type === "episodic") {
-				const store = loadStore<EpisodicMemory>(cwd, "episodic.json", scope);
-				const matches = searchMemories(store.memories, params.query, (m) => `${m.summary} ${m.details.join(" ")}`);
-				results.push(...matches.map(formatEpisodicForDisplay));
+				if (matches.length === 0) {
+					return {
+						content: [{ type: "text", text: `No memories found matching "${params.query}".` }],
+						details: { count: 0 },
+					};
+				}
+				await recordUsage(matches);
+				return {
+					content: [{ type: "text", text: matches.map(formatMemoryEntryForDisplay).join("\n\n") }],
+					details: { count: matches.length },
+				};
 			}
-			if (type === "all" || type === "semantic") {
-				const store = loadStore<SemanticMemory>(cwd, "semantic.json", scope);
-				const matches = searchMemories(store.memories, params.query, (m) => `${m.category} ${m.text}`);
-				results.push(...matches.map(formatSemanticForDisplay));
+
+			const type = params.type ?? "all";
+			const entries = await loadBackendEntries(backend, layers);
+			const results: string[] = [];
+
+			const sections: Array<{ type: MemoryType; title: string }> = [
+				{ type: "procedural", title: "=== Procedural Memories ===" },
+				{ type: "episodic", title: "=== Episodic Memories ===" },
+				{ type: "semantic", title: "=== Semantic Memories ===" },
+			];
+			for (const section of sections) {
+				if (type !== "all" && type !== section.type) continue;
+				const ofType = entries.filter((e) => e.type === section.type);
+				if (ofType.length > 0) {
+					results.push(section.title);
+					results.push(...ofType.map(formatMemoryEntryForDisplay));
+				}
 			}
 
 			if (results.length === 0) {
 				return {
-					content: [{ type: "text", text: `No memories found matching "${params.query}".` }],
+					content: [{ type: "text", text: "No memories stored yet." }],
 					details: { count: 0 },
 				};
 			}
@@ -282,139 +745,336 @@ export const memoryReadTool: AgentTool<typeof memoryReadSchema> = {
 				content: [{ type: "text", text: results.join("\n\n") }],
 				details: { count: results.length },
 			};
-		}
+		},
+	};
+}
 
-		const type = params.type ?? "all";
-		const results: string[] = [];
+// ---------------------------------------------------------------------------
+// memory_update
+// ---------------------------------------------------------------------------
 
-		if (type === "all" || type === "procedural") {
-			const store = loadStore<ProceduralMemory>(cwd, "procedural.json", scope);
-			if (store.memories.length > 0) {
-				results.push("=== Procedural Memories ===");
-				results.push(...store.memories.map(formatProceduralForDisplay));
+export function createMemoryUpdateTool(cwd: string, options?: MemoryToolOptions): AgentTool<typeof memoryUpdateSchema> {
+	const resolved = resolveMemoryToolOptions(cwd, options);
+	const { backend, getOrigin } = resolved;
+	return {
+		name: "memory_update",
+		label: "Update Memory",
+		description:
+			"Update an existing memory. Use this when the user confirms a change to a " +
+			"previously stored preference, procedure step, or fact. " +
+			"Always ask for confirmation before updating if there is a conflict. " +
+			APPROVAL_NOTE,
+		parameters: memoryUpdateSchema,
+		execute: async (_toolCallId: string, requested: MemoryUpdateParams, signal?: AbortSignal) => {
+			const target = await findWritableMemory(resolved, requested.id);
+			if ("error" in target) {
+				return {
+					content: [{ type: "text", text: target.error }],
+					details: { updated: false },
+				};
 			}
-		}
-		if (type === "all" || type === "episodic") {
-			const store = loadStore<EpisodicMemory>(cwd, "episodic.json", scope);
-			if (store.memories.length > 0) {
-				results.push("=== Episodic Memories ===");
-				results.push(...store.memories.map(formatEpisodicForDisplay));
+			const { entry, scope } = target;
+			const id = entry.memory.id;
+
+			const redacted = redactChange(resolved, requested);
+			if ("blocked" in redacted) {
+				return blockedResult(redacted);
 			}
-		}
-		if (type === "all" || type === "semantic") {
-			const store = loadStore<SemanticMemory>(cwd, "semantic.json", scope);
-			if (store.memories.length > 0) {
-				results.push("=== Semantic Memories ===");
-				results.push(...store.memories.map(formatSemanticForDisplay));
+			const redactions = [...redacted.redactions];
+			const { id: _ref, ...fields } = redacted.params;
+			const decision = await approveMemoryChange(
+				resolved,
+				{ action: "update", type: entry.type, scope, id, fields },
+				signal,
+			);
+			if (!decision.approved) {
+				return rejectedResult(decision.reason);
+			}
+			let params = redacted.params;
+			if (decision.fields) {
+				try {
+					params = parseEditedParams("memory_update", memoryUpdateSchema, {
+						...decision.fields,
+						id: requested.id,
+					});
+				} catch (error) {
+					return editErrorResult(error);
+				}
+				const edited = redactChange(resolved, params);
+				if ("blocked" in edited) {
+					return blockedResult(edited);
+				}
+				params = edited.params;
+				redactions.push(...edited.redactions);
 			}
-		}
 
-		if (results.length === 0) {
+			const { id: _id, ...changed } = params;
+			const origin = getOrigin();
+			const context = getChangeContext("tool", "memory_update", origin);
+			const updated = await storeMemoryUpdate(backend, entry.type, scope, id, changed, origin, context);
+			if (!updated) {
+				return {
+					content: [{ type: "text", text: `No memory found with ID "${params.id}".` }],
+					details: { updated: false },
+				};
+			}
+			await resolved.afterChange({ action: "update", type: entry.type, scope, id, fields: changed });
 			return {
-				content: [{ type: "text", text: "No memories stored yet." }],
-				details: { count: 0 },
+				content: [
+					{ type: "text", text: withRedactions(`Updated ${entry.type} memory [${params.id}].`, redactions) },
+				],
+				details: redactions.length > 0 ? { updated: true, redactions } : { updated: true },
 			};
-		}
-		return {
-			content: [{ type: "text", text: results.join("\n\n") }],
-			details: { count: results.length },
-		};
-	},
-};
+		},
+	};
+}
 
 // ---------------------------------------------------------------------------
-// memory_update
+// memory_delete
 // ---------------------------------------------------------------------------
 
-export const memoryUpdateTool: AgentTool<typeof memoryUpdateSchema> = {
-	name: "memory_update",
-	label: "Update Memory",
-	description:
-		"Update an existing memory. Use this when the user confirms a change to a " +
-		"previously stored preference, procedure step, or fact. Always ask for " +
-		"confirmation before updating if there is a conflict.",
-	parameters: memoryUpdateSchema,
-	execute: async (_toolCallId: string, params: MemoryUpdateInput) => {
-		const { cwd, scope } = memoryContext;
-
-		const procStore = loadStore<ProceduralMemory>(cwd, "procedural.json", scope);
-		const proc = procStore.memories.find((m) => m.id === params.id);
-		if (proc) {
-			if (params.steps) proc.steps = params.steps;
-			if (params.trigger) proc.trigger = params.trigger;
-			if (params.tags) proc.tags = params.tags;
-			proc.updated = nowISO();
-			saveStore(cwd, "procedural.json", procStore, scope);
-			return {
-				content: [{ type: "text", text: `Updated procedural memory [${params.id}].` }],
-				details: { updated: true },
-			};
-		}
+export function createMemoryDeleteTool(cwd: string, options?: MemoryToolOptions): AgentTool<typeof memoryDeleteSchema> {
+	const resolved = resolveMemoryToolOptions(cwd, options);
+	return {
+		name: "memory_delete",
+		label: "Delete Memory",
+		description:
+			"Delete a specific memory by ID. Use this when the user asks to remove a memory " +
+			"or when a memory is confirmed to be outdated. " +
+			APPROVAL_NOTE,
+		parameters: memoryDeleteSchema,
+		execute: async (_toolCallId: string, params: MemoryDeleteInput, signal?: AbortSignal) => {
+			const target = await findWritableMemory(resolved, params.id);
+			if ("error" in target) {
+				return {
+					content: [{ type: "text", text: target.error }],
+					details: { deleted: false },
+				};
+			}
+			const { entry, scope } = target;
+			const id = entry.memory.id;
 
-		const semStore = loadStore<SemanticMemory>(cwd, "semantic.json", scope);
-		const sem = semStore.memories.find((m) => m.id === params.id);
-		if (sem) {
-			if (params.text) sem.text = params.text;
-			if (params.tags) sem.tags = params.tags;
-			saveStore(cwd, "semantic.json", semStore, scope);
-			return {
-				content: [{ type: "text", text: `Updated semantic memory [${params.id}].` }],
-				details: { updated: true },
-			};
-		}
+			const { id: _id, origin: _origin, ...fields } = entry.memory;
+			const decision = await approveMemoryChange(
+				resolved,
+				{ action: "delete", type: entry.type, scope, id, fields },
+				signal,
+			);
+			if (!decision.approved) {
+				return rejectedResult(decision.reason);
+			}
 
-		const epStore = loadStore<EpisodicMemory>(cwd, "episodic.json", scope);
-		const ep = epStore.memories.find((m) => m.id === params.id);
-		if (ep) {
-			if (params.tags) ep.tags = params.tags;
-			saveStore(cwd, "episodic.json", epStore, scope);
+			const context = getChangeContext("tool", "memory_delete", resolved.getOrigin());
+			const deleted = await storeMemoryDelete(resolved.backend, entry.type, scope, id, context);
+			if (!deleted) {
+				return {
+					content: [{ type: "text", text: `No memory found with ID "${params.id}".` }],
+					details: { deleted: false },
+				};
+			}
+			await resolved.afterChange({ action: "delete", type: entry.type, scope, id, fields });
 			return {
-				content: [{ type: "text", text: `Updated episodic memory [${params.id}].` }],
-				details: { updated: true },
+				content: [{ type: "text", text: `Deleted memory [${params.id}] from ${entry.type}.` }],
+				details: { deleted: true },
 			};
+		},
+	};
+}
+
+/**
+ * Create all memory tools configured for a specific working directory.
+ */
+export function createMemoryTools(cwd: string, options?: MemoryToolOptions): AgentTool<any>[] {
+	return [
+		createMemoryWriteTool(cwd, options),
+		createMemoryReadTool(cwd, options),
+		createMemoryUpdateTool(cwd, options),
+		createMemoryDeleteTool(cwd, options),
+	];
+}
+
+// ---------------------------------------------------------------------------
+// Extension API
+// ---------------------------------------------------------------------------
+
+/**
+ * Create pi.memory for extensions, on the same backend, layers and scope as the memory tools.
+ * Changes skip approval and conflict detection but still go through beforeChange and afterChange.
+ */
+export function createExtensionMemoryAPI(cwd: string, options?: MemoryToolOptions): ExtensionMemoryAPI {
+	const resolved = resolveMemoryToolOptions(cwd, options);
+	const { backend, layers, embedder, getOrigin } = resolved;
+
+	/** Run beforeChange, returning the fields to store */
+	const review = async (request: MemoryChangeRequest): Promise<Record<string, unknown>> => {
+		const result = await resolved.beforeChange(request);
+		if (result?.block) {
+			throw new Error(result.reason ?? `Memory ${request.action} was blocked by an extension`);
 		}
+		return result?.fields ?? request.fields;
+	};
 
-		return {
-			content: [{ type: "text", text: `No memory found with ID "${params.id}".` }],
-			details: { updated: false },
-		};
-	},
-};
+	/** Mask secrets in a change, throwing in "block" mode */
+	const redact = <T>(params: T): T => {
+		const redacted = redactChange(resolved, params);
+		if ("blocked" in redacted) throw new Error(redacted.blocked);
+		return redacted.params;
+	};
+
+	const findWritable = async (ref: string): Promise<{ entry: MemoryEntry; scope: MemoryScope }> => {
+		const target = await findWritableMemory(resolved, ref);
+		if ("error" in target) throw new Error(target.error);
+		return target;
+	};
+
+	const getStored = async (scope: MemoryScope, id: string): Promise<MemoryEntry> => {
+		const entry = await findBackendEntry(backend, [scope], id);
+		if (!entry) throw new Error(`No memory found with ID "${id}".`);
+		return entry;
+	};
+
+	return {
+		list: async (type) => {
+			const entries = await loadBackendEntries(backend, layers);
+			return type ? entries.filter((e) => e.type === type) : entries;
+		},
+		search: (query, searchOptions) =>
+			searchBackendEntries(backend, layers, query, {
+				type: searchOptions?.type ?? "all",
+				limit: searchOptions?.limit,
+				embedder,
+			}),
+		write: async (requested) => {
+			const invalid = getMemoryWriteError(requested);
+			if (invalid) throw new Error(invalid);
+			const { type } = requested;
+			const scope = requested.scope ?? resolved.scope;
+
+			const proposed = redact(requested);
+			const proposedFields = getWriteFields(proposed);
+			const fields = await review({ action: "write", type, scope, fields: proposedFields });
+			const params =
+				fields === proposedFields
+					? proposed
+					: redact(
+							parseEditedParams("memory_write", memoryWriteSchema, { ...fields, type, scope: requested.scope }),
+						);
+			const error = getMemoryWriteError(params);
+			if (error) throw new Error(error);
+
+			const origin = getOrigin();
+			const context = getChangeContext("extension", "pi.memory", origin);
+			const result = await storeMemoryWrite(backend, params, scope, origin, context);
+			if (result.action !== "duplicate") {
+				await resolved.afterChange({ action: "write", type, scope, id: result.id, fields: getWriteFields(params) });
+			}
+			return getStored(scope, result.id);
+		},
+		update: async (ref, requested) => {
+			const { entry, scope } = await findWritable(ref);
+			const id = entry.memory.id;
+			const proposed = redact(requested);
+			const fields = await review({ action: "update", type: entry.type, scope, id, fields: proposed });
+			const { id: _id, ...changed } =
+				fields === proposed
+					? { id: ref, ...proposed }
+					: redact(parseEditedParams("memory_update", memoryUpdateSchema, { ...fields, id: ref }));
+
+			const origin = getOrigin();
+			const context = getChangeContext("extension", "pi.memory", origin);
+			if (!(await storeMemoryUpdate(backend, entry.type, scope, id, changed, origin, context))) {
+				throw new Error(`No memory found with ID "${ref}".`);
+			}
+			await resolved.afterChange({ action: "update", type: entry.type, scope, id, fields: changed });
+			return getStored(scope, id);
+		},
+		delete: async (ref) => {
+			const { entry, scope } = await findWritable(ref);
+			const id = entry.memory.id;
+			const { id: _id, origin: _origin, ...fields } = entry.memory;
+			await review({ action: "delete", type: entry.type, scope, id, fields });
+
+			const context = getChangeContext("extension", "pi.memory", getOrigin());
+			if (!(await storeMemoryDelete(backend, entry.type, scope, id, context))) {
+				throw new Error(`No memory found with ID "${ref}".`);
+			}
+			await resolved.afterChange({ action: "delete", type: entry.type, scope, id, fields });
+		},
+	};
+}
 
 // ---------------------------------------------------------------------------
-// memory_delete
+// Compaction harvest
 // ---------------------------------------------------------------------------
 
-export const memoryDeleteTool: AgentTool<typeof memoryDeleteSchema> = {
-	name: "memory_delete",
-	label: "Delete Memory",
-	description:
-		"Delete a specific memory by ID. Use this when the user asks to remove a memory " +
-		"or when a memory is confirmed to be outdated.",
-	parameters: memoryDeleteSchema,
-	execute: async (_toolCallId: string, params: MemoryDeleteInput) => {
-		const { cwd, scope } = memoryContext;
-		const files = ["procedural.json", "episodic.json", "semantic.json"] as const;
-
-		for (const file of files) {
-			const store = loadStore<{ id: string }>(cwd, file, scope);
-			const idx = store.memories.findIndex((m) => m.id === params.id);
-			if (idx !== -1) {
-				store.memories.splice(idx, 1);
-				saveStore(cwd, file, store, scope);
-				return {
-					content: [{ type: "text", text: `Deleted memory [${params.id}] from ${file.replace(".json", "")}.` }],
-					details: { deleted: true },
-				};
+/**
+ * Store memories harvested from the messages a compaction discards (see harvestMemories)
+ * in the write scope. Each goes through what memory_write does: secrets are masked,
+ * memory.approval decides whether it is stored, asked about or rejected, and beforeChange
+ * and afterChange see it. Facts that conflict with a stored one are skipped rather than
+ * resolved, as there is no model turn to resolve them in.
+ * @returns The qualified IDs of the stored memories, e.g. "project:sem_004"
+ */
+export async function saveHarvestedMemories(
+	cwd: string,
+	memories: HarvestedMemory[],
+	options?: MemoryToolOptions,
+	signal?: AbortSignal,
+): Promise<string[]> {
+	const resolved = resolveMemoryToolOptions(cwd, options);
+	const { backend, scope, getOrigin } = resolved;
+	const saved: string[] = [];
+
+	for (const memory of memories) {
+		if (signal?.aborted) break;
+		const redacted = redactChange<MemoryWriteParams>(resolved, { ...memory });
+		if ("blocked" in redacted) continue;
+		let params = redacted.params;
+
+		if (params.type === "semantic" && params.text && params.category && resolved.detectConflicts) {
+			const candidate = { category: params.category, text: params.text, tags: params.tags ?? [] };
+			const stored = (await backend.load(scope)).flatMap((e) => (e.type === "semantic" ? [e.memory] : []));
+			const conflicts = findMemoryConflicts(candidate, stored);
+			if (conflicts.length > 0 && (await resolved.judgeConflicts(candidate, conflicts, signal)).length > 0) {
+				continue;
 			}
 		}
 
-		return {
-			content: [{ type: "text", text: `No memory found with ID "${params.id}".` }],
-			details: { deleted: false },
-		};
-	},
-};
+		const { type } = params;
+		const decision = await approveMemoryChange(
+			resolved,
+			{ action: "write", type, scope, fields: getWriteFields(params) },
+			signal,
+		);
+		if (!decision.approved) continue;
+		if (decision.fields) {
+			try {
+				params = parseEditedParams("memory_write", memoryWriteSchema, { ...decision.fields, type });
+				const error = getMemoryWriteError(params);
+				if (error) throw new Error(error);
+			} catch {
+				continue;
+			}
+			const edited = redactChange(resolved, params);
+			if ("blocked" in edited) continue;
+			params = edited.params;
+		}
+
+		const origin = getOrigin();
+		const context = getChangeContext("compaction", "memory harvest", origin);
+		const result = await storeMemoryWrite(backend, params, scope, origin, context);
+		if (result.action === "duplicate") continue;
+		await resolved.afterChange({ action: "write", type, scope, id: result.id, fields: getWriteFields(params) });
+		saved.push(`${scope}:${result.id}`);
+	}
+	return saved;
+}
+
+/** Default memory tools using process.cwd() - for backwards compatibility */
+export const memoryWriteTool = createMemoryWriteTool(process.cwd());
+export const memoryReadTool = createMemoryReadTool(process.cwd());
+export const memoryUpdateTool = createMemoryUpdateTool(process.cwd());
+export const memoryDeleteTool = createMemoryDeleteTool(process.cwd());
 
-/** All memory tools */
+/** All memory tools (using process.cwd()) */
 export const memoryTools: AgentTool<any>[] = [memoryWriteTool, memoryReadTool, memoryUpdateTool, memoryDeleteTool];
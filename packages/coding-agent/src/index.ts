@@ -7,6 +7,7 @@ export {
 	type AgentSessionConfig,
 	type AgentSessionEvent,
 	type AgentSessionEventListener,
+	type EpisodeCaptureReason,
 	type ModelCycleResult,
 	type ParsedSkillBlock,
 	type PromptOptions,
@@ -28,6 +29,8 @@ export {
 	type BranchPreparation,
 	type BranchSummaryResult,
 	type CollectEntriesResult,
+	type CompactionDetails,
+	type CompactionMemoryHarvester,
 	type CompactionResult,
 	type CutPointResult,
 	calculateContextTokens,
@@ -75,6 +78,7 @@ export type {
 	ExtensionFactory,
 	ExtensionFlag,
 	ExtensionHandler,
+	ExtensionMemoryAPI,
 	ExtensionRuntime,
 	ExtensionShortcut,
 	ExtensionUIContext,
@@ -88,6 +92,10 @@ export type {
 	KeybindingsManager,
 	LoadExtensionsResult,
 	LsToolCallEvent,
+	MemoryBeforeWriteEvent,
+	MemoryBeforeWriteEventResult,
+	MemoryChangeSource,
+	MemoryWriteEvent,
 	MessageRenderer,
 	MessageRenderOptions,
 	ProviderConfig,
@@ -141,27 +149,172 @@ export {
 // Footer data provider (git branch + extension statuses - data not otherwise available to extensions)
 export type { ReadonlyFooterDataProvider } from "./core/footer-data-provider.js";
 export {
+	applyConsolidationProposal,
+	archiveStaleMemories,
+	type BlockedMemory,
+	BUILTIN_MEMORY_DETECTORS,
 	buildMemoryPromptSection,
+	type CapturedEpisode,
+	CONTEXT_FILE_NAMES,
+	type ConsolidationProposal,
+	type ConsolidationResult,
+	type ContextFileFact,
+	CURRENT_MEMORY_STORE_VERSION,
 	compactEpisodicMemories,
+	confirmMemoryChange,
+	createContextFileBundle,
+	createMemoryBundle,
+	createMemoryEmbedder,
+	createMemoryRedactor,
+	type DistillRecordingOptions,
+	dedupeHarvestedMemories,
+	deleteMemoryEntries,
+	distillRecording,
+	drainMemoryStoreErrors,
+	type EpisodeCaptureResult,
 	type EpisodicMemory,
-	formatTimestamp,
+	expandProcedureCommand,
+	exportMemories,
+	FileMemoryBackend,
+	findBackendEntry,
+	findContextFiles,
+	findMemoryCitations,
+	findMemoryConflicts,
+	findMemoryEntry,
+	findMemoryVersions,
+	formatConsolidationDiff,
+	formatMemoryAppliesTo,
+	formatMemoryAuthor,
+	formatMemoryBlock,
+	formatMemoryForEditing,
+	formatMemoryHistory,
+	formatMemoryImportDiff,
+	formatMemoryRedactions,
+	formatMemoryUsageStats,
+	formatProcedurePrompt,
+	formatProcedureSkill,
+	formatRecording,
 	getGlobalMemoryDir,
+	getMemoryActivationContext,
+	getMemoryContentHash,
 	getMemoryCounts,
 	getMemoryDir,
+	getMemoryKey,
+	getMemoryLastActivity,
+	getMemoryTemperature,
+	getMemoryUsageStats,
+	getMemoryVersions,
+	getProcedureCommands,
+	getProcedureName,
 	getProjectMemoryDir,
+	getPublishedMemoryKeys,
+	getPublishTarget,
+	getRecentlyTouchedFiles,
+	getRecordedSteps,
+	getTeamMemoryDir,
+	type HarvestedMemory,
+	type HarvestMemoriesOptions,
+	HashedNgramEmbedder,
+	harvestMemories,
+	InMemoryMemoryBackend,
+	importMemories,
+	isMemoryActive,
+	judgeMemoryConflicts,
+	loadBackendEntries,
+	loadMemoryEntries,
+	loadMemoryHistory,
 	loadStore as loadMemoryStore,
+	MEMORY_BLOCK_END,
+	MEMORY_BLOCK_START,
+	MEMORY_CONTEXT_CUSTOM_TYPE,
+	MEMORY_HISTORY_FILE,
+	MEMORY_LAYER_PRECEDENCE,
+	type MemoryActivationContext,
+	type MemoryAppliesTo,
+	type MemoryApprovalDecision,
+	type MemoryApprovalMode,
+	type MemoryAuthor,
+	type MemoryBackend,
+	type MemoryBundle,
+	type MemoryChangeContext,
+	type MemoryChangeRequest,
+	type MemoryChangeReview,
+	type MemoryConflict,
+	type MemoryConflictResolution,
 	type MemoryCounts,
+	type MemoryDetector,
+	type MemoryEmbedder,
+	type MemoryEntry,
+	type MemoryExportBundle,
+	type MemoryHarvestResult,
+	type MemoryHistoryRecord,
+	type MemoryImportOptions,
+	type MemoryImportResult,
+	type MemoryLayer,
+	type MemoryOrigin,
+	type MemoryRedaction,
+	type MemoryRedactionAction,
+	type MemoryRedactor,
+	type MemoryRedactorOptions,
+	type MemoryRetrievalOptions,
 	type MemoryScope,
+	type MemorySearchOptions,
 	type MemoryStore,
+	type MemoryStoreError,
+	type MemoryTemperature,
 	type MemoryType,
+	type MemoryUndoResult,
+	type MemoryUsageStats,
+	type MemoryVersion,
+	type MemoryVersions,
+	matchesMemoryAppliesTo,
+	mergeMemoryEntries,
+	migrateMemoryBundle,
+	migrateMemoryStore,
+	OpenAIEmbedder,
+	PROCEDURE_COMMAND_PREFIX,
+	type ProceduralEntry,
 	type ProceduralMemory,
+	type ProcedureCommand,
+	parseConsolidationResponse,
+	parseContextFile,
+	parseEpisodeResponse,
+	parseHarvestResponse,
+	parseMemoryEdit,
+	promoteProcedureToSkill,
+	proposeMemoryConsolidation,
+	publishMemories,
+	type RankedMemory,
+	type RecordedProcedure,
+	type RecordedStep,
+	type RecordingDistillResult,
+	ReviewedMemoryBackend,
+	rankMemories,
+	readMemoryBundle,
 	readZpiConfig,
+	recordMemoryUsage,
+	redactMemory,
+	replaceMemoryBlock,
+	resolveMemoryLayers,
 	resolveMemoryScope,
+	restoreMemoryVersion,
+	retrieveMemories,
+	SEMANTIC_CATEGORIES,
 	type SemanticMemory,
+	saveCapturedEpisode,
+	saveMemoryEntry,
+	saveRecordedProcedure,
 	saveStore as saveMemoryStore,
+	searchBackendEntries,
 	searchMemories,
+	searchMemoryEntries,
+	selectHotMemories,
+	setMemoriesPinned,
+	summarizeEpisode,
+	undoLastMemoryChange,
+	updateStore as updateMemoryStore,
 	type ZpiConfig,
-} from "./core/memory.js";
+} from "./core/memory/index.js";
 export { convertToLlm } from "./core/messages.js";
 export { ModelRegistry } from "./core/model-registry.js";
 export type {
@@ -188,6 +341,7 @@ export {
 	createFindTool,
 	createGrepTool,
 	createLsTool,
+	createMemoryTools,
 	createReadOnlyTools,
 	createReadTool,
 	createWriteTool,
@@ -221,9 +375,13 @@ export {
 export {
 	type CompactionSettings,
 	type ImageSettings,
+	type MemoryEmbeddingSettings,
+	type MemoryRetrievalSettings,
+	type MemorySettings,
 	type PackageSource,
 	type RetrySettings,
 	SettingsManager,
+	type TimeAwarenessSettings,
 } from "./core/settings-manager.js";
 // Skills
 export {
@@ -235,6 +393,17 @@ export {
 	type Skill,
 	type SkillFrontmatter,
 } from "./core/skills.js";
+// Time awareness
+export {
+	createTimeContextMessage,
+	formatDuration,
+	formatTime,
+	resolveTimezone,
+	TIME_CONTEXT_CUSTOM_TYPE,
+	type TimeContextDetails,
+	type TimeContextOptions,
+	type TimeFormatOptions,
+} from "./core/time-awareness.js";
 // Tools
 export {
 	type BashOperations,
@@ -268,11 +437,13 @@ export {
 	type LsToolInput,
 	type LsToolOptions,
 	lsTool,
+	type MemoryToolOptions,
 	type ReadOperations,
 	type ReadToolDetails,
 	type ReadToolInput,
 	type ReadToolOptions,
 	readTool,
+	saveHarvestedMemories,
 	type ToolsOptions,
 	type TruncationOptions,
 	type TruncationResult,
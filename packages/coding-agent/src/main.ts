@@ -12,6 +12,7 @@ import { type Args, parseArgs, printHelp } from "./cli/args.js";
 import { selectConfig } from "./cli/config-selector.js";
 import { processFileArguments } from "./cli/file-processor.js";
 import { listModels } from "./cli/list-models.js";
+import { runMemoryExport, runMemoryImport } from "./cli/memory-transfer.js";
 import { selectSession } from "./cli/session-picker.js";
 import { APP_NAME, getAgentDir, getModelsPath, VERSION } from "./config.js";
 import { AuthStorage } from "./core/auth-storage.js";
@@ -618,6 +619,23 @@ export async function main(args: string[]) {
 		process.exit(0);
 	}
 
+	if (parsed.memoryExport !== undefined || parsed.memoryImport !== undefined) {
+		try {
+			if (parsed.memoryExport !== undefined) {
+				const file = typeof parsed.memoryExport === "string" ? parsed.memoryExport : undefined;
+				await runMemoryExport(cwd, settingsManager, file);
+			}
+			if (parsed.memoryImport !== undefined) {
+				await runMemoryImport(cwd, settingsManager, parsed.memoryImport, parsed.dryRun);
+			}
+		} catch (error: unknown) {
+			const message = error instanceof Error ? error.message : "Failed to transfer memories";
+			console.error(chalk.red(`Error: ${message}`));
+			process.exit(1);
+		}
+		process.exit(0);
+	}
+
 	// Read piped stdin content (if any) - skip for RPC mode which uses stdin for JSON-RPC
 	if (parsed.mode !== "rpc") {
 		const stdinContent = await readPipedStdin();
@@ -0,0 +1,410 @@
+/**
+ * Memory browser: filter, search, preview, edit, delete, merge and pin memories.
+ */
+
+import {
+	Container,
+	type Focusable,
+	fuzzyFilter,
+	getEditorKeybindings,
+	Input,
+	matchesKey,
+	Spacer,
+	Text,
+	TruncatedText,
+	type TUI,
+} from "@mariozechner/pi-tui";
+import type { KeybindingsManager } from "../../../core/keybindings.js";
+import {
+	formatMemoryAppliesTo,
+	formatMemoryEntryForDisplay,
+	formatMemoryForEditing,
+	getMemoryKey,
+	type MemoryEntry,
+	type MemoryType,
+	parseMemoryEdit,
+	SEMANTIC_CATEGORIES,
+	type SemanticMemory,
+} from "../../../core/memory/index.js";
+import { theme } from "../theme/theme.js";
+import { DynamicBorder } from "./dynamic-border.js";
+import { ExtensionEditorComponent } from "./extension-editor.js";
+import { keyHint, rawKeyHint } from "./keybinding-hints.js";
+
+type TypeFilter = "all" | MemoryType;
+
+const TYPE_FILTERS: TypeFilter[] = ["all", "semantic", "procedural", "episodic"];
+
+/** Maximum preview lines shown below the list */
+const MAX_PREVIEW_LINES = 10;
+
+/** Reads and writes performed by the browser. Writes reject on failure (e.g. read-only team memories). */
+export interface MemoryBrowserActions {
+	/** Load all memories, highest precedence layer first */
+	load: () => Promise<MemoryEntry[]>;
+	/** Replace a memory with an edited version */
+	save: (entry: MemoryEntry, memory: MemoryEntry["memory"]) => Promise<void>;
+	delete: (entries: MemoryEntry[]) => Promise<void>;
+	/** Merge memories into the first one, returning the merged entry */
+	merge: (entries: MemoryEntry[]) => Promise<MemoryEntry>;
+	setPinned: (entries: MemoryEntry[], pinned: boolean) => Promise<void>;
+}
+
+/** One-line summary of a memory for the list */
+function summarize(entry: MemoryEntry): string {
+	switch (entry.type) {
+		case "semantic":
+			return `(${entry.memory.category}) ${entry.memory.text}`;
+		case "procedural":
+			return `${entry.memory.name} -- ${entry.memory.trigger}`;
+		case "episodic":
+			return `${entry.memory.date.slice(0, 10)} -- ${entry.memory.summary}`;
+	}
+}
+
+/**
+ * Component for browsing and editing memories in place of the editor.
+ * Typing searches (fuzzy); "#tag" words filter by tag.
+ */
+export class MemoryBrowserComponent extends Container implements Focusable {
+	private entries: MemoryEntry[] = [];
+	private filteredEntries: MemoryEntry[] = [];
+	private selectedIndex = 0;
+	private markedKeys = new Set<string>();
+	private typeFilter: TypeFilter = "all";
+	private categoryFilter: SemanticMemory["category"] | undefined;
+	private confirmingDelete: MemoryEntry[] | null = null;
+	private editor: ExtensionEditorComponent | null = null;
+	private searchInput: Input;
+	private filterText: Text;
+	private bodyContainer: Container;
+	private listContainer: Container;
+	private previewContainer: Container;
+	private statusText: Text;
+	private hintText: Text;
+	private maxVisible: number;
+
+	// Focusable implementation - propagate to searchInput for IME cursor positioning
+	private _focused = false;
+	get focused(): boolean {
+		return this._focused;
+	}
+	set focused(value: boolean) {
+		this._focused = value;
+		this.searchInput.focused = value;
+	}
+
+	constructor(
+		private readonly tui: TUI,
+		private readonly keybindings: KeybindingsManager,
+		terminalHeight: number,
+		private readonly actions: MemoryBrowserActions,
+		private readonly onClose: () => void,
+	) {
+		super();
+		this.maxVisible = Math.max(5, Math.floor(terminalHeight / 3));
+
+		this.addChild(new DynamicBorder());
+		this.addChild(new Spacer(1));
+		this.addChild(new Text(theme.fg("accent", theme.bold("Memories")), 0, 0));
+		this.filterText = new Text("", 0, 0);
+		this.addChild(this.filterText);
+		this.addChild(new Spacer(1));
+
+		this.searchInput = new Input();
+		this.addChild(this.searchInput);
+		this.addChild(new Spacer(1));
+
+		this.listContainer = new Container();
+		this.previewContainer = new Container();
+		this.bodyContainer = new Container();
+		this.bodyContainer.addChild(this.listContainer);
+		this.bodyContainer.addChild(this.previewContainer);
+		this.addChild(this.bodyContainer);
+
+		this.addChild(new Spacer(1));
+		this.statusText = new Text("", 0, 0);
+		this.addChild(this.statusText);
+		this.hintText = new Text("", 0, 0);
+		this.addChild(this.hintText);
+		this.addChild(new DynamicBorder());
+
+		this.applyFilter();
+		void this.reload();
+	}
+
+	private async reload(selectKey?: string): Promise<void> {
+		try {
+			this.entries = await this.actions.load();
+		} catch (error) {
+			this.setStatus(error instanceof Error ? error.message : String(error), true);
+		}
+		const keys = new Set(this.entries.map(getMemoryKey));
+		this.markedKeys = new Set([...this.markedKeys].filter((k) => keys.has(k)));
+		this.applyFilter(selectKey);
+		this.tui.requestRender();
+	}
+
+	private applyFilter(selectKey?: string): void {
+		const current = this.getCurrent();
+		const currentKey = selectKey ?? (current && getMemoryKey(current));
+		const words = this.searchInput.getValue().trim().split(/\s+/).filter(Boolean);
+		const tagFilters = words.filter((w) => w.startsWith("#") && w.length > 1).map((w) => w.slice(1).toLowerCase());
+		const query = words.filter((w) => !w.startsWith("#")).join(" ");
+
+		const matching = this.entries.filter((e) => {
+			if (this.typeFilter !== "all" && e.type !== this.typeFilter) return false;
+			if (this.categoryFilter && (e.type !== "semantic" || e.memory.category !== this.categoryFilter)) return false;
+			const tags = e.memory.tags.map((t) => t.toLowerCase());
+			return tagFilters.every((tag) => tags.some((t) => t.startsWith(tag)));
+		});
+		this.filteredEntries = fuzzyFilter(
+			matching,
+			query,
+			(e) => `${getMemoryKey(e)} ${e.type} ${summarize(e)} ${e.memory.tags.join(" ")}`,
+		);
+
+		const index = currentKey ? this.filteredEntries.findIndex((e) => getMemoryKey(e) === currentKey) : -1;
+		this.selectedIndex =
+			index >= 0 ? index : Math.min(this.selectedIndex, Math.max(0, this.filteredEntries.length - 1));
+		this.updateView();
+	}
+
+	private getCurrent(): MemoryEntry | undefined {
+		return this.filteredEntries[this.selectedIndex];
+	}
+
+	/** Marked memories, or the current one if none are marked */
+	private getTargets(): MemoryEntry[] {
+		if (this.markedKeys.size > 0) {
+			return this.entries.filter((e) => this.markedKeys.has(getMemoryKey(e)));
+		}
+		const current = this.getCurrent();
+		return current ? [current] : [];
+	}
+
+	private setStatus(message: string, isError = false): void {
+		this.statusText.setText(message ? theme.fg(isError ? "error" : "success", message) : "");
+	}
+
+	private updateView(): void {
+		const type = this.typeFilter === "all" ? "all types" : this.typeFilter;
+		const category = this.categoryFilter ?? "all categories";
+		const marked = this.markedKeys.size > 0 ? ` · ${this.markedKeys.size} marked` : "";
+		this.filterText.setText(
+			theme.fg("muted", `${type} · ${category} · ${this.filteredEntries.length}/${this.entries.length}${marked}`) +
+				theme.fg("dim", "  (#tag filters by tag)"),
+		);
+		this.updateList();
+		this.updatePreview();
+		this.updateHints();
+	}
+
+	private updateList(): void {
+		this.listContainer.clear();
+		if (this.filteredEntries.length === 0) {
+			this.listContainer.addChild(new Text(theme.fg("muted", "  No matching memories"), 0, 0));
+			return;
+		}
+
+		const startIndex = Math.max(
+			0,
+			Math.min(this.selectedIndex - Math.floor(this.maxVisible / 2), this.filteredEntries.length - this.maxVisible),
+		);
+		const endIndex = Math.min(startIndex + this.maxVisible, this.filteredEntries.length);
+
+		for (let i = startIndex; i < endIndex; i++) {
+			const entry = this.filteredEntries[i];
+			const key = getMemoryKey(entry);
+			const isSelected = i === this.selectedIndex;
+			const prefix = isSelected ? theme.fg("accent", "→ ") : "  ";
+			const mark = this.markedKeys.has(key) ? theme.fg("success", "✓ ") : "  ";
+			const id = theme.fg("muted", `[${key}] `);
+			const pin = entry.memory.pinned ? theme.fg("warning", "pinned ") : "";
+			const appliesTo = entry.type === "episodic" ? undefined : formatMemoryAppliesTo(entry.memory.appliesTo);
+			const scope = appliesTo ? theme.fg("muted", `@${appliesTo} `) : "";
+			const text = isSelected ? theme.fg("accent", summarize(entry)) : summarize(entry);
+			this.listContainer.addChild(new TruncatedText(`${prefix}${mark}${id}${pin}${scope}${text}`, 0, 0));
+		}
+
+		if (startIndex > 0 || endIndex < this.filteredEntries.length) {
+			this.listContainer.addChild(
+				new Text(theme.fg("muted", `  (${this.selectedIndex + 1}/${this.filteredEntries.length})`), 0, 0),
+			);
+		}
+	}
+
+	private updatePreview(): void {
+		this.previewContainer.clear();
+		const current = this.getCurrent();
+		if (!current) return;
+		const lines = formatMemoryEntryForDisplay(current).split("\n");
+		const shown = lines.slice(0, MAX_PREVIEW_LINES);
+		if (lines.length > shown.length) {
+			shown.push(`  … ${lines.length - shown.length} more lines (enter to edit)`);
+		}
+		this.previewContainer.addChild(new Spacer(1));
+		this.previewContainer.addChild(new Text(theme.fg("muted", shown.join("\n")), 1, 0));
+	}
+
+	private updateHints(): void {
+		if (this.confirmingDelete) {
+			const count = this.confirmingDelete.length;
+			this.hintText.setText(
+				theme.fg("error", `Delete ${count} ${count === 1 ? "memory" : "memories"}? `) +
+					keyHint("selectConfirm", "confirm") +
+					"  " +
+					keyHint("selectCancel", "cancel"),
+			);
+			return;
+		}
+		this.hintText.setText(
+			[
+				keyHint("selectConfirm", "edit"),
+				keyHint("tab", "mark"),
+				rawKeyHint("^D", "delete"),
+				rawKeyHint("^E", "merge"),
+				rawKeyHint("^P", "pin"),
+				rawKeyHint("^T", "type"),
+				rawKeyHint("^O", "category"),
+				keyHint("selectCancel", "close"),
+			].join("  "),
+		);
+	}
+
+	private openEditor(entry: MemoryEntry, text: string = formatMemoryForEditing(entry)): void {
+		if (entry.layer === "team") {
+			this.setStatus(`[${getMemoryKey(entry)}] is a team memory and read-only`, true);
+			return;
+		}
+		this.editor = new ExtensionEditorComponent(
+			this.tui,
+			this.keybindings,
+			`Edit [${getMemoryKey(entry)}]`,
+			text,
+			async (value) => {
+				try {
+					await this.actions.save(entry, parseMemoryEdit(entry, value));
+				} catch (error) {
+					this.closeEditor();
+					this.setStatus(error instanceof Error ? error.message : String(error), true);
+					this.openEditor(entry, value);
+					return;
+				}
+				this.closeEditor();
+				this.setStatus(`Saved [${getMemoryKey(entry)}]`);
+				await this.reload(getMemoryKey(entry));
+			},
+			() => this.closeEditor(),
+		);
+		this.bodyContainer.clear();
+		this.bodyContainer.addChild(this.editor);
+	}
+
+	private closeEditor(): void {
+		this.editor = null;
+		this.bodyContainer.clear();
+		this.bodyContainer.addChild(this.listContainer);
+		this.bodyContainer.addChild(this.previewContainer);
+		this.tui.requestRender();
+	}
+
+	/** Run a write action, reporting errors in the status line */
+	private async run(action: () => Promise<string>, selectKey?: string): Promise<void> {
+		try {
+			this.setStatus(await action());
+		} catch (error) {
+			this.setStatus(error instanceof Error ? error.message : String(error), true);
+		}
+		await this.reload(selectKey);
+	}
+
+	handleInput(keyData: string): void {
+		if (this.editor) {
+			this.editor.handleInput(keyData);
+			return;
+		}
+
+		const kb = getEditorKeybindings();
+
+		if (this.confirmingDelete) {
+			if (kb.matches(keyData, "selectConfirm")) {
+				const targets = this.confirmingDelete;
+				this.confirmingDelete = null;
+				void this.run(async () => {
+					await this.actions.delete(targets);
+					for (const entry of targets) this.markedKeys.delete(getMemoryKey(entry));
+					return `Deleted ${targets.length} ${targets.length === 1 ? "memory" : "memories"}`;
+				});
+			} else if (kb.matches(keyData, "selectCancel")) {
+				this.confirmingDelete = null;
+				this.updateHints();
+			}
+			// Ignore all other keys while confirming
+			return;
+		}
+
+		if (kb.matches(keyData, "selectUp")) {
+			if (this.filteredEntries.length === 0) return;
+			this.selectedIndex = this.selectedIndex === 0 ? this.filteredEntries.length - 1 : this.selectedIndex - 1;
+			this.updateView();
+		} else if (kb.matches(keyData, "selectDown")) {
+			if (this.filteredEntries.length === 0) return;
+			this.selectedIndex = this.selectedIndex === this.filteredEntries.length - 1 ? 0 : this.selectedIndex + 1;
+			this.updateView();
+		} else if (kb.matches(keyData, "selectConfirm")) {
+			const current = this.getCurrent();
+			if (current) this.openEditor(current);
+		} else if (kb.matches(keyData, "tab")) {
+			const current = this.getCurrent();
+			if (!current) return;
+			const key = getMemoryKey(current);
+			if (!this.markedKeys.delete(key)) this.markedKeys.add(key);
+			this.updateView();
+		} else if (matchesKey(keyData, "ctrl+d")) {
+			const targets = this.getTargets();
+			if (targets.length === 0) return;
+			this.confirmingDelete = targets;
+			this.updateHints();
+		} else if (matchesKey(keyData, "ctrl+e")) {
+			const targets = this.getTargets();
+			void this.run(async () => {
+				const merged = await this.actions.merge(targets);
+				this.markedKeys.clear();
+				return `Merged ${targets.length} memories into [${getMemoryKey(merged)}]`;
+			}, targets[0] && getMemoryKey(targets[0]));
+		} else if (matchesKey(keyData, "ctrl+p")) {
+			const targets = this.getTargets();
+			if (targets.length === 0) return;
+			const pin = !targets.every((e) => e.memory.pinned);
+			void this.run(async () => {
+				await this.actions.setPinned(targets, pin);
+				return `${pin ? "Pinned" : "Unpinned"} ${targets.length} ${targets.length === 1 ? "memory" : "memories"}`;
+			});
+		} else if (matchesKey(keyData, "ctrl+t")) {
+			this.typeFilter = TYPE_FILTERS[(TYPE_FILTERS.indexOf(this.typeFilter) + 1) % TYPE_FILTERS.length];
+			if (this.typeFilter !== "all" && this.typeFilter !== "semantic") this.categoryFilter = undefined;
+			this.applyFilter();
+		} else if (matchesKey(keyData, "ctrl+o")) {
+			// Cycle: all categories → each semantic category → all categories
+			const index = this.categoryFilter ? SEMANTIC_CATEGORIES.indexOf(this.categoryFilter) : -1;
+			this.categoryFilter = SEMANTIC_CATEGORIES[index + 1];
+			if (this.categoryFilter && this.typeFilter !== "all") this.typeFilter = "semantic";
+			this.applyFilter();
+		} else if (kb.matches(keyData, "selectCancel")) {
+			if (this.searchInput.getValue()) {
+				this.searchInput.setValue("");
+				this.applyFilter();
+			} else {
+				this.onClose();
+			}
+		} else {
+			this.searchInput.handleInput(keyData);
+			this.applyFilter();
+		}
+	}
+
+	getSearchInput(): Input {
+		return this.searchInput;
+	}
+}
@@ -0,0 +1,110 @@
+/**
+ * Review of memory consolidation proposals: one diff at a time, accept or reject each.
+ */
+
+import { Container, getEditorKeybindings, Spacer, Text } from "@mariozechner/pi-tui";
+import { type ConsolidationProposal, formatConsolidationDiff, getMemoryKey } from "../../../core/memory/index.js";
+import { theme } from "../theme/theme.js";
+import { renderDiff } from "./diff.js";
+import { DynamicBorder } from "./dynamic-border.js";
+import { keyHint, rawKeyHint } from "./keybinding-hints.js";
+
+const ACTION_LABELS: Record<ConsolidationProposal["action"], string> = {
+	merge: "Merge",
+	rewrite: "Rewrite",
+	delete: "Delete",
+};
+
+/**
+ * Component that steps through consolidation proposals.
+ * Calls onDone with the accepted proposals once every proposal is decided, or early on escape
+ * (undecided proposals are rejected).
+ */
+export class MemoryConsolidationReviewComponent extends Container {
+	private index = 0;
+	private accepted: ConsolidationProposal[] = [];
+	private bodyContainer: Container;
+	private maxDiffLines: number;
+
+	constructor(
+		private readonly proposals: ConsolidationProposal[],
+		terminalHeight: number,
+		private readonly onDone: (accepted: ConsolidationProposal[]) => void,
+	) {
+		super();
+		this.maxDiffLines = Math.max(10, terminalHeight - 12);
+
+		this.addChild(new DynamicBorder());
+		this.addChild(new Spacer(1));
+		this.bodyContainer = new Container();
+		this.addChild(this.bodyContainer);
+		this.addChild(new Spacer(1));
+		this.addChild(
+			new Text(
+				[
+					rawKeyHint("y", "accept"),
+					rawKeyHint("n", "reject"),
+					rawKeyHint("a", "accept all remaining"),
+					keyHint("selectCancel", "finish"),
+				].join("  "),
+				0,
+				0,
+			),
+		);
+		this.addChild(new DynamicBorder());
+
+		this.updateView();
+	}
+
+	private updateView(): void {
+		this.bodyContainer.clear();
+		const proposal = this.proposals[this.index];
+		if (!proposal) return;
+
+		const keys = proposal.sources.map((e) => `[${getMemoryKey(e)}]`).join(" ");
+		this.bodyContainer.addChild(
+			new Text(
+				theme.fg("accent", theme.bold(`${ACTION_LABELS[proposal.action]} ${keys}`)) +
+					theme.fg("muted", `  (${this.index + 1}/${this.proposals.length})`),
+				0,
+				0,
+			),
+		);
+		if (proposal.reason) {
+			this.bodyContainer.addChild(new Text(theme.fg("muted", proposal.reason), 0, 0));
+		}
+		this.bodyContainer.addChild(new Spacer(1));
+
+		const lines = renderDiff(formatConsolidationDiff(proposal)).split("\n");
+		const shown = lines.slice(0, this.maxDiffLines);
+		if (lines.length > shown.length) {
+			shown.push(theme.fg("muted", `… ${lines.length - shown.length} more lines`));
+		}
+		this.bodyContainer.addChild(new Text(shown.join("\n"), 1, 0));
+	}
+
+	private decide(accept: boolean): void {
+		if (accept) this.accepted.push(this.proposals[this.index]);
+		this.index++;
+		if (this.index >= this.proposals.length) {
+			this.onDone(this.accepted);
+			return;
+		}
+		this.updateView();
+	}
+
+	handleInput(keyData: string): void {
+		const kb = getEditorKeybindings();
+		if (keyData === "y" || kb.matches(keyData, "selectConfirm")) {
+			this.decide(true);
+		} else if (keyData === "n") {
+			this.decide(false);
+		} else if (keyData === "a") {
+			this.accepted.push(...this.proposals.slice(this.index));
+			this.index = this.proposals.length;
+			this.onDone(this.accepted);
+		} else if (kb.matches(keyData, "selectCancel")) {
+			this.onDone(this.accepted);
+		}
+	}
+}
@@ -45,6 +45,8 @@ import {
 import { spawn, spawnSync } from "child_process";
 import {
 	APP_NAME,
+	CONFIG_DIR_NAME,
+	getAgentDir,
 	getAuthPath,
 	getDebugLogPath,
 	getShareViewerUrl,
@@ -63,26 +65,68 @@ import type {
 import { FooterDataProvider, type ReadonlyFooterDataProvider } from "../../core/footer-data-provider.js";
 import { type AppAction, KeybindingsManager } from "../../core/keybindings.js";
 import {
-	compactEpisodicMemories,
-	type EpisodicMemory,
-	formatEpisodicForDisplay,
-	formatProceduralForDisplay,
-	formatSemanticForDisplay,
-	loadStore,
-	type ProceduralMemory,
+	applyConsolidationProposal,
+	CONTEXT_FILE_NAMES,
+	type ConsolidationProposal,
+	type ConsolidationResult,
+	createContextFileBundle,
+	createMemoryRedactor,
+	deleteMemoryEntries,
+	drainMemoryStoreErrors,
+	exportMemories,
+	findBackendEntry,
+	findContextFiles,
+	findMemoryVersions,
+	formatMemoryAppliesTo,
+	formatMemoryAuthor,
+	formatMemoryBlock,
+	formatMemoryEntryForDisplay,
+	formatMemoryForEditing,
+	formatMemoryHistory,
+	formatMemoryImportDiff,
+	formatMemoryRedactions,
+	formatMemoryUsageStats,
+	getDefaultMemoryExportFile,
+	getMemoryKey,
+	getMemoryUsageStats,
+	getProcedureCommands,
+	getProcedureName,
+	getPublishTarget,
+	getRecordedSteps,
+	getTeamMemoryDir,
+	importMemories,
+	loadBackendEntries,
+	type MemoryAuthor,
+	type MemoryEntry,
+	type MemoryLayer,
+	type MemoryRedactor,
 	type MemoryScope,
+	mergeMemoryEntries,
+	PROCEDURE_COMMAND_PREFIX,
+	type ProceduralMemory,
+	type ProcedureCommand,
+	parseMemoryEdit,
+	promoteProcedureToSkill,
+	publishMemories,
+	type RecordingDistillResult,
+	readMemoryBundle,
+	redactMemory,
+	resolveMemoryLayers,
 	resolveMemoryScope,
-	type SemanticMemory,
-	saveStore,
-	searchMemories,
-} from "../../core/memory.js";
+	restoreMemoryVersion,
+	saveMemoryEntry,
+	saveRecordedProcedure,
+	searchBackendEntries,
+	setMemoriesPinned,
+	undoLastMemoryChange,
+} from "../../core/memory/index.js";
 import { createCompactionSummaryMessage } from "../../core/messages.js";
 import { resolveModelScope } from "../../core/model-resolver.js";
 import type { ResourceDiagnostic } from "../../core/resource-loader.js";
 import { type SessionContext, SessionManager } from "../../core/session-manager.js";
 import { BUILTIN_SLASH_COMMANDS } from "../../core/slash-commands.js";
 import type { TruncationResult } from "../../core/tools/truncate.js";
-import { getChangelogPath, getNewEntries, parseChangelog } from "../../utils/changelog.js";
+import { getChangelogPath, parseChangelog } from "../../utils/changelog.js";
 import { copyToClipboard } from "../../utils/clipboard.js";
 import { extensionForImageMimeType, readClipboardImage } from "../../utils/clipboard-image.js";
 import { ensureTool } from "../../utils/tools-manager.js";
@@ -102,6 +146,8 @@ import { ExtensionSelectorComponent } from "./components/extension-selector.js";
 import { FooterComponent } from "./components/footer.js";
 import { appKey, appKeyHint, editorKey, keyHint, rawKeyHint } from "./components/keybinding-hints.js";
 import { LoginDialogComponent } from "./components/login-dialog.js";
+import { MemoryBrowserComponent } from "./components/memory-browser.js";
+import { MemoryConsolidationReviewComponent } from "./components/memory-consolidation.js";
 import { ModelSelectorComponent } from "./components/model-selector.js";
 import { OAuthSelectorComponent } from "./components/oauth-selector.js";
 import { ScopedModelsSelectorComponent } from "./components/scoped-models-selector.js";
@@ -204,6 +250,8 @@ export class InteractiveMode {
 
 	// Skill commands: command name -> skill file path
 	private skillCommands = new Map<string, string>();
+	/** Procedure commands in autocomplete, reloaded when procedural memories change */
+	private procedureCommands: ProcedureCommand[] = [];
 
 	// Agent subscription unsubscribe function
 	private unsubscribe?: () => void;
@@ -225,6 +273,13 @@ export class InteractiveMode {
 	private retryLoader: Loader | undefined = undefined;
 	private retryEscapeHandler?: () => void;
 
+	// Episodic memory capture state
+	private memoryCaptureLoader: Loader | undefined = undefined;
+	private memoryCaptureEscapeHandler?: () => void;
+
+	// Teach mode: the procedure being demonstrated since /memory record
+	private memoryRecording: { name: string; started: string } | undefined = undefined;
+
 	// Messages queued while compaction is running
 	private compactionQueuedMessages: CompactionQueuedMessage[] = [];
 
@@ -367,9 +422,15 @@ export class InteractiveMode {
 			}
 		}
 
+		// Procedure commands from procedural memories (see refreshProcedureCommands)
+		const procedureCommandList: SlashCommand[] = this.procedureCommands.map((command) => ({
+			name: command.name,
+			description: command.description,
+		}));
+
 		// Setup autocomplete
 		this.autocompleteProvider = new CombinedAutocompleteProvider(
-			[...slashCommands, ...templateCommands, ...extensionCommands, ...skillCommandList],
+			[...slashCommands, ...templateCommands, ...extensionCommands, ...skillCommandList, ...procedureCommandList],
 			process.cwd(),
 			fdPath,
 		);
@@ -379,6 +440,23 @@ export class InteractiveMode {
 		}
 	}
 
+	/** Procedural memories runnable as /proc:<name> */
+	private async loadProcedureCommands(): Promise<ProcedureCommand[]> {
+		if (!this.settingsManager.getMemoryEnabled()) return [];
+		const layers = resolveMemoryLayers(process.cwd(), this.settingsManager.getMemoryLayers());
+		return getProcedureCommands(await loadBackendEntries(this.session.memoryBackend, layers));
+	}
+
+	/** Rebuild autocomplete if procedural memories were added, renamed or removed */
+	private async refreshProcedureCommands(): Promise<void> {
+		const commands = await this.loadProcedureCommands();
+		const getNames = (list: ProcedureCommand[]) => list.map((command) => command.name).join("\n");
+		if (getNames(commands) !== getNames(this.procedureCommands)) {
+			this.procedureCommands = commands;
+			this.setupAutocomplete(this.fdPath);
+		}
+	}
+
 	async init(): Promise<void> {
 		if (this.isInitialized) return;
 
@@ -1083,6 +1161,7 @@ export class InteractiveMode {
 
 		setRegisteredThemes(this.session.resourceLoader.getThemes().themes);
 		this.setupAutocomplete(this.fdPath);
+		await this.refreshProcedureCommands();
 
 		const extensionRunner = this.session.extensionRunner;
 		if (!extensionRunner) {
@@ -1959,7 +2038,14 @@ export class InteractiveMode {
 				} else {
 					const args = text.startsWith("/memory ") ? text.slice(8).trim() : "";
 					this.editor.setText("");
-					await this.handleMemoryCommand(args);
+					// The editor does not await onSubmit, so failures must be reported here
+					try {
+						await this.handleMemoryCommand(args);
+						this.reportMemoryStoreErrors();
+						await this.refreshProcedureCommands();
+					} catch (error) {
+						this.showError(`/memory failed: ${error instanceof Error ? error.message : String(error)}`);
+					}
 				}
 				return;
 			}
@@ -2225,6 +2311,8 @@ export class InteractiveMode {
 					this.streamingMessage = undefined;
 				}
 				this.pendingTools.clear();
+				this.reportMemoryStoreErrors();
+				await this.refreshProcedureCommands();
 
 				await this.checkShutdownRequested();
 
@@ -2279,6 +2367,7 @@ export class InteractiveMode {
 						timestamp: Date.now(),
 					});
 					this.footer.invalidate();
+					this.showHarvestedMemories(event.result);
 				} else if (event.errorMessage) {
 					// Compaction failed (e.g., quota exceeded, API error)
 					this.chatContainer.addChild(new Spacer(1));
@@ -2328,6 +2417,43 @@ export class InteractiveMode {
 				this.ui.requestRender();
 				break;
 			}
+
+			case "memory_capture_start": {
+				// Set up escape to skip capture
+				this.memoryCaptureEscapeHandler = this.defaultEditor.onEscape;
+				this.defaultEditor.onEscape = () => {
+					this.session.abortEpisodeCapture();
+				};
+				this.statusContainer.clear();
+				this.memoryCaptureLoader = new Loader(
+					this.ui,
+					(spinner) => theme.fg("accent", spinner),
+					(text) => theme.fg("muted", text),
+					`Saving session to memory... (${appKey(this.keybindings, "interrupt")} to skip)`,
+				);
+				this.statusContainer.addChild(this.memoryCaptureLoader);
+				this.ui.requestRender();
+				break;
+			}
+
+			case "memory_capture_end": {
+				if (this.memoryCaptureEscapeHandler) {
+					this.defaultEditor.onEscape = this.memoryCaptureEscapeHandler;
+					this.memoryCaptureEscapeHandler = undefined;
+				}
+				if (this.memoryCaptureLoader) {
+					this.memoryCaptureLoader.stop();
+					this.memoryCaptureLoader = undefined;
+					this.statusContainer.clear();
+				}
+				if (event.episodeId) {
+					this.showStatus(`Saved session as episodic memory [${event.episodeId}]`);
+				} else if (event.errorMessage) {
+					this.showWarning(`Could not save session to memory: ${event.errorMessage}`);
+				}
+				this.ui.requestRender();
+				break;
+			}
 		}
 	}
 
@@ -2585,6 +2711,8 @@ export class InteractiveMode {
 		if (this.isShuttingDown) return;
 		this.isShuttingDown = true;
 
+		await this.session.captureSessionEpisode("shutdown");
+
 		// Emit shutdown event to extensions
 		const extensionRunner = this.session.extensionRunner;
 		if (extensionRunner?.hasHandlers("session_shutdown")) {
@@ -3793,6 +3921,7 @@ export class InteractiveMode {
 			this.ui.setShowHardwareCursor(this.settingsManager.getShowHardwareCursor());
 			this.ui.setClearOnShrink(this.settingsManager.getClearOnShrink());
 			this.setupAutocomplete(this.fdPath);
+			await this.refreshProcedureCommands();
 			const runner = this.session.extensionRunner;
 			if (runner) {
 				this.setupExtensionShortcuts(runner);
@@ -4216,41 +4345,305 @@ export class InteractiveMode {
 		return resolveMemoryScope(process.cwd(), this.settingsManager.getMemoryScope());
 	}
 
+	/** The write scope and the writable layers, whose histories /memory history, undo and restore use */
+	private getWritableMemoryScopes(layers: MemoryLayer[]): MemoryScope[] {
+		const scopes = layers.filter((layer): layer is MemoryScope => layer !== "team");
+		return scopes.includes(this.getMemoryScope()) ? scopes : [this.getMemoryScope(), ...scopes];
+	}
+
+	/** Attribute a memory change made with a /memory command in the memory history */
+	private getMemoryCommandAuthor(name: string): MemoryAuthor {
+		return { kind: "command", name, sessionId: this.sessionManager.getSessionId() };
+	}
+
+	/** Warn about corrupt memory stores that were moved aside since the last check */
+	private reportMemoryStoreErrors(): void {
+		for (const { filepath, quarantinePath, error } of drainMemoryStoreErrors()) {
+			if (quarantinePath) {
+				this.showWarning(`Memory store ${filepath} was corrupt (${error.message}). Moved it to ${quarantinePath}.`);
+			} else {
+				this.showWarning(`Ignoring invalid memory file ${filepath}: ${error.message}`);
+			}
+		}
+	}
+
+	private showMemoryBrowser(layers: MemoryLayer[]): void {
+		const backend = this.session.memoryCommandBackend;
+		const author = this.getMemoryCommandAuthor("/memory browse");
+		this.showSelector((done) => {
+			const browser = new MemoryBrowserComponent(
+				this.ui,
+				this.keybindings,
+				this.ui.terminal.rows,
+				{
+					load: () => loadBackendEntries(backend, layers),
+					save: (entry, memory) => saveMemoryEntry(backend, entry, memory, author),
+					delete: (entries) => deleteMemoryEntries(backend, entries, author),
+					merge: (entries) => mergeMemoryEntries(backend, entries, author),
+					setPinned: (entries, pinned) => setMemoriesPinned(backend, entries, pinned, author),
+				},
+				() => {
+					done();
+					this.reportMemoryStoreErrors();
+					this.ui.requestRender();
+				},
+			);
+			return { component: browser, focus: browser };
+		});
+	}
+
+	/** Propose consolidation changes with a model, review each as a diff, apply the accepted ones */
+	private async handleMemoryConsolidate(layers: MemoryLayer[]): Promise<void> {
+		const entries = await loadBackendEntries(
+			this.session.memoryBackend,
+			layers.filter((l) => l !== "team"),
+		);
+		if (entries.length < 2) {
+			this.showStatus("Not enough memories to consolidate.");
+			return;
+		}
+
+		const originalOnEscape = this.defaultEditor.onEscape;
+		this.defaultEditor.onEscape = () => {
+			this.session.abortMemoryConsolidation();
+		};
+		this.chatContainer.addChild(new Spacer(1));
+		const loader = new Loader(
+			this.ui,
+			(spinner) => theme.fg("accent", spinner),
+			(text) => theme.fg("muted", text),
+			`Consolidating ${entries.length} memories... (${appKey(this.keybindings, "interrupt")} to cancel)`,
+		);
+		this.statusContainer.addChild(loader);
+		this.ui.requestRender();
+
+		let result: ConsolidationResult;
+		try {
+			result = await this.session.consolidateMemories(entries);
+		} catch (error) {
+			this.showError(error instanceof Error ? error.message : String(error));
+			return;
+		} finally {
+			loader.stop();
+			this.statusContainer.clear();
+			this.defaultEditor.onEscape = originalOnEscape;
+		}
+
+		if (result.aborted) {
+			this.showStatus("Memory consolidation cancelled");
+			return;
+		}
+		if (result.error) {
+			this.showError(`Memory consolidation failed: ${result.error}`);
+			if (result.proposals.length === 0) return;
+		}
+		const invalid = result.invalid > 0 ? ` (${result.invalid} malformed proposals ignored)` : "";
+		if (result.proposals.length === 0) {
+			this.showStatus(`No consolidation changes proposed${invalid}.`);
+			return;
+		}
+
+		const accepted = await new Promise<ConsolidationProposal[]>((resolve) => {
+			this.showSelector((done) => {
+				const review = new MemoryConsolidationReviewComponent(result.proposals, this.ui.terminal.rows, (chosen) => {
+					done();
+					resolve(chosen);
+				});
+				return { component: review, focus: review };
+			});
+		});
+
+		let applied = 0;
+		for (const proposal of accepted) {
+			try {
+				await applyConsolidationProposal(
+					this.session.memoryCommandBackend,
+					proposal,
+					this.getMemoryCommandAuthor("/memory consolidate"),
+				);
+				applied++;
+			} catch (error) {
+				this.showError(error instanceof Error ? error.message : String(error));
+			}
+		}
+		this.reportMemoryStoreErrors();
+		this.showStatus(`Applied ${applied} of ${result.proposals.length} consolidation changes${invalid}.`);
+	}
+
+	/** End a /memory record demonstration: distill it into a procedure, edit it, and save it */
+	private async handleMemoryStop(scope: MemoryScope): Promise<void> {
+		const recording = this.memoryRecording;
+		if (!recording) {
+			this.showWarning("Not recording. Start with /memory record <name>.");
+			return;
+		}
+		this.memoryRecording = undefined;
+		this.setExtensionStatus("memory-record", undefined);
+		const steps = getRecordedSteps(this.sessionManager.getBranch(), recording.started);
+		if (steps.length === 0) {
+			this.showWarning(`Nothing was recorded for "${recording.name}".`);
+			return;
+		}
+
+		const originalOnEscape = this.defaultEditor.onEscape;
+		this.defaultEditor.onEscape = () => {
+			this.session.abortRecordingDistill();
+		};
+		this.chatContainer.addChild(new Spacer(1));
+		const loader = new Loader(
+			this.ui,
+			(spinner) => theme.fg("accent", spinner),
+			(text) => theme.fg("muted", text),
+			`Distilling ${steps.length} recorded steps... (${appKey(this.keybindings, "interrupt")} to cancel)`,
+		);
+		this.statusContainer.addChild(loader);
+		this.ui.requestRender();
+
+		let result: RecordingDistillResult;
+		try {
+			result = await this.session.distillRecordedProcedure(recording.name, steps);
+		} catch (error) {
+			this.showError(error instanceof Error ? error.message : String(error));
+			return;
+		} finally {
+			loader.stop();
+			this.statusContainer.clear();
+			this.defaultEditor.onEscape = originalOnEscape;
+		}
+		if (result.aborted) {
+			this.showStatus("Recording discarded");
+			return;
+		}
+		if (!result.procedure) {
+			this.showError(`Could not distill "${recording.name}": ${result.error ?? "no procedure returned"}`);
+			return;
+		}
+
+		const draft: MemoryEntry = {
+			type: "procedural",
+			layer: scope,
+			memory: {
+				id: "",
+				...result.procedure,
+				created: "",
+				updated: "",
+				sourceSession: this.sessionManager.getSessionId(),
+			},
+		};
+		const edited = await this.showExtensionEditor(`Procedure "${recording.name}"`, formatMemoryForEditing(draft));
+		if (edited === undefined) {
+			this.showStatus("Recording discarded");
+			return;
+		}
+
+		let procedure: ProceduralMemory;
+		try {
+			procedure = parseMemoryEdit(draft, edited) as ProceduralMemory;
+		} catch (error) {
+			this.showError(`Invalid procedure: ${error instanceof Error ? error.message : String(error)}`);
+			return;
+		}
+		const redactor = createMemoryRedactor(this.settingsManager.getMemoryRedactionSettings());
+		const { value, redactions } = redactMemory(procedure, redactor);
+		if (redactions.length > 0 && redactor.action === "block") {
+			this.showError(
+				`Procedure not saved: it contains secrets or personal data (${formatMemoryRedactions(redactions)})`,
+			);
+			return;
+		}
+
+		const { id, action } = await saveRecordedProcedure(
+			this.session.memoryCommandBackend,
+			scope,
+			{ name: value.name, trigger: value.trigger, steps: value.steps, tags: value.tags, appliesTo: value.appliesTo },
+			{
+				sessionId: this.sessionManager.getSessionId(),
+				sessionFile: this.sessionManager.getSessionFile(),
+				entryId: this.sessionManager.getLeafId() ?? undefined,
+			},
+			this.getMemoryCommandAuthor("/memory stop"),
+		);
+		await this.refreshProcedureCommands();
+		this.showStatus(
+			`${action === "updated" ? "Updated" : "Saved"} procedure [${scope}:${id}] "${value.name}". Run it with /${PROCEDURE_COMMAND_PREFIX}${getProcedureName(value)}.`,
+		);
+	}
+
+	/** Open the session a memory was written from, with the tree selector on the triggering entry */
+	private async showMemoryOrigin(entry: MemoryEntry): Promise<void> {
+		const key = getMemoryKey(entry);
+		const origin = entry.memory.origin;
+		if (!origin?.sessionFile) {
+			this.showWarning(
+				origin
+					? `[${key}] was written in session ${origin.sessionId}, which was not saved to a file.`
+					: `[${key}] has no recorded origin (written before origins were tracked).`,
+			);
+			return;
+		}
+		if (!fs.existsSync(origin.sessionFile)) {
+			this.showWarning(`[${key}] was written in ${origin.sessionFile}, which no longer exists.`);
+			return;
+		}
+
+		if (origin.sessionFile !== this.sessionManager.getSessionFile()) {
+			await this.handleResumeSession(origin.sessionFile);
+			if (this.sessionManager.getSessionFile() !== origin.sessionFile) {
+				return;
+			}
+		}
+		if (!origin.entryId || !this.sessionManager.getEntry(origin.entryId)) {
+			this.showWarning(`Entry ${origin.entryId ?? "(unknown)"} of [${key}] is not in ${origin.sessionFile}.`);
+			return;
+		}
+		this.showTreeSelector(origin.entryId);
+	}
+
 	private async handleMemoryCommand(args: string): Promise<void> {
 		const cwd = process.cwd();
+		const backend = this.session.memoryCommandBackend;
 		const scope = this.getMemoryScope();
+		const layers = resolveMemoryLayers(cwd, this.settingsManager.getMemoryLayers());
 		const parts = args.trim().split(/\s+/);
 		const subcommand = parts[0] || "";
 
-		if (subcommand === "" || subcommand === "list") {
-			const semantic = loadStore<SemanticMemory>(cwd, "semantic.json", scope);
-			const procedural = loadStore<ProceduralMemory>(cwd, "procedural.json", scope);
-			const episodic = loadStore<EpisodicMemory>(cwd, "episodic.json", scope);
+		if (subcommand === "" || subcommand === "browse") {
+			this.showMemoryBrowser(layers);
+			return;
+		}
+
+		if (subcommand === "list") {
+			const procedural: string[] = [];
+			const semantic: string[] = [];
+			const episodic: string[] = [];
+			for (const e of await loadBackendEntries(backend, layers)) {
+				const key = e.memory.archived ? `${getMemoryKey(e)}, archived` : getMemoryKey(e);
+				const appliesTo = e.type === "episodic" ? undefined : formatMemoryAppliesTo(e.memory.appliesTo);
+				const scope = appliesTo ? ` (applies to ${appliesTo})` : "";
+				if (e.type === "procedural") {
+					procedural.push(`  [${key}] ${e.memory.name} -- ${e.memory.trigger}${scope}`);
+				} else if (e.type === "semantic") {
+					semantic.push(`  [${key}] (${e.memory.category}) ${e.memory.text}${scope}`);
+				} else {
+					episodic.push(`  [${key}] ${e.memory.date} -- ${e.memory.summary}`);
+				}
+			}
 
 			const lines: string[] = [
-				`Memory scope: ${scope}`,
-				`Procedural: ${procedural.memories.length} memories`,
-				`Episodic:   ${episodic.memories.length} memories`,
-				`Semantic:   ${semantic.memories.length} memories`,
+				`Memory layers: ${layers.join(", ")} (new memories go to ${scope})`,
+				`Procedural: ${procedural.length} memories`,
+				`Episodic:   ${episodic.length} memories`,
+				`Semantic:   ${semantic.length} memories`,
 			];
 
-			if (procedural.memories.length > 0) {
-				lines.push("", "Procedures:");
-				for (const m of procedural.memories) {
-					lines.push(`  [${m.id}] ${m.name} -- ${m.trigger}`);
-				}
+			if (procedural.length > 0) {
+				lines.push("", "Procedures:", ...procedural);
 			}
-			if (semantic.memories.length > 0) {
-				lines.push("", "Facts & Preferences:");
-				for (const m of semantic.memories) {
-					lines.push(`  [${m.id}] (${m.category}) ${m.text}`);
-				}
+			if (semantic.length > 0) {
+				lines.push("", "Facts & Preferences:", ...semantic);
 			}
-			if (episodic.memories.length > 0) {
-				lines.push("", "Recent Episodes:");
-				for (const m of episodic.memories.slice(-5)) {
-					lines.push(`  [${m.id}] ${m.date} -- ${m.summary}`);
-				}
+			if (episodic.length > 0) {
+				lines.push("", "Recent Episodes:", ...episodic.slice(-5));
 			}
 
 			this.showStatus(lines.join("\n"));
@@ -4263,20 +4656,27 @@ export class InteractiveMode {
 				this.showWarning("Usage: /memory show <id>");
 				return;
 			}
-			const allStores: Array<{ file: string; format: (m: any) => string }> = [
-				{ file: "procedural.json", format: formatProceduralForDisplay },
-				{ file: "episodic.json", format: formatEpisodicForDisplay },
-				{ file: "semantic.json", format: formatSemanticForDisplay },
-			];
-			for (const { file, format } of allStores) {
-				const store = loadStore<any>(cwd, file, scope);
-				const found = store.memories.find((m: any) => m.id === id);
-				if (found) {
-					this.showStatus(format(found));
-					return;
-				}
+			const found = await findBackendEntry(backend, layers, id);
+			if (found) {
+				this.showStatus(formatMemoryEntryForDisplay(found));
+			} else {
+				this.showWarning(`No memory found with ID "${id}".`);
 			}
-			this.showWarning(`No memory found with ID "${id}".`);
+			return;
+		}
+
+		if (subcommand === "origin") {
+			const id = parts[1];
+			if (!id) {
+				this.showWarning("Usage: /memory origin <id>");
+				return;
+			}
+			const found = await findBackendEntry(backend, layers, id);
+			if (!found) {
+				this.showWarning(`No memory found with ID "${id}".`);
+				return;
+			}
+			await this.showMemoryOrigin(found);
 			return;
 		}
 
@@ -4286,28 +4686,14 @@ export class InteractiveMode {
 				this.showWarning("Usage: /memory search <query>");
 				return;
 			}
-			const results: string[] = [];
-
-			const procStore = loadStore<ProceduralMemory>(cwd, "procedural.json", scope);
-			const procMatches = searchMemories(
-				procStore.memories,
-				query,
-				(m) => `${m.name} ${m.trigger} ${m.steps.join(" ")}`,
-			);
-			results.push(...procMatches.map(formatProceduralForDisplay));
-
-			const epStore = loadStore<EpisodicMemory>(cwd, "episodic.json", scope);
-			const epMatches = searchMemories(epStore.memories, query, (m) => `${m.summary} ${m.details.join(" ")}`);
-			results.push(...epMatches.map(formatEpisodicForDisplay));
-
-			const semStore = loadStore<SemanticMemory>(cwd, "semantic.json", scope);
-			const semMatches = searchMemories(semStore.memories, query, (m) => `${m.category} ${m.text}`);
-			results.push(...semMatches.map(formatSemanticForDisplay));
+			const matches = await searchBackendEntries(backend, layers, query, {
+				embedder: this.session.memoryEmbedder,
+			});
 
-			if (results.length === 0) {
+			if (matches.length === 0) {
 				this.showStatus(`No memories matching "${query}".`);
 			} else {
-				this.showStatus(results.join("\n\n"));
+				this.showStatus(matches.map(formatMemoryEntryForDisplay).join("\n\n"));
 			}
 			return;
 		}
@@ -4318,45 +4704,290 @@ export class InteractiveMode {
 				this.showWarning("Usage: /memory delete <id>");
 				return;
 			}
-			const files = ["procedural.json", "episodic.json", "semantic.json"] as const;
-			for (const file of files) {
-				const store = loadStore<{ id: string }>(cwd, file, scope);
-				const idx = store.memories.findIndex((m) => m.id === id);
-				if (idx !== -1) {
-					store.memories.splice(idx, 1);
-					saveStore(cwd, file, store, scope);
-					this.showStatus(`Deleted [${id}] from ${file.replace(".json", "")}.`);
-					return;
-				}
+			const found = await findBackendEntry(backend, layers, id);
+			if (!found) {
+				this.showWarning(`No memory found with ID "${id}".`);
+				return;
+			}
+			const layer = found.layer ?? scope;
+			if (layer === "team") {
+				this.showWarning(
+					`[${id}] is a team memory. Team memories are read-only; edit ${getTeamMemoryDir(cwd)} instead.`,
+				);
+				return;
 			}
-			this.showWarning(`No memory found with ID "${id}".`);
+			await backend.update<{ id: string }, void>(
+				found.type,
+				layer,
+				(store) => {
+					store.memories = store.memories.filter((m) => m.id !== found.memory.id);
+				},
+				{ author: this.getMemoryCommandAuthor("/memory delete") },
+			);
+			this.showStatus(`Deleted [${getMemoryKey(found)}] from ${found.type}.`);
+			return;
+		}
+
+		if (subcommand === "consolidate" || subcommand === "compact") {
+			await this.handleMemoryConsolidate(layers);
 			return;
 		}
 
-		if (subcommand === "compact") {
-			const epStore = loadStore<EpisodicMemory>(cwd, "episodic.json", scope);
-			const before = epStore.memories.length;
-			epStore.memories = compactEpisodicMemories(epStore.memories);
-			const after = epStore.memories.length;
-			saveStore(cwd, "episodic.json", epStore, scope);
-
-			const semStore = loadStore<SemanticMemory>(cwd, "semantic.json", scope);
-			const semBefore = semStore.memories.length;
-			const seen = new Set<string>();
-			semStore.memories = semStore.memories.filter((m) => {
-				const key = `${m.category}:${m.text.toLowerCase()}`;
-				if (seen.has(key)) return false;
-				seen.add(key);
-				return true;
+		if (subcommand === "export") {
+			const file = path.resolve(cwd, parts[1] || getDefaultMemoryExportFile());
+			const bundle = await exportMemories(backend, layers, file, cwd);
+			const count =
+				(bundle.procedural?.length ?? 0) + (bundle.episodic?.length ?? 0) + (bundle.semantic?.length ?? 0);
+			this.showStatus(`Exported ${count} memories from ${layers.join(", ")} to ${file}`);
+			return;
+		}
+
+		if (subcommand === "import") {
+			const dryRun = parts.includes("--dry-run");
+			const fileArg = parts.slice(1).find((p) => p !== "--dry-run");
+			if (!fileArg) {
+				this.showWarning("Usage: /memory import <file> [--dry-run]");
+				return;
+			}
+			let bundle: ReturnType<typeof readMemoryBundle>;
+			let redactor: MemoryRedactor;
+			try {
+				bundle = readMemoryBundle(path.resolve(cwd, fileArg));
+				redactor = createMemoryRedactor(this.settingsManager.getMemoryRedactionSettings());
+			} catch (error) {
+				this.showError(error instanceof Error ? error.message : String(error));
+				return;
+			}
+
+			const preview = await importMemories(backend, scope, bundle, { dryRun: true, redactor });
+			this.showStatus(formatMemoryImportDiff(preview));
+			if (dryRun || preview.added.length === 0) {
+				return;
+			}
+			const confirmed = await this.showExtensionConfirm(
+				"Import memories?",
+				`Add ${preview.added.length} memories to the ${scope} scope.`,
+			);
+			if (!confirmed) {
+				this.showStatus("Import cancelled.");
+				return;
+			}
+			const result = await importMemories(backend, scope, bundle, {
+				redactor,
+				author: { ...this.getMemoryCommandAuthor("/memory import"), kind: "import" },
+			});
+			this.showStatus(formatMemoryImportDiff(result).split("\n")[0]);
+			return;
+		}
+
+		if (subcommand === "record") {
+			const name = parts.slice(1).join(" ").trim();
+			if (!name) {
+				this.showWarning("Usage: /memory record <name>");
+				return;
+			}
+			if (this.memoryRecording) {
+				this.showWarning(`Already recording "${this.memoryRecording.name}". Run /memory stop first.`);
+				return;
+			}
+			this.memoryRecording = { name, started: new Date().toISOString() };
+			this.setExtensionStatus("memory-record", theme.fg("error", `● recording "${name}"`));
+			this.showStatus(
+				`Recording "${name}". Demonstrate it with ! commands and prompts, correct the agent as needed, then run /memory stop.`,
+			);
+			return;
+		}
+
+		if (subcommand === "stop") {
+			await this.handleMemoryStop(scope);
+			return;
+		}
+
+		if (subcommand === "import-context") {
+			const dryRun = parts.includes("--dry-run");
+			const fileArgs = parts.slice(1).filter((p) => p !== "--dry-run");
+			const files = fileArgs.length > 0 ? fileArgs.map((f) => path.resolve(cwd, f)) : findContextFiles(cwd);
+			if (files.length === 0) {
+				this.showWarning(`No context files found (${CONTEXT_FILE_NAMES.join(", ")}, .cursor/rules/*.mdc).`);
+				return;
+			}
+			let bundle: ReturnType<typeof createContextFileBundle>;
+			let redactor: MemoryRedactor;
+			try {
+				bundle = createContextFileBundle(files, this.sessionManager.getSessionId());
+				redactor = createMemoryRedactor(this.settingsManager.getMemoryRedactionSettings());
+			} catch (error) {
+				this.showError(error instanceof Error ? error.message : String(error));
+				return;
+			}
+
+			const preview = await importMemories(backend, scope, bundle, { dryRun: true, redactor });
+			const read = files.map((f) => path.relative(cwd, f)).join(", ");
+			this.showStatus(`Read ${read}\n${formatMemoryImportDiff(preview)}`);
+			if (dryRun || preview.added.length === 0) {
+				return;
+			}
+			const confirmed = await this.showExtensionConfirm(
+				"Import context files?",
+				`Add ${preview.added.length} memories to the ${scope} scope.`,
+			);
+			if (!confirmed) {
+				this.showStatus("Import cancelled.");
+				return;
+			}
+			const result = await importMemories(backend, scope, bundle, {
+				redactor,
+				author: { ...this.getMemoryCommandAuthor("/memory import-context"), kind: "import" },
 			});
-			const semAfter = semStore.memories.length;
-			saveStore(cwd, "semantic.json", semStore, scope);
+			this.showStatus(formatMemoryImportDiff(result).split("\n")[0]);
+			return;
+		}
+
+		if (subcommand === "publish") {
+			const dryRun = parts.includes("--dry-run");
+			const refs = parts.slice(1).filter((p) => p !== "--dry-run");
+			// Without IDs, publish the project's facts and procedures
+			let entries = (await loadBackendEntries(backend, layers)).filter(
+				(e) => e.layer === "project" && e.type !== "episodic" && !e.memory.archived,
+			);
+			if (refs.length > 0) {
+				entries = [];
+				for (const ref of refs) {
+					const found = await findBackendEntry(backend, layers, ref);
+					if (!found || found.type === "episodic") {
+						this.showWarning(`No semantic or procedural memory found with ID "${ref}".`);
+						return;
+					}
+					entries.push(found);
+				}
+			}
+			if (entries.length === 0) {
+				this.showWarning("No project memories to publish. Pass memory IDs to publish others.");
+				return;
+			}
+
+			const target = getPublishTarget(cwd);
+			const relativeTarget = path.relative(cwd, target);
+			this.showStatus(`${relativeTarget}:\n${formatMemoryBlock(entries)}`);
+			if (dryRun) {
+				return;
+			}
+			const confirmed = await this.showExtensionConfirm(
+				"Publish memories?",
+				`Write ${entries.length} memories to the managed block of ${relativeTarget}. The rest of the file is kept.`,
+			);
+			if (!confirmed) {
+				this.showStatus("Publish cancelled.");
+				return;
+			}
+			try {
+				publishMemories(target, entries);
+			} catch (error) {
+				this.showError(error instanceof Error ? error.message : String(error));
+				return;
+			}
+			this.showStatus(`Published ${entries.length} memories to ${relativeTarget}. Run /reload to load it.`);
+			return;
+		}
+
+		if (subcommand === "stats") {
+			const archive = this.settingsManager.getMemoryArchiveSettings();
+			const stats = getMemoryUsageStats(await loadBackendEntries(backend, layers));
+			this.showStatus(
+				`Memory usage (${layers.join(", ")}):\n${formatMemoryUsageStats(stats, archive.enabled ? archive.ttlDays : undefined)}`,
+			);
+			return;
+		}
+
+		if (subcommand === "promote") {
+			const id = parts[1];
+			if (!id) {
+				this.showWarning("Usage: /memory promote <id>");
+				return;
+			}
+			const found = await findBackendEntry(backend, layers, id);
+			if (found?.type !== "procedural") {
+				this.showWarning(`No procedural memory found with ID "${id}".`);
+				return;
+			}
+			// Global procedures become user skills, project and team procedures project skills
+			const skillsDir =
+				found.layer === "global"
+					? path.join(getAgentDir(), "skills")
+					: path.resolve(cwd, CONFIG_DIR_NAME, "skills");
+			let filePath: string;
+			try {
+				filePath = promoteProcedureToSkill(found, skillsDir);
+			} catch (error) {
+				this.showError(error instanceof Error ? error.message : String(error));
+				return;
+			}
+			this.showStatus(`Wrote ${filePath}. Run /reload to use it as /skill:${getProcedureName(found.memory)}.`);
+			return;
+		}
 
-			this.showStatus(`Compacted: episodic ${before} -> ${after}, semantic ${semBefore} -> ${semAfter}`);
+		if (subcommand === "history") {
+			const ref = parts[1];
+			if (!ref) {
+				this.showWarning("Usage: /memory history <id>");
+				return;
+			}
+			const history = await findMemoryVersions(backend, this.getWritableMemoryScopes(layers), ref);
+			if (history) {
+				this.showStatus(formatMemoryHistory(history));
+			} else {
+				this.showWarning(`No recorded history for "${ref}".`);
+			}
 			return;
 		}
 
-		this.showWarning("Usage: /memory [list|show <id>|search <query>|delete <id>|compact]");
+		if (subcommand === "undo") {
+			const undone = await undoLastMemoryChange(
+				backend,
+				this.getWritableMemoryScopes(layers),
+				this.getMemoryCommandAuthor("/memory undo"),
+			);
+			if (!undone) {
+				this.showStatus("No memory changes to undo.");
+				return;
+			}
+			const [first] = undone.records;
+			const changes = undone.records.map((r) => `${r.action} [${undone.scope}:${r.memoryId}]`).join(", ");
+			this.showStatus(`Undid ${changes} (${first.timestamp}, by ${formatMemoryAuthor(first.author)}).`);
+			return;
+		}
+
+		if (subcommand === "restore") {
+			const ref = parts[1];
+			const version = Number(parts[2]?.replace(/^v/, ""));
+			if (!ref || !parts[2] || !Number.isInteger(version)) {
+				this.showWarning("Usage: /memory restore <id> <version>");
+				return;
+			}
+			const history = await findMemoryVersions(backend, this.getWritableMemoryScopes(layers), ref);
+			if (!history) {
+				this.showWarning(`No recorded history for "${ref}".`);
+				return;
+			}
+			try {
+				await restoreMemoryVersion(
+					backend,
+					history.scope,
+					history.id,
+					version,
+					this.getMemoryCommandAuthor("/memory restore"),
+				);
+			} catch (error) {
+				this.showError(error instanceof Error ? error.message : String(error));
+				return;
+			}
+			this.showStatus(`Restored [${history.scope}:${history.id}] to version ${version}.`);
+			return;
+		}
+
+		this.showWarning(
+			"Usage: /memory [browse|list|show <id>|origin <id>|search <query>|delete <id>|promote <id>|stats|history <id>|undo|restore <id> <version>|consolidate|export [file]|import <file> [--dry-run]|record <name>|stop|import-context [file...] [--dry-run]|publish [id...] [--dry-run]]",
+		);
 	}
 
 	private handleArminSaysHi(): void {
@@ -4478,6 +5109,15 @@ export class InteractiveMode {
 		await this.executeCompaction(customInstructions, false);
 	}
 
+	/** Report the memories a compaction saved from the discarded messages (memory.harvest) */
+	private showHarvestedMemories(result: CompactionResult): void {
+		const memoryIds = result.memoryIds ?? [];
+		if (memoryIds.length === 0) return;
+		void this.refreshProcedureCommands();
+		const noun = memoryIds.length === 1 ? "memory" : "memories";
+		this.showStatus(`Saved ${memoryIds.length} ${noun} from the compacted messages: ${memoryIds.join(", ")}`);
+	}
+
 	private async executeCompaction(customInstructions?: string, isAuto = false): Promise<CompactionResult | undefined> {
 		// Stop loading animation
 		if (this.loadingAnimation) {
@@ -4518,6 +5158,7 @@ export class InteractiveMode {
 			this.addMessageToChat(msg);
 
 			this.footer.invalidate();
+			this.showHarvestedMemories(result);
 		} catch (error) {
 			const message = error instanceof Error ? error.message : String(error);
 			if (message === "Compaction cancelled" || (error instanceof Error && error.name === "AbortError")) {
@@ -1,3 +1,5 @@
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
 import hostedGitInfo from "hosted-git-info";
 
 /**
@@ -190,3 +192,57 @@ export function parseGitUrl(source: string): GitSource | null {
 
 	return parseGenericGitUrl(url);
 }
+
+/**
+ * Find the working tree root and HEAD path by walking up from cwd.
+ * Handles both regular git repos (.git is a directory) and worktrees (.git is a file).
+ */
+function findGitCheckout(cwd: string): { root: string; headPath: string } | null {
+	let dir = resolve(cwd);
+	while (true) {
+		const gitPath = join(dir, ".git");
+		if (existsSync(gitPath)) {
+			try {
+				const stat = statSync(gitPath);
+				if (stat.isFile()) {
+					const content = readFileSync(gitPath, "utf8").trim();
+					if (content.startsWith("gitdir: ")) {
+						const gitDir = content.slice(8);
+						const headPath = resolve(dir, gitDir, "HEAD");
+						if (existsSync(headPath)) return { root: dir, headPath };
+					}
+				} else if (stat.isDirectory()) {
+					const headPath = join(gitPath, "HEAD");
+					if (existsSync(headPath)) return { root: dir, headPath };
+				}
+			} catch {
+				return null;
+			}
+		}
+		const parent = dirname(dir);
+		if (parent === dir) return null;
+		dir = parent;
+	}
+}
+
+/** Path of the HEAD file of the git repo containing cwd, or null outside a repo */
+export function findGitHeadPath(cwd: string = process.cwd()): string | null {
+	return findGitCheckout(cwd)?.headPath ?? null;
+}
+
+/** Root of the git working tree containing cwd, or null outside a repo */
+export function findGitRoot(cwd: string = process.cwd()): string | null {
+	return findGitCheckout(cwd)?.root ?? null;
+}
+
+/** Current git branch of the repo containing cwd, null if not in repo, "detached" if detached HEAD */
+export function readGitBranch(cwd: string = process.cwd()): string | null {
+	try {
+		const headPath = findGitHeadPath(cwd);
+		if (!headPath) return null;
+		const content = readFileSync(headPath, "utf8").trim();
+		return content.startsWith("ref: refs/heads/") ? content.slice(16) : "detached";
+	} catch {
+		return null;
+	}
+}
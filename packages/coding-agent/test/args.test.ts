@@ -115,6 +115,17 @@ describe("parseArgs", () => {
 			expect(result.export).toBe("session.jsonl");
 		});
 
+		test("parses --memory-export with and without a file", () => {
+			expect(parseArgs(["--memory-export", "memories.json"]).memoryExport).toBe("memories.json");
+			expect(parseArgs(["--memory-export", "--verbose"]).memoryExport).toBe(true);
+		});
+
+		test("parses --memory-import with --dry-run", () => {
+			const result = parseArgs(["--memory-import", "memories.json", "--dry-run"]);
+			expect(result.memoryImport).toBe("memories.json");
+			expect(result.dryRun).toBe(true);
+		});
+
 		test("parses --thinking", () => {
 			const result = parseArgs(["--thinking", "high"]);
 			expect(result.thinking).toBe("high");
@@ -0,0 +1,132 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AgentMessage } from "@mariozechner/pi-agent-core";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+	buildMemoryPromptSection,
+	formatMemoryForEditing,
+	getMemoryActivationContext,
+	getRecentlyTouchedFiles,
+	loadMemoryEntries,
+	type MemoryActivationContext,
+	matchesMemoryAppliesTo,
+	parseMemoryEdit,
+	type SemanticMemory,
+} from "../src/core/memory/index.js";
+import { createMemoryUpdateTool, createMemoryWriteTool } from "../src/core/tools/memory.js";
+
+function context(overrides: Partial<MemoryActivationContext> = {}): MemoryActivationContext {
+	return { cwd: "", files: [], branch: "main", ...overrides };
+}
+
+function toolCall(name: string, path: string): AgentMessage {
+	return {
+		role: "assistant",
+		content: [{ type: "toolCall", id: `${name}-${path}`, name, arguments: { path } }],
+	} as unknown as AgentMessage;
+}
+
+describe("memory activation", () => {
+	const webUi = { paths: ["packages/web-ui/**"] };
+
+	test("path globs match the working directory or a touched file", () => {
+		expect(matchesMemoryAppliesTo(undefined, context())).toBe(true);
+		expect(matchesMemoryAppliesTo(webUi, context())).toBe(false);
+		expect(matchesMemoryAppliesTo(webUi, context({ cwd: "packages/web-ui" }))).toBe(true);
+		expect(matchesMemoryAppliesTo(webUi, context({ cwd: "packages/web-ui/src" }))).toBe(true);
+		expect(matchesMemoryAppliesTo(webUi, context({ cwd: "packages/pods" }))).toBe(false);
+		expect(matchesMemoryAppliesTo(webUi, context({ files: ["packages/web-ui/src/app.ts"] }))).toBe(true);
+		expect(matchesMemoryAppliesTo({ paths: ["packages/web-ui"] }, context({ files: ["packages/web-ui/a.ts"] }))).toBe(
+			true,
+		);
+		expect(matchesMemoryAppliesTo({ paths: ["**/*.sql"] }, context({ files: ["db/schema.sql"] }))).toBe(true);
+	});
+
+	test("branch patterns match the current branch", () => {
+		const release = { branches: ["release/*"] };
+		expect(matchesMemoryAppliesTo(release, context({ branch: "release/1.2" }))).toBe(true);
+		expect(matchesMemoryAppliesTo(release, context())).toBe(false);
+		expect(matchesMemoryAppliesTo(release, context({ branch: null }))).toBe(false);
+		expect(
+			matchesMemoryAppliesTo({ ...webUi, ...release }, context({ cwd: "packages/web-ui", branch: "main" })),
+		).toBe(false);
+	});
+
+	test("recently touched files come from the newest tool calls", () => {
+		const messages = [toolCall("read", "a.ts"), toolCall("edit", "b.ts"), toolCall("bash", "c.ts")];
+		expect(getRecentlyTouchedFiles(messages)).toEqual(["b.ts", "a.ts"]);
+		expect(getRecentlyTouchedFiles(messages, 1)).toEqual(["b.ts"]);
+	});
+});
+
+describe("memory activation in a repository", () => {
+	let root: string;
+
+	beforeEach(() => {
+		root = mkdtempSync(join(tmpdir(), "pi-memory-activation-"));
+		mkdirSync(join(root, ".git"));
+		writeFileSync(join(root, ".git", "HEAD"), "ref: refs/heads/feature/login\n");
+		mkdirSync(join(root, "packages", "pods"), { recursive: true });
+	});
+
+	afterEach(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+
+	test("paths are relative to the repository root", () => {
+		const cwd = join(root, "packages", "pods");
+		expect(getMemoryActivationContext(cwd, ["src/index.ts", "../web-ui/app.ts", "/elsewhere/x.ts"])).toEqual({
+			cwd: "packages/pods",
+			files: ["packages/pods/src/index.ts", "packages/web-ui/app.ts"],
+			branch: "feature/login",
+		});
+	});
+
+	test("memory_write stores the scope and the inlined prompt leaves out other packages", async () => {
+		const options = { scope: "project" as const };
+		const write = createMemoryWriteTool(root, options);
+		await write.execute("call", {
+			type: "semantic",
+			category: "convention",
+			text: "Use Lit decorators",
+			applies_to_paths: ["./packages/web-ui/**"],
+		});
+		await write.execute("call", { type: "semantic", category: "convention", text: "Use tabs" });
+
+		const [entry] = loadMemoryEntries(root, ["project"]);
+		expect(entry.memory).toMatchObject({ appliesTo: { paths: ["packages/web-ui/**"] } });
+
+		const pods = buildMemoryPromptSection(root, "project", { activation: context({ cwd: "packages/pods" }) });
+		expect(pods).toContain("Use tabs");
+		expect(pods).not.toContain("Use Lit decorators");
+		const webUi = buildMemoryPromptSection(root, "project", {
+			activation: context({ files: ["packages/web-ui/index.ts"] }),
+		});
+		expect(webUi).toContain('applies_to="packages/web-ui/**">Use Lit decorators');
+
+		await createMemoryUpdateTool(root, options).execute("call", { id: "sem_001", applies_to_paths: [] });
+		expect((loadMemoryEntries(root, ["project"])[0].memory as SemanticMemory).appliesTo).toBeUndefined();
+	});
+
+	test("the edit form shows and accepts paths and branches", () => {
+		const memory: SemanticMemory = {
+			id: "sem_001",
+			category: "convention",
+			text: "Use Lit decorators",
+			tags: [],
+			created: "2026-05-01T00:00:00.000Z",
+			sourceSession: "s",
+			appliesTo: { paths: ["packages/web-ui/**"] },
+		};
+		const entry = { type: "semantic" as const, memory, layer: "project" as const };
+		expect(formatMemoryForEditing(entry)).toContain("paths: packages/web-ui/**");
+
+		const edited = parseMemoryEdit(
+			entry,
+			"paths: packages/web-ui, packages/tui\nbranches: release/*",
+		) as SemanticMemory;
+		expect(edited.appliesTo).toEqual({ paths: ["packages/web-ui", "packages/tui"], branches: ["release/*"] });
+		expect((parseMemoryEdit(entry, "paths:") as SemanticMemory).appliesTo).toBeUndefined();
+	});
+});
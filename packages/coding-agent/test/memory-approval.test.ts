@@ -0,0 +1,125 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import type { ExtensionUIContext } from "../src/core/extensions/types.js";
+import {
+	confirmMemoryChange,
+	loadMemoryEntries,
+	type MemoryApprovalMode,
+	type SemanticMemory,
+} from "../src/core/memory/index.js";
+import { createMemoryTools } from "../src/core/tools/memory.js";
+import { getText } from "./utilities.js";
+
+/** A UI that answers dialogs from a script and records what it was shown */
+function createScriptedUI(choices: Array<string | undefined>, edits: Array<string | undefined> = []) {
+	const titles: string[] = [];
+	const ui = {
+		select: async (title: string) => {
+			titles.push(title);
+			return choices.shift();
+		},
+		editor: async () => edits.shift(),
+		notify: () => {},
+	} as unknown as ExtensionUIContext;
+	return { ui, titles };
+}
+
+describe("memory approval", () => {
+	let cwd: string;
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), "pi-memory-approval-"));
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+	});
+
+	function createTools(approval: MemoryApprovalMode, ui?: ExtensionUIContext) {
+		return createMemoryTools(cwd, {
+			scope: "project",
+			getApproval: () => approval,
+			confirmChange: (request, signal) => confirmMemoryChange(ui, request, signal),
+		});
+	}
+
+	function texts(): string[] {
+		return loadMemoryEntries(cwd, ["project"]).map((e) => (e.memory as SemanticMemory).text);
+	}
+
+	test("confirm mode shows the proposed memory and stores it once approved", async () => {
+		const { ui, titles } = createScriptedUI(["Approve"]);
+		const [write] = createTools("confirm", ui);
+
+		await write.execute("call", { type: "semantic", category: "convention", text: "Use tabs" });
+
+		expect(titles[0]).toContain("Save semantic memory to project?");
+		expect(titles[0]).toContain("text: Use tabs");
+		expect(texts()).toEqual(["Use tabs"]);
+	});
+
+	test("rejected changes are reported to the model and not stored", async () => {
+		const { ui } = createScriptedUI(["Reject", "Reject"]);
+		const [write, , , remove] = createTools("confirm", ui);
+
+		const result = await write.execute("call", { type: "semantic", category: "convention", text: "Use tabs" });
+
+		expect(result.details).toEqual({ rejected: true });
+		expect(getText(result)).toContain("rejected");
+		expect(texts()).toEqual([]);
+
+		await createTools("auto")[0].execute("call", { type: "semantic", category: "convention", text: "Use tabs" });
+		await remove.execute("call", { id: "sem_001" });
+		expect(texts()).toEqual(["Use tabs"]);
+	});
+
+	test("edited memories are stored as edited", async () => {
+		const { ui } = createScriptedUI(
+			["Edit", "Edit", "Approve"],
+			["not json", JSON.stringify({ category: "convention", text: "Indent with tabs", tags: ["style"] })],
+		);
+		const [write] = createTools("confirm", ui);
+
+		await write.execute("call", { type: "semantic", category: "convention", text: "Use tabs" });
+
+		expect(loadMemoryEntries(cwd, ["project"]).map((e) => e.memory)).toMatchObject([
+			{ text: "Indent with tabs", tags: ["style"] },
+		]);
+	});
+
+	test("edits that break the schema are not stored", async () => {
+		const { ui } = createScriptedUI(["Edit"], [JSON.stringify({ category: "opinion", text: "Use tabs" })]);
+		const [write] = createTools("confirm", ui);
+
+		const result = await write.execute("call", { type: "semantic", category: "convention", text: "Use tabs" });
+
+		expect(getText(result)).toContain("invalid");
+		expect(texts()).toEqual([]);
+	});
+
+	test("off mode and confirm mode without a UI reject every change", async () => {
+		for (const tools of [createTools("off"), createTools("confirm")]) {
+			const result = await tools[0].execute("call", { type: "semantic", category: "convention", text: "Use tabs" });
+			expect(result.details).toEqual({ rejected: true });
+		}
+		expect(texts()).toEqual([]);
+	});
+	test("a changed approval mode applies to the next change", async () => {
+		let approval: MemoryApprovalMode = "off";
+		const [write] = createMemoryTools(cwd, { scope: "project", getApproval: () => approval });
+
+		const description = write.description;
+		const rejected = await write.execute("call", { type: "semantic", category: "convention", text: "Use tabs" });
+		approval = "auto";
+		await write.execute("call", { type: "semantic", category: "convention", text: "Use tabs" });
+
+		expect(rejected.content).toEqual([
+			{ type: "text", text: 'Memory changes are turned off (memory.approval is "off"). Do not retry.' },
+		]);
+		expect(texts()).toEqual(["Use tabs"]);
+		expect(write.description).toBe(description);
+		expect(description).toContain("stored directly, shown to the user for approval, or rejected");
+	});
+});
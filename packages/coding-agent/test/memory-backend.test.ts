@@ -0,0 +1,96 @@
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+	getMemoryDir,
+	HashedNgramEmbedder,
+	InMemoryMemoryBackend,
+	loadBackendEntries,
+	loadMemoryEntries,
+	type SemanticMemory,
+	searchBackendEntries,
+} from "../src/core/memory/index.js";
+import { createAgentSession } from "../src/core/sdk.js";
+import { SessionManager } from "../src/core/session-manager.js";
+import { SettingsManager } from "../src/core/settings-manager.js";
+import { createMemoryTools } from "../src/core/tools/memory.js";
+import { getText, semantic } from "./utilities.js";
+
+describe("memory backends", () => {
+	let cwdA: string;
+	let cwdB: string;
+
+	beforeEach(() => {
+		cwdA = mkdtempSync(join(tmpdir(), "pi-memory-backend-a-"));
+		cwdB = mkdtempSync(join(tmpdir(), "pi-memory-backend-b-"));
+	});
+
+	afterEach(() => {
+		rmSync(cwdA, { recursive: true, force: true });
+		rmSync(cwdB, { recursive: true, force: true });
+	});
+
+	test("tool instances for different working directories do not share memories", async () => {
+		const [writeA, readA] = createMemoryTools(cwdA, { scope: "project" });
+		const [writeB] = createMemoryTools(cwdB, { scope: "project" });
+
+		await writeA.execute("call", { type: "semantic", category: "convention", text: "Use tabs" });
+		await writeB.execute("call", { type: "semantic", category: "convention", text: "Use spaces" });
+
+		expect(loadMemoryEntries(cwdA, ["project"]).map((e) => e.memory.id)).toEqual(["sem_001"]);
+		expect(loadMemoryEntries(cwdB, ["project"]).map((e) => e.memory.id)).toEqual(["sem_001"]);
+		const text = getText(await readA.execute("call", { type: "semantic" }));
+		expect(text).toContain("Use tabs");
+		expect(text).not.toContain("Use spaces");
+	});
+
+	test("tools write to an in-memory backend without touching the memory directories", async () => {
+		const backend = new InMemoryMemoryBackend({ project: { semantic: [semantic("sem_001", "Use tabs")] } });
+		const [write, read, update, remove] = createMemoryTools(cwdA, { backend, scope: "project" });
+
+		await write.execute("call", { type: "semantic", category: "convention", text: "Line width 120" });
+		await update.execute("call", { id: "sem_001", text: "Indent with tabs" });
+		await remove.execute("call", { id: "sem_002" });
+
+		expect((await loadBackendEntries(backend, ["project"])).map((e) => e.memory)).toMatchObject([
+			{ id: "sem_001", text: "Indent with tabs" },
+		]);
+		expect(getText(await read.execute("call", { id: "sem_001" }))).toContain("Indent with tabs");
+		expect(loadMemoryEntries(cwdA, ["project"])).toEqual([]);
+	});
+
+	test("in-memory backends return copies and search without a vector cache", async () => {
+		const backend = new InMemoryMemoryBackend({ global: { semantic: [semantic("sem_001", "Use tabs")] } });
+
+		const [loaded] = await backend.load("global");
+		(loaded.memory as SemanticMemory).text = "changed";
+
+		const matches = await searchBackendEntries(backend, ["global"], "tabs", {
+			embedder: new HashedNgramEmbedder(),
+		});
+		expect(matches.map((e) => e.memory)).toMatchObject([{ text: "Use tabs" }]);
+	});
+
+	test("sessions with a custom backend inline its memories and leave the memory directories alone", async () => {
+		const backend = new InMemoryMemoryBackend({ project: { semantic: [semantic("sem_001", "Use tabs")] } });
+		const { session } = await createAgentSession({
+			cwd: cwdA,
+			agentDir: cwdA,
+			sessionManager: SessionManager.inMemory(),
+			settingsManager: SettingsManager.inMemory({
+				memory: {
+					scope: "project",
+					layers: ["project"],
+					backend: "sqlite",
+					retrieval: { enabled: false },
+					archive: { enabled: false },
+				},
+			}),
+			memoryBackend: backend,
+		});
+
+		expect(session.systemPrompt).toContain("Use tabs");
+		expect(existsSync(getMemoryDir(cwdA, "project"))).toBe(false);
+	});
+});
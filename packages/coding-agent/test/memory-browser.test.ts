@@ -0,0 +1,102 @@
+import type { TUI } from "@mariozechner/pi-tui";
+import { beforeAll, describe, expect, test, vi } from "vitest";
+import { KeybindingsManager } from "../src/core/keybindings.js";
+import type { MemoryEntry } from "../src/core/memory/index.js";
+import {
+	type MemoryBrowserActions,
+	MemoryBrowserComponent,
+} from "../src/modes/interactive/components/memory-browser.js";
+import { initTheme } from "../src/modes/interactive/theme/theme.js";
+import { semantic, toEntry } from "./utilities.js";
+
+beforeAll(() => {
+	initTheme("dark");
+});
+
+const fakeTui = { requestRender: () => {}, terminal: { rows: 40, columns: 120 } } as unknown as TUI;
+
+/** Let the browser's pending loads and writes settle */
+function flush(): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+async function createBrowser(entries: MemoryEntry[]) {
+	const actions: MemoryBrowserActions = {
+		load: async () => entries,
+		save: vi.fn(async () => {}),
+		delete: vi.fn(async () => {}),
+		merge: vi.fn(async (targets: MemoryEntry[]) => targets[0]),
+		setPinned: vi.fn(async () => {}),
+	};
+	const onClose = vi.fn();
+	const browser = new MemoryBrowserComponent(fakeTui, KeybindingsManager.inMemory(), 40, actions, onClose);
+	await flush();
+	return { browser, actions, onClose };
+}
+
+function type(browser: MemoryBrowserComponent, text: string): void {
+	for (const ch of text) browser.handleInput(ch);
+}
+
+describe("MemoryBrowserComponent", () => {
+	const entries = [
+		toEntry(semantic("sem_001", "Use tabs", ["style"]), "project"),
+		toEntry(semantic("sem_002", "Squash merge PRs", ["git"]), "project"),
+		toEntry(semantic("sem_003", "Line width 120", ["style"]), "project"),
+	];
+
+	test("lists memories and previews the selected one", async () => {
+		const { browser } = await createBrowser(entries);
+		const output = browser.render(120).join("\n");
+
+		expect(output).toContain("[project:sem_001]");
+		expect(output).toContain("[project:sem_003]");
+		expect(output).toContain("Tags: style");
+	});
+
+	test("filters by #tag and fuzzy text", async () => {
+		const { browser } = await createBrowser(entries);
+
+		type(browser, "#style width");
+		const output = browser.render(120).join("\n");
+
+		expect(output).toContain("[project:sem_003]");
+		expect(output).not.toContain("[project:sem_001]");
+		expect(output).not.toContain("[project:sem_002]");
+	});
+
+	test("marks memories with tab and merges them", async () => {
+		const { browser, actions } = await createBrowser(entries);
+
+		browser.handleInput("\t");
+		browser.handleInput("\x1b[B"); // Down
+		browser.handleInput("\t");
+		browser.handleInput("\x05"); // Ctrl+E
+
+		expect(actions.merge).toHaveBeenCalledWith([entries[0], entries[1]]);
+	});
+
+	test("asks for confirmation before deleting", async () => {
+		const { browser, actions } = await createBrowser(entries);
+
+		browser.handleInput("\x04"); // Ctrl+D
+		expect(browser.render(120).join("\n")).toContain("Delete 1 memory?");
+		expect(actions.delete).not.toHaveBeenCalled();
+
+		browser.handleInput("\r");
+		expect(actions.delete).toHaveBeenCalledWith([entries[0]]);
+	});
+
+	test("saves edits from the editor panel", async () => {
+		const { browser, actions } = await createBrowser(entries);
+
+		browser.handleInput("\r");
+		expect(browser.render(120).join("\n")).toContain("Edit [project:sem_001]");
+		browser.handleInput("\r");
+
+		expect(actions.save).toHaveBeenCalledWith(
+			entries[0],
+			expect.objectContaining({ id: "sem_001", text: "Use tabs" }),
+		);
+	});
+});
@@ -0,0 +1,92 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+	type CapturedEpisode,
+	type EpisodicMemory,
+	FileMemoryBackend,
+	loadStore,
+	parseEpisodeResponse,
+	saveCapturedEpisode,
+} from "../src/core/memory/index.js";
+
+const episode: CapturedEpisode = {
+	summary: "Fixed the flaky login test",
+	details: ["test/login.test.ts"],
+	mistakes: ["Retried the test instead of reading the log"],
+	lessons: ["Check the server log first"],
+	tags: ["testing"],
+};
+
+describe("parseEpisodeResponse", () => {
+	test("parses an episode after the summary preamble", () => {
+		const parsed = parseEpisodeResponse(`The user explored a different conversation branch before returning here.
+Summary of that exploration:
+
+<episode>
+<summary>Fixed the flaky login test</summary>
+<tags>Testing, auth</tags>
+<details>
+- Root cause was a shared fixture
+- test/login.test.ts
+</details>
+<mistakes>
+</mistakes>
+<lessons>
+* Isolate fixtures per test
+</lessons>
+</episode>`);
+
+		expect(parsed).toEqual({
+			summary: "Fixed the flaky login test",
+			details: ["Root cause was a shared fixture", "test/login.test.ts"],
+			mistakes: [],
+			lessons: ["Isolate fixtures per test"],
+			tags: ["testing", "auth"],
+		});
+	});
+
+	test("returns undefined for skipped sessions", () => {
+		expect(parseEpisodeResponse("<skip/>")).toBeUndefined();
+		expect(parseEpisodeResponse("<episode><summary></summary></episode>")).toBeUndefined();
+	});
+});
+
+describe("saveCapturedEpisode", () => {
+	let cwd: string;
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), "pi-memory-capture-"));
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+	});
+
+	test("links the episode to the session and replaces it on recapture", async () => {
+		const origin = { sessionId: "0193a7c2-session", sessionFile: "/sessions/a.jsonl", entryId: "e5" };
+		const backend = new FileMemoryBackend(cwd);
+		const id = await saveCapturedEpisode(backend, "project", episode, origin);
+		expect(id).toBe("ep_001");
+
+		const again = await saveCapturedEpisode(
+			backend,
+			"project",
+			{ ...episode, summary: "Fixed two tests" },
+			origin,
+			id,
+		);
+		expect(again).toBe(id);
+
+		const { memories } = loadStore<EpisodicMemory>(cwd, "episodic.json", "project");
+		expect(memories).toHaveLength(1);
+		expect(memories[0]).toMatchObject({
+			id: "ep_001",
+			summary: "Fixed two tests",
+			sourceSession: "0193a7c2-session",
+			origin,
+			reflection: { mistakes: episode.mistakes, lessons: episode.lessons },
+		});
+	});
+});
@@ -0,0 +1,120 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+	findMemoryConflicts,
+	loadMemoryEntries,
+	type MemoryConflict,
+	parseConflictJudgment,
+	type SemanticMemory,
+	saveStore,
+} from "../src/core/memory/index.js";
+import { createMemoryWriteTool } from "../src/core/tools/memory.js";
+import { semantic } from "./utilities.js";
+
+describe("memory conflicts", () => {
+	test("finds contradictions and supersessions with the same category and tags", () => {
+		const memories = [
+			semantic("sem_001", "Always use tabs for indentation", ["style"]),
+			semantic("sem_002", "Indentation uses 2 spaces", ["style"]),
+			semantic("sem_003", "Never use tabs for indentation", ["docs"]),
+			semantic("sem_004", "Run tests before every commit", ["style"]),
+			{ ...semantic("sem_005", "Never use tabs for indentation"), category: "fact" as const },
+		];
+
+		const conflicts = findMemoryConflicts(
+			{ category: "convention", text: "Never use tabs for indentation", tags: ["style"] },
+			memories,
+		);
+
+		expect(conflicts.map((c) => [c.id, c.relation])).toEqual([
+			["sem_001", "contradiction"],
+			["sem_002", "contradiction"],
+		]);
+		expect(
+			findMemoryConflicts(
+				{ category: "convention", text: "Indentation uses 4 spaces", tags: ["style"] },
+				memories,
+			).map((c) => [c.id, c.relation]),
+		).toEqual([
+			["sem_002", "supersession"],
+			["sem_001", "supersession"],
+		]);
+	});
+
+	test("model judgment drops compatible memories and relabels the rest", () => {
+		const conflicts: MemoryConflict[] = [
+			{ id: "sem_001", text: "a", relation: "supersession", similarity: 0.5 },
+			{ id: "sem_002", text: "b", relation: "supersession", similarity: 0.4 },
+			{ id: "sem_003", text: "c", relation: "contradiction", similarity: 0.4 },
+		];
+		const text = `<conflict id="sem_001" relation="contradiction">Opposite rules</conflict>
+<conflict id="sem_002" relation="compatible">Different topics</conflict>`;
+
+		expect(parseConflictJudgment(text, conflicts)).toEqual([
+			{ id: "sem_001", text: "a", relation: "contradiction", similarity: 0.5, reason: "Opposite rules" },
+			conflicts[2],
+		]);
+	});
+
+	describe("memory_write", () => {
+		let cwd: string;
+
+		beforeEach(async () => {
+			cwd = mkdtempSync(join(tmpdir(), "pi-memory-conflicts-"));
+			await saveStore(
+				cwd,
+				"semantic.json",
+				{ memories: [semantic("sem_001", "Always use tabs for indentation")] },
+				"project",
+			);
+		});
+
+		afterEach(() => {
+			rmSync(cwd, { recursive: true, force: true });
+		});
+
+		const write = (params: Record<string, unknown>) =>
+			createMemoryWriteTool(cwd, { scope: "project" }).execute("call", {
+				type: "semantic",
+				category: "convention",
+				text: "Never use tabs for indentation",
+				...params,
+			});
+
+		const texts = () =>
+			loadMemoryEntries(cwd, ["project"]).map((e) => `${e.memory.id}: ${(e.memory as SemanticMemory).text}`);
+
+		test("reports conflicts instead of saving", async () => {
+			const result = await write({});
+
+			expect(result.details).toMatchObject({
+				action: "conflict",
+				conflicts: [{ id: "sem_001", relation: "contradiction" }],
+				resolutions: ["update", "keep_both", "replace"],
+			});
+			expect(texts()).toEqual(["sem_001: Always use tabs for indentation"]);
+		});
+
+		test("resolves conflicts by updating, keeping both or replacing", async () => {
+			await write({ on_conflict: "update" });
+			expect(texts()).toEqual(["sem_001: Never use tabs for indentation"]);
+
+			await write({ text: "Prefer tabs for indentation", on_conflict: "keep_both" });
+			expect(texts()).toEqual(["sem_001: Never use tabs for indentation", "sem_002: Prefer tabs for indentation"]);
+
+			await write({ text: "Use tabs for indentation", on_conflict: "replace", conflict_ids: ["sem_001"] });
+			expect(texts()).toEqual(["sem_002: Prefer tabs for indentation", "sem_003: Use tabs for indentation"]);
+		});
+
+		test("detection can be turned off", async () => {
+			await createMemoryWriteTool(cwd, { scope: "project", detectConflicts: false }).execute("call", {
+				type: "semantic",
+				category: "convention",
+				text: "Never use tabs for indentation",
+			});
+			expect(texts()).toHaveLength(2);
+		});
+	});
+});
@@ -0,0 +1,142 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeAll, beforeEach, describe, expect, test, vi } from "vitest";
+import {
+	applyConsolidationProposal,
+	FileMemoryBackend,
+	formatConsolidationDiff,
+	loadMemoryEntries,
+	type MemoryEntry,
+	parseConsolidationResponse,
+	type SemanticMemory,
+	saveStore,
+} from "../src/core/memory/index.js";
+import { MemoryConsolidationReviewComponent } from "../src/modes/interactive/components/memory-consolidation.js";
+import { initTheme } from "../src/modes/interactive/theme/theme.js";
+import { semantic } from "./utilities.js";
+
+beforeAll(() => {
+	initTheme("dark");
+});
+
+function entry(memory: SemanticMemory): MemoryEntry {
+	return { type: "semantic", memory, layer: "project" };
+}
+
+const entries = [
+	entry(semantic("sem_001", "Use tabs", ["style"])),
+	entry(semantic("sem_002", "Indent with tabs", ["biome"])),
+	entry(semantic("sem_003", "Line width 100")),
+	entry(semantic("sem_004", "Line width 120")),
+];
+
+describe("parseConsolidationResponse", () => {
+	test("parses merge, rewrite and delete changes", () => {
+		const { proposals, invalid } = parseConsolidationResponse(
+			`<change action="merge" keys="project:sem_001, project:sem_002">
+<reason>Same convention</reason>
+<memory>
+category: convention
+text: Indent with tabs
+tags: style, biome
+</memory>
+</change>
+<change action="rewrite" keys="project:sem_003">
+<reason>Superseded by sem_004</reason>
+<memory>
+text: Line width was 100, now 120
+</memory>
+</change>`,
+			entries,
+		);
+
+		expect(invalid).toBe(0);
+		expect(proposals).toHaveLength(2);
+		expect(proposals[0]).toMatchObject({
+			action: "merge",
+			sources: [entries[0], entries[1]],
+			result: { id: "sem_001", text: "Indent with tabs", tags: ["style", "biome"] },
+			reason: "Same convention",
+		});
+		expect(proposals[1]).toMatchObject({
+			action: "rewrite",
+			result: { id: "sem_003", text: "Line width was 100, now 120" },
+		});
+	});
+
+	test("drops changes with unknown or reused keys and invalid memories", () => {
+		const { proposals, invalid } = parseConsolidationResponse(
+			`<change action="delete" keys="project:sem_003"><reason>Outdated</reason></change>
+<change action="delete" keys="project:sem_003"><reason>Again</reason></change>
+<change action="merge" keys="project:sem_001, project:sem_999"><memory>text: x</memory></change>
+<change action="rewrite" keys="project:sem_002"><memory>category: opinion</memory></change>
+<change action="merge" keys="project:sem_001"><memory>text: x</memory></change>`,
+			entries,
+		);
+
+		expect(proposals.map((p) => p.action)).toEqual(["delete"]);
+		expect(invalid).toBe(4);
+	});
+});
+
+describe("memory consolidation", () => {
+	let cwd: string;
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), "pi-memory-consolidation-"));
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+	});
+
+	test("formats a proposal as a diff of the affected memories", () => {
+		const diff = formatConsolidationDiff({
+			action: "merge",
+			sources: [entries[0], entries[1]],
+			result: { ...entries[0].memory, text: "Indent with tabs", tags: ["style", "biome"] },
+			reason: "",
+		});
+
+		expect(diff).toMatch(/^-\d+ text: Use tabs$/m);
+		expect(diff).toMatch(/^-\d+ # project:sem_002$/m);
+		expect(diff).toMatch(/^\+\d+ tags: style, biome$/m);
+	});
+
+	test("applies an accepted merge to the store", async () => {
+		await saveStore(cwd, "semantic.json", { memories: entries.map((e) => e.memory) }, "project");
+		const loaded = loadMemoryEntries(cwd, ["project"]);
+
+		await applyConsolidationProposal(new FileMemoryBackend(cwd), {
+			action: "merge",
+			sources: [loaded[2], loaded[3]],
+			result: { ...loaded[2].memory, text: "Line width 120" },
+			reason: "",
+		});
+
+		const after = loadMemoryEntries(cwd, ["project"]);
+		expect(after.map((e) => e.memory.id)).toEqual(["sem_001", "sem_002", "sem_003"]);
+		expect(after[2].memory).toMatchObject({ text: "Line width 120" });
+	});
+});
+
+describe("MemoryConsolidationReviewComponent", () => {
+	test("steps through proposals and reports the accepted ones", () => {
+		const proposals = [
+			{ action: "delete" as const, sources: [entries[2]], reason: "Outdated" },
+			{ action: "delete" as const, sources: [entries[3]], reason: "Duplicate" },
+			{ action: "delete" as const, sources: [entries[0]], reason: "Unused" },
+		];
+		const onDone = vi.fn();
+		const review = new MemoryConsolidationReviewComponent(proposals, 40, onDone);
+
+		expect(review.render(120).join("\n")).toContain("Delete [project:sem_003]");
+		review.handleInput("y");
+		expect(review.render(120).join("\n")).toContain("(2/3)");
+		review.handleInput("n");
+		review.handleInput("\r");
+
+		expect(onDone).toHaveBeenCalledWith([proposals[0], proposals[2]]);
+	});
+});
@@ -0,0 +1,143 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+	buildMemoryPromptSection,
+	createContextFileBundle,
+	FileMemoryBackend,
+	findContextFiles,
+	getPublishedMemoryKeys,
+	getPublishTarget,
+	importMemories,
+	loadMemoryEntries,
+	MEMORY_BLOCK_END,
+	MEMORY_BLOCK_START,
+	parseContextFile,
+	publishMemories,
+} from "../src/core/memory/index.js";
+
+const AGENTS_MD = `---
+description: project rules
+---
+# Project
+
+The CLI is published as pi-coding-agent.
+
+## Code Style
+
+- Use tabs for indentation.
+- Never use \`any\` unless
+  absolutely necessary.
+
+Before committing:
+
+1. Run npm run check
+
+\`\`\`bash
+npm run check
+\`\`\`
+
+| Command | Purpose |
+| --- | --- |
+
+## Architecture
+
+- Packages live in packages/, one per workspace.
+
+<!-- internal note -->
+`;
+
+describe("context file import", () => {
+	test("list items and paragraphs become categorized facts", () => {
+		expect(parseContextFile(AGENTS_MD)).toEqual([
+			{ category: "fact", text: "The CLI is published as pi-coding-agent.", tags: ["project"] },
+			{ category: "convention", text: "Use tabs for indentation.", tags: ["code-style"] },
+			{ category: "convention", text: "Never use `any` unless absolutely necessary.", tags: ["code-style"] },
+			{ category: "convention", text: "Run npm run check", tags: ["code-style"] },
+			{ category: "architecture", text: "Packages live in packages/, one per workspace.", tags: ["architecture"] },
+		]);
+	});
+
+	test("the managed memory block is not imported back", () => {
+		const content = `- Prefer small commits\n\n${MEMORY_BLOCK_START}\n- Use tabs\n${MEMORY_BLOCK_END}\n`;
+		expect(parseContextFile(content).map((f) => f.text)).toEqual(["Prefer small commits"]);
+		expect(parseContextFile(content)[0].category).toBe("preference");
+	});
+});
+
+describe("context file sync", () => {
+	let cwd: string;
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), "pi-memory-context-files-"));
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+	});
+
+	test("import reads every context file once per fact", async () => {
+		writeFileSync(join(cwd, "AGENTS.md"), AGENTS_MD);
+		writeFileSync(join(cwd, ".cursorrules"), "- Use tabs for indentation.\n- Prefer vitest\n");
+		mkdirSync(join(cwd, ".cursor", "rules"), { recursive: true });
+		writeFileSync(join(cwd, ".cursor", "rules", "db.mdc"), "---\nglobs: db/**\n---\n- Migrations are append-only\n");
+
+		const files = findContextFiles(cwd);
+		expect(files.map((f) => f.slice(cwd.length + 1))).toEqual(["AGENTS.md", ".cursorrules", ".cursor/rules/db.mdc"]);
+
+		const bundle = createContextFileBundle(files, "session");
+		expect(bundle.semantic?.map((m) => m.text)).toContain("Prefer vitest");
+		expect(bundle.semantic?.filter((m) => m.text === "Use tabs for indentation.")).toHaveLength(1);
+		expect(bundle.semantic?.find((m) => m.text === "Prefer vitest")?.tags).toEqual(["cursorrules"]);
+
+		const backend = new FileMemoryBackend(cwd);
+		const result = await importMemories(backend, "project", bundle);
+		expect(result.added).toHaveLength(7);
+		expect((await importMemories(backend, "project", createContextFileBundle(files))).added).toHaveLength(0);
+	});
+
+	test("publish replaces the managed block and published memories are not attached twice", async () => {
+		const agents = join(cwd, "AGENTS.md");
+		writeFileSync(agents, "# Rules\n\n- Keep the README short.\n");
+		await importMemories(new FileMemoryBackend(cwd), "project", {
+			semantic: [
+				{ id: "sem_001", category: "convention", text: "Use tabs", tags: [], created: "", sourceSession: "" },
+				{ id: "sem_002", category: "fact", text: "Docs live in docs/", tags: [], created: "", sourceSession: "" },
+			],
+			procedural: [
+				{
+					id: "proc_001",
+					name: "release",
+					trigger: "when releasing",
+					steps: ["Bump the version", "Publish"],
+					tags: [],
+					created: "",
+					updated: "",
+					sourceSession: "",
+				},
+			],
+		});
+		const entries = loadMemoryEntries(cwd, ["project"]);
+		expect(getPublishTarget(cwd)).toBe(agents);
+
+		publishMemories(agents, entries);
+		publishMemories(agents, entries.slice(0, 2));
+		const content = readFileSync(agents, "utf-8");
+		expect(content.startsWith("# Rules\n\n- Keep the README short.\n\n<!-- memories:start -->")).toBe(true);
+		expect(content.match(/memories:start/g)).toHaveLength(1);
+		expect(content).toContain("### Conventions\n\n- Use tabs <!-- memory ");
+		expect(content).not.toContain("### Procedures");
+		expect(parseContextFile(content).map((f) => f.text)).toEqual(["Keep the README short."]);
+
+		const published = getPublishedMemoryKeys(entries, [content]);
+		expect(published.size).toBe(2);
+		const section = buildMemoryPromptSection(cwd, "project", { contextFiles: [content] });
+		expect(section).not.toContain("Use tabs");
+
+		const changed = entries.map((e) =>
+			e.type === "semantic" && e.memory.id === "sem_001" ? { ...e, memory: { ...e.memory, text: "Use spaces" } } : e,
+		);
+		expect(getPublishedMemoryKeys(changed, [content]).size).toBe(1);
+	});
+});
@@ -0,0 +1,128 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+	FileMemoryBackend,
+	formatMemoryForEditing,
+	getMemoryKey,
+	getTeamMemoryDir,
+	loadMemoryEntries,
+	type MemoryEntry,
+	mergeMemoryEntries,
+	type ProceduralMemory,
+	parseMemoryEdit,
+	retrieveMemories,
+	saveMemoryEntry,
+	saveStore,
+	setMemoriesPinned,
+} from "../src/core/memory/index.js";
+import { semantic } from "./utilities.js";
+
+const release: ProceduralMemory = {
+	id: "proc_001",
+	name: "release",
+	trigger: "user asks to release",
+	steps: ["npm run check", "npm publish"],
+	tags: ["npm"],
+	created: "2026-05-01T00:00:00.000Z",
+	updated: "2026-05-01T00:00:00.000Z",
+	sourceSession: "s",
+};
+
+describe("memory editing", () => {
+	let cwd: string;
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), "pi-memory-editing-"));
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+	});
+
+	test("round-trips fields through the text form", () => {
+		const entry: MemoryEntry = { type: "procedural", memory: release, layer: "project" };
+		const text = formatMemoryForEditing(entry);
+
+		expect(text).toBe(
+			[
+				"name: release",
+				"trigger: user asks to release",
+				"tags: npm",
+				"steps:",
+				"- npm run check",
+				"- npm publish",
+			].join("\n"),
+		);
+
+		const edited = parseMemoryEdit(
+			entry,
+			text.replace("- npm publish", "- npm publish --tag next\n- git push --tags"),
+		);
+		expect(edited).toMatchObject({
+			id: "proc_001",
+			steps: ["npm run check", "npm publish --tag next", "git push --tags"],
+		});
+	});
+
+	test("rejects unknown fields, invalid categories and empty required fields", () => {
+		const entry: MemoryEntry = { type: "semantic", memory: semantic("sem_001", "Use tabs"), layer: "project" };
+
+		expect(() => parseMemoryEdit(entry, "colour: blue")).toThrow(/Unknown field "colour"/);
+		expect(() => parseMemoryEdit(entry, "category: opinion")).toThrow(/Invalid category/);
+		expect(() => parseMemoryEdit(entry, "text:")).toThrow(/"text" must not be empty/);
+	});
+
+	test("merges memories into the first and deletes the rest", async () => {
+		await saveStore(
+			cwd,
+			"semantic.json",
+			{
+				memories: [
+					semantic("sem_001", "Use tabs", ["style"]),
+					semantic("sem_002", "Width 3", ["biome"]),
+					semantic("sem_003", "Other"),
+				],
+			},
+			"project",
+		);
+		const [first, second] = loadMemoryEntries(cwd, ["project"]);
+
+		const merged = await mergeMemoryEntries(new FileMemoryBackend(cwd), [first, second]);
+
+		expect(merged.memory).toMatchObject({ id: "sem_001", text: "Use tabs Width 3", tags: ["style", "biome"] });
+		expect(loadMemoryEntries(cwd, ["project"]).map((e) => e.memory.id)).toEqual(["sem_001", "sem_003"]);
+	});
+
+	test("pinned memories are retrieved regardless of the prompt", async () => {
+		await saveStore(
+			cwd,
+			"semantic.json",
+			{ memories: [semantic("sem_001", "Use tabs"), semantic("sem_002", "Never force push")] },
+			"project",
+		);
+		await setMemoriesPinned(
+			new FileMemoryBackend(cwd),
+			loadMemoryEntries(cwd, ["project"]).filter((e) => e.memory.id === "sem_002"),
+			true,
+		);
+
+		const selected = retrieveMemories(cwd, ["project"], "how do I indent with tabs", {
+			maxMemories: 5,
+			tokenBudget: 1000,
+		});
+
+		expect(selected.map(getMemoryKey)).toEqual(["project:sem_002", "project:sem_001"]);
+	});
+
+	test("refuses to write team memories", async () => {
+		mkdirSync(getTeamMemoryDir(cwd), { recursive: true });
+		writeFileSync(join(getTeamMemoryDir(cwd), "team.json"), JSON.stringify({ semantic: [semantic("sem_001", "a")] }));
+		const [entry] = loadMemoryEntries(cwd, ["team"]);
+
+		await expect(
+			saveMemoryEntry(new FileMemoryBackend(cwd), entry, { ...entry.memory, tags: ["x"] }),
+		).rejects.toThrow(/read-only team layer/);
+	});
+});
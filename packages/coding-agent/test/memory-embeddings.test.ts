@@ -0,0 +1,124 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+	getMemoryDir,
+	getMemoryVectors,
+	HashedNgramEmbedder,
+	loadMemoryEntries,
+	type MemoryEmbedder,
+	saveStore,
+	searchMemoryEntries,
+} from "../src/core/memory/index.js";
+import { semantic } from "./utilities.js";
+
+function cosine(a: number[], b: number[]): number {
+	return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+/** Wraps an embedder and counts how many texts it was asked to embed */
+class CountingEmbedder implements MemoryEmbedder {
+	readonly id: string;
+	readonly minSimilarity: number;
+	embedded = 0;
+
+	constructor(private readonly inner: MemoryEmbedder = new HashedNgramEmbedder()) {
+		this.id = inner.id;
+		this.minSimilarity = inner.minSimilarity;
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		this.embedded += texts.length;
+		return this.inner.embed(texts);
+	}
+}
+
+describe("HashedNgramEmbedder", () => {
+	test("scores morphological variants above unrelated text", async () => {
+		const embedder = new HashedNgramEmbedder();
+		const [query, related, unrelated] = await embedder.embed([
+			"configuration",
+			"edit the config file",
+			"release notes for tuesday",
+		]);
+
+		expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+		expect(cosine(query, query)).toBeCloseTo(1);
+	});
+});
+
+describe("memory vector index", () => {
+	let cwd: string;
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), "pi-memory-embeddings-"));
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+	});
+
+	test("caches vectors and only re-embeds changed memories", async () => {
+		await saveStore(
+			cwd,
+			"semantic.json",
+			{ memories: [semantic("sem_001", "Use tabs"), semantic("sem_002", "Use biome")] },
+			"project",
+		);
+		const embedder = new CountingEmbedder();
+
+		await getMemoryVectors(cwd, loadMemoryEntries(cwd, ["project"]), embedder);
+		expect(embedder.embedded).toBe(2);
+		expect(existsSync(join(getMemoryDir(cwd, "project"), "vectors.json"))).toBe(true);
+
+		await getMemoryVectors(cwd, loadMemoryEntries(cwd, ["project"]), embedder);
+		expect(embedder.embedded).toBe(2);
+
+		await saveStore(cwd, "semantic.json", { memories: [semantic("sem_001", "Use spaces")] }, "project");
+		const vectors = await getMemoryVectors(cwd, loadMemoryEntries(cwd, ["project"]), embedder);
+		expect(embedder.embedded).toBe(3);
+		expect([...vectors.keys()]).toEqual(["project:sem_001"]);
+
+		const index = JSON.parse(readFileSync(join(getMemoryDir(cwd, "project"), "vectors.json"), "utf-8"));
+		expect(Object.keys(index.vectors)).toEqual(["sem_001"]);
+	});
+
+	test("search returns keyword matches first, then semantic matches", async () => {
+		await saveStore(
+			cwd,
+			"semantic.json",
+			{
+				memories: [
+					semantic("sem_001", "Keep the configuration in settings.json"),
+					semantic("sem_002", "Edit config before running"),
+					semantic("sem_003", "Release on tuesdays"),
+				],
+			},
+			"project",
+		);
+
+		const keywordOnly = await searchMemoryEntries(cwd, ["project"], "configuration");
+		expect(keywordOnly.map((e) => e.memory.id)).toEqual(["sem_001"]);
+
+		const hybrid = await searchMemoryEntries(cwd, ["project"], "configuration", {
+			embedder: new HashedNgramEmbedder(),
+		});
+		expect(hybrid.map((e) => e.memory.id)).toEqual(["sem_001", "sem_002"]);
+	});
+
+	test("search falls back to keyword matches when embedding fails", async () => {
+		await saveStore(cwd, "semantic.json", { memories: [semantic("sem_001", "Use tabs")] }, "project");
+		const failing: MemoryEmbedder = {
+			id: "failing",
+			minSimilarity: 0,
+			embed: async () => {
+				throw new Error("offline");
+			},
+		};
+
+		const results = await searchMemoryEntries(cwd, ["project"], "tabs", { embedder: failing });
+
+		expect(results.map((e) => e.memory.id)).toEqual(["sem_001"]);
+	});
+});
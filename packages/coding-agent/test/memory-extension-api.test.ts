@@ -0,0 +1,186 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { AuthStorage } from "../src/core/auth-storage.js";
+import { discoverAndLoadExtensions } from "../src/core/extensions/loader.js";
+import { ExtensionRunner } from "../src/core/extensions/runner.js";
+import type { MemoryChangeSource } from "../src/core/extensions/types.js";
+import type { MemoryChangeRequest } from "../src/core/memory/index.js";
+import {
+	FileMemoryBackend,
+	importMemories,
+	loadMemoryEntries,
+	ReviewedMemoryBackend,
+	type SemanticMemory,
+} from "../src/core/memory/index.js";
+import { ModelRegistry } from "../src/core/model-registry.js";
+import { SessionManager } from "../src/core/session-manager.js";
+import { createExtensionMemoryAPI, createMemoryWriteTool, type MemoryToolOptions } from "../src/core/tools/memory.js";
+
+describe("memory extension API", () => {
+	let tempDir: string;
+	let extensionsDir: string;
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "pi-memory-extension-"));
+		extensionsDir = path.join(tempDir, "extensions");
+		fs.mkdirSync(extensionsDir);
+	});
+
+	afterEach(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+	async function createRunner(...extensions: string[]) {
+		for (let i = 0; i < extensions.length; i++) fs.writeFileSync(path.join(extensionsDir, `e${i}.ts`), extensions[i]);
+		const result = await discoverAndLoadExtensions([], tempDir, tempDir);
+		const sm = SessionManager.inMemory();
+		const mr = new ModelRegistry(AuthStorage.create(path.join(tempDir, "auth.json")));
+		return new ExtensionRunner(result.extensions, result.runtime, tempDir, sm, mr);
+	}
+
+	/** Memory options that emit to the runner's handlers and record stored changes */
+	function hooks(runner: ExtensionRunner, source: MemoryChangeSource) {
+		const written: MemoryChangeRequest[] = [];
+		const options: MemoryToolOptions = {
+			scope: "project",
+			beforeChange: (change) => runner.emitMemoryBeforeWrite({ type: "memory_before_write", change, source }),
+			afterChange: async (change) => {
+				written.push(change);
+			},
+		};
+		return { options, written };
+	}
+
+	function texts(): string[] {
+		return loadMemoryEntries(tempDir, ["project"]).map((e) => (e.memory as SemanticMemory).text);
+	}
+
+	it("chains field rewrites across handlers until one blocks", async () => {
+		const runner = await createRunner(
+			`export default p => p.on("memory_before_write", async e => ({ fields: { ...e.change.fields, text: e.change.fields.text + "[1]" } }));`,
+			`export default p => p.on("memory_before_write", async e => e.change.fields.text.includes("secret") ? { block: true, reason: "no secrets" } : ({ fields: { ...e.change.fields, text: e.change.fields.text + "[2]" } }));`,
+		);
+		const change: MemoryChangeRequest = {
+			action: "write",
+			type: "semantic",
+			scope: "project",
+			fields: { text: "a" },
+		};
+
+		expect(await runner.emitMemoryBeforeWrite({ type: "memory_before_write", change, source: "tool" })).toEqual({
+			fields: { text: "a[1][2]" },
+		});
+		expect(
+			await runner.emitMemoryBeforeWrite({
+				type: "memory_before_write",
+				change: { ...change, fields: { text: "secret" } },
+				source: "tool",
+			}),
+		).toEqual({ block: true, reason: "no secrets" });
+		expect(change.fields).toEqual({ text: "a" });
+	});
+
+	it("writes, updates, lists and deletes memories through the hooks", async () => {
+		const runner = await createRunner(
+			`export default p => p.on("memory_before_write", async e => e.change.action === "write" ? ({ fields: { ...e.change.fields, tags: ["ext"] } }) : undefined);`,
+		);
+		const { options, written } = hooks(runner, "extension");
+		const memory = createExtensionMemoryAPI(tempDir, options);
+
+		const entry = await memory.write({ type: "semantic", category: "convention", text: "Use tabs" });
+		expect(entry).toMatchObject({ type: "semantic", memory: { id: "sem_001", text: "Use tabs", tags: ["ext"] } });
+
+		const updated = await memory.update("sem_001", { text: "Use tabs for indentation" });
+		expect(updated.memory).toMatchObject({ text: "Use tabs for indentation", tags: ["ext"] });
+		expect((await memory.list("semantic")).map((e) => e.memory.id)).toEqual(["sem_001"]);
+		expect((await memory.search("indentation")).map((e) => e.memory.id)).toEqual(["sem_001"]);
+
+		await memory.delete("sem_001");
+		expect(await memory.list()).toEqual([]);
+		expect(written.map((c) => [c.action, c.id])).toEqual([
+			["write", "sem_001"],
+			["update", "sem_001"],
+			["delete", "sem_001"],
+		]);
+		await expect(memory.delete("sem_001")).rejects.toThrow('No memory found with ID "sem_001"');
+	});
+
+	it("blocked changes throw for extensions and are reported to the model by tools", async () => {
+		const runner = await createRunner(
+			`export default p => p.on("memory_before_write", async () => ({ block: true, reason: "Memory is read-only today." }));`,
+		);
+		const { options, written } = hooks(runner, "tool");
+
+		await expect(
+			createExtensionMemoryAPI(tempDir, options).write({ type: "semantic", category: "fact", text: "x" }),
+		).rejects.toThrow("Memory is read-only today.");
+		const result = await createMemoryWriteTool(tempDir, options).execute("call", {
+			type: "semantic",
+			category: "fact",
+			text: "x",
+		});
+
+		expect(result.details).toEqual({ rejected: true });
+		expect(result.content).toEqual([{ type: "text", text: "Memory is read-only today." }]);
+		expect(texts()).toEqual([]);
+		expect(written).toEqual([]);
+	});
+
+	it("reviews every memory an import writes and rejects the import when one is blocked", async () => {
+		const runner = await createRunner(
+			`export default p => p.on("memory_before_write", async e => e.change.fields.text.includes("token") ? { block: true, reason: "No tokens." } : { fields: { ...e.change.fields, tags: ["imported"] } });`,
+		);
+		const { options, written } = hooks(runner, "command");
+		const backend = new ReviewedMemoryBackend(new FileMemoryBackend(tempDir), {
+			beforeChange: options.beforeChange!,
+			afterChange: options.afterChange!,
+		});
+		const semantic = (text: string): SemanticMemory => ({
+			id: "sem_001",
+			category: "fact",
+			text,
+			tags: [],
+			created: "2026-05-01T00:00:00.000Z",
+			sourceSession: "s",
+		});
+
+		await expect(importMemories(backend, "project", { semantic: [semantic("The token is abc")] })).rejects.toThrow(
+			"No tokens.",
+		);
+		expect(texts()).toEqual([]);
+		expect(written).toEqual([]);
+
+		await importMemories(backend, "project", { semantic: [semantic("Use tabs")] });
+		expect(loadMemoryEntries(tempDir, ["project"]).map((e) => e.memory)).toMatchObject([
+			{ text: "Use tabs", tags: ["imported"] },
+		]);
+		expect(written.map((c) => [c.action, c.id, c.fields.tags])).toEqual([["write", "sem_001", ["imported"]]]);
+	});
+
+	it("rejects a reviewed write when another writer changed the store during the review", async () => {
+		const files = new FileMemoryBackend(tempDir);
+		const semantic = (text: string): SemanticMemory => ({
+			id: "sem_001",
+			category: "fact",
+			text,
+			tags: [],
+			created: "2026-05-01T00:00:00.000Z",
+			sourceSession: "s",
+		});
+		const reviewed: string[] = [];
+		const backend = new ReviewedMemoryBackend(files, {
+			beforeChange: async (change) => {
+				reviewed.push(`${change.action}:${change.id}`);
+				await importMemories(files, "project", { semantic: [semantic("Written meanwhile")] });
+				return undefined;
+			},
+			afterChange: async () => {},
+		});
+
+		await expect(importMemories(backend, "project", { semantic: [semantic("Use tabs")] })).rejects.toThrow(
+			"Memories changed while the change was reviewed",
+		);
+		expect(reviewed).toEqual(["write:sem_001"]);
+		expect(texts()).toEqual(["Written meanwhile"]);
+	});
+});
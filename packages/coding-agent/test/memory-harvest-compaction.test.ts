@@ -0,0 +1,105 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Agent } from "@mariozechner/pi-agent-core";
+import { getModel } from "@mariozechner/pi-ai";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { AgentSession } from "../src/core/agent-session.js";
+import { AuthStorage } from "../src/core/auth-storage.js";
+import type { CompactionResult } from "../src/core/compaction/index.js";
+import { type HarvestedMemory, loadMemoryEntries } from "../src/core/memory/index.js";
+import { ModelRegistry } from "../src/core/model-registry.js";
+import { SessionManager } from "../src/core/session-manager.js";
+import { SettingsManager } from "../src/core/settings-manager.js";
+import { createTestResourceLoader } from "./utilities.js";
+
+const compaction = vi.hoisted(() => ({ onCompact: (): void => {} }));
+
+vi.mock("../src/core/compaction/index.js", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../src/core/compaction/index.js")>()),
+	compact: async (): Promise<CompactionResult> => {
+		compaction.onCompact();
+		const harvestedMemories: HarvestedMemory[] = [
+			{ type: "semantic", category: "convention", text: "Tests live in test/", tags: ["tests"] },
+		];
+		return { summary: "compacted", firstKeptEntryId: "entry-1", tokensBefore: 100, details: {}, harvestedMemories };
+	},
+	prepareCompaction: () => ({ dummy: true }),
+}));
+
+describe("compaction harvest", () => {
+	let cwd: string;
+	let session: AgentSession;
+	let confirmed: number;
+
+	function createSession(approval: "auto" | "confirm"): AgentSession {
+		const authStorage = AuthStorage.create(join(cwd, "auth.json"));
+		authStorage.setRuntimeApiKey("anthropic", "test-key");
+		const agent = new Agent({
+			initialState: { model: getModel("anthropic", "claude-sonnet-4-5")!, systemPrompt: "Test", tools: [] },
+		});
+		const created = new AgentSession({
+			agent,
+			sessionManager: SessionManager.inMemory(),
+			settingsManager: SettingsManager.inMemory({ memory: { scope: "project", layers: ["project"], approval } }),
+			cwd,
+			modelRegistry: new ModelRegistry(authStorage, cwd),
+			resourceLoader: createTestResourceLoader(),
+		});
+		(created as unknown as { _confirmMemoryChange: () => Promise<unknown> })._confirmMemoryChange = async () => {
+			confirmed++;
+			return { approved: true };
+		};
+		return created;
+	}
+
+	const texts = () => loadMemoryEntries(cwd, ["project"]).map((e) => (e.memory as { text: string }).text);
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), "pi-memory-harvest-compaction-"));
+		confirmed = 0;
+		compaction.onCompact = () => {};
+	});
+
+	afterEach(() => {
+		session.dispose();
+		rmSync(cwd, { recursive: true, force: true });
+	});
+
+	test("stores harvested memories after the compaction entry, with it as their origin", async () => {
+		session = createSession("auto");
+		compaction.onCompact = () => expect(texts()).toEqual([]);
+
+		const result = await session.compact();
+
+		expect(result.memoryIds).toEqual(["project:sem_001"]);
+		const entry = session.sessionManager.getEntries().find((e) => e.type === "compaction")!;
+		expect(entry.details).toEqual({});
+		expect(loadMemoryEntries(cwd, ["project"])[0].memory.origin?.entryId).toBe(entry.id);
+	});
+
+	test("an aborted compaction stores nothing", async () => {
+		session = createSession("auto");
+		compaction.onCompact = () => session.abortCompaction();
+
+		await expect(session.compact()).rejects.toThrow("Compaction cancelled");
+
+		expect(session.sessionManager.getEntries().some((e) => e.type === "compaction")).toBe(false);
+		expect(texts()).toEqual([]);
+	});
+
+	test("auto-compaction skips memories that need confirmation instead of asking", async () => {
+		session = createSession("confirm");
+		const runAutoCompaction = (
+			session as unknown as { _runAutoCompaction: (reason: "threshold", willRetry: boolean) => Promise<void> }
+		)._runAutoCompaction.bind(session);
+
+		await runAutoCompaction("threshold", false);
+		expect(confirmed).toBe(0);
+		expect(texts()).toEqual([]);
+
+		await session.compact();
+		expect(confirmed).toBe(1);
+		expect(texts()).toEqual(["Tests live in test/"]);
+	});
+});
@@ -0,0 +1,129 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+	dedupeHarvestedMemories,
+	type HarvestedMemory,
+	loadMemoryEntries,
+	loadMemoryHistory,
+	type MemoryEntry,
+	parseHarvestResponse,
+	type SemanticMemory,
+} from "../src/core/memory/index.js";
+import { type MemoryToolOptions, saveHarvestedMemories } from "../src/core/tools/memory.js";
+import { semantic, toEntry } from "./utilities.js";
+
+describe("harvest parsing", () => {
+	test("reads facts and procedures and drops malformed ones", () => {
+		const memories = parseHarvestResponse(`<fact category="preference" tags="Tooling, pnpm">Use pnpm, not npm.</fact>
+<fact category="opinion" tags="x">Unknown category</fact>
+<fact category="convention" tags="style"> </fact>
+<procedure name="Release" trigger="When cutting a release" tags="release">
+- Bump the version
+2. Tag the commit
+</procedure>
+<procedure name="Empty" trigger="Never">
+</procedure>`);
+
+		expect(memories).toEqual([
+			{ type: "semantic", category: "preference", text: "Use pnpm, not npm.", tags: ["tooling", "pnpm"] },
+			{
+				type: "procedural",
+				name: "Release",
+				trigger: "When cutting a release",
+				steps: ["Bump the version", "Tag the commit"],
+				tags: ["release"],
+			},
+		]);
+		expect(parseHarvestResponse("<none/>")).toEqual([]);
+	});
+});
+
+describe("harvest deduplication", () => {
+	test("drops repeats of stored memories and of earlier candidates", () => {
+		const stored: MemoryEntry[] = [
+			toEntry(semantic("sem_001", "Use pnpm, not npm", ["tooling"], { category: "preference" }), "project"),
+			{
+				type: "procedural",
+				memory: {
+					id: "proc_001",
+					name: "Release",
+					trigger: "When cutting a release",
+					steps: ["Tag it"],
+					tags: [],
+					created: "",
+					updated: "",
+					sourceSession: "s",
+				},
+				layer: "project",
+			},
+		];
+		const memories: HarvestedMemory[] = [
+			{ type: "semantic", category: "preference", text: "use pnpm, not npm", tags: [] },
+			{ type: "semantic", category: "convention", text: "Tests live in test/", tags: ["tests"] },
+			{ type: "semantic", category: "convention", text: "Tests live in test/", tags: ["tests"] },
+			{ type: "procedural", name: "release", trigger: "Releasing", steps: ["Bump"], tags: [] },
+			{ type: "procedural", name: "Deploy", trigger: "Deploying", steps: ["Push"], tags: [] },
+		];
+
+		expect(dedupeHarvestedMemories(memories, stored).map((m) => (m.type === "semantic" ? m.text : m.name))).toEqual([
+			"Tests live in test/",
+			"Deploy",
+		]);
+	});
+});
+
+describe("harvest saving", () => {
+	let cwd: string;
+	const memories: HarvestedMemory[] = [
+		{ type: "semantic", category: "convention", text: "Tests live in test/", tags: ["tests"] },
+		{ type: "procedural", name: "Deploy", trigger: "Deploying", steps: ["Push"], tags: ["deploy"] },
+	];
+	const options: MemoryToolOptions = { scope: "project", getOrigin: () => ({ sessionId: "s1" }) };
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), "pi-memory-harvest-"));
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+	});
+
+	test("stores the memories with compaction as their author", async () => {
+		const ids = await saveHarvestedMemories(cwd, memories, options);
+
+		expect(ids).toEqual(["project:sem_001", "project:proc_001"]);
+		expect(loadMemoryHistory(cwd, "project").map((r) => r.author)).toEqual([
+			{ kind: "compaction", name: "memory harvest", sessionId: "s1" },
+			{ kind: "compaction", name: "memory harvest", sessionId: "s1" },
+		]);
+	});
+
+	test("follows the approval mode and skips conflicting facts", async () => {
+		expect(await saveHarvestedMemories(cwd, memories, { ...options, getApproval: () => "off" })).toEqual([]);
+
+		const asked: string[] = [];
+		const ids = await saveHarvestedMemories(cwd, memories, {
+			...options,
+			getApproval: () => "confirm",
+			confirmChange: async (request) => {
+				asked.push(request.type);
+				return request.type === "semantic" ? { approved: true } : { approved: false, reason: "No" };
+			},
+		});
+		expect(asked).toEqual(["semantic", "procedural"]);
+		expect(ids).toEqual(["project:sem_001"]);
+
+		const conflicting: HarvestedMemory = {
+			type: "semantic",
+			category: "convention",
+			text: "Tests never live in test/",
+			tags: ["tests"],
+		};
+		expect(await saveHarvestedMemories(cwd, [conflicting], options)).toEqual([]);
+		expect(loadMemoryEntries(cwd, ["project"]).map((e) => (e.memory as SemanticMemory).text)).toEqual([
+			"Tests live in test/",
+		]);
+	});
+});
@@ -0,0 +1,117 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+	archiveStaleMemories,
+	deleteMemoryEntries,
+	FileMemoryBackend,
+	findMemoryVersions,
+	formatMemoryHistory,
+	importMemories,
+	loadMemoryEntries,
+	loadMemoryHistory,
+	type MemoryAuthor,
+	recordMemoryUsage,
+	restoreMemoryVersion,
+	type SemanticMemory,
+	undoLastMemoryChange,
+} from "../src/core/memory/index.js";
+import { createMemoryUpdateTool, createMemoryWriteTool, type MemoryToolOptions } from "../src/core/tools/memory.js";
+import { semantic } from "./utilities.js";
+
+describe("memory history", () => {
+	let cwd: string;
+	let backend: FileMemoryBackend;
+	const user: MemoryAuthor = { kind: "command", name: "/memory undo", sessionId: "s2" };
+	const options: MemoryToolOptions = { scope: "project", getOrigin: () => ({ sessionId: "s1" }) };
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), "pi-memory-history-"));
+		backend = new FileMemoryBackend(cwd);
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+	});
+
+	const texts = () => loadMemoryEntries(cwd, ["project"]).map((e) => (e.memory as SemanticMemory).text);
+
+	async function writeAndUpdate(): Promise<void> {
+		await createMemoryWriteTool(cwd, options).execute("call", { type: "semantic", category: "fact", text: "v1" });
+		await createMemoryUpdateTool(cwd, options).execute("call", { id: "sem_001", text: "v2" });
+	}
+
+	test("records each change with its author and session", async () => {
+		await writeAndUpdate();
+		await deleteMemoryEntries(backend, loadMemoryEntries(cwd, ["project"]), {
+			kind: "command",
+			name: "/memory browse",
+		});
+
+		const history = loadMemoryHistory(cwd, "project");
+		expect(history.map((r) => [r.action, r.memoryId, r.author])).toEqual([
+			["create", "sem_001", { kind: "tool", name: "memory_write", sessionId: "s1" }],
+			["update", "sem_001", { kind: "tool", name: "memory_update", sessionId: "s1" }],
+			["delete", "sem_001", { kind: "command", name: "/memory browse" }],
+		]);
+		expect(history[1]).toMatchObject({ before: { text: "v1" }, after: { text: "v2" } });
+
+		const versions = await findMemoryVersions(backend, ["project", "global"], "project:sem_001");
+		expect(versions?.versions.map((v) => v.version)).toEqual([1, 2, 3]);
+		expect(formatMemoryHistory(versions!)).toContain("update by tool memory_update in session s1");
+	});
+
+	test("undo reverts one change at a time and is recorded", async () => {
+		await writeAndUpdate();
+
+		expect((await undoLastMemoryChange(backend, ["project"], user))?.records.map((r) => r.action)).toEqual([
+			"update",
+		]);
+		expect(texts()).toEqual(["v1"]);
+		expect((await undoLastMemoryChange(backend, ["project"], user))?.records.map((r) => r.action)).toEqual([
+			"create",
+		]);
+		expect(texts()).toEqual([]);
+		expect(await undoLastMemoryChange(backend, ["project"], user)).toBeUndefined();
+
+		const undos = loadMemoryHistory(cwd, "project").filter((r) => r.undoes);
+		expect(undos.map((r) => [r.action, r.author])).toEqual([
+			["update", user],
+			["delete", user],
+		]);
+	});
+
+	test("undo reverts every memory an import added", async () => {
+		await importMemories(backend, "project", { semantic: [semantic("sem_001", "a"), semantic("sem_002", "b")] });
+		expect(loadMemoryHistory(cwd, "project")[0].author).toEqual({ kind: "import" });
+
+		expect((await undoLastMemoryChange(backend, ["project"], user))?.records).toHaveLength(2);
+		expect(texts()).toEqual([]);
+	});
+
+	test("undo skips archiving and revival on use, and reverts the change before them", async () => {
+		await writeAndUpdate();
+		await archiveStaleMemories(backend, ["project"], 1, Date.now() + 2 * 24 * 60 * 60 * 1000);
+		expect(loadMemoryHistory(cwd, "project").at(-1)?.author?.kind).toBe("archive");
+		await recordMemoryUsage(backend, loadMemoryEntries(cwd, ["project"]));
+		expect(loadMemoryHistory(cwd, "project").at(-1)?.author?.kind).toBe("usage");
+
+		expect((await undoLastMemoryChange(backend, ["project"], user))?.records.map((r) => r.action)).toEqual([
+			"update",
+		]);
+		expect(texts()).toEqual(["v1"]);
+	});
+
+	test("restore brings back an earlier version, including a deleted memory", async () => {
+		await writeAndUpdate();
+		await deleteMemoryEntries(backend, loadMemoryEntries(cwd, ["project"]));
+
+		await expect(restoreMemoryVersion(backend, "project", "sem_001", 3, user)).rejects.toThrow("is a deletion");
+		await expect(restoreMemoryVersion(backend, "project", "sem_001", 9, user)).rejects.toThrow("has no version 9");
+
+		await restoreMemoryVersion(backend, "project", "sem_001", 1, user);
+		expect(texts()).toEqual(["v1"]);
+		expect(loadMemoryHistory(cwd, "project").at(-1)).toMatchObject({ action: "create", author: user });
+	});
+});
@@ -0,0 +1,111 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+	buildMemoryPromptSection,
+	drainMemoryStoreErrors,
+	findMemoryEntry,
+	getMemoryKey,
+	getTeamMemoryDir,
+	loadMemoryEntries,
+	type MemoryBundle,
+	resolveMemoryLayers,
+	saveStore,
+} from "../src/core/memory/index.js";
+import { createMemoryDeleteTool } from "../src/core/tools/memory.js";
+import { procedural, semantic } from "./utilities.js";
+
+describe("memory layers", () => {
+	let cwd: string;
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), "pi-memory-layers-"));
+		mkdirSync(getTeamMemoryDir(cwd), { recursive: true });
+		drainMemoryStoreErrors();
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+	});
+
+	function writeTeamFile(name: string, bundle: MemoryBundle): void {
+		writeFileSync(join(getTeamMemoryDir(cwd), name), JSON.stringify(bundle));
+	}
+
+	test("reads team bundles and lets higher layers shadow equivalent memories", async () => {
+		await saveStore(
+			cwd,
+			"procedural.json",
+			{ memories: [procedural("proc_001", "release", ["npm publish --tag next"])] },
+			"project",
+		);
+		await saveStore(cwd, "semantic.json", { memories: [semantic("sem_001", "Use tabs")] }, "project");
+		writeTeamFile("conventions.json", {
+			procedural: [
+				procedural("proc_001", "release", ["npm publish"]),
+				procedural("proc_002", "deploy", ["make deploy"]),
+			],
+			semantic: [semantic("sem_001", "use TABS"), semantic("sem_002", "Squash merge PRs")],
+		});
+
+		const entries = loadMemoryEntries(cwd, ["global", "project", "team"]);
+
+		expect(entries.map(getMemoryKey).sort()).toEqual(
+			["project:proc_001", "project:sem_001", "team:proc_002", "team:sem_002"].sort(),
+		);
+	});
+
+	test("resolves bare and layer-qualified references", async () => {
+		await saveStore(cwd, "semantic.json", { memories: [semantic("sem_001", "Use tabs")] }, "project");
+		writeTeamFile("team.json", { semantic: [semantic("sem_001", "Squash merge PRs")] });
+		const layers = resolveMemoryLayers(cwd, ["team", "project"]);
+
+		expect(layers).toEqual(["project", "team"]);
+		expect(findMemoryEntry(cwd, layers, "sem_001")?.layer).toBe("project");
+		expect(findMemoryEntry(cwd, layers, "team:sem_001")?.memory).toMatchObject({ text: "Squash merge PRs" });
+		expect(findMemoryEntry(cwd, ["project"], "team:sem_001")).toBeUndefined();
+	});
+
+	test("shows origin layers in the prompt section", async () => {
+		await saveStore(cwd, "semantic.json", { memories: [semantic("sem_001", "Use tabs")] }, "project");
+		writeTeamFile("team.json", { semantic: [semantic("sem_001", "Squash merge PRs")] });
+
+		const section = buildMemoryPromptSection(cwd, "project", { layers: ["project", "team"] });
+
+		expect(section).toContain('<memory id="sem_001" layer="project"');
+		expect(section).toContain('<memory id="sem_001" layer="team"');
+		expect(section).toContain("highest precedence first: project (1), team (1)");
+	});
+
+	test("the retrieval prompt section does not change when memories are written", async () => {
+		const options = { layers: ["project", "team"] as const, retrieval: true };
+		const before = buildMemoryPromptSection(cwd, "project", options);
+		await saveStore(cwd, "semantic.json", { memories: [semantic("sem_001", "Use tabs")] }, "project");
+
+		expect(buildMemoryPromptSection(cwd, "project", options)).toBe(before);
+		expect(before).toContain("highest precedence first: project, team.");
+	});
+
+	test("skips invalid team files and reports them once", () => {
+		writeFileSync(join(getTeamMemoryDir(cwd), "broken.json"), "{");
+
+		expect(loadMemoryEntries(cwd, ["team"])).toEqual([]);
+		loadMemoryEntries(cwd, ["team"]);
+
+		const errors = drainMemoryStoreErrors();
+		expect(errors).toHaveLength(1);
+		expect(errors[0].quarantinePath).toBeUndefined();
+	});
+
+	test("memory tools refuse to change team memories", async () => {
+		writeTeamFile("team.json", { semantic: [semantic("sem_001", "Squash merge PRs")] });
+		const memoryDeleteTool = createMemoryDeleteTool(cwd, { scope: "project", layers: ["project", "team"] });
+
+		const result = await memoryDeleteTool.execute("call", { id: "sem_001" });
+
+		expect(result.details).toEqual({ deleted: false });
+		expect(result.content[0]).toMatchObject({ text: expect.stringContaining("read-only team layer") });
+		expect(loadMemoryEntries(cwd, ["team"])).toHaveLength(1);
+	});
+});
@@ -0,0 +1,100 @@
+import { cpSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	CURRENT_MEMORY_STORE_VERSION,
+	type EpisodicMemory,
+	getMemoryDir,
+	loadStore,
+	type MemoryStore,
+	migrateMemoryStore,
+	type ProceduralMemory,
+	type SemanticMemory,
+	updateStore,
+} from "../src/core/memory/index.js";
+
+const fixturesDir = join(__dirname, "fixtures/memory-v1");
+
+describe("migrateMemoryStore", () => {
+	it("should add the version and fill missing fields in v1 stores", () => {
+		const store = {
+			memories: [{ id: "sem_001", text: "a" }, { text: "b" }],
+		} as unknown as MemoryStore<SemanticMemory>;
+
+		expect(migrateMemoryStore(store, "semantic")).toBe(true);
+
+		expect(store.version).toBe(CURRENT_MEMORY_STORE_VERSION);
+		expect(store.memories[0]).toMatchObject({ id: "sem_001", category: "fact", tags: [], sourceSession: "unknown" });
+		expect(store.memories[1].id).toBe("sem_002");
+	});
+
+	it("should be idempotent (skip already migrated)", () => {
+		const store: MemoryStore<SemanticMemory> = { version: CURRENT_MEMORY_STORE_VERSION, memories: [] };
+		expect(migrateMemoryStore(store, "semantic")).toBe(false);
+	});
+
+	it("should leave stores from a newer version untouched", () => {
+		const store = { version: CURRENT_MEMORY_STORE_VERSION + 1, memories: [{ text: "x" }] };
+		expect(migrateMemoryStore(store, "semantic")).toBe(false);
+		expect(store.memories).toEqual([{ text: "x" }]);
+	});
+});
+
+describe("memory store migration on load", () => {
+	let cwd: string;
+	let dir: string;
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), "pi-memory-migration-"));
+		dir = getMemoryDir(cwd, "project");
+		mkdirSync(dir, { recursive: true });
+		cpSync(fixturesDir, dir, { recursive: true });
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+	});
+
+	it("should upgrade v1 fixture stores and write them back", () => {
+		const semantic = loadStore<SemanticMemory>(cwd, "semantic.json", "project");
+		const procedural = loadStore<ProceduralMemory>(cwd, "procedural.json", "project");
+		const episodic = loadStore<EpisodicMemory>(cwd, "episodic.json", "project");
+
+		expect(semantic.memories.map((m) => [m.id, m.category])).toEqual([
+			["sem_001", "preference"],
+			["sem_002", "fact"],
+		]);
+		expect(procedural.memories[0].tags).toEqual([]);
+		expect(procedural.memories[0].updated).toBe("2025-11-02T09:20:00.000Z");
+		expect(episodic.memories[0]).toMatchObject({ details: [], sourceSession: "unknown" });
+
+		for (const file of ["semantic.json", "procedural.json", "episodic.json"]) {
+			const onDisk = JSON.parse(readFileSync(join(dir, file), "utf-8"));
+			expect(onDisk.version).toBe(CURRENT_MEMORY_STORE_VERSION);
+		}
+	});
+
+	it("should keep a backup of the pre-migration file", () => {
+		loadStore<SemanticMemory>(cwd, "semantic.json", "project");
+
+		const backup = join(dir, "semantic.json.v1.bak");
+		expect(readFileSync(backup, "utf-8")).toBe(readFileSync(join(fixturesDir, "semantic.json"), "utf-8"));
+
+		// A later load of the already-migrated store must not overwrite the backup
+		writeFileSync(backup, "kept");
+		loadStore<SemanticMemory>(cwd, "semantic.json", "project");
+		expect(readFileSync(backup, "utf-8")).toBe("kept");
+	});
+
+	it("should migrate before applying updates", async () => {
+		await updateStore<EpisodicMemory, void>(cwd, "episodic.json", "project", (store) => {
+			store.memories[0].tags.push("flaky");
+		});
+
+		const onDisk = JSON.parse(readFileSync(join(dir, "episodic.json"), "utf-8"));
+		expect(onDisk.version).toBe(CURRENT_MEMORY_STORE_VERSION);
+		expect(onDisk.memories[0].tags).toEqual(["tests", "flaky"]);
+		expect(existsSync(join(dir, "episodic.json.v1.bak"))).toBe(true);
+	});
+});
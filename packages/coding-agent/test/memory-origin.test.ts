@@ -0,0 +1,43 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { formatMemoryEntryForDisplay, loadMemoryEntries, type MemoryOrigin } from "../src/core/memory/index.js";
+import { createMemoryUpdateTool, createMemoryWriteTool } from "../src/core/tools/memory.js";
+
+describe("memory origin", () => {
+	let cwd: string;
+	let origin: MemoryOrigin;
+	let memoryWriteTool: ReturnType<typeof createMemoryWriteTool>;
+	let memoryUpdateTool: ReturnType<typeof createMemoryUpdateTool>;
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), "pi-memory-origin-"));
+		origin = { sessionId: "0193a7c2", sessionFile: join(cwd, "session.jsonl"), entryId: "a1b2c3d4" };
+		const options = { getOrigin: () => origin, scope: "project" as const };
+		memoryWriteTool = createMemoryWriteTool(cwd, options);
+		memoryUpdateTool = createMemoryUpdateTool(cwd, options);
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+	});
+
+	test("memory_write records the session and entry", async () => {
+		await memoryWriteTool.execute("call", { type: "semantic", category: "convention", text: "Use tabs" });
+
+		const [entry] = loadMemoryEntries(cwd, ["project"]);
+		expect(entry.memory).toMatchObject({ sourceSession: "0193a7c2", origin });
+		expect(formatMemoryEntryForDisplay(entry)).toContain("Origin: session 0193a7c2, entry a1b2c3d4");
+	});
+
+	test("memory_update records the entry that changed the memory", async () => {
+		await memoryWriteTool.execute("call", { type: "semantic", category: "convention", text: "Use tabs" });
+		origin = { ...origin, entryId: "e5f6a7b8" };
+
+		await memoryUpdateTool.execute("call", { id: "sem_001", text: "Use tabs, width 3" });
+
+		const [entry] = loadMemoryEntries(cwd, ["project"]);
+		expect(entry.memory.origin).toEqual(origin);
+	});
+});
@@ -0,0 +1,87 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+	expandProcedureCommand,
+	getProcedureCommands,
+	type MemoryEntry,
+	type ProceduralEntry,
+	type ProceduralMemory,
+	promoteProcedureToSkill,
+} from "../src/core/memory/index.js";
+import { loadSkillsFromDir } from "../src/core/skills.js";
+
+function procedure(
+	id: string,
+	name: string,
+	steps: string[],
+	layer: ProceduralEntry["layer"] = "project",
+): ProceduralEntry {
+	const memory: ProceduralMemory = {
+		id,
+		name,
+		trigger: `When asked to ${name.toLowerCase()}`,
+		steps,
+		tags: [],
+		created: "2026-05-01T00:00:00.000Z",
+		updated: "2026-05-01T00:00:00.000Z",
+		sourceSession: "s",
+	};
+	return { type: "procedural", memory, layer };
+}
+
+describe("procedure commands", () => {
+	const deploy = procedure("proc_001", "Deploy to Staging!", ["Build $1", `Push \${@:2}`]);
+	const release = procedure("proc_002", "Release", ["Bump the version", "Tag it"]);
+	const entries: MemoryEntry[] = [deploy, release, procedure("proc_001", "deploy to staging", ["Other"], "global")];
+
+	test("names commands after procedures, higher layers first", () => {
+		expect(getProcedureCommands(entries).map((c) => [c.name, c.entry.layer])).toEqual([
+			["proc:deploy-to-staging", "project"],
+			["proc:release", "project"],
+		]);
+	});
+
+	test("expands placeholders in the steps", () => {
+		const expanded = expandProcedureCommand('/proc:deploy-to-staging web "eu west" us', entries);
+		expect(expanded?.entry).toBe(deploy);
+		expect(expanded?.text).toContain('<procedure name="Deploy to Staging!" id="project:proc_001">');
+		expect(expanded?.text).toContain("1. Build web\n2. Push eu west us\n</procedure>");
+	});
+
+	test("appends arguments to steps without placeholders", () => {
+		const text = expandProcedureCommand("/proc:release 2.0.0", entries)?.text;
+		expect(text).toContain("1. Bump the version\n2. Tag it\n</procedure>");
+		expect(text?.endsWith("\n\n2.0.0")).toBe(true);
+	});
+
+	test("leaves other input alone", () => {
+		expect(expandProcedureCommand("/proc:unknown", entries)).toBeUndefined();
+		expect(expandProcedureCommand("/release", entries)).toBeUndefined();
+	});
+});
+
+describe("procedure promotion", () => {
+	let skillsDir: string;
+
+	beforeEach(() => {
+		skillsDir = mkdtempSync(join(tmpdir(), "pi-memory-procedures-"));
+	});
+
+	afterEach(() => {
+		rmSync(skillsDir, { recursive: true, force: true });
+	});
+
+	test("writes a SKILL.md that loads as a skill", () => {
+		const entry = procedure("proc_003", "Run: the tests", ["npm test"]);
+		const filePath = promoteProcedureToSkill(entry, skillsDir);
+		expect(filePath).toBe(join(skillsDir, "run-the-tests", "SKILL.md"));
+
+		const { skills, diagnostics } = loadSkillsFromDir({ dir: skillsDir, source: "project" });
+		expect(diagnostics).toEqual([]);
+		expect(skills.map((s) => [s.name, s.description])).toEqual([["run-the-tests", "When asked to run: the tests"]]);
+
+		expect(() => promoteProcedureToSkill(entry, skillsDir)).toThrow("A skill already exists");
+	});
+});
@@ -0,0 +1,322 @@
+/**
+ * Memory recall evaluation harness.
+ *
+ * Runs scripted conversations through a real AgentSession whose model is a faux stream
+ * function: each call returns the next scripted reply (text and tool calls), so the
+ * memory tools, retrieval and prompt building run as in production, offline. A scenario
+ * seeds the project memory store, replays its turns and reports which memories the
+ * model was shown (injected), looked up with memory_read (read), stored (written) and
+ * stored although they repeat a memory that already existed (duplicated).
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Agent, type AgentMessage } from "@mariozechner/pi-agent-core";
+import {
+	type AssistantMessage,
+	type AssistantMessageEvent,
+	type Context,
+	EventStream,
+	getModel,
+	type ToolCall,
+} from "@mariozechner/pi-ai";
+import { AgentSession } from "../src/core/agent-session.js";
+import { AuthStorage } from "../src/core/auth-storage.js";
+import {
+	dedupeHarvestedMemories,
+	FileMemoryBackend,
+	findMemoryCitations,
+	type HarvestedMemory,
+	importMemories,
+	loadMemoryEntries,
+	type MemoryBundle,
+	type MemoryEntry,
+} from "../src/core/memory/index.js";
+import { convertToLlm } from "../src/core/messages.js";
+import { ModelRegistry } from "../src/core/model-registry.js";
+import { SessionManager } from "../src/core/session-manager.js";
+import { type Settings, SettingsManager } from "../src/core/settings-manager.js";
+import { createTestResourceLoader } from "./utilities.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** One assistant response: text, tool calls, or both */
+export interface ScriptedReply {
+	text?: string;
+	toolCalls?: Array<{ name: string; arguments: Record<string, unknown> }>;
+}
+
+export interface ScriptedTurn {
+	/** User prompt */
+	prompt: string;
+	/**
+	 * Assistant responses, in order. A turn ends with the first reply without tool calls;
+	 * if the script runs out, the assistant answers "Done."
+	 */
+	replies?: ScriptedReply[];
+}
+
+export interface RecallScenario {
+	name: string;
+	/** Memories seeded into the project store before the conversation */
+	memories: MemoryBundle;
+	/** Settings merged over the harness defaults (project scope and layer only) */
+	settings?: Settings["memory"];
+	turns: ScriptedTurn[];
+	expected: {
+		/** Memories the model should be shown, as IDs of the seeded memories */
+		relevant: string[];
+		/** Memories the script reads with memory_read */
+		read?: string[];
+		/** IDs of the memories the conversation should store */
+		written?: string[];
+		/** IDs of stored memories that repeat an existing one */
+		duplicated?: string[];
+	};
+}
+
+export interface RecallObservation {
+	/** Memory IDs in the system prompt or attached to user messages of any model call */
+	injected: string[];
+	/** Memory IDs in memory_read results */
+	read: string[];
+	/** IDs of memories stored during the conversation */
+	written: string[];
+	/** Written memories that repeat a memory stored before them (see dedupeHarvestedMemories) */
+	duplicated: string[];
+	/** Model calls made */
+	calls: number;
+}
+
+export interface RecallScore {
+	/** Share of injected memories that were relevant */
+	precision: number;
+	/** Share of relevant memories that were injected */
+	recall: number;
+	truePositives: number;
+	injected: number;
+	relevant: number;
+}
+
+// ============================================================================
+// Faux model
+// ============================================================================
+
+class FauxAssistantStream extends EventStream<AssistantMessageEvent, AssistantMessage> {
+	constructor() {
+		super(
+			(event) => event.type === "done" || event.type === "error",
+			(event) => {
+				if (event.type === "done") return event.message;
+				if (event.type === "error") return event.error;
+				throw new Error("Unexpected event type");
+			},
+		);
+	}
+}
+
+function createReplyMessage(reply: ScriptedReply, callIndex: number): AssistantMessage {
+	const toolCalls: ToolCall[] = (reply.toolCalls ?? []).map((call, i) => ({
+		type: "toolCall",
+		id: `call_${callIndex}_${i}`,
+		name: call.name,
+		arguments: call.arguments,
+	}));
+	return {
+		role: "assistant",
+		content: [...(reply.text ? [{ type: "text" as const, text: reply.text }] : []), ...toolCalls],
+		api: "anthropic-messages",
+		provider: "anthropic",
+		model: "faux",
+		usage: {
+			input: 0,
+			output: 0,
+			cacheRead: 0,
+			cacheWrite: 0,
+			totalTokens: 0,
+			cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+		},
+		stopReason: toolCalls.length > 0 ? "toolUse" : "stop",
+		timestamp: Date.now(),
+	};
+}
+
+const PROMPT_MEMORY_PATTERN = /<(?:memory|procedure|episode) id="([^"]+)"/g;
+
+/** Memory IDs shown to the model in the system prompt and user messages, not in tool results */
+function findInjectedMemoryIds(context: Context): string[] {
+	const texts = [context.systemPrompt ?? ""];
+	for (const message of context.messages) {
+		if (message.role !== "user") continue;
+		if (typeof message.content === "string") {
+			texts.push(message.content);
+		} else {
+			for (const block of message.content) {
+				if (block.type === "text") texts.push(block.text);
+			}
+		}
+	}
+	return texts.flatMap((text) => Array.from(text.matchAll(PROMPT_MEMORY_PATTERN), (match) => match[1]));
+}
+
+// ============================================================================
+// Running
+// ============================================================================
+
+/** Strip the layer from a memory reference ("project:sem_001" becomes "sem_001") */
+function toId(ref: string): string {
+	return ref.slice(ref.indexOf(":") + 1);
+}
+
+function toCandidate(entry: MemoryEntry): HarvestedMemory | undefined {
+	if (entry.type === "semantic") {
+		const { category, text, tags } = entry.memory;
+		return { type: "semantic", category, text, tags };
+	}
+	if (entry.type === "procedural") {
+		const { name, trigger, steps, tags } = entry.memory;
+		return { type: "procedural", name, trigger, steps, tags };
+	}
+	return undefined;
+}
+
+function findReadMemoryIds(messages: AgentMessage[]): string[] {
+	return messages.flatMap((message) => {
+		if (message.role !== "toolResult" || message.toolName !== "memory_read") return [];
+		const text = message.content.map((c) => (c.type === "text" ? c.text : "")).join("\n");
+		return findMemoryCitations(text).map(toId);
+	});
+}
+
+/** Seed a scenario's memories, replay its conversation and observe what happened to memories */
+export async function runRecallScenario(scenario: RecallScenario): Promise<RecallObservation> {
+	const cwd = join(tmpdir(), `pi-memory-recall-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+	mkdirSync(cwd, { recursive: true });
+	await importMemories(new FileMemoryBackend(cwd), "project", scenario.memories);
+	const seeded = loadMemoryEntries(cwd, ["project"]);
+
+	const replies = scenario.turns.map((turn) => [...(turn.replies ?? [])]);
+	let turnIndex = 0;
+	let calls = 0;
+	const injected = new Set<string>();
+	const agent = new Agent({
+		getApiKey: () => "test-key",
+		initialState: { model: getModel("anthropic", "claude-sonnet-4-5")!, systemPrompt: "", tools: [] },
+		convertToLlm,
+		streamFn: (_model, context) => {
+			for (const id of findInjectedMemoryIds(context)) injected.add(id);
+			const reply = replies[turnIndex]?.shift() ?? { text: "Done." };
+			const message = createReplyMessage(reply, calls++);
+			const stream = new FauxAssistantStream();
+			queueMicrotask(() => {
+				stream.push({ type: "start", partial: message });
+				stream.push({ type: "done", reason: message.stopReason === "toolUse" ? "toolUse" : "stop", message });
+			});
+			return stream;
+		},
+	});
+
+	const authStorage = AuthStorage.create(join(cwd, "auth.json"));
+	authStorage.setRuntimeApiKey("anthropic", "test-key");
+	const session = new AgentSession({
+		agent,
+		sessionManager: SessionManager.inMemory(),
+		settingsManager: SettingsManager.inMemory({
+			memory: {
+				scope: "project",
+				layers: ["project"],
+				capture: { enabled: false },
+				...scenario.settings,
+			},
+		}),
+		cwd,
+		modelRegistry: new ModelRegistry(authStorage, cwd),
+		resourceLoader: createTestResourceLoader(),
+	});
+
+	try {
+		for (const [i, turn] of scenario.turns.entries()) {
+			turnIndex = i;
+			await session.prompt(turn.prompt);
+		}
+
+		const seededIds = new Set(seeded.map((e) => e.memory.id));
+		const written = loadMemoryEntries(cwd, ["project"]).filter((e) => !seededIds.has(e.memory.id));
+		const duplicated: string[] = [];
+		const earlier = [...seeded];
+		for (const entry of written) {
+			const candidate = toCandidate(entry);
+			if (candidate && dedupeHarvestedMemories([candidate], earlier).length === 0) {
+				duplicated.push(entry.memory.id);
+			}
+			earlier.push(entry);
+		}
+
+		return {
+			injected: [...injected].sort(),
+			read: [...new Set(findReadMemoryIds(session.messages))].sort(),
+			written: written.map((e) => e.memory.id),
+			duplicated,
+			calls,
+		};
+	} finally {
+		session.dispose();
+		if (existsSync(cwd)) rmSync(cwd, { recursive: true });
+	}
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/** Injection precision and recall of one observation, or of several summed (micro-averaged) */
+export function scoreRecall(
+	results: ReadonlyArray<{ scenario: RecallScenario; observation: RecallObservation }>,
+): RecallScore {
+	let truePositives = 0;
+	let injected = 0;
+	let relevant = 0;
+	for (const { scenario, observation } of results) {
+		const expected = new Set(scenario.expected.relevant);
+		truePositives += observation.injected.filter((id) => expected.has(id)).length;
+		injected += observation.injected.length;
+		relevant += expected.size;
+	}
+	return {
+		// Nothing injected and nothing relevant is a perfect score
+		precision: injected === 0 ? (relevant === 0 ? 1 : 0) : truePositives / injected,
+		recall: relevant === 0 ? 1 : truePositives / relevant,
+		truePositives,
+		injected,
+		relevant,
+	};
+}
+
+function formatPercent(value: number): string {
+	return `${(value * 100).toFixed(0)}%`.padStart(5);
+}
+
+/** A table of precision and recall per scenario and over the suite */
+export function formatRecallReport(
+	results: ReadonlyArray<{ scenario: RecallScenario; observation: RecallObservation }>,
+): string {
+	const width = Math.max(5, ...results.map((r) => r.scenario.name.length));
+	const row = (name: string, score: RecallScore) =>
+		`${name.padEnd(width)}  ${formatPercent(score.precision)}  ${formatPercent(score.recall)}  ${score.truePositives}/${score.injected}/${score.relevant}`;
+	return [
+		`${"Scenario".padEnd(width)}  Prec.  Rec.   hits/injected/relevant`,
+		...results.map((result) => row(result.scenario.name, scoreRecall([result]))),
+		row("Total", scoreRecall(results)),
+	].join("\n");
+}
+
+/** Load the scenarios in a fixture directory, one JSON file each, sorted by file name */
+export function loadRecallScenarios(dir: string): RecallScenario[] {
+	return readdirSync(dir)
+		.filter((name) => name.endsWith(".json"))
+		.sort()
+		.map((name) => JSON.parse(readFileSync(join(dir, name), "utf-8")) as RecallScenario);
+}
@@ -0,0 +1,55 @@
+/**
+ * Memory recall evaluation: replays the scenarios in fixtures/memory-recall against a
+ * faux model (see memory-recall-harness.ts) and checks what happened to memories.
+ *
+ * Each scenario must read, write and avoid duplicating exactly the memories it expects.
+ * Injection is scored instead: precision and recall over the suite must not drop below
+ * the baseline. Raise the baseline when a change improves it.
+ *
+ * Set PI_MEMORY_EVAL_REPORT=1 to print precision and recall per scenario:
+ *   PI_MEMORY_EVAL_REPORT=1 npx vitest --run test/memory-recall.test.ts
+ */
+
+import { join } from "node:path";
+import { afterAll, describe, expect, test } from "vitest";
+import {
+	formatRecallReport,
+	loadRecallScenarios,
+	type RecallObservation,
+	type RecallScenario,
+	runRecallScenario,
+	scoreRecall,
+} from "./memory-recall-harness.js";
+
+/** Injection precision and recall over the suite when the baseline was last raised */
+const BASELINE = { precision: 0.75, recall: 0.85 };
+
+const scenarios = loadRecallScenarios(join(__dirname, "fixtures", "memory-recall"));
+
+describe("memory recall evaluation", () => {
+	const results: Array<{ scenario: RecallScenario; observation: RecallObservation }> = [];
+
+	afterAll(() => {
+		if (process.env.PI_MEMORY_EVAL_REPORT && results.length === scenarios.length) {
+			console.log(`Memory recall evaluation\n${formatRecallReport(results)}`);
+		}
+	});
+
+	for (const scenario of scenarios) {
+		test(scenario.name, async () => {
+			const observation = await runRecallScenario(scenario);
+			results.push({ scenario, observation });
+
+			expect(observation.read).toEqual([...(scenario.expected.read ?? [])].sort());
+			expect(observation.written).toEqual(scenario.expected.written ?? []);
+			expect(observation.duplicated).toEqual(scenario.expected.duplicated ?? []);
+		});
+	}
+
+	test("injection precision and recall stay at the baseline", () => {
+		expect(results).toHaveLength(scenarios.length);
+		const score = scoreRecall(results);
+		expect(score.precision).toBeGreaterThanOrEqual(BASELINE.precision);
+		expect(score.recall).toBeGreaterThanOrEqual(BASELINE.recall);
+	});
+});
@@ -0,0 +1,119 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AgentMessage } from "@mariozechner/pi-agent-core";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+	FileMemoryBackend,
+	formatRecording,
+	getRecordedSteps,
+	loadMemoryEntries,
+	loadMemoryHistory,
+	type ProceduralMemory,
+	saveRecordedProcedure,
+} from "../src/core/memory/index.js";
+import type { SessionEntry } from "../src/core/session-manager.js";
+
+function entry(id: string, timestamp: string, message: unknown): SessionEntry {
+	return { type: "message", id, parentId: null, timestamp, message: message as AgentMessage };
+}
+
+const entries: SessionEntry[] = [
+	entry("a", "2026-05-01T10:00:00.000Z", { role: "user", content: "Unrelated question", timestamp: 0 }),
+	entry("b", "2026-05-01T10:05:00.000Z", {
+		role: "bashExecution",
+		command: "npm version 1.2.0",
+		output: "",
+		exitCode: 0,
+		cancelled: false,
+		truncated: false,
+		timestamp: 0,
+	}),
+	entry("c", "2026-05-01T10:06:00.000Z", {
+		role: "assistant",
+		content: [
+			{ type: "text", text: "Updating the changelog" },
+			{ type: "toolCall", id: "t1", name: "edit", arguments: { path: "CHANGELOG.md" } },
+		],
+	}),
+	entry("d", "2026-05-01T10:07:00.000Z", {
+		role: "user",
+		content: [{ type: "text", text: "No, the changelog entry goes under [Unreleased]" }],
+		timestamp: 0,
+	}),
+	entry("e", "2026-05-01T10:08:00.000Z", {
+		role: "bashExecution",
+		command: "npm publish",
+		output: "",
+		exitCode: 1,
+		cancelled: false,
+		truncated: false,
+		timestamp: 0,
+	}),
+];
+
+describe("memory recording", () => {
+	test("records ! commands, tool calls and user messages since the start", () => {
+		const steps = getRecordedSteps(entries, "2026-05-01T10:05:00.000Z");
+		expect(steps).toEqual([
+			{ kind: "bash", command: "npm version 1.2.0", exitCode: 0 },
+			{ kind: "tool", name: "edit", args: '{"path":"CHANGELOG.md"}' },
+			{ kind: "correction", text: "No, the changelog entry goes under [Unreleased]" },
+			{ kind: "bash", command: "npm publish", exitCode: 1 },
+		]);
+		expect(formatRecording(steps)).toBe(
+			[
+				"1. User ran: npm version 1.2.0",
+				'2. Assistant called edit {"path":"CHANGELOG.md"}',
+				"3. User said: No, the changelog entry goes under [Unreleased]",
+				"4. User ran: npm publish (exit 1)",
+			].join("\n"),
+		);
+		expect(getRecordedSteps(entries, "2026-05-01T11:00:00.000Z")).toEqual([]);
+	});
+});
+
+describe("saving recorded procedures", () => {
+	let cwd: string;
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), "pi-memory-recording-"));
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+	});
+
+	test("a new recording of the same name replaces the procedure", async () => {
+		const origin = { sessionId: "session" };
+		const author = { kind: "command" as const, name: "/memory stop", sessionId: "session" };
+		const release = { name: "Release", trigger: "When releasing version $1", tags: ["release"] };
+
+		const backend = new FileMemoryBackend(cwd);
+		expect(
+			await saveRecordedProcedure(
+				backend,
+				"project",
+				{ ...release, steps: ["npm version $1"], appliesTo: { branches: ["main"] } },
+				origin,
+				author,
+			),
+		).toEqual({ id: "proc_001", action: "created" });
+		expect(
+			await saveRecordedProcedure(
+				backend,
+				"project",
+				{ ...release, steps: ["npm version $1", "npm publish"] },
+				origin,
+				author,
+			),
+		).toEqual({ id: "proc_001", action: "updated" });
+
+		const stored = loadMemoryEntries(cwd, ["project"]);
+		expect(stored).toHaveLength(1);
+		const procedure = stored[0].memory as ProceduralMemory;
+		expect(procedure.steps).toEqual(["npm version $1", "npm publish"]);
+		expect(procedure.appliesTo).toBeUndefined();
+		expect(loadMemoryHistory(cwd, "project").map((r) => r.author)).toEqual([author, author]);
+	});
+});
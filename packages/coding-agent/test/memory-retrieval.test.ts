@@ -0,0 +1,98 @@
+import { describe, expect, test } from "vitest";
+import {
+	createMemoryContextMessage,
+	getAttachedMemoryIds,
+	rankMemories,
+	selectMemories,
+	tokenize,
+} from "../src/core/memory/index.js";
+import { episodic, procedural, semantic, toEntry } from "./utilities.js";
+
+const NOW = new Date("2026-06-01T00:00:00.000Z").getTime();
+
+describe("tokenize", () => {
+	test("lowercases, drops stopwords and stems", () => {
+		expect(tokenize("Deploying the APIs to staging")).toEqual(["deploy", "api", "stag"]);
+	});
+});
+
+describe("rankMemories", () => {
+	test("returns only memories sharing a term with the query, best first", () => {
+		const entries = [
+			toEntry(semantic("sem_001", "Use tabs for indentation", ["style"])),
+			toEntry(
+				procedural("proc_001", "deploy-service", ["build", "push image"], {
+					trigger: "user asks to deploy",
+					tags: ["deploy"],
+				}),
+			),
+			toEntry(episodic("ep_001", "Fixed flaky login test", ["tests"])),
+		];
+
+		const ranked = rankMemories(entries, "how do I deploy the service?", NOW);
+
+		expect(ranked.map((r) => r.memory.id)).toEqual(["proc_001"]);
+	});
+
+	test("weights tag matches above free-text matches", () => {
+		const entries = [
+			toEntry(semantic("sem_001", "The database runs on port 5432")),
+			toEntry(semantic("sem_002", "Run migrations before tests", ["database"])),
+		];
+
+		const ranked = rankMemories(entries, "database", NOW);
+
+		expect(ranked[0].memory.id).toBe("sem_002");
+	});
+
+	test("boosts recent and frequently used memories", () => {
+		const old = toEntry(semantic("sem_001", "Prefer pnpm for installs", [], { created: "2025-01-01T00:00:00.000Z" }));
+		const recent = toEntry(
+			semantic("sem_002", "Prefer pnpm for installs", [], { created: "2026-05-30T00:00:00.000Z" }),
+		);
+		expect(rankMemories([old, recent], "pnpm", NOW)[0].memory.id).toBe("sem_002");
+
+		const used = toEntry(
+			semantic("sem_003", "Prefer pnpm for installs", [], { created: "2025-01-01T00:00:00.000Z" }),
+		);
+		used.memory.useCount = 20;
+		expect(rankMemories([old, used], "pnpm", NOW)[0].memory.id).toBe("sem_003");
+	});
+
+	test("returns nothing for an empty query", () => {
+		expect(rankMemories([toEntry(semantic("sem_001", "anything"))], "  the  ", NOW)).toEqual([]);
+	});
+});
+
+describe("selectMemories", () => {
+	test("respects maxMemories", () => {
+		const entries = ["a", "b", "c"].map((s, i) => toEntry(semantic(`sem_00${i}`, `lint rule ${s}`)));
+		const ranked = rankMemories(entries, "lint", NOW);
+
+		expect(selectMemories(ranked, { maxMemories: 2, tokenBudget: 10_000 })).toHaveLength(2);
+	});
+
+	test("skips memories that do not fit the token budget", () => {
+		const long = toEntry(semantic("sem_001", `lint ${"x".repeat(400)}`, ["lint"]));
+		const short = toEntry(semantic("sem_002", "lint with biome"));
+		const ranked = rankMemories([long, short], "lint", NOW);
+
+		const selected = selectMemories(ranked, { maxMemories: 10, tokenBudget: 40 });
+
+		expect(selected.map((s) => s.memory.id)).toEqual(["sem_002"]);
+	});
+});
+
+describe("memory context messages", () => {
+	test("round-trips attached memory IDs", () => {
+		const message = createMemoryContextMessage([
+			toEntry(semantic("sem_001", "Use tabs")),
+			toEntry(procedural("proc_001", "release", ["tag", "publish"], { trigger: "user asks to release" })),
+		]);
+
+		expect(message.display).toBe(false);
+		expect(message.content).toContain("<relevant_memories>");
+		expect(message.content).toContain('<procedure id="proc_001"');
+		expect(getAttachedMemoryIds([message])).toEqual(new Set(["sem_001", "proc_001"]));
+	});
+});
@@ -0,0 +1,115 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { createRequire } from "node:module";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+	getMemoryCounts,
+	getMemoryDir,
+	getMemoryStorageFormat,
+	loadStore,
+	migrateMemoryStorage,
+	type ProceduralMemory,
+	type SemanticMemory,
+	saveStore,
+	searchMemoryEntries,
+	updateStore,
+} from "../src/core/memory/index.js";
+import { SettingsManager } from "../src/core/settings-manager.js";
+import { procedural, semantic } from "./utilities.js";
+
+function hasSqlite(): boolean {
+	try {
+		createRequire(import.meta.url)("node:sqlite");
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+describe.skipIf(!hasSqlite())("sqlite memory storage", () => {
+	let cwd: string;
+	let dir: string;
+
+	beforeEach(async () => {
+		cwd = mkdtempSync(join(tmpdir(), "pi-memory-sqlite-"));
+		dir = getMemoryDir(cwd, "project");
+		await saveStore(
+			cwd,
+			"semantic.json",
+			{ memories: [semantic("sem_001", "Use tabs"), semantic("sem_002", "Deploy with make release")] },
+			"project",
+		);
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+	});
+
+	test("migrates JSON stores to a database and back, keeping the old stores", async () => {
+		expect(await migrateMemoryStorage(cwd, "project", "sqlite")).toBe(2);
+		expect(getMemoryStorageFormat(cwd, "project")).toBe("sqlite");
+		expect(existsSync(join(dir, "semantic.json"))).toBe(false);
+		expect(existsSync(join(dir, "semantic.json.pre-sqlite.bak"))).toBe(true);
+		expect(await migrateMemoryStorage(cwd, "project", "sqlite")).toBeUndefined();
+
+		expect(await migrateMemoryStorage(cwd, "project", "json")).toBe(2);
+		expect(getMemoryStorageFormat(cwd, "project")).toBe("json");
+		expect(existsSync(join(dir, "memory.db.pre-json.bak"))).toBe(true);
+		const store = JSON.parse(readFileSync(join(dir, "semantic.json"), "utf-8"));
+		expect(store.memories.map((m: SemanticMemory) => m.id)).toEqual(["sem_001", "sem_002"]);
+	});
+
+	test("reads, updates and counts memories in a database", async () => {
+		await migrateMemoryStorage(cwd, "project", "sqlite");
+
+		await updateStore<SemanticMemory, void>(cwd, "semantic.json", "project", (store) => {
+			store.memories = store.memories.filter((m) => m.id !== "sem_001");
+			store.memories.unshift(semantic("sem_003", "Line width 120"));
+			store.memories[1].text = "Deploy with npm run release";
+		});
+
+		const store = loadStore<SemanticMemory>(cwd, "semantic.json", "project");
+		expect(store.memories.map((m) => [m.id, m.text])).toEqual([
+			["sem_003", "Line width 120"],
+			["sem_002", "Deploy with npm run release"],
+		]);
+		expect(getMemoryCounts(cwd, "project")).toEqual({ semantic: 2, procedural: 0, episodic: 0, total: 2 });
+		expect(existsSync(join(dir, "semantic.json"))).toBe(false);
+	});
+
+	test("keyword search uses the full-text index", async () => {
+		await migrateMemoryStorage(cwd, "project", "sqlite");
+		await updateStore<SemanticMemory, void>(cwd, "semantic.json", "project", (store) => {
+			store.memories[1].text = "Deploy with npm run release";
+		});
+
+		const ids = async (query: string) => (await searchMemoryEntries(cwd, ["project"], query)).map((e) => e.memory.id);
+		expect(await ids("RELEASE npm")).toEqual(["sem_002"]);
+		expect(await ids("make")).toEqual([]);
+		expect(await ids("ta")).toEqual(["sem_001"]);
+	});
+
+	test("keyword matches in one store do not match a memory with the same ID in another", async () => {
+		await migrateMemoryStorage(cwd, "project", "sqlite");
+		await updateStore<ProceduralMemory, void>(cwd, "procedural.json", "project", (store) => {
+			store.memories.push(procedural("sem_001", "rollback"));
+		});
+
+		const found = async (query: string) =>
+			(await searchMemoryEntries(cwd, ["project"], query)).map((e) => [e.type, e.memory.id]);
+		expect(await found("tabs")).toEqual([["semantic", "sem_001"]]);
+		expect(await found("rollback")).toEqual([["procedural", "sem_001"]]);
+	});
+});
+
+describe.skipIf(hasSqlite())("sqlite memory storage without node:sqlite", () => {
+	test("falls back to JSON stores and reports the setting", () => {
+		const settingsManager = SettingsManager.inMemory({ memory: { backend: "sqlite" } });
+
+		expect(settingsManager.getMemoryBackend()).toBe("json");
+		const errors = settingsManager.drainErrors();
+		expect(errors).toHaveLength(1);
+		expect(errors[0].error.message).toContain('memory.backend "sqlite" requires Node.js 22.5 or later');
+	});
+});
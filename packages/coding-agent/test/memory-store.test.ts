@@ -0,0 +1,127 @@
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import lockfile from "proper-lockfile";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+	drainMemoryStoreErrors,
+	getMemoryDir,
+	loadStore,
+	type SemanticMemory,
+	saveStore,
+	updateStore,
+} from "../src/core/memory/index.js";
+import { semantic } from "./utilities.js";
+
+describe("memory store", () => {
+	let cwd: string;
+	let dir: string;
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), "pi-memory-store-"));
+		dir = getMemoryDir(cwd, "project");
+		drainMemoryStoreErrors();
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+	});
+
+	function readIds(): string[] {
+		const store = JSON.parse(readFileSync(join(dir, "semantic.json"), "utf-8"));
+		return store.memories.map((m: SemanticMemory) => m.id);
+	}
+
+	test("writes atomically without leaving temp or lock files behind", async () => {
+		await saveStore(cwd, "semantic.json", { memories: [semantic("sem_001", "a")] }, "project");
+		await updateStore<SemanticMemory, void>(cwd, "semantic.json", "project", (store) => {
+			store.memories.push(semantic("sem_002", "b"));
+		});
+
+		expect(readdirSync(dir)).toEqual(["history.jsonl", "semantic.json"]);
+		expect(readIds()).toEqual(["sem_001", "sem_002"]);
+	});
+
+	test("updateStore applies mutations to the latest state on disk", async () => {
+		const stale = loadStore<SemanticMemory>(cwd, "semantic.json", "project");
+		await updateStore<SemanticMemory, void>(cwd, "semantic.json", "project", (store) => {
+			store.memories.push(semantic("sem_001", "from another writer"));
+		});
+
+		const id = await updateStore<SemanticMemory, number>(cwd, "semantic.json", "project", (store) => {
+			store.memories.push(semantic(`sem_00${store.memories.length + 1}`, "ours"));
+			return store.memories.length;
+		});
+
+		expect(stale.memories).toEqual([]);
+		expect(id).toBe(2);
+		expect(readIds()).toEqual(["sem_001", "sem_002"]);
+	});
+
+	test("updateStore waits for a held lock without blocking the event loop", async () => {
+		await saveStore(cwd, "semantic.json", { memories: [semantic("sem_001", "a")] }, "project");
+		const release = lockfile.lockSync(join(dir, "semantic.json"), { realpath: false });
+		let ticks = 0;
+		const timer = setInterval(() => {
+			if (++ticks === 3) release();
+		}, 10);
+
+		try {
+			await updateStore<SemanticMemory, void>(cwd, "semantic.json", "project", (store) => {
+				store.memories.push(semantic("sem_002", "b"));
+			});
+		} finally {
+			clearInterval(timer);
+		}
+
+		expect(ticks).toBeGreaterThanOrEqual(3);
+		expect(readIds()).toEqual(["sem_001", "sem_002"]);
+	});
+
+	test("saveStore merges changes made on disk since the store was loaded", async () => {
+		await saveStore(
+			cwd,
+			"semantic.json",
+			{ memories: [semantic("sem_001", "keep"), semantic("sem_002", "edit"), semantic("sem_003", "drop")] },
+			"project",
+		);
+		const ours = loadStore<SemanticMemory>(cwd, "semantic.json", "project");
+		const theirs = loadStore<SemanticMemory>(cwd, "semantic.json", "project");
+
+		theirs.memories[0].text = "edited by them";
+		theirs.memories.push(semantic("sem_004", "added by them"));
+		await saveStore(cwd, "semantic.json", theirs, "project");
+
+		ours.memories[1].text = "edited by us";
+		ours.memories = ours.memories.filter((m) => m.id !== "sem_003");
+		ours.memories.push(semantic("sem_004", "added by us"));
+		await saveStore(cwd, "semantic.json", ours, "project");
+
+		const merged = loadStore<SemanticMemory>(cwd, "semantic.json", "project").memories;
+		expect(merged.map((m) => [m.id, m.text])).toEqual([
+			["sem_001", "edited by them"],
+			["sem_002", "edited by us"],
+			["sem_004", "added by them"],
+			["sem_005", "added by us"],
+		]);
+		expect(ours.memories).toEqual(merged);
+	});
+
+	test("quarantines a corrupt store instead of treating it as empty", async () => {
+		mkdirSync(dir, { recursive: true });
+		writeFileSync(join(dir, "semantic.json"), '{"memories": [{"id": "sem_0');
+
+		const store = loadStore<SemanticMemory>(cwd, "semantic.json", "project");
+		const errors = drainMemoryStoreErrors();
+
+		expect(store.memories).toEqual([]);
+		expect(errors).toHaveLength(1);
+		expect(errors[0].filepath).toBe(join(dir, "semantic.json"));
+		expect(existsSync(join(dir, "semantic.json"))).toBe(false);
+		expect(readFileSync(errors[0].quarantinePath!, "utf-8")).toBe('{"memories": [{"id": "sem_0');
+
+		await saveStore(cwd, "semantic.json", { memories: [semantic("sem_001", "new")] }, "project");
+		expect(readFileSync(errors[0].quarantinePath!, "utf-8")).toBe('{"memories": [{"id": "sem_0');
+		expect(drainMemoryStoreErrors()).toEqual([]);
+	});
+});
@@ -0,0 +1,114 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+	CURRENT_MEMORY_STORE_VERSION,
+	exportMemories,
+	FileMemoryBackend,
+	formatMemoryImportDiff,
+	getMemoryDir,
+	importMemories,
+	loadStore,
+	readMemoryBundle,
+	type SemanticMemory,
+	saveStore,
+} from "../src/core/memory/index.js";
+import { procedural, semantic } from "./utilities.js";
+
+describe("memory export and import", () => {
+	let source: string;
+	let target: string;
+
+	beforeEach(() => {
+		source = mkdtempSync(join(tmpdir(), "pi-memory-export-"));
+		target = mkdtempSync(join(tmpdir(), "pi-memory-import-"));
+	});
+
+	afterEach(() => {
+		rmSync(source, { recursive: true, force: true });
+		rmSync(target, { recursive: true, force: true });
+	});
+
+	test("exports all memory types with provenance and reads them back", async () => {
+		await saveStore(source, "semantic.json", { memories: [semantic("sem_001", "Use tabs")] }, "project");
+		await saveStore(source, "procedural.json", { memories: [procedural("proc_001", "release")] }, "project");
+		const file = join(source, "out", "memories.json");
+
+		await exportMemories(new FileMemoryBackend(source), ["project"], file, source);
+		const bundle = readMemoryBundle(file);
+
+		expect(bundle.version).toBe(CURRENT_MEMORY_STORE_VERSION);
+		expect(bundle.provenance).toMatchObject({ cwd: source, layers: ["project"] });
+		expect(bundle.semantic?.map((m) => m.id)).toEqual(["sem_001"]);
+		expect(bundle.procedural?.map((m) => m.id)).toEqual(["proc_001"]);
+		expect(bundle.episodic).toEqual([]);
+	});
+
+	test("skips memories with the same content and remaps colliding IDs", async () => {
+		await saveStore(
+			target,
+			"semantic.json",
+			{ memories: [semantic("sem_001", "Use tabs"), semantic("sem_002", "Run biome")] },
+			"project",
+		);
+		const bundle = {
+			semantic: [
+				semantic("sem_001", "  use TABS "),
+				semantic("sem_002", "Squash merge PRs"),
+				semantic("sem_007", "Release on tuesdays"),
+			],
+		};
+
+		const backend = new FileMemoryBackend(target);
+		const result = await importMemories(backend, "project", bundle);
+
+		expect(result.duplicates).toEqual([{ type: "semantic", originalId: "sem_001", existingId: "sem_001" }]);
+		expect(result.added.map((e) => [e.originalId, e.memory.id])).toEqual([
+			["sem_002", "sem_003"],
+			["sem_007", "sem_007"],
+		]);
+		const stored = loadStore<SemanticMemory>(target, "semantic.json", "project").memories;
+		expect(stored.map((m) => [m.id, m.text])).toEqual([
+			["sem_001", "Use tabs"],
+			["sem_002", "Run biome"],
+			["sem_003", "Squash merge PRs"],
+			["sem_007", "Release on tuesdays"],
+		]);
+
+		// Importing the same bundle again adds nothing
+		expect((await importMemories(backend, "project", bundle)).added).toEqual([]);
+	});
+
+	test("dry run reports the diff without writing", async () => {
+		await saveStore(target, "semantic.json", { memories: [semantic("sem_001", "Use tabs")] }, "project");
+		const before = readFileSync(join(getMemoryDir(target, "project"), "semantic.json"), "utf-8");
+
+		const result = await importMemories(
+			new FileMemoryBackend(target),
+			"project",
+			{ semantic: [semantic("sem_001", "Squash merge PRs")], procedural: [procedural("proc_001", "release")] },
+			{ dryRun: true },
+		);
+
+		expect(readFileSync(join(getMemoryDir(target, "project"), "semantic.json"), "utf-8")).toBe(before);
+		expect(loadStore(target, "procedural.json", "project").memories).toEqual([]);
+		expect(formatMemoryImportDiff(result)).toBe(
+			[
+				"Would import 2 memories into project scope (0 duplicates skipped)",
+				"+ [proc_001] release -- user asks to release",
+				"+ [sem_001 -> sem_002] (convention) Squash merge PRs",
+			].join("\n"),
+		);
+	});
+
+	test("migrates v1 bundles and rejects files that are not bundles", () => {
+		const v1 = join(source, "v1.json");
+		writeFileSync(v1, JSON.stringify({ semantic: [{ id: "sem_001", text: "Use tabs" }] }));
+		expect(readMemoryBundle(v1).semantic?.[0]).toMatchObject({ category: "fact", tags: [] });
+
+		const invalid = join(source, "invalid.json");
+		writeFileSync(invalid, JSON.stringify({ memories: [] }));
+		expect(() => readMemoryBundle(invalid)).toThrow(/Invalid memory bundle/);
+	});
+});
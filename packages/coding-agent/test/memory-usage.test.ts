@@ -0,0 +1,149 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+	archiveStaleMemories,
+	buildMemoryPromptSection,
+	FileMemoryBackend,
+	findMemoryCitations,
+	getMemoryUsageStats,
+	importMemories,
+	loadMemoryEntries,
+	loadMemoryHistory,
+	recordMemoryUsage,
+	type SemanticMemory,
+	selectRelevantMemories,
+} from "../src/core/memory/index.js";
+import { createAgentSession } from "../src/core/sdk.js";
+import { SessionManager } from "../src/core/session-manager.js";
+import { SettingsManager } from "../src/core/settings-manager.js";
+import { createMemoryReadTool } from "../src/core/tools/memory.js";
+import { semantic } from "./utilities.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse("2026-06-01T00:00:00.000Z");
+
+function fact(id: string, text: string, daysAgo: number, extra: Partial<SemanticMemory> = {}): SemanticMemory {
+	return semantic(id, text, ["style"], { created: new Date(NOW - daysAgo * DAY).toISOString(), ...extra });
+}
+
+describe("memory usage", () => {
+	let cwd: string;
+	let backend: FileMemoryBackend;
+
+	beforeEach(async () => {
+		cwd = mkdtempSync(join(tmpdir(), "pi-memory-usage-"));
+		backend = new FileMemoryBackend(cwd);
+		await importMemories(backend, "project", {
+			semantic: [
+				fact("sem_001", "Use tabs for indentation", 200),
+				fact("sem_002", "Prefer named exports", 200, { pinned: true }),
+				fact("sem_003", "Run the linter before committing", 2),
+			],
+		});
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+	});
+
+	const memory = (id: string) => loadMemoryEntries(cwd, ["project"]).find((e) => e.memory.id === id)!.memory;
+
+	test("archives stale memories but keeps pinned and recent ones", async () => {
+		const archived = await archiveStaleMemories(backend, ["project"], 90, NOW);
+
+		expect(archived.map((e) => e.memory.id)).toEqual(["sem_001"]);
+		expect(memory("sem_001").archived).toBe(new Date(NOW).toISOString());
+		expect(memory("sem_002").archived).toBeUndefined();
+		expect(loadMemoryHistory(cwd, "project").at(-1)).toMatchObject({
+			action: "update",
+			memoryId: "sem_001",
+			author: { kind: "archive" },
+		});
+
+		const entries = loadMemoryEntries(cwd, ["project"]);
+		const relevant = selectRelevantMemories(entries, "indentation tabs", { maxMemories: 10, tokenBudget: 1000 });
+		expect(relevant.map((e) => e.memory.id)).not.toContain("sem_001");
+		expect(buildMemoryPromptSection(cwd, "project")).not.toContain("Use tabs");
+	});
+
+	test("records uses without history and revives archived memories", async () => {
+		await archiveStaleMemories(backend, ["project"], 90, NOW);
+		const historyLength = loadMemoryHistory(cwd, "project").length;
+
+		const entries = loadMemoryEntries(cwd, ["project"]);
+		await recordMemoryUsage(backend, [...entries, ...entries.filter((e) => e.memory.id === "sem_003")], NOW);
+
+		expect(memory("sem_003")).toMatchObject({ useCount: 2, lastUsedAt: new Date(NOW).toISOString() });
+		expect(memory("sem_001").archived).toBeUndefined();
+		const history = loadMemoryHistory(cwd, "project").slice(historyLength);
+		expect(history.map((r) => [r.action, r.memoryId, r.author?.kind])).toEqual([["update", "sem_001", "usage"]]);
+	});
+
+	test("memory_read hands its uses to recordUsage instead of writing them", async () => {
+		const queued: string[] = [];
+		const read = createMemoryReadTool(cwd, {
+			backend,
+			scope: "project",
+			recordUsage: async (entries) => {
+				queued.push(...entries.map((e) => e.memory.id));
+			},
+		});
+		await read.execute("call", { query: "linter" });
+
+		expect(queued).toEqual(["sem_003"]);
+		expect(memory("sem_003").useCount).toBeUndefined();
+	});
+
+	test("memory_read records the memories it returns", async () => {
+		const read = createMemoryReadTool(cwd, { backend, scope: "project" });
+		await read.execute("call", { id: "sem_002" });
+		await read.execute("call", { query: "linter" });
+		await read.execute("call", {});
+
+		expect(memory("sem_001").useCount).toBeUndefined();
+		expect(memory("sem_002").useCount).toBe(1);
+		expect(memory("sem_003").useCount).toBe(1);
+	});
+
+	test("memories inlined into the system prompt are not counted as used", async () => {
+		const { session } = await createAgentSession({
+			cwd,
+			agentDir: cwd,
+			sessionManager: SessionManager.inMemory(),
+			settingsManager: SettingsManager.inMemory({
+				memory: {
+					scope: "project",
+					layers: ["project"],
+					retrieval: { enabled: false },
+					archive: { enabled: false },
+				},
+			}),
+			memoryBackend: backend,
+		});
+		session.dispose();
+
+		expect(session.systemPrompt).toContain("Run the linter");
+		expect(memory("sem_003").useCount).toBeUndefined();
+	});
+
+	test("finds citations and counts memories by temperature", async () => {
+		expect(findMemoryCitations("Per [sem_003] and [project:proc_012], not sem_001 or [sem_003].")).toEqual([
+			"sem_003",
+			"project:proc_012",
+		]);
+
+		await archiveStaleMemories(backend, ["project"], 90, NOW);
+		await recordMemoryUsage(
+			backend,
+			loadMemoryEntries(cwd, ["project"]).filter((e) => e.memory.id === "sem_003"),
+			NOW,
+		);
+		const stats = getMemoryUsageStats(loadMemoryEntries(cwd, ["project"]), NOW);
+		expect(stats.counts.semantic).toEqual({ hot: 1, warm: 0, cold: 1, archived: 1 });
+		expect(stats.neverUsed).toBe(2);
+		expect(stats.mostUsed.map((e) => e.memory.id)).toEqual(["sem_003"]);
+		expect(stats.coldest.map((e) => e.memory.id)).toEqual(["sem_002", "sem_003"]);
+	});
+});
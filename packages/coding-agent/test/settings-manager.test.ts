@@ -244,4 +244,27 @@ describe("SettingsManager", () => {
 			expect(savedSettings.theme).toBe("light");
 		});
 	});
+
+	describe("memory.capture", () => {
+		it("should be off unless enabled in settings", () => {
+			expect(SettingsManager.create(projectDir, agentDir).getMemoryCaptureSettings()).toEqual({
+				enabled: false,
+				idleMinutes: 0,
+			});
+
+			writeFileSync(join(agentDir, "settings.json"), JSON.stringify({ memory: { capture: { enabled: true } } }));
+
+			expect(SettingsManager.create(projectDir, agentDir).getMemoryCaptureSettings().enabled).toBe(true);
+		});
+	});
+
+	describe("memory.harvest", () => {
+		it("should be off unless enabled in settings", () => {
+			expect(SettingsManager.create(projectDir, agentDir).getMemoryHarvestSettings()).toEqual({ enabled: false });
+
+			writeFileSync(join(agentDir, "settings.json"), JSON.stringify({ memory: { harvest: { enabled: true } } }));
+
+			expect(SettingsManager.create(projectDir, agentDir).getMemoryHarvestSettings()).toEqual({ enabled: true });
+		});
+	});
 });
@@ -0,0 +1,106 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AgentMessage } from "@mariozechner/pi-agent-core";
+import { describe, expect, test } from "vitest";
+import { convertToLlm } from "../src/core/messages.js";
+import { createAgentSession } from "../src/core/sdk.js";
+import { SessionManager } from "../src/core/session-manager.js";
+import { SettingsManager } from "../src/core/settings-manager.js";
+import { buildSystemPrompt } from "../src/core/system-prompt.js";
+import {
+	createTimeContextMessage,
+	formatDuration,
+	formatTime,
+	TIME_CONTEXT_CUSTOM_TYPE,
+} from "../src/core/time-awareness.js";
+
+const NOW = Date.UTC(2026, 9, 18, 12, 2, 11);
+const MINUTE = 60_000;
+
+function user(text: string, timestamp: number): AgentMessage {
+	return { role: "user", content: [{ type: "text", text }], timestamp };
+}
+
+describe("time formatting", () => {
+	test("formats in the configured timezone", () => {
+		expect(formatTime(NOW, { timezone: "Europe/Berlin" })).toBe("2026-10-18T14:02:11+02:00");
+		expect(formatTime(NOW, { timezone: "UTC" })).toBe("2026-10-18T12:02:11+00:00");
+		expect(formatTime(NOW, { timezone: "America/New_York", format: "readable" })).toBe(
+			"Sun, Oct 18, 2026, 08:02 EDT",
+		);
+	});
+
+	test("falls back to the system timezone for an unknown one", () => {
+		expect(formatTime(NOW, { timezone: "Not/AZone" })).toBe(formatTime(NOW));
+	});
+
+	test("formats durations in their two largest units", () => {
+		expect(formatDuration(30_000)).toBe("less than a minute");
+		expect(formatDuration(45 * MINUTE)).toBe("45 minutes");
+		expect(formatDuration(61 * MINUTE)).toBe("1 hour 1 minute");
+		expect(formatDuration((2 * 24 * 60 + 5) * MINUTE)).toBe("2 days");
+	});
+});
+
+describe("time context messages", () => {
+	const options = { timezone: "Europe/Berlin", gapMinutes: 10 };
+
+	test("are only created after an idle gap", () => {
+		expect(createTimeContextMessage([], options, NOW)).toBeUndefined();
+		expect(createTimeContextMessage([user("hi", NOW - 9 * MINUTE)], options, NOW)).toBeUndefined();
+
+		const message = createTimeContextMessage([user("hi", NOW - 125 * MINUTE)], options, NOW);
+		expect(message).toMatchObject({
+			role: "custom",
+			customType: TIME_CONTEXT_CUSTOM_TYPE,
+			display: false,
+			details: { gapMs: 125 * MINUTE, timezone: "Europe/Berlin" },
+		});
+		expect(message?.content).toBe(`<time_context>
+Current time: 2026-10-18T14:02:11+02:00 (Europe/Berlin)
+The previous message was 2 hours 5 minutes ago.
+</time_context>`);
+	});
+
+	test("user messages reach the model unchanged", () => {
+		const messages = [user("[WIP] fix the parser", NOW - 60 * MINUTE), user("hello", NOW)];
+		expect(convertToLlm(messages)).toEqual(messages);
+	});
+});
+
+describe("time awareness settings", () => {
+	test("default to ISO times and a ten minute gap", () => {
+		const settings = SettingsManager.inMemory().getTimeAwarenessSettings();
+		expect(settings).toEqual({ enabled: true, timezone: undefined, format: "iso", gapMinutes: 10 });
+	});
+
+	test("control the system prompt time and explanation", () => {
+		const prompt = buildSystemPrompt({
+			memoryEnabled: false,
+			time: { timezone: "Asia/Tokyo" },
+			timeContext: true,
+		});
+		expect(prompt).toMatch(/Current date and time: \d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\+09:00/);
+		expect(prompt).toContain("<time_context>");
+		expect(buildSystemPrompt({ memoryEnabled: false })).not.toContain("<time_context>");
+	});
+	test("turned off, the session prompt keeps the long English time", async () => {
+		const cwd = mkdtempSync(join(tmpdir(), "pi-time-awareness-"));
+		try {
+			const { session } = await createAgentSession({
+				cwd,
+				agentDir: cwd,
+				sessionManager: SessionManager.inMemory(),
+				settingsManager: SettingsManager.inMemory({
+					timeAwareness: { enabled: false, format: "iso" },
+					memory: { enabled: false },
+				}),
+			});
+			expect(session.systemPrompt).toMatch(/Current date and time: [A-Z][a-z]+day, [A-Z][a-z]+ \d+, \d{4} at /);
+			expect(session.systemPrompt).not.toContain("<time_context>");
+		} finally {
+			rmSync(cwd, { recursive: true, force: true });
+		}
+	});
+});
@@ -10,6 +10,13 @@ import { getModel, getOAuthApiKey, type OAuthCredentials, type OAuthProvider } f
 import { AgentSession } from "../src/core/agent-session.js";
 import { AuthStorage } from "../src/core/auth-storage.js";
 import { createExtensionRuntime } from "../src/core/extensions/loader.js";
+import type {
+	EpisodicMemory,
+	MemoryEntry,
+	MemoryLayer,
+	ProceduralMemory,
+	SemanticMemory,
+} from "../src/core/memory/index.js";
 import { ModelRegistry } from "../src/core/model-registry.js";
 import type { ResourceLoader } from "../src/core/resource-loader.js";
 import { SessionManager } from "../src/core/session-manager.js";
@@ -275,3 +282,71 @@ export function buildTestTree(
 
 	return ids;
 }
+
+// ============================================================================
+// Memory fixtures
+// ============================================================================
+
+const MEMORY_FIXTURE_DATE = "2026-05-01T00:00:00.000Z";
+
+/**
+ * Create a semantic memory for testing: a convention stored on 2026-05-01.
+ */
+export function semantic(
+	id: string,
+	text: string,
+	tags: string[] = [],
+	fields: Partial<SemanticMemory> = {},
+): SemanticMemory {
+	return { id, category: "convention", text, tags, created: MEMORY_FIXTURE_DATE, sourceSession: "s", ...fields };
+}
+
+/**
+ * Create a procedural memory for testing, triggered when the user asks for it by name.
+ */
+export function procedural(
+	id: string,
+	name: string,
+	steps: string[] = [`run ${name}`],
+	fields: Partial<ProceduralMemory> = {},
+): ProceduralMemory {
+	return {
+		id,
+		name,
+		trigger: `user asks to ${name}`,
+		steps,
+		tags: [],
+		created: MEMORY_FIXTURE_DATE,
+		updated: MEMORY_FIXTURE_DATE,
+		sourceSession: "s",
+		...fields,
+	};
+}
+
+/**
+ * Create an episodic memory for testing.
+ */
+export function episodic(
+	id: string,
+	summary: string,
+	tags: string[] = [],
+	fields: Partial<EpisodicMemory> = {},
+): EpisodicMemory {
+	return { id, summary, details: [], tags, date: "2026-05-01", sourceSession: "s", ...fields };
+}
+
+/**
+ * Wrap a memory created by semantic, procedural or episodic as a loaded entry.
+ */
+export function toEntry(memory: SemanticMemory | ProceduralMemory | EpisodicMemory, layer?: MemoryLayer): MemoryEntry {
+	if ("text" in memory) return { type: "semantic", memory, layer };
+	if ("steps" in memory) return { type: "procedural", memory, layer };
+	return { type: "episodic", memory, layer };
+}
+
+/**
+ * Get the text content of a tool result.
+ */
+export function getText(result: { content: Array<{ type: string; text?: string }> }): string {
+	return result.content.map((c) => c.text ?? "").join("\n");
+}